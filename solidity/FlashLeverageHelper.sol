@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * One-transaction leverage on a single Yei (Aave V3) reserve using flashLoanSimple
+ *
+ * open:  pull the deposit, flash-borrow the extra collateral, supply deposit + flash for the caller,
+ *        borrow flash + premium against it (caller's credit delegation) to repay the flash loan
+ * close: flash-borrow the debt, repay it for the caller, pull the caller's aTokens, withdraw everything,
+ *        repay the flash loan and send what is left to the caller
+ *
+ * Deploy with the Pool address and set it as yeiFinance.FLASH_LEVERAGE_HELPER in the networks file.
+ * Holds no funds between transactions; every position belongs to msg.sender.
+ */
+
+interface IPool {
+    function flashLoanSimple(address receiverAddress, address asset, uint256 amount, bytes calldata params, uint16 referralCode) external;
+    function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode) external;
+    function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf) external;
+    function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) external returns (uint256);
+    function withdraw(address asset, uint256 amount, address to) external returns (uint256);
+}
+
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+    function approve(address spender, uint256 amount) external returns (bool);
+}
+
+contract FlashLeverageHelper {
+    uint8 private constant OPEN = 1;
+    uint8 private constant CLOSE = 2;
+    uint256 private constant VARIABLE_RATE_MODE = 2;
+
+    IPool public immutable pool;
+
+    constructor(IPool pool_) {
+        pool = pool_;
+    }
+
+    /// Supply `deposit + flashAmount` and borrow `flashAmount + premium` for the caller in one transaction
+    function openLeverage(address asset, uint256 deposit, uint256 flashAmount) external {
+        _safeTransferFrom(asset, msg.sender, address(this), deposit);
+        pool.flashLoanSimple(address(this), asset, flashAmount, abi.encode(OPEN, msg.sender, deposit, address(0)), 0);
+    }
+
+    /// Repay the caller's debt (up to `flashAmount`), withdraw all collateral and return the rest
+    function closeLeverage(address asset, address aToken, uint256 flashAmount) external {
+        pool.flashLoanSimple(address(this), asset, flashAmount, abi.encode(CLOSE, msg.sender, uint256(0), aToken), 0);
+
+        uint256 rest = IERC20(asset).balanceOf(address(this));
+        if (rest > 0) {
+            _safeTransfer(asset, msg.sender, rest);
+        }
+    }
+
+    /// Flash loan callback; only loans this contract started itself are accepted
+    function executeOperation(
+        address asset,
+        uint256 amount,
+        uint256 premium,
+        address initiator,
+        bytes calldata params
+    ) external returns (bool) {
+        require(msg.sender == address(pool) && initiator == address(this), "untrusted flash loan");
+        (uint8 action, address user, uint256 deposit, address aToken) = abi.decode(params, (uint8, address, uint256, address));
+        uint256 owed = amount + premium;
+
+        if (action == OPEN) {
+            _forceApprove(asset, address(pool), deposit + amount);
+            pool.supply(asset, deposit + amount, user, 0);
+            pool.borrow(asset, owed, VARIABLE_RATE_MODE, 0, user);
+        } else if (action == CLOSE) {
+            // The Pool caps an explicit repay at the debt, so the flash amount may carry a buffer
+            // (and leave part of this allowance unused)
+            _forceApprove(asset, address(pool), amount);
+            pool.repay(asset, amount, VARIABLE_RATE_MODE, user);
+            _safeTransferFrom(aToken, user, address(this), IERC20(aToken).balanceOf(user));
+            pool.withdraw(asset, type(uint256).max, address(this));
+        } else {
+            revert("unknown action");
+        }
+
+        _forceApprove(asset, address(pool), owed);
+        return true;
+    }
+
+    /// SafeERC20-style approve: tokens that refuse to change a non-zero allowance (USDT) are reset to 0 first,
+    /// and a false return value fails instead of being ignored
+    function _forceApprove(address token, address spender, uint256 value) private {
+        if (!_callOptionalReturn(token, abi.encodeCall(IERC20.approve, (spender, value)))) {
+            require(_callOptionalReturn(token, abi.encodeCall(IERC20.approve, (spender, 0))), "approve failed");
+            require(_callOptionalReturn(token, abi.encodeCall(IERC20.approve, (spender, value))), "approve failed");
+        }
+    }
+
+    function _safeTransfer(address token, address to, uint256 amount) private {
+        require(_callOptionalReturn(token, abi.encodeCall(IERC20.transfer, (to, amount))), "transfer failed");
+    }
+
+    function _safeTransferFrom(address token, address from, address to, uint256 amount) private {
+        require(_callOptionalReturn(token, abi.encodeCall(IERC20.transferFrom, (from, to, amount))), "transferFrom failed");
+    }
+
+    /// Call a token that may return a bool or nothing; false when it reverts or returns false
+    function _callOptionalReturn(address token, bytes memory data) private returns (bool) {
+        (bool success, bytes memory returndata) = token.call(data);
+        if (!success) {
+            return false;
+        }
+        if (returndata.length == 0) {
+            return token.code.length > 0;
+        }
+        return returndata.length == 32 && abi.decode(returndata, (bool));
+    }
+}
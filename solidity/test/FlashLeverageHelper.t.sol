@@ -0,0 +1,198 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {FlashLeverageHelper, IPool} from "../FlashLeverageHelper.sol";
+
+/**
+ * FlashLeverageHelper against a minimal Aave V3 Pool mock (forge test, no external libraries)
+ * The test contract is the user: it holds the tokens, the aTokens and the debt.
+ */
+
+contract MockToken {
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+    bool public strictApprove; // USDT rule: a non-zero allowance must be reset to 0 before changing it
+    bool public rejectApprove; // approve returns false
+
+    function setApproveRules(bool strict, bool reject) external {
+        strictApprove = strict;
+        rejectApprove = reject;
+    }
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        if (rejectApprove) {
+            return false;
+        }
+        require(!strictApprove || amount == 0 || allowance[msg.sender][spender] == 0, "non-zero allowance");
+        allowance[msg.sender][spender] = amount;
+        return true;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        allowance[from][msg.sender] -= amount;
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+}
+
+contract MockAToken is MockToken {
+    address public immutable pool;
+
+    constructor(address pool_) {
+        pool = pool_;
+    }
+
+    function burn(address from, uint256 amount) external {
+        require(msg.sender == pool, "only pool");
+        balanceOf[from] -= amount;
+    }
+}
+
+interface IFlashLoanSimpleReceiver {
+    function executeOperation(address asset, uint256 amount, uint256 premium, address initiator, bytes calldata params) external returns (bool);
+}
+
+contract MockPool is IPool {
+    uint256 public constant PREMIUM_BPS = 5; // Aave V3 default flash loan premium (0.05%)
+
+    MockToken public immutable asset;
+    MockAToken public immutable aToken;
+    mapping(address => uint256) public debtOf;
+
+    constructor(MockToken asset_) {
+        asset = asset_;
+        aToken = new MockAToken(address(this));
+    }
+
+    function flashLoanSimple(address receiverAddress, address asset_, uint256 amount, bytes calldata params, uint16) external {
+        require(asset_ == address(asset), "unknown asset");
+        uint256 premium = amount * PREMIUM_BPS / 10_000;
+        asset.transfer(receiverAddress, amount);
+        require(IFlashLoanSimpleReceiver(receiverAddress).executeOperation(asset_, amount, premium, msg.sender, params), "callback failed");
+        asset.transferFrom(receiverAddress, address(this), amount + premium);
+    }
+
+    function supply(address, uint256 amount, address onBehalfOf, uint16) external {
+        asset.transferFrom(msg.sender, address(this), amount);
+        aToken.mint(onBehalfOf, amount);
+    }
+
+    // Credit delegation is not modelled: the borrow is booked on onBehalfOf and paid to the caller
+    function borrow(address, uint256 amount, uint256 interestRateMode, uint16, address onBehalfOf) external {
+        require(interestRateMode == 2, "variable rate only");
+        debtOf[onBehalfOf] += amount;
+        asset.transfer(msg.sender, amount);
+    }
+
+    // Like the Pool, an explicit amount above the debt only repays the debt
+    function repay(address, uint256 amount, uint256, address onBehalfOf) external returns (uint256) {
+        uint256 paid = amount > debtOf[onBehalfOf] ? debtOf[onBehalfOf] : amount;
+        debtOf[onBehalfOf] -= paid;
+        asset.transferFrom(msg.sender, address(this), paid);
+        return paid;
+    }
+
+    function withdraw(address, uint256 amount, address to) external returns (uint256) {
+        if (amount == type(uint256).max) {
+            amount = aToken.balanceOf(msg.sender);
+        }
+        aToken.burn(msg.sender, amount);
+        asset.transfer(to, amount);
+        return amount;
+    }
+}
+
+contract FlashLeverageHelperTest {
+    uint256 private constant START = 1_000 ether;
+    uint256 private constant DEPOSIT = 100 ether;
+    uint256 private constant FLASH = 150 ether;
+
+    MockToken private token;
+    MockPool private pool;
+    FlashLeverageHelper private helper;
+
+    function setUp() public {
+        token = new MockToken();
+        pool = new MockPool(token);
+        helper = new FlashLeverageHelper(pool);
+        token.mint(address(pool), 10_000 ether);
+        token.mint(address(this), START);
+    }
+
+    function testOpenSuppliesDepositPlusFlashAndBorrowsThePremium() public {
+        _open();
+
+        uint256 premium = FLASH * pool.PREMIUM_BPS() / 10_000;
+        require(pool.aToken().balanceOf(address(this)) == DEPOSIT + FLASH, "collateral");
+        require(pool.debtOf(address(this)) == FLASH + premium, "debt = flash + premium");
+        require(token.balanceOf(address(this)) == START - DEPOSIT, "deposit pulled");
+        require(token.balanceOf(address(helper)) == 0, "helper keeps nothing");
+        require(token.allowance(address(helper), address(pool)) == 0, "no allowance left");
+    }
+
+    function testCloseRepaysCappedDebtAndReturnsTheRest() public {
+        _open();
+        uint256 debt = pool.debtOf(address(this));
+        uint256 flash = debt + debt / 100; // 1% buffer, the Pool caps the repay at the debt
+        _close(flash);
+
+        uint256 premium = flash * pool.PREMIUM_BPS() / 10_000;
+        require(pool.debtOf(address(this)) == 0, "debt repaid");
+        require(pool.aToken().balanceOf(address(this)) == 0, "collateral withdrawn");
+        require(token.balanceOf(address(this)) == START - DEPOSIT + (DEPOSIT + FLASH) - debt - premium, "rest returned");
+        require(token.balanceOf(address(helper)) == 0, "helper keeps nothing");
+    }
+
+    function testCloseResetsAllowanceForUsdtStyleTokens() public {
+        _open();
+        token.setApproveRules(true, false);
+
+        // The buffer leaves part of the repay allowance unused; the final approve must reset it first
+        uint256 debt = pool.debtOf(address(this));
+        _close(debt + debt / 100);
+
+        require(pool.debtOf(address(this)) == 0, "debt repaid");
+        require(token.balanceOf(address(helper)) == 0, "helper keeps nothing");
+    }
+
+    function testOpenFailsWhenApproveReturnsFalse() public {
+        token.approve(address(helper), DEPOSIT);
+        token.setApproveRules(false, true);
+
+        try helper.openLeverage(address(token), DEPOSIT, FLASH) {
+            revert("expected revert");
+        } catch Error(string memory reason) {
+            require(keccak256(bytes(reason)) == keccak256("approve failed"), reason);
+        }
+    }
+
+    function testRejectsFlashLoansItDidNotStart() public {
+        try helper.executeOperation(address(token), 1 ether, 0, address(this), abi.encode(uint8(1), address(this), uint256(0), address(0))) {
+            revert("expected revert");
+        } catch Error(string memory reason) {
+            require(keccak256(bytes(reason)) == keccak256("untrusted flash loan"), reason);
+        }
+    }
+
+    function _open() private {
+        token.approve(address(helper), DEPOSIT);
+        helper.openLeverage(address(token), DEPOSIT, FLASH);
+    }
+
+    function _close(uint256 flashAmount) private {
+        MockAToken aToken = pool.aToken();
+        aToken.approve(address(helper), aToken.balanceOf(address(this)));
+        helper.closeLeverage(address(token), address(aToken), flashAmount);
+    }
+}
@@ -1,6 +1,10 @@
 #!/usr/bin/env node
 
-import { SeiClient } from '../utils/sei-client.js';
+import { parseArgs } from 'util';
+import { SeiClient, TokenBalance } from '../utils/sei-client.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { LinkedAddresses, parseAddress, resolveLinkedAddressesWithFailover } from '../utils/address.js';
+import { assertChainId, getNetwork } from '../config/networks.js';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -8,37 +12,70 @@ dotenv.config();
 
 /**
  * Command to check SEI wallet balance
- * Usage: npm run check-balance <address>
+ * Usage: npm run check-balance <sei1... or 0x... address>
+ * Usage: npm run check-balance -- --account <label> (registered account)
+ * Usage: npm run check-balance -- --network atlantic-2 (default: SEI_NETWORK or pacific-1)
  * Usage: npm run check-balance (uses WALLET_ADDRESS from .env)
  */
 async function main() {
   try {
-    // Get address from command line argument or environment variable
-    const address = process.argv[2] || process.env.WALLET_ADDRESS;
+    const { values, positionals } = parseArgs({
+      options: { account: { type: 'string' }, network: { type: 'string' } },
+      allowPositionals: true,
+    });
     
-    if (!address) {
+    // Get address from command line argument, registered account or environment variable
+    const input = positionals[0]
+      || (values.account ? resolveAccount(values.account).address : process.env.WALLET_ADDRESS);
+    
+    if (!input) {
       console.error('❌ Error: No wallet address provided');
-      console.log('Usage: npm run check-balance <sei-address>');
+      console.log('Usage: npm run check-balance <sei1... or 0x... address>');
+      console.log('   or: npm run check-balance -- --account <label>');
       console.log('   or: Set WALLET_ADDRESS in .env file');
       console.log('');
       console.log('Example: npm run check-balance sei1abc123...');
       process.exit(1);
     }
 
-    // Validate address format (basic check)
-    if (!address.startsWith('sei1') || address.length < 20) {
-      console.error('❌ Error: Invalid SEI address format');
-      console.log('SEI addresses should start with "sei1"');
+    // Validate address format (bech32 checksum or EIP-55)
+    let parsed;
+    try {
+      parsed = parseAddress(input);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : 'Invalid address'}`);
+      console.log('Accepted formats: sei1... (bech32) or 0x... (EVM, EIP-55 checksum if mixed case)');
       process.exit(1);
     }
-
-    console.log(`💰 Checking balance for: ${address}\n`);
+    
+    // Bank balances live on the bech32 side: a 0x input must be resolved, the EVM side of a sei1 input is display only
+    const network = getNetwork(values.network);
+    let linked: LinkedAddresses | null = null;
+    let lookupError = '';
+    if (parsed.kind === 'evm') {
+      linked = await resolveLinkedAddressesWithFailover(parsed.address, network.evmRpcUrls, 'cast');
+    } else {
+      try {
+        linked = await resolveLinkedAddressesWithFailover(parsed.address, network.evmRpcUrls, 'cast');
+      } catch (error) {
+        lookupError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+    const address = linked?.seiAddress ?? parsed.address;
+    
+    console.log(`💰 Checking balance for: ${address}`);
+    if (linked) {
+      console.log(`   EVM Address: ${linked.evmAddress}${linked.associated ? '' : ' (not yet associated on-chain)'}\n`);
+    } else {
+      console.log(`   EVM Address: unavailable (${lookupError})\n`);
+    }
     
     // Connect to SEI network
-    const client = new SeiClient(process.env.SEI_RPC_URL);
+    const client = new SeiClient(network.rpcUrls, {}, network.evmRpcUrls[0]);
     await client.connect();
     
     const chainId = await client.getChainId();
+    assertChainId(chainId, network);
     const height = await client.getHeight();
     
     console.log(`Network: ${chainId} (Block ${height})`);
@@ -50,28 +87,17 @@ async function main() {
     // Display SEI balance prominently
     console.log(`🪙  SEI Balance: ${balanceInfo.totalSEI} SEI`);
     
-    // Display all token balances
-    if (balanceInfo.balances.length === 0) {
+    // Display all token balances (symbol/decimals from the denom registry)
+    if (balanceInfo.tokens.length === 0) {
       console.log('📝 No tokens found in this wallet');
     } else {
       console.log('\n📊 All Token Balances:');
-      balanceInfo.balances.forEach(balance => {
-        const denom = balance.denom;
-        const amount = balance.amount;
-        
-        if (denom === 'usei') {
-          // Already displayed above
-          console.log(`   • ${denom}: ${amount} (${balanceInfo.totalSEI} SEI)`);
-        } else {
-          // Other tokens
-          console.log(`   • ${denom}: ${amount}`);
-        }
-      });
+      printTokenTable(balanceInfo.tokens);
     }
     
     // Show helpful information
     console.log('\n💡 Tips:');
-    if (parseFloat(balanceInfo.totalSEI) === 0) {
+    if (balanceInfo.sei.isZero()) {
       console.log('• This wallet has no SEI balance');
       console.log('• You can fund it from an exchange or faucet');
       console.log('• SEI is needed for transaction fees');
@@ -89,6 +115,31 @@ async function main() {
   }
 }
 
+/**
+ * Print balances as an aligned table; unresolved denoms show raw base units
+ */
+function printTokenTable(tokens: TokenBalance[]): void {
+  const rows = tokens.map(token => [
+    token.symbol,
+    token.amount,
+    token.kind,
+    token.denom.length > 48 ? `${token.denom.slice(0, 45)}...` : token.denom,
+  ]);
+  const header = ['Symbol', 'Amount', 'Kind', 'Denom'];
+  const widths = header.map((title, col) => Math.max(title.length, ...rows.map(row => row[col].length)));
+  const format = (row: string[]) => '   ' + row.map((cell, col) =>
+    col === 1 ? cell.padStart(widths[col]) : cell.padEnd(widths[col])
+  ).join('  ');
+
+  console.log(format(header));
+  console.log('   ' + widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(format(row)));
+
+  if (tokens.some(token => token.source === 'fallback')) {
+    console.log('\n   ℹ️  Tokens without known decimals are shown in base units (add them to .sei-defi/denoms.json)');
+  }
+}
+
 // Run if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch(console.error);
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { YeiFinanceClient } from '../contracts/yei-finance-real.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { loadSigner } from '../signers/signer-factory.js';
+import { getNetwork } from '../config/networks.js';
+import { prompt } from '../utils/prompt.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Close the Yei Finance position: repay all debt (interest included), then withdraw all collateral
+ * Usage: npm run close-position [--account <label>] [--network <name>] [--yes]
+ */
+async function main() {
+  try {
+    const { values } = parseArgs({
+      options: {
+        account: { type: 'string' },
+        network: { type: 'string' },
+        yes: { type: 'boolean', default: false },
+      },
+    });
+    const account = resolveAccount(values.account);
+    const walletAddress = account.address;
+    const network = getNetwork(values.network);
+
+    console.log('🔒 CLOSE YEI FINANCE POSITION');
+    console.log('=' .repeat(50));
+    console.log(`Network: ${network.name} (${network.chainId})`);
+    console.log(`Wallet: ${walletAddress}${account.label ? ` (${account.label})` : ''}`);
+    console.log('');
+
+    const signer = await loadSigner({ accountIndex: account.index, expectedAddress: walletAddress });
+    if (!signer) {
+      console.error('❌ No signer configured (keystore, remote signer, private key or mnemonic)');
+      process.exit(1);
+    }
+
+    const yeiClient = new YeiFinanceClient(network);
+    await yeiClient.initialize(signer);
+
+    const position = await yeiClient.getPositionHealth(walletAddress);
+    console.log('');
+
+    if (position.assets.length === 0) {
+      console.log('ℹ️  No Yei Finance position to close');
+      await yeiClient.disconnect();
+      return;
+    }
+
+    console.log('📋 Plan:');
+    position.assets
+      .filter(asset => !asset.borrowed.isZero())
+      .forEach(asset => console.log(`   • Repay all ${asset.symbol} debt (${asset.borrowed.format(6)} + accrued interest)`));
+    position.assets
+      .filter(asset => !asset.supplied.isZero())
+      .forEach(asset => console.log(`   • Withdraw all ${asset.symbol} (${asset.supplied.format(6)})`));
+    console.log('   ⚠️  Liquid-staked SEI (iSEI) is not unstaked; the wallet must hold the repay amounts');
+    console.log('');
+
+    if (!values.yes) {
+      const answer = await prompt('Type "close" to repay and withdraw everything: ');
+      if (answer.toLowerCase() !== 'close') {
+        console.log('🛑 Aborted, nothing was sent');
+        await yeiClient.disconnect();
+        return;
+      }
+    }
+
+    const result = await yeiClient.closePosition();
+    console.log('');
+
+    console.log('📊 Closing transactions:');
+    [...result.repayments, ...result.withdrawals].forEach(tx => {
+      console.log(`   ${tx.success ? '✅' : '❌'} ${tx.amount?.format(6) ?? ''} ${tx.transactionHash}`);
+    });
+    console.log(`⛽ Total Gas Used: ${result.gasUsed}`);
+    console.log('');
+
+    const after = await yeiClient.getPositionHealth(walletAddress);
+    console.log(after.debtBase === 0 ? '🎉 Position closed: no debt remains' : '⚠️  Debt remains, check the position');
+
+    await yeiClient.disconnect();
+
+  } catch (error) {
+    console.error('❌ Closing position failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
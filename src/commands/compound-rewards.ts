@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { CompoundOptions, RewardsCompounder } from '../strategies/rewards-compounder.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { loadSigner } from '../signers/signer-factory.js';
+import { getNetwork } from '../config/networks.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Claim Yei incentive rewards, swap them to SEI on DragonSwap and resupply as collateral
+ * Usage: npm run compound-rewards [--account <label>] [--network <name>] [--slippage-bps <bps>] [--min-supply <sei>] [--interval <hours>]
+ */
+async function main() {
+  try {
+    const { values } = parseArgs({
+      options: {
+        account: { type: 'string' },
+        network: { type: 'string' },
+        'slippage-bps': { type: 'string' },
+        'min-supply': { type: 'string' },
+        interval: { type: 'string' },
+      },
+    });
+
+    const account = resolveAccount(values.account);
+    const walletAddress = account.address;
+    const network = getNetwork(values.network);
+    const intervalHours = values.interval ? parseFloat(values.interval) : 0;
+    if (!Number.isFinite(intervalHours) || intervalHours < 0) {
+      throw new Error(`Invalid --interval ${values.interval}: expected a number of hours`);
+    }
+    const slippageBps = Number(values['slippage-bps'] || '100');
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps >= 10_000) {
+      throw new Error(`Invalid --slippage-bps ${values['slippage-bps']}: expected an integer from 0 to 9999`);
+    }
+    const options: Partial<CompoundOptions> = {
+      slippageBps,
+      ...(values['min-supply'] ? { minSupply: values['min-supply'] } : {}),
+    };
+
+    console.log('🎁 YEI REWARDS COMPOUNDER');
+    console.log('=' .repeat(50));
+    console.log(`Network: ${network.name}`);
+    console.log(`Wallet: ${walletAddress}${account.label ? ` (${account.label})` : ''}`);
+    console.log(`Max Slippage: ${(slippageBps / 100).toFixed(2)}%`);
+    if (intervalHours > 0) {
+      console.log(`Schedule: every ${intervalHours}h`);
+    }
+    console.log('');
+
+    if (!network.contracts.yeiFinance.REWARDS_CONTROLLER) {
+      console.error('❌ No yeiFinance.REWARDS_CONTROLLER configured for this network');
+      process.exit(1);
+    }
+
+    const signer = await loadSigner({ accountIndex: account.index, expectedAddress: walletAddress });
+    if (!signer) {
+      console.error('❌ No signer configured (keystore, remote signer, private key or mnemonic)');
+      process.exit(1);
+    }
+
+    const compounder = new RewardsCompounder(network);
+    await compounder.initialize(signer);
+    await runCompound(compounder, walletAddress, options);
+
+    if (intervalHours > 0) {
+      // The next run is scheduled once the previous one finishes, so slow runs never overlap;
+      // a failed run is reported and retried on the next one
+      const scheduleNext = (): void => {
+        setTimeout(async () => {
+          console.log(`\n⏰ Scheduled run - ${new Date().toLocaleString()}`);
+          try {
+            await runCompound(compounder, walletAddress, options);
+          } catch (error) {
+            console.error('❌ Compound run failed:', error instanceof Error ? error.message : 'Unknown error');
+          }
+          scheduleNext();
+        }, intervalHours * 60 * 60 * 1000);
+      };
+      scheduleNext();
+
+      process.on('SIGINT', () => {
+        console.log('\n🛑 Stopping compounder...');
+        process.exit(0);
+      });
+    }
+
+  } catch (error) {
+    console.error('❌ Compounding failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+async function runCompound(compounder: RewardsCompounder, walletAddress: string, options: Partial<CompoundOptions>): Promise<void> {
+  const accrued = await compounder.getAccruedRewards(walletAddress);
+  console.log('💰 ACCRUED REWARDS');
+  console.log('-' .repeat(50));
+  accrued.forEach(reward => console.log(`   ${reward.format(6)}`));
+  if (accrued.length === 0) {
+    console.log('   Nothing accrued yet');
+    return;
+  }
+  console.log('');
+
+  const report = await compounder.compound(options);
+  console.log('');
+
+  console.log('📋 EXECUTED STEPS');
+  console.log('-' .repeat(50));
+  report.steps.forEach((step, index) => {
+    console.log(`   ${index + 1}. ${step.description} (gas ${step.gasUsed}, ${step.gasCost.format(6)})`);
+    step.transactionHashes.forEach(hash => console.log(`      ${hash}`));
+  });
+
+  if (report.skipped.length > 0) {
+    console.log('');
+    console.log('⚠️  NOT COMPOUNDED');
+    report.skipped.forEach(reason => console.log(`   • ${reason}`));
+  }
+
+  console.log('');
+  console.log(`🏦 Resupplied: ${report.supplied.format(6)}`);
+  console.log(`⛽ Gas Used: ${report.gasUsed} (${report.gasCost.format(6)})`);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
@@ -2,6 +2,7 @@
 
 import { createWallet } from '../utils/wallet.js';
 import { SeiClient } from '../utils/sei-client.js';
+import { getNetwork } from '../config/networks.js';
 
 /**
  * Command to create a new SEI wallet
@@ -17,7 +18,7 @@ async function main() {
     // Try to connect to SEI network for verification (optional)
     let networkInfo = '';
     try {
-      const client = new SeiClient();
+      const client = new SeiClient(getNetwork().rpcUrls);
       await client.connect();
       const chainId = await client.getChainId();
       const height = await client.getHeight();
@@ -33,11 +34,14 @@ async function main() {
     console.log(networkInfo);
     console.log('');
     console.log(`Address: ${walletInfo.address}`);
+    console.log(`EVM Address: ${walletInfo.evmAddress}`);
+    console.log(`HD Path: ${walletInfo.hdPath}`);
     console.log('');
     console.log('Mnemonic (24 words):');
     console.log(`${walletInfo.mnemonic}`);
     console.log('');
     console.log(`Private Key: ${walletInfo.privateKey}`);
+    console.log('(Same key controls both the sei1 and 0x addresses)');
     console.log('');
     console.log('⚠️  SECURITY WARNING:');
     console.log('• Store your mnemonic phrase securely and offline');
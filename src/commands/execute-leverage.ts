@@ -1,36 +1,52 @@
 #!/usr/bin/env node
 
+import { parseArgs } from 'util';
 import { YeiDragonSwapLeverage } from '../strategies/yei-dragonswap-leverage.js';
 import { SeiClient } from '../utils/sei-client.js';
-import { getWalletAddress } from '../utils/secrets.js';
+import { SEI, TokenAmount } from '../utils/token-amount.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { assertChainId, getNetwork } from '../config/networks.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
 
 /**
  * Command to execute leverage strategies on SEI
- * Usage: npm run execute-leverage [strategy] [amount]
+ * Usage: npm run execute-leverage [strategy] [amount] [--account <label>] [--network <name>] [--emode]
  */
 async function main() {
   try {
-    const strategy = process.argv[2] || 'yei-staking';
-    const seiAmount = parseFloat(process.argv[3] || '174.2968');
+    const { values, positionals } = parseArgs({
+      options: { account: { type: 'string' }, network: { type: 'string' }, emode: { type: 'boolean', default: false } },
+      allowPositionals: true,
+    });
+    const strategy = positionals[0] || 'yei-staking';
+    const amount = TokenAmount.parse(positionals[1] || '174.2968', SEI);
+    const seiAmount = amount.toNumber(); // Strategy projections only
+    const network = getNetwork(values.network);
     
     console.log('🚀 SEI Leverage Strategy Executor');
     console.log('=' .repeat(60));
+    console.log(`Network: ${network.name}`);
     console.log(`Strategy: ${strategy}`);
     console.log(`SEI Amount: ${seiAmount} SEI`);
     console.log('');
 
     // Initialize clients
-    const leverage = new YeiDragonSwapLeverage('https://sei-rpc.polkachu.com');
-    const seiClient = new SeiClient();
+    const leverage = new YeiDragonSwapLeverage(network);
+    const seiClient = new SeiClient(network.rpcUrls, {}, network.evmRpcUrls[0]);
     await seiClient.connect();
+    assertChainId(await seiClient.getChainId(), network);
     
     // Get current wallet balance  
-    const walletAddress = 'sei1gnat7qjzkctxvz4dzhhjypqd4jyns3xrphjd0k'; // Your wallet
+    const account = resolveAccount(values.account);
+    const walletAddress = account.address;
     const balance = await seiClient.getSeiBalance(walletAddress);
-    console.log(`Wallet Address: ${walletAddress}`);
+    console.log(`Wallet Address: ${walletAddress}${account.label ? ` (${account.label})` : ''}`);
     console.log(`Current Balance: ${balance} SEI`);
     
-    if (parseFloat(balance) < seiAmount) {
+    if (balance.lt(amount)) {
       console.error('❌ Insufficient balance for strategy execution');
       process.exit(1);
     }
@@ -44,22 +60,22 @@ async function main() {
     switch (strategy.toLowerCase()) {
       case 'yei-staking':
       case 'staking':
-        selectedStrategy = await leverage.createYeiStakingStrategy(seiAmount);
+        selectedStrategy = await leverage.createYeiStakingStrategy(seiAmount, values.emode);
         break;
         
       case 'yei-lp':
       case 'lp':
-        selectedStrategy = await leverage.createYeiLPStrategy(seiAmount, 'SEI-USDC');
+        selectedStrategy = await leverage.createYeiLPStrategy(seiAmount, 'SEI-USDC', values.emode);
         break;
         
       case 'yei-lp-low-risk':
       case 'lp-safe':
-        selectedStrategy = await leverage.createYeiLPStrategy(seiAmount, 'iSEI-SEI');
+        selectedStrategy = await leverage.createYeiLPStrategy(seiAmount, 'iSEI-SEI', values.emode);
         break;
         
       case 'hybrid':
       case 'balanced':
-        selectedStrategy = await leverage.createHybridStrategy(seiAmount);
+        selectedStrategy = await leverage.createHybridStrategy(seiAmount, values.emode);
         break;
         
       default:
@@ -1,7 +1,13 @@
 #!/usr/bin/env node
 
+import { parseArgs } from 'util';
 import { YeiFinanceClient } from '../contracts/yei-finance-real.js';
+import { YeiFinance } from '../protocols/yei-finance.js';
 import { SeiClient } from '../utils/sei-client.js';
+import { SEI, TokenAmount } from '../utils/token-amount.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { loadSigner } from '../signers/signer-factory.js';
+import { assertChainId, getNetwork } from '../config/networks.js';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -9,24 +15,32 @@ dotenv.config();
 
 /**
  * Execute Strategy 1: Yei Finance Leveraged Staking
- * Usage: npm run execute-strategy1 [sei-amount]
+ * Usage: npm run execute-strategy1 [sei-amount] [--account <label>] [--network <name>] [--emode]
  */
 async function main() {
   try {
-    const seiAmount = parseFloat(process.argv[2] || '174.2968');
+    const { values, positionals } = parseArgs({
+      options: { account: { type: 'string' }, network: { type: 'string' }, emode: { type: 'boolean', default: false } },
+      allowPositionals: true,
+    });
+    const collateral = TokenAmount.parse(positionals[0] || '174.2968', SEI);
+    const seiAmount = collateral.toNumber(); // Projections only; transactions use exact amounts
+    const network = getNetwork(values.network);
     
     console.log('🚀 EXECUTING STRATEGY 1: Yei Finance Leveraged Staking');
     console.log('=' .repeat(70));
+    console.log(`Network: ${network.name} (${network.chainId})`);
     console.log(`Initial SEI Amount: ${seiAmount} SEI`);
     console.log(`Target: 1.56x leverage with ${(seiAmount * 1.56).toFixed(4)} SEI exposure`);
     console.log('');
 
-    // Get wallet credentials from environment
-    const mnemonic = process.env.SEI_WALLET_MNEMONIC;
-    const walletAddress = process.env.SEI_WALLET_ADDRESS || 'sei1gnat7qjzkctxvz4dzhhjypqd4jyns3xrphjd0k';
+    // Unlock wallet credentials (encrypted keystore, or legacy env mnemonic)
+    const account = resolveAccount(values.account);
+    const walletAddress = account.address;
+    const signer = await loadSigner({ accountIndex: account.index, expectedAddress: walletAddress });
     
-    if (!mnemonic) {
-      console.error('❌ SEI_WALLET_MNEMONIC not found in environment variables');
+    if (!signer) {
+      console.error('❌ No signer configured (keystore, remote signer, private key or mnemonic)');
       console.log('💡 For testing, using mock execution mode');
       await executeMockStrategy(seiAmount, walletAddress);
       return;
@@ -36,15 +50,17 @@ async function main() {
     console.log('🔍 STEP 0: Verify Wallet Balance');
     console.log('-' .repeat(50));
     
-    const seiClient = new SeiClient();
+    const seiClient = new SeiClient(network.rpcUrls, {}, network.evmRpcUrls[0]);
     await seiClient.connect();
+    assertChainId(await seiClient.getChainId(), network);
     const currentBalance = await seiClient.getSeiBalance(walletAddress);
     console.log(`Wallet: ${walletAddress}`);
     console.log(`Current Balance: ${currentBalance} SEI`);
     
-    if (parseFloat(currentBalance) < seiAmount + 5) { // Reserve 5 SEI for gas
+    const required = collateral.add(TokenAmount.parse('5', SEI)); // Reserve 5 SEI for gas
+    if (currentBalance.lt(required)) {
       console.error('❌ Insufficient balance for strategy execution');
-      console.log(`Required: ${seiAmount + 5} SEI (including gas reserves)`);
+      console.log(`Required: ${required.format()} (including gas reserves)`);
       process.exit(1);
     }
     
@@ -55,24 +71,54 @@ async function main() {
     console.log('🏦 STEP 1: Initialize Yei Finance Client');
     console.log('-' .repeat(50));
     
-    const yeiClient = new YeiFinanceClient();
-    await yeiClient.initialize(mnemonic);
+    const yeiClient = new YeiFinanceClient(network);
+    await yeiClient.initialize(signer);
     
     // Calculate strategy parameters
-    const borrowAmount = seiAmount * 0.563; // 56.3% of collateral (safe LTV)
-    const totalExposure = seiAmount + borrowAmount;
+    const yeiFinance = new YeiFinance(network);
+    let borrow = collateral.mul('0.563'); // 56.3% of collateral (safe LTV)
     
-    console.log(`Collateral: ${seiAmount} SEI`);
-    console.log(`Borrow Amount: ${borrowAmount.toFixed(4)} SEI`);
-    console.log(`Total Exposure: ${totalExposure.toFixed(4)} SEI`);
-    console.log(`Leverage Ratio: ${(totalExposure / seiAmount).toFixed(2)}x`);
+    // E-mode: same 25% margin below the SEI-correlated category's higher LTV
+    const sei = values.emode ? await yeiFinance.getSEIMarketData() : null;
+    const eModeCategory = sei ? await yeiFinance.getEModeCategory(sei) : null;
+    if (sei && !eModeCategory) {
+      throw new Error('The Yei SEI market is not in an e-mode category');
+    }
+    if (sei && eModeCategory) {
+      const eModeParams = yeiFinance.calculateLeverageParams(seiAmount, yeiFinance.eModeParams(sei, eModeCategory), 2.0, 0.25);
+      borrow = eModeParams.safeBorrow;
+      
+      console.log(`E-Mode: ${eModeCategory.label} (LTV ${(eModeCategory.ltv * 100).toFixed(0)}%, liquidation threshold ${(eModeCategory.liquidationThreshold * 100).toFixed(0)}%)`);
+      console.log(`Max Leverage: ${eModeParams.maxLeverage.toFixed(2)}x`);
+      console.log(`Expected Health Factor: ${eModeParams.healthFactor.toFixed(3)}`);
+      console.log(`Liquidation Price Ratio: ${eModeParams.liquidationPrice.toFixed(4)}`);
+    }
+    
+    const totalExposure = collateral.add(borrow);
+    const borrowAmount = borrow.toNumber();
+    
+    console.log(`Collateral: ${collateral.format()}`);
+    console.log(`Borrow Amount: ${borrow.format(4)}`);
+    console.log(`Total Exposure: ${totalExposure.format(4)}`);
+    console.log(`Leverage Ratio: ${totalExposure.ratio(collateral).toFixed(2)}x`);
     console.log('');
 
     // Execute strategy steps
+    if (eModeCategory) {
+      console.log('🔗 Enable E-Mode');
+      console.log('-' .repeat(50));
+      
+      const eModeResult = await yeiClient.setEMode(eModeCategory.id);
+      if (eModeResult && !eModeResult.success) {
+        throw new Error('Failed to enable e-mode');
+      }
+      console.log('');
+    }
+    
     console.log('💰 STEP 2: Supply Collateral to Yei Finance');
     console.log('-' .repeat(50));
     
-    const collateralResult = await yeiClient.supplyCollateral(seiAmount);
+    const collateralResult = await yeiClient.supplyCollateral(collateral);
     if (!collateralResult.success) {
       throw new Error('Failed to supply collateral');
     }
@@ -82,7 +128,7 @@ async function main() {
     console.log('📋 STEP 3: Borrow SEI Against Collateral');
     console.log('-' .repeat(50));
     
-    const borrowResult = await yeiClient.borrowSEI(borrowAmount);
+    const borrowResult = await yeiClient.borrowSEI(borrow);
     if (!borrowResult.success) {
       throw new Error('Failed to borrow SEI');
     }
@@ -92,7 +138,7 @@ async function main() {
     console.log('🥩 STEP 4: Stake Borrowed SEI');
     console.log('-' .repeat(50));
     
-    const stakeResult = await yeiClient.stakeBorrowedSEI(borrowAmount);
+    const stakeResult = await yeiClient.stakeBorrowedSEI(borrow);
     if (!stakeResult.success) {
       throw new Error('Failed to stake borrowed SEI');
     }
@@ -119,10 +165,14 @@ async function main() {
     console.log('💹 EXPECTED RETURNS');
     console.log('-' .repeat(50));
     
+    // Live reserve rates already include the utilization our borrow added
+    const market = await yeiFinance.getSEIMarketData();
     const stakingAPY = 0.08; // 8% staking APY
-    const borrowAPY = 0.12; // 12% borrow APY
-    const supplyAPY = 0.08; // 8% supply APY on Yei
+    const borrowAPY = market.borrowAPY;
+    const supplyAPY = market.supplyAPY;
     
+    console.log(`Yei SEI Utilization: ${(market.utilizationRate * 100).toFixed(2)}%`);
+    console.log(`Supply APY: ${(supplyAPY * 100).toFixed(2)}% | Borrow APY: ${(borrowAPY * 100).toFixed(2)}%`);
     const annualStakingRewards = borrowAmount * stakingAPY;
     const annualSupplyRewards = seiAmount * supplyAPY;
     const annualBorrowCosts = borrowAmount * borrowAPY;
@@ -147,8 +197,8 @@ async function main() {
     console.log('🎉 STRATEGY 1 EXECUTED SUCCESSFULLY!');
     console.log('=' .repeat(70));
     console.log('📈 Key Metrics:');
-    console.log(`   • Total Exposure: ${totalExposure.toFixed(4)} SEI`);
-    console.log(`   • Leverage Ratio: ${(totalExposure / seiAmount).toFixed(2)}x`);
+    console.log(`   • Total Exposure: ${totalExposure.format(4)}`);
+    console.log(`   • Leverage Ratio: ${totalExposure.ratio(collateral).toFixed(2)}x`);
     console.log(`   • Health Factor: ${position.healthFactor.toFixed(3)}`);
     console.log(`   • Expected APY: ${(netAPY * 100).toFixed(2)}%`);
     console.log('');
@@ -186,7 +236,7 @@ async function executeMockStrategy(seiAmount: number, walletAddress: string): Pr
   console.log('');
   
   console.log('💡 To execute with real transactions:');
-  console.log('   1. Set SEI_WALLET_MNEMONIC in .env file');
+  console.log('   1. Import your mnemonic: npm run keystore -- import');
   console.log('   2. Ensure sufficient SEI balance');
   console.log('   3. Verify Yei Finance contract addresses');
   console.log('   4. Run again with real credentials');
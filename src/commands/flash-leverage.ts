@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { YeiFinanceClient } from '../contracts/yei-finance-real.js';
+import { YeiFinance } from '../protocols/yei-finance.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { loadSigner } from '../signers/signer-factory.js';
+import { getNetwork } from '../config/networks.js';
+import { prompt } from '../utils/prompt.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Open or close SEI leverage on Yei Finance in one transaction through the flash leverage helper
+ * Usage: npm run flash-leverage open <amount> [--leverage <x>] [--emode] | close [--account <label>] [--network <name>] [--yes]
+ */
+async function main() {
+  try {
+    const { values, positionals } = parseArgs({
+      options: {
+        account: { type: 'string' },
+        network: { type: 'string' },
+        leverage: { type: 'string' },
+        emode: { type: 'boolean', default: false },
+        yes: { type: 'boolean', default: false },
+      },
+      allowPositionals: true,
+    });
+    const action = (positionals[0] || '').toLowerCase();
+    if (action !== 'open' && action !== 'close') {
+      console.error('❌ Usage: npm run flash-leverage open <amount> [--leverage <x>] | close');
+      process.exit(1);
+    }
+
+    const account = resolveAccount(values.account);
+    const walletAddress = account.address;
+    const network = getNetwork(values.network);
+    const targetLeverage = parseFloat(values.leverage || '2');
+    const amount = parseFloat(positionals[1] || '');
+
+    console.log('⚡ YEI FLASH-LOAN LEVERAGE');
+    console.log('=' .repeat(50));
+    console.log(`Network: ${network.name} (${network.chainId})`);
+    console.log(`Wallet: ${walletAddress}${account.label ? ` (${account.label})` : ''}`);
+    console.log('');
+
+    const yeiClient = new YeiFinanceClient(network);
+
+    // E-mode: the SEI reserve's correlated category (higher LTV and threshold)
+    let eModeCategory = 0;
+    if (values.emode) {
+      const yeiFinance = new YeiFinance(network);
+      const category = await yeiFinance.getEModeCategory(await yeiFinance.getSEIMarketData());
+      if (!category) {
+        console.error('❌ The Yei SEI market is not in an e-mode category');
+        process.exit(1);
+      }
+      eModeCategory = category.id;
+      console.log(`🔗 E-mode: ${category.label} (LTV ${(category.ltv * 100).toFixed(0)}%, liquidation threshold ${(category.liquidationThreshold * 100).toFixed(0)}%)`);
+      console.log('');
+    }
+
+    // Preview is read-only; the signer is only loaded once there is something to send
+    if (action === 'open') {
+      if (!(amount > 0)) {
+        console.error('❌ Usage: npm run flash-leverage open <amount> [--leverage <x>]');
+        process.exit(1);
+      }
+
+      const plan = await yeiClient.planFlashLeverage(amount, targetLeverage, 'SEI', eModeCategory);
+      console.log('📋 Plan (one transaction):');
+      console.log(`   Deposit: ${plan.deposit.format(6)}`);
+      console.log(`   Flash Loan: ${plan.flashAmount.format(6)} (premium ${plan.premium.format(6)})`);
+      console.log(`   Collateral: ${plan.collateral.format(6)}`);
+      console.log(`   Debt: ${plan.debt.format(6)}`);
+      console.log(`   Leverage: ${plan.leverageRatio.toFixed(2)}x (max ${plan.maxLeverage.toFixed(2)}x)`);
+      console.log(`   LTV: ${(plan.ltv * 100).toFixed(2)}%`);
+      console.log(`   Expected Health Factor: ${plan.healthFactor.toFixed(3)}`);
+    } else {
+      const plan = await yeiClient.planFlashUnwind(walletAddress);
+      if (!plan) {
+        console.log('ℹ️  No SEI debt to unwind');
+        return;
+      }
+
+      console.log('📋 Plan (one transaction):');
+      console.log(`   Debt: ${plan.debt.format(6)}`);
+      console.log(`   Collateral: ${plan.collateral.format(6)}`);
+      console.log(`   Flash Loan: ${plan.flashAmount.format(6)} (premium ${plan.premium.format(6)})`);
+      console.log(`   Expected Back: ${plan.returned.format(6)}`);
+    }
+    console.log('');
+
+    const signer = await loadSigner({ accountIndex: account.index, expectedAddress: walletAddress });
+    if (!signer) {
+      console.error('❌ No signer configured (keystore, remote signer, private key or mnemonic)');
+      process.exit(1);
+    }
+
+    if (!values.yes) {
+      const answer = await prompt(`Type "${action}" to send the transaction: `);
+      if (answer.toLowerCase() !== action) {
+        console.log('🛑 Aborted, nothing was sent');
+        return;
+      }
+    }
+
+    await yeiClient.initialize(signer);
+    const result = action === 'open'
+      ? await yeiClient.openFlashLeverage(amount, targetLeverage, 'SEI', eModeCategory)
+      : await yeiClient.closeFlashLeverage();
+    console.log('');
+
+    if (result) {
+      console.log('📊 Result:');
+      console.log(`   Flash Loan: ${result.flashAmount.format(6)} (premium paid ${result.premium.format(6)})`);
+      console.log(`   Health Factor: ${Number.isFinite(result.healthFactor) ? result.healthFactor.toFixed(3) : '∞ (no debt)'}`);
+      console.log(`   Transactions: ${result.transactionHashes?.join(', ')}`);
+      console.log(`⛽ Gas Used: ${result.gasUsed}${result.gasCost ? ` (${result.gasCost.format(6)})` : ''}`);
+    }
+
+    await yeiClient.disconnect();
+
+  } catch (error) {
+    console.error('❌ Flash leverage failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
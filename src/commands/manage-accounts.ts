@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { WalletRegistry } from '../utils/wallet-registry.js';
+import { deriveAccount } from '../utils/wallet.js';
+import { getKeystorePassphrase, hasKeystore, unlockKeystore } from '../utils/keystore.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Command to manage labelled HD accounts derived from the keystore mnemonic
+ * Usage: npm run accounts -- list
+ * Usage: npm run accounts -- add <label> [--index <n>]
+ * Usage: npm run accounts -- remove <label>
+ * Usage: npm run accounts -- derive [count]
+ */
+async function main() {
+  try {
+    const { values, positionals } = parseArgs({
+      options: { index: { type: 'string' } },
+      allowPositionals: true,
+    });
+    const [action = 'list', arg] = positionals;
+    const registry = new WalletRegistry();
+
+    switch (action) {
+      case 'list': {
+        const accounts = registry.list();
+        console.log(`📒 Wallet registry: ${registry.getFilePath()}`);
+        console.log('='.repeat(70));
+
+        if (accounts.length === 0) {
+          console.log('📝 No accounts registered yet');
+          console.log('Example: npm run accounts -- add strategy1-hot');
+          break;
+        }
+
+        accounts.forEach(account => {
+          console.log(`   • ${account.label.padEnd(20)} #${account.index}  ${account.address}`);
+          console.log(`     ${''.padEnd(20)}     ${account.evmAddress}`);
+        });
+        break;
+      }
+
+      case 'add': {
+        if (!arg) {
+          throw new Error('Usage: npm run accounts -- add <label> [--index <n>]');
+        }
+        const index = values.index !== undefined ? parseIndex(values.index) : undefined;
+        const account = await registry.addAccount(await requireMnemonic(), arg, index);
+
+        console.log(`✅ Registered "${account.label}" at HD index ${account.index}`);
+        console.log(`   Address: ${account.address}`);
+        console.log(`   EVM Address: ${account.evmAddress}`);
+        console.log(`   HD Path: ${account.hdPath}`);
+        break;
+      }
+
+      case 'remove': {
+        if (!arg) {
+          throw new Error('Usage: npm run accounts -- remove <label>');
+        }
+        if (!registry.remove(arg)) {
+          throw new Error(`Unknown wallet account "${arg}"`);
+        }
+        console.log(`🗑️  Removed "${arg}" from registry (funds and keys are unaffected)`);
+        break;
+      }
+
+      case 'derive': {
+        const count = arg ? parseIndex(arg) : 5;
+        const mnemonic = await requireMnemonic();
+
+        console.log(`🔑 First ${count} accounts for this mnemonic:`);
+        for (let index = 0; index < count; index++) {
+          const account = await deriveAccount(mnemonic, index);
+          const label = registry.list().find(entry => entry.index === index)?.label || '-';
+          console.log(`   #${index}  ${account.address}  ${account.evmAddress}  ${label}`);
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown action "${action}". Available: list, add, remove, derive`);
+    }
+
+  } catch (error) {
+    console.error('❌ Error managing accounts:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+async function requireMnemonic(): Promise<string> {
+  if (hasKeystore()) {
+    return unlockKeystore(await getKeystorePassphrase());
+  }
+  
+  const mnemonic = process.env.SEI_WALLET_MNEMONIC;
+  if (!mnemonic) {
+    throw new Error('No keystore found and SEI_WALLET_MNEMONIC is not set (run: npm run keystore -- import)');
+  }
+  return mnemonic;
+}
+
+function parseIndex(value: string): number {
+  const index = Number(value);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid number: ${value}`);
+  }
+  return index;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
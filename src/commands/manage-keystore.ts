@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import {
+  changeKeystorePassphrase,
+  getKeystorePassphrase,
+  getKeystorePath,
+  importKeystore,
+  readKeystore,
+  unlockKeystore,
+} from '../utils/keystore.js';
+import { deriveAccount } from '../utils/wallet.js';
+import { prompt } from '../utils/prompt.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Command to manage the encrypted wallet keystore
+ * Usage: npm run keystore -- import [--pbkdf2] [--force]
+ * Usage: npm run keystore -- export-address [--index <n>]
+ * Usage: npm run keystore -- change-passphrase
+ * Usage: npm run keystore -- unlock
+ */
+async function main() {
+  try {
+    const { values, positionals } = parseArgs({
+      options: {
+        index: { type: 'string' },
+        pbkdf2: { type: 'boolean', default: false },
+        force: { type: 'boolean', default: false },
+      },
+      allowPositionals: true,
+    });
+    const action = positionals[0];
+
+    switch (action) {
+      case 'import': {
+        // Prefer interactive entry; SEI_WALLET_MNEMONIC is accepted to migrate existing .env setups
+        const mnemonic = process.env.SEI_WALLET_MNEMONIC || await prompt('Mnemonic: ', true);
+        const passphrase = await prompt('New keystore passphrase: ', true);
+        const confirmation = await prompt('Confirm passphrase: ', true);
+
+        if (passphrase !== confirmation) {
+          throw new Error('Passphrases do not match');
+        }
+
+        console.log('🔐 Encrypting mnemonic...');
+        const keystore = await importKeystore(mnemonic, passphrase, {
+          kdf: values.pbkdf2 ? 'pbkdf2' : 'scrypt',
+          overwrite: values.force,
+        });
+
+        console.log(`✅ Keystore written to ${getKeystorePath()}`);
+        console.log(`   Address: ${keystore.address}`);
+        console.log(`   EVM Address: ${keystore.evmAddress}`);
+        console.log(`   KDF: ${keystore.kdf}, Cipher: ${keystore.cipher}`);
+        if (process.env.SEI_WALLET_MNEMONIC) {
+          console.log('');
+          console.log('⚠️  Remove SEI_WALLET_MNEMONIC from your .env file now');
+        }
+        break;
+      }
+
+      case 'export-address': {
+        const keystore = readKeystore();
+
+        if (values.index === undefined) {
+          console.log(`Address: ${keystore.address}`);
+          console.log(`EVM Address: ${keystore.evmAddress}`);
+          break;
+        }
+
+        // Other HD indices need the key to derive
+        const index = Number(values.index);
+        const mnemonic = await unlockKeystore(await getKeystorePassphrase());
+        const account = await deriveAccount(mnemonic, index);
+        console.log(`Address (#${account.index}): ${account.address}`);
+        console.log(`EVM Address (#${account.index}): ${account.evmAddress}`);
+        break;
+      }
+
+      case 'change-passphrase': {
+        const oldPassphrase = await prompt('Current passphrase: ', true);
+        const newPassphrase = await prompt('New passphrase: ', true);
+        const confirmation = await prompt('Confirm new passphrase: ', true);
+
+        if (newPassphrase !== confirmation) {
+          throw new Error('Passphrases do not match');
+        }
+
+        await changeKeystorePassphrase(oldPassphrase, newPassphrase);
+        console.log('✅ Passphrase changed (keystore re-encrypted with fresh salt)');
+        break;
+      }
+
+      case 'unlock': {
+        const keystore = readKeystore();
+        await unlockKeystore(await getKeystorePassphrase());
+
+        console.log('✅ Keystore unlocked successfully');
+        console.log(`   Address: ${keystore.address}`);
+        console.log(`   Last updated: ${keystore.updatedAt}`);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown action "${action ?? ''}". Available: import, export-address, change-passphrase, unlock`);
+    }
+
+  } catch (error) {
+    console.error('❌ Keystore error:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
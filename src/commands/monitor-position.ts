@@ -1,6 +1,10 @@
 #!/usr/bin/env node
 
+import { parseArgs } from 'util';
 import { LeverageMonitor } from '../monitoring/leverage-monitor.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { loadSigner } from '../signers/signer-factory.js';
+import { getNetwork } from '../config/networks.js';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -8,27 +12,35 @@ dotenv.config();
 
 /**
  * Command to monitor leverage position in real-time
- * Usage: npm run monitor-position
+ * Usage: npm run monitor-position [--account <label>] [--network <name>] [--target-hf <health factor>]
  */
 async function main() {
   try {
-    const walletAddress = 'sei1gnat7qjzkctxvz4dzhhjypqd4jyns3xrphjd0k';
-    const mnemonic = process.env.SEI_WALLET_MNEMONIC;
+    const { values } = parseArgs({
+      options: { account: { type: 'string' }, network: { type: 'string' }, 'target-hf': { type: 'string' } },
+    });
+    const account = resolveAccount(values.account);
+    const walletAddress = account.address;
+    const network = getNetwork(values.network);
+    const targetHealthFactor = parseFloat(values['target-hf'] || '1.5');
     
     console.log('🔍 LEVERAGE POSITION MONITOR');
     console.log('=' .repeat(50));
-    console.log(`Wallet: ${walletAddress}`);
+    console.log(`Network: ${network.name}`);
+    console.log(`Wallet: ${walletAddress}${account.label ? ` (${account.label})` : ''}`);
+    console.log(`Target Health Factor: ${targetHealthFactor}`);
     console.log('');
     
-    if (!mnemonic) {
-      console.log('💡 Mock monitoring mode (no mnemonic provided)');
+    const signer = await loadSigner({ accountIndex: account.index, expectedAddress: walletAddress });
+    if (!signer) {
+      console.log('💡 Mock monitoring mode (no signer configured)');
       await runMockMonitoring();
       return;
     }
 
     // Initialize real monitoring
-    const monitor = new LeverageMonitor('https://sei-rpc.polkachu.com', walletAddress);
-    await monitor.initialize(mnemonic);
+    const monitor = new LeverageMonitor(network, walletAddress, targetHealthFactor);
+    await monitor.initialize(signer);
     
     // Display initial dashboard
     console.log('📊 INITIAL DASHBOARD');
@@ -119,7 +131,7 @@ async function runMockMonitoring(): Promise<void> {
   
   console.log('');
   console.log('🚀 To start real monitoring:');
-  console.log('   1. Set SEI_WALLET_MNEMONIC in .env file');
+  console.log('   1. Import your mnemonic: npm run keystore -- import');
   console.log('   2. Run: npm run monitor-position');
   console.log('   3. Monitor will run continuously');
   console.log('   4. Press Ctrl+C to stop');
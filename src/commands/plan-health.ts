@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { YeiFinanceClient } from '../contracts/yei-finance-real.js';
+import { healthTotals, planHealthActions, solveWithdraw } from '../protocols/yei-health-solver.js';
+import { formatHealthAction } from '../monitoring/leverage-monitor.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { getNetwork } from '../config/networks.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Command to size the exact repay, collateral top-up or safe withdrawal for a target health factor
+ * Usage: npm run plan-health [target-hf] [--account <label>] [--network <name>]
+ */
+async function main() {
+  try {
+    const { values, positionals } = parseArgs({
+      options: { account: { type: 'string' }, network: { type: 'string' } },
+      allowPositionals: true,
+    });
+    const targetHealthFactor = parseFloat(positionals[0] || '1.5');
+    const account = resolveAccount(values.account);
+    const network = getNetwork(values.network);
+
+    console.log('🎯 YEI HEALTH FACTOR PLANNER');
+    console.log('=' .repeat(50));
+    console.log(`Network: ${network.name}`);
+    console.log(`Wallet: ${account.address}${account.label ? ` (${account.label})` : ''}`);
+    console.log(`Target Health Factor: ${targetHealthFactor}`);
+    console.log('');
+
+    // Read-only: position comes from the Pool, no signer needed
+    const yeiClient = new YeiFinanceClient(network);
+    const position = await yeiClient.getPositionHealth(account.address);
+    const { healthFactor } = healthTotals(position.assets);
+    console.log('');
+
+    if (position.assets.length === 0) {
+      console.log('ℹ️  No Yei Finance position for this wallet');
+      return;
+    }
+
+    if (healthFactor >= targetHealthFactor) {
+      console.log(`✅ Health factor ${healthFactor.toFixed(3)} is above target`);
+      console.log('🏧 Safely withdrawable collateral (each on its own):');
+
+      const withdrawals = position.assets
+        .filter(asset => !asset.supplied.isZero())
+        .map(asset => solveWithdraw(position.assets, asset.asset, targetHealthFactor));
+      withdrawals.forEach(action => console.log(`   • ${formatHealthAction(action)}`));
+      return;
+    }
+
+    console.log(`⚠️  Health factor ${healthFactor.toFixed(3)} is below target`);
+    console.log('💊 Any one of these restores it:');
+    planHealthActions(position.assets, targetHealthFactor)
+      .forEach(action => console.log(`   • ${formatHealthAction(action)}`));
+
+  } catch (error) {
+    console.error('❌ Health planning failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
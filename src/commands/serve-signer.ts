@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { getKeystorePassphrase, hasKeystore, unlockKeystore } from '../utils/keystore.js';
+import { MnemonicSigner } from '../signers/mnemonic-signer.js';
+import { createSignerServer } from '../signers/signer-server.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Command to serve the remote signer protocol from the local keystore
+ * Clients connect with SEI_SIGNER=remote and SEI_REMOTE_SIGNER_URL
+ * Requires SEI_REMOTE_SIGNER_TOKEN unless started with --insecure
+ * Usage: npm run serve-signer -- [--host 127.0.0.1] [--port 8645] [--insecure]
+ */
+async function main() {
+  try {
+    const { values } = parseArgs({
+      options: {
+        host: { type: 'string', default: '127.0.0.1' },
+        port: { type: 'string', default: '8645' },
+        insecure: { type: 'boolean', default: false },
+      },
+    });
+
+    const mnemonic = hasKeystore()
+      ? await unlockKeystore(await getKeystorePassphrase())
+      : process.env.SEI_WALLET_MNEMONIC;
+    if (!mnemonic) {
+      throw new Error('No keystore found and SEI_WALLET_MNEMONIC is not set');
+    }
+
+    const token = process.env.SEI_REMOTE_SIGNER_TOKEN || null;
+    if (!token && !values.insecure) {
+      throw new Error('SEI_REMOTE_SIGNER_TOKEN is not set. Set it, or pass --insecure to let any local process request signatures');
+    }
+
+    const signers = new Map<number, MnemonicSigner>();
+    const getSigner = async (accountIndex: number): Promise<MnemonicSigner> => {
+      if (!signers.has(accountIndex)) {
+        signers.set(accountIndex, await MnemonicSigner.fromMnemonic(mnemonic, accountIndex));
+      }
+      return signers.get(accountIndex)!;
+    };
+
+    const server = createSignerServer({ getSigner, token });
+    server.listen(Number(values.port), values.host, () => {
+      console.log(`🔏 Remote signer listening on http://${values.host}:${values.port}`);
+      if (!token) {
+        console.log('⚠️  --insecure: no SEI_REMOTE_SIGNER_TOKEN, any local process can request signatures');
+      }
+    });
+
+    // Handle graceful shutdown
+    process.on('SIGINT', () => {
+      console.log('\n🛑 Stopping remote signer...');
+      server.close();
+      process.exit(0);
+    });
+
+  } catch (error) {
+    console.error('❌ Remote signer failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
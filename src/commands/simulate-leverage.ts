@@ -1,20 +1,64 @@
 #!/usr/bin/env node
 
+import { parseArgs } from 'util';
 import { SEILeverageCalculator } from '../strategies/leverage.js';
+import { LeverageMarketParams, YeiFinance, YeiMarketData } from '../protocols/yei-finance.js';
+import { YeiEModeCategory } from '../contracts/yei-pool-reader.js';
+import { InterestRateModel } from '../protocols/yei-interest-rate.js';
+import { getNetwork } from '../config/networks.js';
+import { EVM_SEI, SEI, TokenAmount } from '../utils/token-amount.js';
+import { liquidationPriceDrop, LiquidationAsset, simulateLiquidation } from '../protocols/yei-liquidation.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const FLASH_LOAN_PREMIUM_BPS = 5n; // Aave V3 default; the flash-leverage command reads the Pool's
+const ESTIMATED_RISK: LeverageMarketParams = { ltv: 0.75, liquidationThreshold: 0.80, liquidationPenalty: 0.05 };
+const PRICE_STEPS = [0, 0.1, 0.2, 0.3, 0.4, 0.5];
 
 /**
  * Command to simulate 2x leverage strategies on SEI
- * Usage: npm run simulate-leverage [amount]
+ * Usage: npm run simulate-leverage [amount] [--network <name>] [--emode]
  */
 async function main() {
   try {
-    const seiAmount = parseFloat(process.argv[2] || '174.2968'); // Default to current balance
+    const { values, positionals } = parseArgs({
+      options: { network: { type: 'string' }, emode: { type: 'boolean', default: false } },
+      allowPositionals: true,
+    });
+    const seiAmount = parseFloat(positionals[0] || '174.2968'); // Default to current balance
+    const network = getNetwork(values.network);
+    const yeiFinance = new YeiFinance(network);
     
     console.log('🚀 SEI 2x Leverage Strategy Simulator');
     console.log('=' .repeat(50));
+    console.log(`Network: ${network.name} (${network.chainId})`);
     console.log(`Initial SEI Amount: ${seiAmount} SEI`);
     console.log('');
 
+    // Live Yei SEI reserve and its rate curve; falls back to flat estimates when unreachable
+    let market: YeiMarketData | null = null;
+    let model: InterestRateModel | null = null;
+    let eModeCategory: YeiEModeCategory | null = null;
+    try {
+      market = await yeiFinance.getSEIMarketData();
+      model = await yeiFinance.getInterestRateModel(market);
+      eModeCategory = await yeiFinance.getEModeCategory(market);
+    } catch (error) {
+      console.log(`⚠️  Yei market unavailable, using estimated rates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.log('');
+    }
+
+    // Risk parameters for the Yei projections below: the SEI-correlated e-mode category with --emode
+    if (values.emode && !eModeCategory) {
+      console.log('⚠️  No e-mode category for the Yei SEI market, using its own parameters');
+      console.log('');
+    }
+    const riskParams: LeverageMarketParams | null = market && eModeCategory && values.emode
+      ? yeiFinance.eModeParams(market, eModeCategory)
+      : market;
+    
     // Strategy 1: Silo Finance Leveraged Staking
     console.log('📊 STRATEGY 1: Silo Finance Leveraged Staking');
     console.log('-'.repeat(50));
@@ -62,6 +106,22 @@ async function main() {
     console.log(`Total SEI Exposure: ${loopStrategy.totalExposure.toFixed(4)} SEI`);
     console.log(`Effective Leverage: ${leverageMultiple.toFixed(2)}x`);
     
+    // Same leverage in one transaction: no intermediate rounds exposed to liquidation
+    console.log('');
+    console.log('Flash-Loan Equivalent (one transaction):');
+    try {
+      const flash = SEILeverageCalculator.calculateFlashLeverage(TokenAmount.from(seiAmount, EVM_SEI), leverageMultiple, {
+        ltv: riskParams ? riskParams.ltv : 0.75,
+        liquidationThreshold: riskParams ? riskParams.liquidationThreshold : 0.80,
+        flashLoanPremiumBps: FLASH_LOAN_PREMIUM_BPS,
+      });
+      console.log(`   Flash Loan: ${flash.flashAmount.format(4)} (premium ${flash.premium.format(4)})`);
+      console.log(`   Collateral: ${flash.collateral.format(4)} | Debt: ${flash.debt.format(4)}`);
+      console.log(`   Expected Health Factor: ${flash.healthFactor.toFixed(3)} (max leverage ${flash.maxLeverage.toFixed(2)}x)`);
+    } catch (error) {
+      console.log(`   ⚠️  ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    
     console.log('');
     console.log('=' .repeat(50));
     
@@ -70,7 +130,7 @@ async function main() {
     console.log('-'.repeat(50));
     
     const stakingAPY = 0.08; // 8% staking APY estimate
-    const borrowCost = 0.06; // 6% borrow APY estimate
+    const borrowCost = market ? market.borrowAPY : 0.06; // Current Yei borrow APY, or 6% estimate
     
     // Silo strategy yield
     const siloExposure = siloStrategy.params.collateralAmount + siloStrategy.params.borrowedAmount;
@@ -99,6 +159,102 @@ async function main() {
     console.log(`   Net Annual Yield: ${loopNetYield.toFixed(4)} SEI`);
     console.log(`   Net APY on Initial: ${(loopNetAPY * 100).toFixed(2)}%`);
     
+    // Rate impact: our own borrow pushes utilization up the curve
+    if (market && model) {
+      console.log('');
+      console.log('=' .repeat(50));
+      console.log('📉 RATE IMPACT (Yei SEI, net APY vs position size)');
+      console.log('-'.repeat(50));
+      console.log(`Current Utilization: ${(market.utilizationRate * 100).toFixed(2)}% (optimal ${(model.optimalUtilization * 100).toFixed(0)}%)`);
+      console.log(`Current Borrow APY: ${(market.borrowAPY * 100).toFixed(2)}% | Supply APY: ${(market.supplyAPY * 100).toFixed(2)}%`);
+      if (market.supplyIncentiveAPR > 0 || market.borrowIncentiveAPR > 0) {
+        console.log(`Incentive APR: supply ${(market.supplyIncentiveAPR * 100).toFixed(2)}% | borrow ${(market.borrowIncentiveAPR * 100).toFixed(2)}% (diluted by position size in Net APY)`);
+      }
+      console.log(`Available Liquidity: ${market.availableLiquidity.toFixed(2)} SEI`);
+      console.log('');
+      console.log('   Collateral      Borrow   Util   Borrow APY  Supply APY  Net APY');
+      
+      for (const multiple of [1, 10, 100, 1000]) {
+        const size = seiAmount * multiple;
+        const { safeBorrowAmount } = yeiFinance.calculateLeverageParams(size, riskParams ?? market);
+        // Collateral is supplied to the same reserve it borrows from
+        const projected = yeiFinance.projectNetAPY(market, model, size, safeBorrowAmount, stakingAPY);
+        
+        console.log(
+          `${size.toFixed(2).padStart(13)} ${safeBorrowAmount.toFixed(2).padStart(11)}` +
+          ` ${(projected.rates.utilization * 100).toFixed(1).padStart(5)}%` +
+          ` ${(projected.rates.borrowAPY * 100).toFixed(2).padStart(10)}%` +
+          ` ${(projected.rates.supplyAPY * 100).toFixed(2).padStart(10)}%` +
+          ` ${(projected.netAPY * 100).toFixed(2).padStart(7)}%`
+        );
+      }
+    }
+    
+    // E-mode: same SEI position under the correlated category's LTV and threshold
+    if (market && eModeCategory) {
+      const normal = yeiFinance.calculateLeverageParams(seiAmount, market);
+      const eMode = yeiFinance.calculateLeverageParams(seiAmount, yeiFinance.eModeParams(market, eModeCategory));
+      
+      console.log('');
+      console.log('=' .repeat(50));
+      console.log(`🔗 E-MODE: ${eModeCategory.label} (category ${eModeCategory.id})`);
+      console.log('-'.repeat(50));
+      console.log('                       Normal      E-Mode');
+      console.log(`   LTV              ${(market.ltv * 100).toFixed(1).padStart(8)}%  ${(eModeCategory.ltv * 100).toFixed(1).padStart(8)}%`);
+      console.log(`   Liq. Threshold   ${(market.liquidationThreshold * 100).toFixed(1).padStart(8)}%  ${(eModeCategory.liquidationThreshold * 100).toFixed(1).padStart(8)}%`);
+      console.log(`   Max Leverage     ${normal.maxLeverage.toFixed(2).padStart(8)}x  ${eMode.maxLeverage.toFixed(2).padStart(8)}x`);
+      console.log(`   Safe Borrow      ${normal.safeBorrowAmount.toFixed(2).padStart(9)}  ${eMode.safeBorrowAmount.toFixed(2).padStart(9)}`);
+      console.log(`   Health Factor    ${normal.healthFactor.toFixed(3).padStart(9)}  ${eMode.healthFactor.toFixed(3).padStart(9)}`);
+      console.log(`   Liq. Price Ratio ${normal.liquidationPrice.toFixed(4).padStart(9)}  ${eMode.liquidationPrice.toFixed(4).padStart(9)}`);
+      if (eModeCategory.priceSource) {
+        console.log(`   E-mode prices every asset in the category with ${eModeCategory.priceSource}`);
+      }
+      console.log(values.emode ? '   Projections above use e-mode parameters' : '   Run with --emode to project strategies under e-mode');
+    }
+    
+    // Liquidation: the Yei SEI borrow at each collateral price drop
+    const yeiRisk = riskParams ?? ESTIMATED_RISK;
+    const yeiLeverage = yeiFinance.calculateLeverageParams(seiAmount, yeiRisk);
+    const position: LiquidationAsset[] = [{
+      asset: 'SEI',
+      symbol: 'SEI',
+      supplied: TokenAmount.from(seiAmount, SEI),
+      borrowed: yeiLeverage.safeBorrow,
+      usedAsCollateral: true,
+      price: market ? market.price : 1,
+      liquidationThreshold: yeiRisk.liquidationThreshold,
+      liquidationPenalty: yeiRisk.liquidationPenalty,
+    }];
+    const liquidationDrop = liquidationPriceDrop(position);
+    
+    console.log('');
+    console.log('=' .repeat(50));
+    console.log(`💥 LIQUIDATION SIMULATION (Yei, ${seiAmount} SEI collateral, ${yeiLeverage.safeBorrowAmount.toFixed(2)} SEI debt)`);
+    console.log('-'.repeat(50));
+    console.log(`Liquidation threshold ${(yeiRisk.liquidationThreshold * 100).toFixed(0)}%, bonus ${(yeiRisk.liquidationPenalty * 100).toFixed(1)}%`);
+    if (liquidationDrop !== null) {
+      console.log(`Liquidatable after a ${(liquidationDrop * 100).toFixed(2)}% collateral price drop against the debt`);
+    }
+    console.log('Collateral/debt price moves only on an iSEI depeg or a non-SEI debt; a plain SEI loop drifts by interest');
+    console.log('');
+    console.log('    Drop     HF  Close  Debt Repaid     Seized  Penalty $  Left Coll. $  Left Debt $  HF After');
+    
+    const steps = liquidationDrop !== null && liquidationDrop < 1 ? [...PRICE_STEPS, liquidationDrop + 0.01] : PRICE_STEPS;
+    for (const drop of [...new Set(steps)].sort((a, b) => a - b)) {
+      const outcome = simulateLiquidation(position, drop);
+      const healthAfter = Number.isFinite(outcome.healthFactorAfter) ? outcome.healthFactorAfter.toFixed(3) : '∞';
+      console.log(
+        `${(drop * 100).toFixed(1).padStart(7)}% ${outcome.healthFactor.toFixed(3).padStart(6)}` +
+        ` ${outcome.liquidatable ? `${(outcome.closeFactor * 100).toFixed(0)}%`.padStart(6) : '     -'}` +
+        ` ${(outcome.debtRepaid?.toNumber() ?? 0).toFixed(4).padStart(12)}` +
+        ` ${(outcome.collateralSeized?.toNumber() ?? 0).toFixed(4).padStart(10)}` +
+        ` ${outcome.penaltyBase.toFixed(2).padStart(10)}` +
+        ` ${outcome.remainingCollateralBase.toFixed(2).padStart(13)}` +
+        ` ${outcome.remainingDebtBase.toFixed(2).padStart(12)}` +
+        ` ${healthAfter.padStart(9)}`
+      );
+    }
+    
     console.log('');
     console.log('⚠️  IMPORTANT WARNINGS:');
     console.log('   • Leveraged positions carry liquidation risk');
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { DragonSwapClient, SwapOptions } from '../contracts/dragonswap-client.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { loadSigner } from '../signers/signer-factory.js';
+import { getNetwork } from '../config/networks.js';
+import { prompt } from '../utils/prompt.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Swap on DragonSwap along the best route (multi-hop and split when that pays)
+ * Usage: npm run swap -- <from> <to> <amount> [--account <label>] [--network <name>] [--slippage-bps <bps>] [--deadline <minutes>] [--max-hops <n>] [--quote-only] [--yes]
+ */
+async function main() {
+  try {
+    const { values, positionals } = parseArgs({
+      options: {
+        account: { type: 'string' },
+        network: { type: 'string' },
+        'slippage-bps': { type: 'string' },
+        deadline: { type: 'string' },
+        'max-hops': { type: 'string' },
+        'quote-only': { type: 'boolean', default: false },
+        yes: { type: 'boolean', default: false },
+      },
+      allowPositionals: true,
+    });
+    const [tokenIn, tokenOut, amount] = positionals;
+    if (!tokenIn || !tokenOut || !amount) {
+      console.error('❌ Usage: npm run swap -- <from> <to> <amount> (tokens: SEI, WSEI, iSEI, USDC, WETH or 0x addresses)');
+      process.exit(1);
+    }
+
+    const account = resolveAccount(values.account);
+    const walletAddress = account.address;
+    const network = getNetwork(values.network);
+    const slippageBps = parsePositive('--slippage-bps', values['slippage-bps'] || '50', true);
+    if (slippageBps >= 10_000) {
+      throw new Error(`Invalid --slippage-bps ${slippageBps}: must be below 10000`);
+    }
+    const options: Partial<SwapOptions> = {
+      slippageBps,
+      deadlineSeconds: parsePositive('--deadline', values.deadline || '20', false) * 60,
+      routeOptions: values['max-hops'] ? { maxHops: parsePositive('--max-hops', values['max-hops'], true) } : {},
+    };
+
+    console.log('🐉 DRAGONSWAP SWAP');
+    console.log('=' .repeat(60));
+    console.log(`Network: ${network.name}`);
+    console.log(`Wallet: ${walletAddress}${account.label ? ` (${account.label})` : ''}`);
+    console.log(`Max Slippage: ${(options.slippageBps! / 100).toFixed(2)}%`);
+    console.log(`Deadline: ${options.deadlineSeconds! / 60} min`);
+    console.log('');
+
+    const client = new DragonSwapClient(network);
+    const quote = await client.quote(tokenIn, tokenOut, amount, options);
+
+    console.log('📊 QUOTE');
+    console.log('-' .repeat(60));
+    quote.splits.forEach(split => {
+      const fees = split.hops.map(hop => `${hop.version} ${(hop.fee * 100).toFixed(2)}%`).join(', ');
+      console.log(`   ${(split.share * 100).toFixed(0)}%  ${split.path.join(' → ')} (${fees}): ${split.amountIn.format(6)} → ${split.amountOut.format(6)}`);
+    });
+    console.log(`   Expected: ${quote.amountOut.format(6)}`);
+    console.log(`   Minimum: ${quote.minimumOut.format(6)}`);
+    console.log(`   Price: ${quote.executionPrice.toFixed(6)} (mid ${quote.midPrice.toFixed(6)})`);
+    console.log(`   Price Impact: ${quote.priceImpact.toFixed(3)}%`);
+    console.log(`   Fees: ${quote.fee.format(6)}`);
+    console.log(`   Gas: ~${quote.gasUnits} (${quote.gasEstimate.toFixed(6)} SEI)`);
+    console.log('');
+
+    if (values['quote-only']) {
+      return;
+    }
+
+    const signer = await loadSigner({ accountIndex: account.index, expectedAddress: walletAddress });
+    if (!signer) {
+      console.error('❌ No signer configured (keystore, remote signer, private key or mnemonic)');
+      process.exit(1);
+    }
+
+    if (!values.yes) {
+      const answer = await prompt('Type "swap" to send the swap: ');
+      if (answer.toLowerCase() !== 'swap') {
+        console.log('🛑 Aborted, nothing was sent');
+        return;
+      }
+    }
+
+    await client.initialize(signer);
+    const result = await client.executeQuote(quote, options, {
+      wrapIn: tokenIn.toUpperCase() === 'SEI',
+      unwrapOut: tokenOut.toUpperCase() === 'SEI',
+    });
+    console.log('');
+
+    console.log('📋 EXECUTED LEGS');
+    console.log('-' .repeat(60));
+    result.legs.forEach((leg, index) => {
+      console.log(`   ${index + 1}. ${leg.path.join(' → ')} (${leg.version}): ${leg.amountIn.format(6)} → ${leg.amountOut.format(6)} (min ${leg.minimumOut.format(6)})`);
+      leg.transactionHashes.forEach(hash => console.log(`      ${hash}`));
+    });
+    console.log('');
+    console.log(`💱 Received: ${result.amountOut.format(6)}`);
+    console.log(`⛽ Gas Used: ${result.gasUsed} (${result.gasCost.format(6)})`);
+
+  } catch (error) {
+    console.error('❌ Swap failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+function parsePositive(flag: string, value: string, integer: boolean): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || (integer && !Number.isInteger(parsed))) {
+    throw new Error(`Invalid ${flag} ${value}: expected a positive ${integer ? 'integer' : 'number'}`);
+  }
+  return parsed;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
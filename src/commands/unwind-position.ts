@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { LeverageStrategy, YeiDragonSwapLeverage } from '../strategies/yei-dragonswap-leverage.js';
+import { resolveAccount } from '../utils/wallet-registry.js';
+import { loadSigner } from '../signers/signer-factory.js';
+import { getNetwork } from '../config/networks.js';
+import { prompt } from '../utils/prompt.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Strategy names as in execute-leverage, plus the SEI-WETH LP
+ */
+const STRATEGIES: Record<string, Pick<LeverageStrategy, 'name' | 'type' | 'poolType'>> = {
+  'yei-staking': { name: 'Yei Finance Leveraged Staking', type: 'YEI_STAKING' },
+  'yei-lp': { name: 'Yei Finance + DragonSwap SEI-USDC LP', type: 'YEI_LP', poolType: 'SEI-USDC' },
+  'yei-lp-weth': { name: 'Yei Finance + DragonSwap SEI-WETH LP', type: 'YEI_LP', poolType: 'SEI-WETH' },
+  'yei-lp-low-risk': { name: 'Yei Finance + DragonSwap iSEI-SEI LP', type: 'YEI_LP', poolType: 'iSEI-SEI' },
+  'hybrid': { name: 'Hybrid Yei + DragonSwap Strategy', type: 'YEI_HYBRID', poolType: 'iSEI-SEI' },
+};
+
+/**
+ * Emergency unwind of a leverage strategy (LP → SEI → repay → withdraw)
+ * Usage: npm run unwind-position [strategy] [--account <label>] [--network <name>] [--slippage-bps <bps>] [--yes]
+ */
+async function main() {
+  try {
+    const { values, positionals } = parseArgs({
+      options: {
+        account: { type: 'string' },
+        network: { type: 'string' },
+        'slippage-bps': { type: 'string' },
+        yes: { type: 'boolean', default: false },
+      },
+      allowPositionals: true,
+    });
+    const name = (positionals[0] || 'yei-staking').toLowerCase();
+    const target = STRATEGIES[name];
+    if (!target) {
+      console.error(`❌ Unknown strategy. Available: ${Object.keys(STRATEGIES).join(', ')}`);
+      process.exit(1);
+    }
+
+    const account = resolveAccount(values.account);
+    const walletAddress = account.address;
+    const network = getNetwork(values.network);
+    const slippageBps = parseInt(values['slippage-bps'] || '100', 10);
+
+    console.log('🚨 EMERGENCY UNWIND');
+    console.log('=' .repeat(60));
+    console.log(`Network: ${network.name}`);
+    console.log(`Wallet: ${walletAddress}${account.label ? ` (${account.label})` : ''}`);
+    console.log(`Strategy: ${target.name}`);
+    console.log(`Max Slippage: ${(slippageBps / 100).toFixed(2)}%`);
+    console.log('');
+
+    const signer = await loadSigner({ accountIndex: account.index, expectedAddress: walletAddress });
+    if (!signer) {
+      console.error('❌ No signer configured (keystore, remote signer, private key or mnemonic)');
+      process.exit(1);
+    }
+
+    if (!values.yes) {
+      const answer = await prompt('Type "unwind" to exit the strategy on-chain: ');
+      if (answer.toLowerCase() !== 'unwind') {
+        console.log('🛑 Aborted, nothing was sent');
+        return;
+      }
+    }
+
+    const leverage = new YeiDragonSwapLeverage(network);
+    const report = await leverage.emergencyUnwind(target, signer, { slippageBps });
+    console.log('');
+
+    console.log('📋 EXECUTED STEPS');
+    console.log('-' .repeat(60));
+    report.steps.forEach((step, index) => {
+      console.log(`   ${index + 1}. ${step.description} (gas ${step.gasUsed}, ${step.gasCost.format(6)})`);
+      step.transactionHashes.forEach(hash => console.log(`      ${hash}`));
+    });
+    if (report.steps.length === 0) {
+      console.log('   Nothing to unwind');
+    }
+
+    if (report.skipped.length > 0) {
+      console.log('');
+      console.log('⚠️  NOT UNWOUND');
+      report.skipped.forEach(reason => console.log(`   • ${reason}`));
+    }
+
+    console.log('');
+    console.log('💰 FINAL BALANCES');
+    console.log('-' .repeat(60));
+    report.finalBalances.forEach(balance => console.log(`   ${balance.format(6)}`));
+    console.log(`   Yei collateral: $${report.position.collateralBase.toFixed(2)} | debt: $${report.position.debtBase.toFixed(2)}`);
+    console.log('');
+    console.log(`⛽ Gas Used: ${report.gasUsed} (${report.gasCost.format(6)})`);
+    console.log(report.closed ? '🎉 Position fully closed' : '⚠️  Position partially open, review the items above');
+
+  } catch (error) {
+    console.error('❌ Unwind failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
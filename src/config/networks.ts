@@ -0,0 +1,226 @@
+/**
+ * Network profiles
+ * Chain ID, endpoints, gas price and protocol addresses per network, selected with
+ * --network or SEI_NETWORK so strategies can be rehearsed on testnet or a local chain
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { DEFAULT_RPC_ENDPOINTS, parseRpcEndpoints } from '../utils/rpc-pool.js';
+
+export type NetworkName = 'pacific-1' | 'atlantic-2' | 'local';
+
+export interface YeiFinanceContracts {
+  LENDING_POOL: string; // Aave V3 Pool (supply/borrow/repay/withdraw)
+  LENDING_POOL_CORE: string; // Core lending logic
+  PRICE_ORACLE: string;
+  SEI_ATOKEN: string; // SEI interest-bearing token
+  SEI_DEBT_TOKEN: string;
+  WSEI: string; // Wrapped SEI, the reserve behind native SEI positions
+  FLASH_LEVERAGE_HELPER: string; // Our flashLoanSimple helper (solidity/FlashLeverageHelper.sol)
+  REWARDS_CONTROLLER: string; // Incentive emissions and claims (optional, no incentives when empty)
+}
+
+export interface YeiCosmWasmContracts {
+  LENDING_POOL: string;
+  PRICE_ORACLE: string;
+  SEI_MARKET: string;
+  LIQUIDATION_MANAGER: string;
+  LIQUID_STAKING: string; // Silo liquid staking
+}
+
+export interface DragonSwapContracts {
+  ROUTER: string; // V2 router (swaps, remove liquidity)
+  FACTORY: string; // V2 pair factory
+  V3_FACTORY: string; // V3 (concentrated liquidity) pool factory
+  V3_ROUTER: string; // V3 SwapRouter (exactInputSingle / exactInput)
+  POSITION_MANAGER: string; // NFT position manager for V3
+  MULTICALL: string;
+}
+
+export interface TokenContracts {
+  ISEI: string; // Silo liquid staking token (ERC20 side)
+  USDC: string;
+  WETH: string;
+}
+
+export interface NetworkContracts {
+  yeiFinance: YeiFinanceContracts; // EVM (0x...)
+  yeiCosmWasm: YeiCosmWasmContracts; // CosmWasm (sei1...)
+  dragonswap: DragonSwapContracts; // EVM (0x...)
+  tokens: TokenContracts; // EVM (0x...)
+}
+
+export interface NetworkProfile {
+  name: NetworkName;
+  chainId: string; // Cosmos chain ID
+  evmChainId: number;
+  rpcUrls: string[]; // Tendermint RPC, failover order
+  restUrl: string;
+  evmRpcUrls: string[];
+  gasPrice: string;
+  explorerUrl: string;
+  contracts: NetworkContracts;
+}
+
+export const DEFAULT_NETWORK: NetworkName = 'pacific-1';
+
+export const DEFAULT_NETWORKS_FILE = '.sei-defi/networks.json';
+
+// Canonical Multicall3, deployed at the same address on pacific-1 and atlantic-2
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * Address set with the given known deployments; the rest stay empty until set in the networks file
+ */
+function knownContracts(known: ContractOverrides = {}): NetworkContracts {
+  return {
+    yeiFinance: { LENDING_POOL: '', LENDING_POOL_CORE: '', PRICE_ORACLE: '', SEI_ATOKEN: '', SEI_DEBT_TOKEN: '', WSEI: '', FLASH_LEVERAGE_HELPER: '', REWARDS_CONTROLLER: '', ...known.yeiFinance },
+    yeiCosmWasm: { LENDING_POOL: '', PRICE_ORACLE: '', SEI_MARKET: '', LIQUIDATION_MANAGER: '', LIQUID_STAKING: '', ...known.yeiCosmWasm },
+    dragonswap: { ROUTER: '', FACTORY: '', V3_FACTORY: '', V3_ROUTER: '', POSITION_MANAGER: '', MULTICALL: '', ...known.dragonswap },
+    tokens: { ISEI: '', USDC: '', WETH: '', ...known.tokens },
+  };
+}
+
+const NETWORKS: Record<NetworkName, NetworkProfile> = {
+  'pacific-1': {
+    name: 'pacific-1',
+    chainId: 'pacific-1',
+    evmChainId: 1329,
+    rpcUrls: [...DEFAULT_RPC_ENDPOINTS],
+    restUrl: 'https://rest.sei-apis.com',
+    evmRpcUrls: ['https://evm-rpc.sei-apis.com'],
+    gasPrice: '0.02usei',
+    explorerUrl: 'https://seitrace.com',
+    contracts: knownContracts({
+      yeiFinance: { WSEI: '0xE30feDd158A2e3b13e9badaeABaFc5516e95e8C7' },
+      dragonswap: { MULTICALL: MULTICALL3 },
+    }),
+  },
+  'atlantic-2': {
+    name: 'atlantic-2',
+    chainId: 'atlantic-2',
+    evmChainId: 1328,
+    rpcUrls: ['https://rpc-testnet.sei-apis.com'],
+    restUrl: 'https://rest-testnet.sei-apis.com',
+    evmRpcUrls: ['https://evm-rpc-testnet.sei-apis.com'],
+    gasPrice: '0.02usei',
+    explorerUrl: 'https://seitrace.com/?chain=atlantic-2',
+    contracts: knownContracts({
+      dragonswap: { MULTICALL: MULTICALL3 },
+    }),
+  },
+  local: {
+    name: 'local',
+    chainId: 'sei-chain', // Default chain ID of the sei-chain local node scripts
+    evmChainId: 713714,
+    rpcUrls: ['http://127.0.0.1:26657'],
+    restUrl: 'http://127.0.0.1:1317',
+    evmRpcUrls: ['http://127.0.0.1:8545'],
+    gasPrice: '0.02usei',
+    explorerUrl: '',
+    contracts: knownContracts(), // Deploy mocks and set their addresses in the networks file
+  },
+};
+
+/**
+ * Names of the built-in profiles
+ */
+export function listNetworks(): NetworkName[] {
+  return Object.keys(NETWORKS) as NetworkName[];
+}
+
+/**
+ * Resolve a network profile
+ * Selection: explicit name (--network) → SEI_NETWORK → pacific-1.
+ * Addresses come from the networks file (SEI_NETWORKS_FILE, default .sei-defi/networks.json);
+ * SEI_RPC_URL, SEI_EVM_RPC_URL and SEI_GAS_PRICE override the profile's endpoints and gas price
+ */
+export function getNetwork(name?: string): NetworkProfile {
+  const selected = name || process.env.SEI_NETWORK || DEFAULT_NETWORK;
+
+  if (!isNetworkName(selected)) {
+    throw new Error(`Unknown network "${selected}". Available: ${listNetworks().join(', ')}`);
+  }
+
+  const base = NETWORKS[selected];
+  const local = loadNetworksFile()[selected] ?? {};
+  const contracts = base.contracts;
+
+  const profile: NetworkProfile = {
+    ...base,
+    ...local,
+    name: base.name,
+    contracts: {
+      yeiFinance: { ...contracts.yeiFinance, ...local.contracts?.yeiFinance },
+      yeiCosmWasm: { ...contracts.yeiCosmWasm, ...local.contracts?.yeiCosmWasm },
+      dragonswap: { ...contracts.dragonswap, ...local.contracts?.dragonswap },
+      tokens: { ...contracts.tokens, ...local.contracts?.tokens },
+    },
+  };
+
+  if (process.env.SEI_RPC_URL) {
+    profile.rpcUrls = parseRpcEndpoints(process.env.SEI_RPC_URL);
+  }
+  if (process.env.SEI_EVM_RPC_URL) {
+    profile.evmRpcUrls = parseRpcEndpoints(process.env.SEI_EVM_RPC_URL);
+  }
+  if (process.env.SEI_GAS_PRICE) {
+    profile.gasPrice = process.env.SEI_GAS_PRICE;
+  }
+
+  return profile;
+}
+
+/**
+ * Look up a protocol address, failing clearly when it is not configured for the network
+ */
+export function requireContract<P extends keyof NetworkContracts>(
+  network: NetworkProfile,
+  protocol: P,
+  contract: keyof NetworkContracts[P]
+): string {
+  const address = network.contracts[protocol][contract] as unknown as string;
+
+  if (!address) {
+    throw new Error(
+      `${protocol}.${String(contract)} is not configured for ${network.name}. ` +
+      `Add it to ${process.env.SEI_NETWORKS_FILE || DEFAULT_NETWORKS_FILE}`
+    );
+  }
+
+  return address;
+}
+
+/**
+ * Guard against endpoints that serve a different chain than the selected profile
+ * (e.g. a mainnet SEI_RPC_URL left in .env while rehearsing on atlantic-2)
+ */
+export function assertChainId(actual: string, network: NetworkProfile): void {
+  if (actual !== network.chainId) {
+    throw new Error(`RPC endpoint is on chain "${actual}" but network "${network.name}" expects "${network.chainId}"`);
+  }
+}
+
+function isNetworkName(name: string): name is NetworkName {
+  return Object.prototype.hasOwnProperty.call(NETWORKS, name);
+}
+
+type ContractOverrides = { [P in keyof NetworkContracts]?: Partial<NetworkContracts[P]> };
+
+type NetworkOverrides = Partial<Omit<NetworkProfile, 'contracts'>> & {
+  contracts?: ContractOverrides;
+};
+
+function loadNetworksFile(): Partial<Record<NetworkName, NetworkOverrides>> {
+  const path = resolve(process.env.SEI_NETWORKS_FILE || DEFAULT_NETWORKS_FILE);
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read networks file ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * DragonSwap swap client
+ * Signs exact-input swaps along a quoted route: V2 legs through the V2 router, V3 legs through the
+ * SwapRouter (exactInputSingle / exactInput). Every swap gets an approval when needed, a minimum out,
+ * a deadline and a re-quote right before sending
+ */
+
+import { getNetwork, NetworkProfile, requireContract } from '../config/networks.js';
+import { Signer } from '../signers/signer.js';
+import { AmountInput, EVM_SEI, TokenAmount } from '../utils/token-amount.js';
+import { parseEvmAddress } from '../utils/address.js';
+import { EvmClient, EvmTransactionReceipt, gasCostOf } from '../evm/evm-client.js';
+import { decodeEventLog } from '../evm/abi.js';
+import { ERC20_ABI, getErc20Balance, unwrapNative, wrapNative } from '../evm/erc20.js';
+import { DragonSwap, DEFAULT_SWAP_SLIPPAGE_BPS, SwapQuote, SwapQuoteSplit } from '../protocols/dragonswap.js';
+import { DragonSwapRouter, quoteRoute, RouteHop, RouteOptions, RouteQuote } from '../protocols/dragonswap-router.js';
+import { DragonSwapV2, withSlippage } from '../protocols/dragonswap-v2.js';
+import { DragonSwapV3, FEE_PIPS } from '../protocols/dragonswap-v3.js';
+
+export interface SwapOptions {
+  slippageBps: number; // Minimum-out tolerance, against the quote and on every leg
+  deadlineSeconds: number; // The routers reject a swap mined after this
+  routeOptions: Partial<RouteOptions>;
+}
+
+/**
+ * One router call: a split's hops, all on the same pool version
+ */
+export interface SwapLeg {
+  version: RouteHop['version'];
+  path: string[]; // Token symbols
+  amountIn: TokenAmount;
+  amountOut: TokenAmount; // Received, from the Transfer logs
+  minimumOut: TokenAmount;
+  transactionHashes: string[];
+}
+
+export interface SwapResult {
+  quote: SwapQuote; // What the swap was sized from
+  legs: SwapLeg[];
+  amountIn: TokenAmount;
+  amountOut: TokenAmount; // Received, from the Transfer logs (unwrapped when swapping to native SEI)
+  transactionHashes: string[];
+  gasUsed: number;
+  gasCost: TokenAmount; // Native SEI (18 decimals)
+}
+
+const DEFAULT_OPTIONS: SwapOptions = {
+  slippageBps: Number(DEFAULT_SWAP_SLIPPAGE_BPS),
+  deadlineSeconds: 20 * 60,
+  routeOptions: {},
+};
+
+/**
+ * Quote → re-quote → send; native SEI is wrapped before and unwrapped after when asked for by symbol
+ */
+export class DragonSwapClient {
+  private network: NetworkProfile;
+  private evm: EvmClient;
+  private dex: DragonSwap;
+  private router: DragonSwapRouter;
+  private v2: DragonSwapV2;
+  private v3: DragonSwapV3;
+  private signer: Signer | null = null;
+
+  constructor(network: NetworkProfile = getNetwork()) {
+    this.network = network;
+    this.evm = EvmClient.forNetwork(network);
+    this.dex = new DragonSwap(network);
+    this.router = new DragonSwapRouter(this.evm, network);
+    this.v2 = new DragonSwapV2(this.evm, network);
+    this.v3 = new DragonSwapV3(this.evm, network);
+  }
+
+  async initialize(signer: Signer): Promise<void> {
+    try {
+      await this.evm.connect();
+      this.signer = signer;
+      console.log(`✅ DragonSwap client initialized on ${this.network.name} (EVM ${this.evm.getActiveEndpoint()})`);
+    } catch (error) {
+      throw new Error(`Failed to initialize DragonSwap client: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Best-route quote with the minimum out at the given slippage (read-only). Only routes that stay on
+   * one pool version are considered, so every split is a single router call
+   */
+  async quote(tokenIn: string, tokenOut: string, amountIn: AmountInput, overrides: Partial<SwapOptions> = {}): Promise<SwapQuote> {
+    const options = { ...DEFAULT_OPTIONS, ...overrides };
+    const routeOptions = { ...options.routeOptions, mixedVersions: false };
+    return this.dex.simulateSwap(tokenIn, tokenOut, amountIn, BigInt(options.slippageBps), routeOptions);
+  }
+
+  /**
+   * Quote and execute an exact-input swap. Tokens are symbols (SEI, WSEI, iSEI, USDC, WETH) or addresses;
+   * 'SEI' in or out means native SEI
+   */
+  async swap(tokenIn: string, tokenOut: string, amountIn: AmountInput, overrides: Partial<SwapOptions> = {}): Promise<SwapResult> {
+    this.requireSigner();
+    const quote = await this.quote(tokenIn, tokenOut, amountIn, overrides);
+    return this.executeQuote(quote, overrides, { wrapIn: isNativeSEI(tokenIn), unwrapOut: isNativeSEI(tokenOut) });
+  }
+
+  /**
+   * Execute a quote. Every split is re-quoted from fresh pool state first and the whole swap aborts
+   * when the output fell below the quote's minimum; each leg then gets its own minimum out
+   * (the re-quoted output less slippage) and the shared deadline. Splits mixing V2 and V3 pools are
+   * refused: they would take two router calls, and a failed second call leaves the intermediate token behind
+   */
+  async executeQuote(
+    quote: SwapQuote,
+    overrides: Partial<SwapOptions> = {},
+    native: { wrapIn: boolean; unwrapOut: boolean } = { wrapIn: false, unwrapOut: false }
+  ): Promise<SwapResult> {
+    const signer = this.requireSigner();
+    const options = { ...DEFAULT_OPTIONS, ...overrides };
+    const slippageBps = BigInt(options.slippageBps);
+    const { evmAddress } = await signer.getAccount();
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + options.deadlineSeconds);
+    const wsei = parseEvmAddress(requireContract(this.network, 'yeiFinance', 'WSEI'));
+    const tokenIn = quote.splits[0].hops[0].tokenIn;
+    const receipts: EvmTransactionReceipt[] = [];
+
+    const mixed = quote.splits.find(split => split.hops.some(hop => hop.version !== split.hops[0].version));
+    if (mixed) {
+      throw new Error(`Route ${mixed.path.join(' → ')} mixes V2 and V3 pools and cannot be sent as one swap; re-quote it with DragonSwapClient.quote, which keeps to one pool version`);
+    }
+
+    // 1. Re-quote the exact routes against the pools as they are now
+    const fresh = await this.requote(quote);
+
+    // 2. Funds: wrap native SEI, then make sure the input is there
+    if (native.wrapIn && tokenIn === wsei) {
+      console.log(`🔄 Wrapping ${quote.amountIn.format(6)}...`);
+      receipts.push(await wrapNative(this.evm, signer, wsei, quote.amountIn.raw));
+    }
+    const balance = await getErc20Balance(this.evm, tokenIn, evmAddress);
+    if (balance < quote.amountIn.raw) {
+      throw new Error(`Insufficient ${quote.amountIn.token.symbol}: ${TokenAmount.fromRaw(balance, quote.amountIn.token).format(6)} held, ${quote.amountIn.format(6)} needed`);
+    }
+
+    // 3. Send each split as one router call
+    const legs: SwapLeg[] = [];
+    for (const [i, split] of quote.splits.entries()) {
+      legs.push(await this.executeSplit(split, fresh[i], slippageBps, deadline, evmAddress, receipts));
+    }
+
+    const received = legs.reduce((total, leg) => total.add(leg.amountOut), TokenAmount.zero(quote.amountOut.token));
+
+    // 4. Native SEI out
+    let amountOut = received;
+    if (native.unwrapOut && quote.splits[0].hops[quote.splits[0].hops.length - 1].tokenOut === wsei && !received.isZero()) {
+      console.log(`🔄 Unwrapping ${received.format(6)}...`);
+      receipts.push(await unwrapNative(this.evm, signer, wsei, received.raw));
+      amountOut = TokenAmount.fromRaw(received.raw, EVM_SEI);
+    }
+
+    console.log(`✅ Swapped ${quote.amountIn.format(6)} → ${amountOut.format(6)}`);
+    return {
+      quote,
+      legs,
+      amountIn: quote.amountIn,
+      amountOut,
+      transactionHashes: receipts.map(receipt => receipt.transactionHash),
+      gasUsed: receipts.reduce((total, receipt) => total + Number(receipt.gasUsed), 0),
+      gasCost: gasCostOf(receipts),
+    };
+  }
+
+  /**
+   * Fresh hop-by-hop quote of every split; throws when a route stopped filling or the total
+   * output dropped below the quote's minimum
+   */
+  private async requote(quote: SwapQuote): Promise<RouteQuote[]> {
+    const fresh = await Promise.all(quote.splits.map(async split => {
+      const route = await this.router.loadRoute(split.hops);
+      const requoted = route ? quoteRoute(route, split.amountIn.raw) : null;
+      if (!requoted) {
+        throw new Error(`Route ${split.path.join(' → ')} no longer fills ${split.amountIn.format(6)}`);
+      }
+      return requoted;
+    }));
+
+    const total = TokenAmount.fromRaw(fresh.reduce((sum, requoted) => sum + requoted.amountOut, 0n), quote.amountOut.token);
+    if (total.lt(quote.minimumOut)) {
+      throw new Error(`Price moved beyond tolerance: ${total.format(6)} now, ${quote.amountOut.format(6)} quoted (minimum ${quote.minimumOut.format(6)})`);
+    }
+    return fresh;
+  }
+
+  /**
+   * A split through the router of its pool version
+   */
+  private async executeSplit(
+    split: SwapQuoteSplit,
+    fresh: RouteQuote,
+    slippageBps: bigint,
+    deadline: bigint,
+    recipient: string,
+    receipts: EvmTransactionReceipt[]
+  ): Promise<SwapLeg> {
+    const { hops, amountIn } = split;
+    const version = hops[0].version;
+    const outAddress = hops[hops.length - 1].tokenOut;
+    const outToken = split.amountOut.token;
+    const minOut = withSlippage(fresh.amountOut, slippageBps);
+
+    console.log(`🔄 Swapping ${amountIn.format(6)} along ${split.path.join(' → ')} (${version})...`);
+    const legReceipts = version === 'V2'
+      ? (await this.v2.swapPath(this.requireSigner(), [hops[0].tokenIn, ...hops.map(hop => hop.tokenOut)], amountIn.raw, minOut, deadline)).receipts
+      : await this.v3.swapExactInput(
+          this.requireSigner(),
+          hops.map(hop => ({ tokenIn: hop.tokenIn, tokenOut: hop.tokenOut, fee: Math.round(hop.fee * Number(FEE_PIPS)) })),
+          amountIn.raw,
+          minOut,
+          deadline
+        );
+    receipts.push(...legReceipts);
+
+    const swapReceipt = legReceipts[legReceipts.length - 1];
+    const received = receivedFromLogs(swapReceipt, outAddress, recipient);
+    console.log(`✅ Received ${TokenAmount.fromRaw(received, outToken).format(6)}. TX: ${swapReceipt.transactionHash}`);
+
+    return {
+      version,
+      path: split.path,
+      amountIn,
+      amountOut: TokenAmount.fromRaw(received, outToken),
+      minimumOut: TokenAmount.fromRaw(minOut, outToken),
+      transactionHashes: legReceipts.map(receipt => receipt.transactionHash),
+    };
+  }
+
+  private requireSigner(): Signer {
+    if (!this.signer) {
+      throw new Error('DragonSwap client not initialized. Call initialize() first.');
+    }
+    return this.signer;
+  }
+}
+
+/**
+ * Transfers of `token` to `recipient` in a receipt (what the router paid out)
+ */
+export function receivedFromLogs(receipt: EvmTransactionReceipt, token: string, recipient: string): bigint {
+  return receipt.logs.reduce((total, log) => {
+    if (parseEvmAddress(log.address) !== parseEvmAddress(token)) {
+      return total;
+    }
+    try {
+      const transfer = decodeEventLog(ERC20_ABI.TRANSFER_EVENT, log);
+      return parseEvmAddress(transfer.to as string) === parseEvmAddress(recipient) ? total + (transfer.value as bigint) : total;
+    } catch {
+      return total; // Not a transfer
+    }
+  }, 0n);
+}
+
+function isNativeSEI(token: string): boolean {
+  return token.toUpperCase() === 'SEI';
+}
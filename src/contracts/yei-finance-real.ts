@@ -3,9 +3,19 @@
  * SEI Network DeFi Lending Protocol Integration
  */
 
-import { SigningCosmWasmClient } from '@cosmjs/cosmwasm-stargate';
-import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
-import { GasPrice } from '@cosmjs/stargate';
+import { ExecuteResult, SigningCosmWasmClient } from '@cosmjs/cosmwasm-stargate';
+import { Coin, GasPrice } from '@cosmjs/stargate';
+import { Signer } from '../signers/signer.js';
+import { EndpointStatus, isConnectionError, RpcEndpointPool } from '../utils/rpc-pool.js';
+import { assertChainId, getNetwork, NetworkProfile, requireContract } from '../config/networks.js';
+import { AmountInput, SEI, Token, TokenAmount } from '../utils/token-amount.js';
+import { deriveEvmAddress, parseAddress, parseEvmAddress, resolveLinkedAddressesWithFailover } from '../utils/address.js';
+import { EvmClient, EvmTransactionReceipt, gasCostOf } from '../evm/evm-client.js';
+import { decodeEventLog, formatEventLog } from '../evm/abi.js';
+import { ensureAllowance, erc20Address, ERC20_EVENTS, getErc20Balance, getErc20Token, unwrapNative, wrapNative } from '../evm/erc20.js';
+import { VARIABLE_RATE_MODE, YEI_EVENTS, YEI_FLASH_LEVERAGE, YEI_REWARDS, YEI_TRANSACTIONS } from '../protocols/yei-finance.js';
+import { FlashLeveragePlan, FlashUnwindPlan, SEILeverageCalculator } from '../strategies/leverage.js';
+import { YeiAssetPosition, YeiPoolReader } from './yei-pool-reader.js';
 
 export interface YeiContract {
   address: string;
@@ -17,58 +27,106 @@ export interface YeiTransactionResult {
   gasUsed: number;
   success: boolean;
   logs: string[];
+  transactionHashes?: string[]; // Every transaction sent (wrap, approve, pool call, unwrap), in order
+  amount?: TokenAmount; // Amount the Pool actually moved, read from its event
+  gasCost?: TokenAmount; // Fees actually paid (gasUsed × effectiveGasPrice), EVM flows only
 }
 
+/**
+ * Outcome of closePosition: every repay, then every withdrawal
+ */
+export interface YeiCloseResult {
+  repayments: YeiTransactionResult[];
+  withdrawals: YeiTransactionResult[];
+  gasUsed: number;
+  success: boolean;
+}
+
+/**
+ * Outcome of a flash-loan open or close: the helper transaction and what the Pool charged
+ */
+export interface YeiFlashLeverageResult extends YeiTransactionResult {
+  flashAmount: TokenAmount;
+  premium: TokenAmount; // Flash loan fee, from the FlashLoan event
+  healthFactor: number; // The Pool's health factor afterwards (Infinity with no debt)
+}
+
+/**
+ * Outcome of a rewards claim: every reward token paid out, read from RewardsClaimed events
+ */
+export interface YeiRewardsClaimResult extends YeiTransactionResult {
+  claimed: TokenAmount[];
+}
+
+/**
+ * Pool reserve; native SEI is held as WSEI and wrapped/unwrapped around Pool calls
+ */
+export interface YeiAsset {
+  address: string;
+  token: Token;
+  native: boolean;
+}
+
+const RECEIPT_EVENTS = [...Object.values(YEI_EVENTS), ...ERC20_EVENTS];
+
+// Pool sentinel for "everything": the whole aToken balance on withdraw, the whole debt on repay
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+// Funding on top of the debt read for repayAll, covering interest accrued until the repay lands
+const REPAY_ALL_BUFFER_BPS = 10n; // 0.1%
+const BPS = 10_000n;
+
 export interface YeiPosition {
-  collateral: number;
-  debt: number;
-  healthFactor: number;
-  ltv: number;
+  collateral: number; // Total collateral in SEI terms (base value / SEI oracle price)
+  debt: number; // Total debt in SEI terms
+  healthFactor: number; // The Pool's own health factor (Infinity with no debt)
+  ltv: number; // Current debt / collateral
+  maxLtv: number; // Collateral-weighted max LTV
+  liquidationThreshold: number; // Collateral-weighted, e-mode aware
+  collateralBase: number; // Base currency (USD)
+  debtBase: number;
+  availableBorrowsBase: number;
+  seiPrice: number;
+  eModeCategory: number; // 0 = none
+  assets: YeiAssetPosition[];
 }
 
 /**
  * Yei Finance protocol client for SEI network
- * Supports both CosmWasm and EVM transactions
+ * Lending goes through the Aave V3 Pool on the EVM side; liquid staking stays on CosmWasm
  */
 export class YeiFinanceClient {
   private client: SigningCosmWasmClient | null = null;
-  private wallet: DirectSecp256k1HdWallet | null = null;
-  private rpcUrl: string;
-  private chainId: string;
-
-  // Contract addresses (these would be the actual deployed addresses)
-  private readonly contracts = {
-    LENDING_POOL: 'sei1...yei_lending_pool_address',
-    PRICE_ORACLE: 'sei1...yei_price_oracle_address',
-    SEI_MARKET: 'sei1...sei_market_address',
-    LIQUIDATION_MANAGER: 'sei1...liquidation_manager_address'
-  };
+  private clientUrl: string | null = null;
+  private wallet: Signer | null = null;
+  private pool: RpcEndpointPool;
+  private network: NetworkProfile;
+  private evm: EvmClient;
+  private reader: YeiPoolReader;
+  private assets = new Map<string, YeiAsset>();
 
-  constructor(rpcUrl: string = 'https://sei-rpc.polkachu.com', chainId: string = 'pacific-1') {
-    this.rpcUrl = rpcUrl;
-    this.chainId = chainId;
+  // Contract addresses and gas price come from the network profile (config/networks.ts)
+  constructor(network: NetworkProfile = getNetwork()) {
+    this.pool = new RpcEndpointPool(network.rpcUrls);
+    this.network = network;
+    this.evm = EvmClient.forNetwork(network);
+    this.reader = new YeiPoolReader(this.evm, network);
   }
 
   /**
-   * Initialize wallet and client for transactions
+   * Initialize client for transactions with an injected signer (see signers/signer-factory.ts)
    */
-  async initialize(mnemonic: string): Promise<void> {
+  async initialize(signer: Signer): Promise<void> {
     try {
-      // Create wallet from mnemonic
-      this.wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
-        prefix: 'sei',
-      });
+      this.wallet = signer;
 
-      // Get signing client
-      this.client = await SigningCosmWasmClient.connectWithSigner(
-        this.rpcUrl,
-        this.wallet,
-        {
-          gasPrice: GasPrice.fromString('0.02usei'),
-        }
-      );
+      // Get signing client on the best available endpoint
+      await this.pool.probe();
+      this.client = await this.pool.withFailover(url => this.connectSigningClient(url), 'Connect signing client');
+      assertChainId(await this.client.getChainId(), this.network);
+      await this.evm.connect();
 
-      console.log('✅ Yei Finance client initialized');
+      console.log(`✅ Yei Finance client initialized on ${this.network.name} (${this.clientUrl}, EVM ${this.evm.getActiveEndpoint()})`);
     } catch (error) {
       throw new Error(`Failed to initialize Yei Finance client: ${error}`);
     }
@@ -77,179 +135,594 @@ export class YeiFinanceClient {
   /**
    * Step 1: Supply SEI as collateral to Yei Finance
    */
-  async supplyCollateral(seiAmount: number): Promise<YeiTransactionResult> {
-    if (!this.client || !this.wallet) {
-      throw new Error('Client not initialized. Call initialize() first.');
+  async supplyCollateral(seiAmount: AmountInput): Promise<YeiTransactionResult> {
+    return this.supply('SEI', seiAmount);
+  }
+
+  /**
+   * Step 2: Borrow SEI against supplied collateral (variable rate)
+   */
+  async borrowSEI(borrowAmount: AmountInput): Promise<YeiTransactionResult> {
+    return this.borrow('SEI', borrowAmount);
+  }
+
+  /**
+   * Withdraw SEI collateral; 'max' withdraws the whole supplied balance including accrued interest
+   */
+  async withdrawCollateral(seiAmount: AmountInput | 'max' = 'max'): Promise<YeiTransactionResult> {
+    return this.withdraw('SEI', seiAmount);
+  }
+
+  /**
+   * Supply a reserve to the Pool ('SEI' for native SEI, or an ERC20 address)
+   * Native SEI is wrapped to WSEI first; the Pool allowance is topped up when short
+   */
+  async supply(asset: string, amount: AmountInput): Promise<YeiTransactionResult> {
+    const signer = this.requireSigner();
+
+    try {
+      const { evmAddress } = await signer.getAccount();
+      const reserve = await this.resolveAsset(asset);
+      const value = toReserveAmount(amount, reserve);
+      const receipts: EvmTransactionReceipt[] = [];
+
+      console.log(`🏦 Supplying ${value.format()} as collateral to Yei Finance...`);
+
+      if (reserve.native) {
+        receipts.push(await wrapNative(this.evm, signer, reserve.address, value.raw));
+      }
+      await this.approvePool(reserve, value, receipts);
+
+      const receipt = await this.sendPoolTransaction(YEI_TRANSACTIONS.SUPPLY, [reserve.address, value.raw, evmAddress, 0]);
+      receipts.push(receipt);
+
+      console.log(`✅ Collateral supplied! TX: ${receipt.transactionHash}`);
+      return this.toResult(receipts, receipt, reserve, YEI_EVENTS.SUPPLY);
+
+    } catch (error) {
+      console.error('❌ Failed to supply collateral:', error);
+      throw error;
     }
+  }
+
+  /**
+   * Borrow a reserve at the variable rate; borrowed WSEI is unwrapped to native SEI
+   */
+  async borrow(asset: string, amount: AmountInput): Promise<YeiTransactionResult> {
+    const signer = this.requireSigner();
 
     try {
-      const [account] = await this.wallet.getAccounts();
-      const amountInUsei = Math.floor(seiAmount * 1_000_000); // Convert to microsei
+      const { evmAddress } = await signer.getAccount();
+      const reserve = await this.resolveAsset(asset);
+      const value = toReserveAmount(amount, reserve);
 
-      // CosmWasm execute message for supplying collateral
-      const executeMsg = {
-        supply: {
-          asset: 'sei',
-          amount: amountInUsei.toString(),
+      console.log(`💰 Borrowing ${value.format()} from Yei Finance...`);
+
+      const receipt = await this.sendPoolTransaction(
+        YEI_TRANSACTIONS.BORROW,
+        [reserve.address, value.raw, VARIABLE_RATE_MODE, 0, evmAddress]
+      );
+      const receipts = [receipt];
+
+      if (reserve.native) {
+        receipts.push(await unwrapNative(this.evm, signer, reserve.address, value.raw));
+      }
+
+      console.log(`✅ Borrowed ${value.format()}! TX: ${receipt.transactionHash}`);
+      return this.toResult(receipts, receipt, reserve, YEI_EVENTS.BORROW);
+
+    } catch (error) {
+      console.error(`❌ Failed to borrow ${asset}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Repay variable debt; any wrapped SEI the Pool did not pull (amount above the debt) is unwrapped again
+   */
+  async repay(asset: string, amount: AmountInput): Promise<YeiTransactionResult> {
+    this.requireSigner();
+
+    try {
+      const reserve = await this.resolveAsset(asset);
+      const value = toReserveAmount(amount, reserve);
+
+      console.log(`💸 Repaying ${value.format()}...`);
+      return await this.repayReserve(reserve, value, value.raw);
+
+    } catch (error) {
+      console.error('❌ Failed to repay debt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Repay the whole variable debt of a reserve, interest included
+   * Funds the debt plus a small buffer and lets the Pool take exactly what is owed at execution;
+   * the unused buffer is unwrapped again for native SEI. Null when there is no debt.
+   */
+  async repayAll(asset: string = 'SEI'): Promise<YeiTransactionResult | null> {
+    const signer = this.requireSigner();
+
+    try {
+      const { evmAddress } = await signer.getAccount();
+      const reserve = await this.resolveAsset(asset);
+      const debt = await this.getDebt(reserve, evmAddress);
+
+      if (debt.isZero()) {
+        console.log(`ℹ️  No ${reserve.token.symbol} debt to repay`);
+        return null;
+      }
+
+      const funded = repayAllFunding(debt);
+      const available = reserve.native
+        ? await this.evm.getBalance(evmAddress)
+        : await getErc20Balance(this.evm, reserve.address, evmAddress);
+      if (available < funded.raw) {
+        throw new Error(`Insufficient ${reserve.token.symbol}: repaying all needs ${funded.format()}, wallet has ${TokenAmount.fromRaw(available, reserve.token).format()}`);
+      }
+
+      console.log(`💸 Repaying all ${reserve.token.symbol} debt (${debt.format()} + accrued interest)...`);
+      const result = await this.repayReserve(reserve, funded, MAX_UINT256);
+
+      const remaining = await this.getDebt(reserve, evmAddress);
+      if (!remaining.isZero()) {
+        throw new Error(`${remaining.format()} of ${reserve.token.symbol} debt remains after repaying all`);
+      }
+      return result;
+
+    } catch (error) {
+      console.error(`❌ Failed to repay all ${asset} debt:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw supplied collateral ('max' for the whole balance); withdrawn WSEI is unwrapped to native SEI
+   */
+  async withdraw(asset: string, amount: AmountInput | 'max'): Promise<YeiTransactionResult> {
+    const signer = this.requireSigner();
+
+    try {
+      const { evmAddress } = await signer.getAccount();
+      const reserve = await this.resolveAsset(asset);
+      const value = amount === 'max' ? null : toReserveAmount(amount, reserve);
+
+      console.log(`🏧 Withdrawing ${value ? value.format() : `all ${reserve.token.symbol}`} from Yei Finance...`);
+
+      const receipt = await this.sendPoolTransaction(
+        YEI_TRANSACTIONS.WITHDRAW,
+        [reserve.address, value?.raw ?? MAX_UINT256, evmAddress]
+      );
+      const receipts = [receipt];
+
+      // With 'max' only the event knows the amount; without it nothing is unwrapped
+      const withdrawn = eventAmount(receipt, YEI_EVENTS.WITHDRAW) ?? value?.raw ?? 0n;
+      if (reserve.native && withdrawn > 0n) {
+        receipts.push(await unwrapNative(this.evm, signer, reserve.address, withdrawn));
+      }
+
+      console.log(`✅ Withdrew ${TokenAmount.fromRaw(withdrawn, reserve.token).format()}! TX: ${receipt.transactionHash}`);
+      return this.toResult(receipts, receipt, reserve, YEI_EVENTS.WITHDRAW);
+
+    } catch (error) {
+      console.error('❌ Failed to withdraw collateral:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exit the whole Yei position: repay every debt in full, verify nothing is owed,
+   * then withdraw every supplied reserve
+   */
+  async closePosition(): Promise<YeiCloseResult> {
+    const signer = this.requireSigner();
+
+    try {
+      const { evmAddress } = await signer.getAccount();
+      const [position, sei] = await Promise.all([
+        this.reader.getUserPosition(evmAddress),
+        this.resolveAsset('SEI'),
+      ]);
+      // Route the WSEI reserve through 'SEI' so it is wrapped/unwrapped around the Pool calls
+      const assetKey = (asset: string) => asset.toLowerCase() === sei.address.toLowerCase() ? 'SEI' : asset;
+
+      console.log('🔒 Closing Yei Finance position...');
+
+      const repayments: YeiTransactionResult[] = [];
+      for (const asset of position.assets.filter(held => !held.borrowed.isZero())) {
+        const result = await this.repayAll(assetKey(asset.asset));
+        if (result) {
+          repayments.push(result);
         }
+      }
+
+      const afterRepay = await this.reader.getUserAccountData(evmAddress);
+      if (afterRepay.totalDebtBase > 0) {
+        throw new Error(`Debt of $${afterRepay.totalDebtBase.toFixed(6)} remains; collateral was not withdrawn`);
+      }
+
+      const withdrawals: YeiTransactionResult[] = [];
+      for (const asset of position.assets.filter(held => !held.supplied.isZero())) {
+        withdrawals.push(await this.withdraw(assetKey(asset.asset), 'max'));
+      }
+
+      const results = [...repayments, ...withdrawals];
+      console.log(`✅ Position closed: ${repayments.length} repay(s), ${withdrawals.length} withdrawal(s)`);
+
+      return {
+        repayments,
+        withdrawals,
+        gasUsed: results.reduce((total, result) => total + result.gasUsed, 0),
+        success: results.every(result => result.success),
       };
 
-      console.log(`🏦 Supplying ${seiAmount} SEI as collateral to Yei Finance...`);
+    } catch (error) {
+      console.error('❌ Failed to close position:', error);
+      throw error;
+    }
+  }
 
-      const result = await this.client.execute(
-        account.address,
-        this.contracts.LENDING_POOL,
-        executeMsg,
-        'auto',
-        'Supply SEI collateral to Yei Finance',
-        [{ denom: 'usei', amount: amountInUsei.toString() }]
-      );
+  /**
+   * Opt into an e-mode category (0 leaves e-mode); null when the account is already in it
+   * The Pool rejects the switch if the current position would not stay healthy under the new parameters
+   */
+  async setEMode(categoryId: number): Promise<YeiTransactionResult | null> {
+    try {
+      const receipt = await this.sendEMode(categoryId);
+      return receipt ? this.toResult([receipt], receipt, await this.resolveAsset('SEI'), YEI_EVENTS.USER_EMODE_SET) : null;
 
-      console.log(`✅ Collateral supplied! TX: ${result.transactionHash}`);
+    } catch (error) {
+      console.error('❌ Failed to set e-mode:', error);
+      throw error;
+    }
+  }
 
+  /**
+   * Unclaimed incentives of a user (sei1 or 0x address) across every reserve's aToken and variable debt token
+   */
+  async getAccruedRewards(user: string): Promise<TokenAmount[]> {
+    const [evmAddress, incentivized] = await Promise.all([this.positionAddressOf(user), this.getIncentivizedTokens()]);
+    return this.reader.getAccruedRewards(evmAddress, incentivized);
+  }
+
+  /**
+   * Claim every accrued incentive to the signer's address; null when nothing has accrued
+   */
+  async claimRewards(): Promise<YeiRewardsClaimResult | null> {
+    const signer = this.requireSigner();
+
+    try {
+      const { evmAddress } = await signer.getAccount();
+      const controller = requireContract(this.network, 'yeiFinance', 'REWARDS_CONTROLLER');
+      const incentivized = await this.getIncentivizedTokens();
+      const accrued = await this.reader.getAccruedRewards(evmAddress, incentivized);
+
+      if (accrued.length === 0) {
+        console.log('ℹ️  No Yei rewards to claim');
+        return null;
+      }
+
+      console.log(`🎁 Claiming ${accrued.map(reward => reward.format()).join(', ')}...`);
+      const hash = await this.evm.writeContract(signer, controller, YEI_REWARDS.CLAIM_ALL_REWARDS, [incentivized, evmAddress]);
+      const receipt = await this.evm.waitForReceipt(hash);
+      const claimed = await this.claimedRewards(receipt, evmAddress, accrued);
+
+      console.log(`✅ Claimed ${claimed.map(reward => reward.format()).join(', ') || 'nothing'}! TX: ${receipt.transactionHash}`);
       return {
-        transactionHash: result.transactionHash,
-        gasUsed: result.gasUsed,
-        success: true,
-        logs: result.logs.map(log => JSON.stringify(log))
+        // Rewards span several tokens, so there is no single `amount`
+        ...this.toResult([receipt], receipt, await this.resolveAsset('SEI'), YEI_EVENTS.REWARDS_CLAIMED),
+        amount: undefined,
+        claimed,
       };
 
     } catch (error) {
-      console.error('❌ Failed to supply collateral:', error);
+      console.error('❌ Failed to claim rewards:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Size a flash-loan leverage open from the reserve's LTV, threshold and the Pool's flash premium;
+   * with `eModeCategory` the category's parameters are used instead (the reserve must belong to it)
+   */
+  async planFlashLeverage(
+    deposit: AmountInput,
+    targetLeverage: number,
+    asset: string = 'SEI',
+    eModeCategory: number = 0
+  ): Promise<FlashLeveragePlan> {
+    const reserve = await this.resolveAsset(asset);
+    const [{ configuration }, flashLoanPremiumBps] = await Promise.all([
+      this.reader.getReserve(reserve.address),
+      this.getFlashLoanPremium(),
+    ]);
+
+    if (!configuration.flashLoanEnabled) {
+      throw new Error(`Flash loans are disabled on the ${reserve.token.symbol} reserve`);
+    }
+    if (eModeCategory > 0 && configuration.eModeCategory !== eModeCategory) {
+      throw new Error(`The ${reserve.token.symbol} reserve is not in e-mode category ${eModeCategory}`);
+    }
+    const risk = eModeCategory > 0 ? await this.reader.getEModeCategory(eModeCategory) : configuration;
+
+    return SEILeverageCalculator.calculateFlashLeverage(toReserveAmount(deposit, reserve), targetLeverage, {
+      ltv: risk.ltv,
+      liquidationThreshold: risk.liquidationThreshold,
+      flashLoanPremiumBps,
+    });
+  }
+
+  /**
+   * Size the flash loan that closes a user's position (sei1 or 0x address) in one reserve; null when there is no debt
+   */
+  async planFlashUnwind(user: string, asset: string = 'SEI'): Promise<FlashUnwindPlan | null> {
+    const [reserve, evmAddress] = await Promise.all([this.resolveAsset(asset), this.positionAddressOf(user)]);
+    const [{ aToken }, debt, flashLoanPremiumBps] = await Promise.all([
+      this.reader.getReserve(reserve.address),
+      this.getDebt(reserve, evmAddress),
+      this.getFlashLoanPremium(),
+    ]);
+
+    if (debt.isZero()) {
+      return null;
+    }
+
+    const collateral = TokenAmount.fromRaw(await getErc20Balance(this.evm, aToken, evmAddress), reserve.token);
+    return SEILeverageCalculator.calculateFlashUnwind(debt, collateral, flashLoanPremiumBps);
+  }
+
+  /**
+   * Open `targetLeverage` on one reserve in a single transaction through the flash leverage helper:
+   * deposit + flash loan are supplied, flash loan + premium are borrowed to repay it.
+   * A non-zero `eModeCategory` is enabled first so the higher e-mode LTV applies.
+   */
+  async openFlashLeverage(
+    deposit: AmountInput,
+    targetLeverage: number,
+    asset: string = 'SEI',
+    eModeCategory: number = 0
+  ): Promise<YeiFlashLeverageResult> {
+    const signer = this.requireSigner();
+
+    try {
+      const { evmAddress } = await signer.getAccount();
+      const helper = requireContract(this.network, 'yeiFinance', 'FLASH_LEVERAGE_HELPER');
+      const reserve = await this.resolveAsset(asset);
+      const plan = await this.planFlashLeverage(deposit, targetLeverage, asset, eModeCategory);
+      const { variableDebtToken } = await this.reader.getReserve(reserve.address);
+      const receipts: EvmTransactionReceipt[] = [];
+
+      if (eModeCategory > 0) {
+        const eMode = await this.sendEMode(eModeCategory);
+        if (eMode) {
+          receipts.push(eMode);
+        }
+      }
+
+      if (reserve.native) {
+        receipts.push(await wrapNative(this.evm, signer, reserve.address, plan.deposit.raw));
+      }
+      const approval = await ensureAllowance(this.evm, signer, reserve.address, helper, plan.deposit.raw);
+      if (approval) {
+        receipts.push(approval);
+      }
+
+      // The helper borrows flash amount + premium on our behalf
+      const [allowance] = await this.evm.readContract(variableDebtToken, YEI_FLASH_LEVERAGE.BORROW_ALLOWANCE, [evmAddress, helper]);
+      if ((allowance as bigint) < plan.debt.raw) {
+        const hash = await this.evm.writeContract(signer, variableDebtToken, YEI_FLASH_LEVERAGE.APPROVE_DELEGATION, [helper, plan.debt.raw]);
+        receipts.push(await this.evm.waitForReceipt(hash));
+        console.log(`✍️  Delegated ${plan.debt.format()} of borrowing to the flash leverage helper`);
+      }
+
+      console.log(`⚡ Opening ${plan.leverageRatio.toFixed(2)}x: supplying ${plan.collateral.format()}, borrowing ${plan.debt.format()}...`);
+      const hash = await this.evm.writeContract(signer, helper, YEI_FLASH_LEVERAGE.OPEN_LEVERAGE, [
+        reserve.address, plan.deposit.raw, plan.flashAmount.raw,
+      ]);
+      const receipt = await this.evm.waitForReceipt(hash);
+      receipts.push(receipt);
+
+      const result = await this.toFlashResult(receipts, receipt, reserve, evmAddress);
+      console.log(`✅ Leverage opened in one transaction, health factor ${result.healthFactor.toFixed(3)}! TX: ${receipt.transactionHash}`);
+      return result;
+
+    } catch (error) {
+      console.error('❌ Failed to open flash leverage:', error);
       throw error;
     }
   }
 
   /**
-   * Step 2: Borrow SEI against supplied collateral
+   * Close a single-reserve position in one transaction: the helper flash-borrows the debt, repays it,
+   * withdraws all collateral and returns what is left (unwrapped for native SEI). Null when there is no debt.
    */
-  async borrowSEI(borrowAmount: number): Promise<YeiTransactionResult> {
+  async closeFlashLeverage(asset: string = 'SEI'): Promise<YeiFlashLeverageResult | null> {
+    const signer = this.requireSigner();
+
+    try {
+      const { evmAddress } = await signer.getAccount();
+      const helper = requireContract(this.network, 'yeiFinance', 'FLASH_LEVERAGE_HELPER');
+      const reserve = await this.resolveAsset(asset);
+      const plan = await this.planFlashUnwind(evmAddress, asset);
+
+      if (!plan) {
+        console.log(`ℹ️  No ${reserve.token.symbol} debt to unwind`);
+        return null;
+      }
+
+      const { aToken } = await this.reader.getReserve(reserve.address);
+      const receipts: EvmTransactionReceipt[] = [];
+
+      // The helper pulls the whole aToken balance, which keeps accruing until execution
+      const approval = await ensureAllowance(
+        this.evm, signer, aToken, helper,
+        plan.collateral.mulDiv(BPS + REPAY_ALL_BUFFER_BPS, BPS, 'up').raw
+      );
+      if (approval) {
+        receipts.push(approval);
+      }
+
+      console.log(`⚡ Closing: flash-repaying ${plan.debt.format()}, withdrawing ${plan.collateral.format()}...`);
+      const before = await getErc20Balance(this.evm, reserve.address, evmAddress);
+      const hash = await this.evm.writeContract(signer, helper, YEI_FLASH_LEVERAGE.CLOSE_LEVERAGE, [
+        reserve.address, aToken, plan.flashAmount.raw,
+      ]);
+      const receipt = await this.evm.waitForReceipt(hash);
+      receipts.push(receipt);
+
+      const returned = (await getErc20Balance(this.evm, reserve.address, evmAddress)) - before;
+      if (reserve.native && returned > 0n) {
+        receipts.push(await unwrapNative(this.evm, signer, reserve.address, returned));
+      }
+
+      const remaining = await this.getDebt(reserve, evmAddress);
+      if (!remaining.isZero()) {
+        throw new Error(`${remaining.format()} of ${reserve.token.symbol} debt remains after the flash unwind`);
+      }
+
+      const result = await this.toFlashResult(receipts, receipt, reserve, evmAddress);
+      console.log(`✅ Position closed in one transaction, ${TokenAmount.fromRaw(returned, reserve.token).format()} returned! TX: ${receipt.transactionHash}`);
+      return result;
+
+    } catch (error) {
+      console.error('❌ Failed to close flash leverage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Step 3: Stake borrowed SEI (using liquid staking)
+   */
+  async stakeBorrowedSEI(seiAmount: AmountInput): Promise<YeiTransactionResult> {
     if (!this.client || !this.wallet) {
       throw new Error('Client not initialized.');
     }
 
     try {
       const [account] = await this.wallet.getAccounts();
-      const amountInUsei = Math.floor(borrowAmount * 1_000_000);
+      const amount = TokenAmount.from(seiAmount, SEI);
 
+      // This would interact with Silo liquid staking contract
       const executeMsg = {
-        borrow: {
-          asset: 'sei',
-          amount: amountInUsei.toString(),
+        stake: {
+          amount: amount.raw.toString(),
         }
       };
 
-      console.log(`💰 Borrowing ${borrowAmount} SEI from Yei Finance...`);
+      console.log(`🥩 Staking ${amount.format()} through liquid staking...`);
 
-      const result = await this.client.execute(
+      const result = await this.execute(
         account.address,
-        this.contracts.LENDING_POOL,
+        requireContract(this.network, 'yeiCosmWasm', 'LIQUID_STAKING'),
         executeMsg,
         'auto',
-        'Borrow SEI from Yei Finance'
+        'Stake SEI through liquid staking',
+        [amount.toCoin()]
       );
 
-      console.log(`✅ Borrowed ${borrowAmount} SEI! TX: ${result.transactionHash}`);
+      console.log(`✅ Staked ${amount.format()}! TX: ${result.transactionHash}`);
 
       return {
         transactionHash: result.transactionHash,
-        gasUsed: result.gasUsed,
+        gasUsed: Number(result.gasUsed),
         success: true,
         logs: result.logs.map(log => JSON.stringify(log))
       };
 
     } catch (error) {
-      console.error('❌ Failed to borrow SEI:', error);
+      console.error('❌ Failed to stake SEI:', error);
       throw error;
     }
   }
 
   /**
-   * Step 3: Stake borrowed SEI (using liquid staking)
+   * Redeem liquid-staked SEI through Silo; the SEI arrives after the unbonding period
    */
-  async stakeBorrowedSEI(seiAmount: number): Promise<YeiTransactionResult> {
+  async redeemStakedSEI(seiAmount: AmountInput): Promise<YeiTransactionResult> {
     if (!this.client || !this.wallet) {
       throw new Error('Client not initialized.');
     }
 
     try {
       const [account] = await this.wallet.getAccounts();
-      const amountInUsei = Math.floor(seiAmount * 1_000_000);
+      const amount = TokenAmount.from(seiAmount, SEI);
 
-      // This would interact with Silo liquid staking contract
       const executeMsg = {
-        stake: {
-          amount: amountInUsei.toString(),
+        unstake: {
+          amount: amount.raw.toString(),
         }
       };
 
-      console.log(`🥩 Staking ${seiAmount} SEI through liquid staking...`);
-
-      // Mock liquid staking contract address
-      const liquidStakingContract = 'sei1...silo_staking_contract';
+      console.log(`⏳ Redeeming ${amount.format()} of liquid-staked SEI...`);
 
-      const result = await this.client.execute(
+      const result = await this.execute(
         account.address,
-        liquidStakingContract,
+        requireContract(this.network, 'yeiCosmWasm', 'LIQUID_STAKING'),
         executeMsg,
         'auto',
-        'Stake SEI through liquid staking',
-        [{ denom: 'usei', amount: amountInUsei.toString() }]
+        'Redeem liquid-staked SEI'
       );
 
-      console.log(`✅ Staked ${seiAmount} SEI! TX: ${result.transactionHash}`);
+      console.log(`✅ Redemption of ${amount.format()} started! TX: ${result.transactionHash}`);
 
       return {
         transactionHash: result.transactionHash,
-        gasUsed: result.gasUsed,
+        gasUsed: Number(result.gasUsed),
         success: true,
         logs: result.logs.map(log => JSON.stringify(log))
       };
 
     } catch (error) {
-      console.error('❌ Failed to stake SEI:', error);
+      console.error('❌ Failed to redeem staked SEI:', error);
       throw error;
     }
   }
 
   /**
    * Monitor position health and risk metrics
+   * Reads getUserAccountData and every reserve the user holds (sei1 or 0x address)
    */
   async getPositionHealth(userAddress: string): Promise<YeiPosition> {
-    if (!this.client) {
-      throw new Error('Client not initialized.');
-    }
-
     try {
-      // Query user position from Yei Finance
-      const queryMsg = {
-        get_user_position: {
-          user: userAddress,
-        }
-      };
-
-      const positionData = await this.client.queryContractSmart(
-        this.contracts.LENDING_POOL,
-        queryMsg
-      );
+      const evmAddress = await this.positionAddressOf(userAddress);
+      const [position, seiPrice] = await Promise.all([
+        this.reader.getUserPosition(evmAddress),
+        this.getOracleSEIPrice(),
+      ]);
+      const { account } = position;
 
-      // Parse position data (structure depends on contract implementation)
-      const collateral = parseInt(positionData.collateral || '0') / 1_000_000;
-      const debt = parseInt(positionData.debt || '0') / 1_000_000;
-      const ltv = debt / collateral;
-      const healthFactor = (collateral * 0.8) / debt; // Assuming 80% liquidation threshold
+      const collateral = account.totalCollateralBase / seiPrice;
+      const debt = account.totalDebtBase / seiPrice;
+      const ltv = account.totalCollateralBase > 0 ? account.totalDebtBase / account.totalCollateralBase : 0;
 
       console.log('📊 Position Status:');
-      console.log(`   Collateral: ${collateral} SEI`);
-      console.log(`   Debt: ${debt} SEI`);
-      console.log(`   LTV: ${(ltv * 100).toFixed(2)}%`);
-      console.log(`   Health Factor: ${healthFactor.toFixed(3)}`);
+      position.assets.forEach(asset => {
+        const supplied = asset.supplied.isZero() ? '' : ` supplied ${asset.supplied.format(4)}${asset.usedAsCollateral ? ' (collateral)' : ''}`;
+        const borrowed = asset.borrowed.isZero() ? '' : ` borrowed ${asset.borrowed.format(4)}`;
+        console.log(`   ${asset.symbol}:${supplied}${borrowed} @ $${asset.price.toFixed(4)}`);
+      });
+      console.log(`   Collateral: $${account.totalCollateralBase.toFixed(2)} (${collateral.toFixed(4)} SEI)`);
+      console.log(`   Debt: $${account.totalDebtBase.toFixed(2)} (${debt.toFixed(4)} SEI)`);
+      console.log(`   LTV: ${(ltv * 100).toFixed(2)}% (max ${(account.ltv * 100).toFixed(2)}%, liquidation at ${(account.currentLiquidationThreshold * 100).toFixed(2)}%)`);
+      console.log(`   Health Factor: ${account.healthFactor.toFixed(3)}`);
+      if (position.eModeCategory) {
+        console.log(`   E-Mode: ${position.eModeCategory.label} (#${position.eModeCategory.id})`);
+      }
 
       return {
         collateral,
         debt,
-        healthFactor,
-        ltv
+        healthFactor: account.healthFactor,
+        ltv,
+        maxLtv: account.ltv,
+        liquidationThreshold: account.currentLiquidationThreshold,
+        collateralBase: account.totalCollateralBase,
+        debtBase: account.totalDebtBase,
+        availableBorrowsBase: account.availableBorrowsBase,
+        seiPrice,
+        eModeCategory: position.eModeCategory?.id ?? 0,
+        assets: position.assets,
       };
 
     } catch (error) {
@@ -261,90 +734,344 @@ export class YeiFinanceClient {
   /**
    * Emergency: Repay debt to reduce liquidation risk
    */
-  async emergencyRepay(repayAmount: number): Promise<YeiTransactionResult> {
-    if (!this.client || !this.wallet) {
-      throw new Error('Client not initialized.');
-    }
+  async emergencyRepay(repayAmount: AmountInput): Promise<YeiTransactionResult> {
+    console.log('🚨 Emergency repay');
+    return this.repay('SEI', repayAmount);
+  }
 
+  /**
+   * Get current SEI price from Yei Finance oracle
+   */
+  async getSEIPrice(): Promise<number> {
     try {
-      const [account] = await this.wallet.getAccounts();
-      const amountInUsei = Math.floor(repayAmount * 1_000_000);
+      return await this.getOracleSEIPrice();
 
-      const executeMsg = {
-        repay: {
-          asset: 'sei',
-          amount: amountInUsei.toString(),
-        }
-      };
+    } catch (error) {
+      console.log('⚠️ Using mock SEI price: $0.45');
+      return 0.45; // Mock price if oracle query fails
+    }
+  }
 
-      console.log(`🚨 Emergency repaying ${repayAmount} SEI...`);
+  /**
+   * Read-only Pool/oracle access for market and position queries
+   */
+  getPoolReader(): YeiPoolReader {
+    return this.reader;
+  }
 
-      const result = await this.client.execute(
-        account.address,
-        this.contracts.LENDING_POOL,
-        executeMsg,
-        'auto',
-        'Emergency repay SEI debt',
-        [{ denom: 'usei', amount: amountInUsei.toString() }]
-      );
+  /**
+   * Calculate liquidation price for current position
+   * Pass the position's own (e-mode aware) threshold; 80% is the plain SEI reserve's
+   */
+  calculateLiquidationPrice(collateral: number, debt: number, liquidationThreshold: number = 0.80): number {
+    return debt / (collateral * liquidationThreshold);
+  }
 
-      console.log(`✅ Repaid ${repayAmount} SEI! TX: ${result.transactionHash}`);
+  /**
+   * Endpoint currently used for queries and broadcasts
+   */
+  getActiveEndpoint(): string | null {
+    return this.pool.getActiveEndpoint();
+  }
 
-      return {
-        transactionHash: result.transactionHash,
-        gasUsed: result.gasUsed,
-        success: true,
-        logs: result.logs.map(log => JSON.stringify(log))
-      };
+  /**
+   * Latency / block-lag status of every configured endpoint
+   */
+  getEndpointStatus(): EndpointStatus[] {
+    return this.pool.getStatus();
+  }
 
-    } catch (error) {
-      console.error('❌ Failed to repay debt:', error);
-      throw error;
+  /**
+   * Pool reserve for 'SEI' (WSEI, unwrapped around calls) or an ERC20 address (cached)
+   */
+  async resolveAsset(asset: string): Promise<YeiAsset> {
+    const native = asset.toUpperCase() === 'SEI';
+    const address = native ? requireContract(this.network, 'yeiFinance', 'WSEI') : parseEvmAddress(asset);
+    const key = native ? 'SEI' : address;
+
+    let resolved = this.assets.get(key);
+    if (!resolved) {
+      const token = await getErc20Token(this.evm, address);
+      resolved = { address, token: native ? { ...token, symbol: 'SEI' } : token, native };
+      this.assets.set(key, resolved);
+    }
+    return resolved;
+  }
+
+  private async getOracleSEIPrice(): Promise<number> {
+    const wsei = parseEvmAddress(requireContract(this.network, 'yeiFinance', 'WSEI'));
+    const price = (await this.reader.getAssetPrices([wsei])).get(wsei);
+
+    if (!price) {
+      throw new Error('Oracle returned no SEI price');
+    }
+    return price;
+  }
+
+  private requireSigner(): Signer {
+    if (!this.wallet) {
+      throw new Error('Client not initialized. Call initialize() first.');
+    }
+    return this.wallet;
+  }
+
+  private async approvePool(reserve: YeiAsset, amount: TokenAmount, receipts: EvmTransactionReceipt[]): Promise<void> {
+    const pool = requireContract(this.network, 'yeiFinance', 'LENDING_POOL');
+    const approval = await ensureAllowance(this.evm, this.requireSigner(), reserve.address, pool, amount.raw);
+
+    if (approval) {
+      console.log(`✍️  Approved ${amount.format()} for the Yei Pool`);
+      receipts.push(approval);
     }
   }
 
   /**
-   * Get current SEI price from Yei Finance oracle
+   * Wrap (native) and approve `funded`, then repay `poolAmount` (MAX_UINT256 = the whole debt);
+   * wrapped SEI the Pool did not pull is unwrapped again
    */
-  async getSEIPrice(): Promise<number> {
-    if (!this.client) {
-      throw new Error('Client not initialized.');
+  private async repayReserve(reserve: YeiAsset, funded: TokenAmount, poolAmount: bigint): Promise<YeiTransactionResult> {
+    const signer = this.requireSigner();
+    const { evmAddress } = await signer.getAccount();
+    const receipts: EvmTransactionReceipt[] = [];
+
+    if (reserve.native) {
+      receipts.push(await wrapNative(this.evm, signer, reserve.address, funded.raw));
     }
+    await this.approvePool(reserve, funded, receipts);
 
-    try {
-      const queryMsg = {
-        get_price: {
-          asset: 'sei',
+    const receipt = await this.sendPoolTransaction(
+      YEI_TRANSACTIONS.REPAY,
+      [reserve.address, poolAmount, VARIABLE_RATE_MODE, evmAddress]
+    );
+    receipts.push(receipt);
+
+    const repaid = eventAmount(receipt, YEI_EVENTS.REPAY) ?? funded.raw;
+    if (reserve.native && repaid < funded.raw) {
+      receipts.push(await unwrapNative(this.evm, signer, reserve.address, funded.raw - repaid));
+    }
+
+    console.log(`✅ Repaid ${TokenAmount.fromRaw(repaid, reserve.token).format()}! TX: ${receipt.transactionHash}`);
+    return this.toResult(receipts, receipt, reserve, YEI_EVENTS.REPAY);
+  }
+
+  /**
+   * Current variable debt of a user in one reserve (interest included)
+   */
+  private async getDebt(reserve: YeiAsset, user: string): Promise<TokenAmount> {
+    const { variableDebtToken } = await this.reader.getReserve(reserve.address);
+    return TokenAmount.fromRaw(await getErc20Balance(this.evm, variableDebtToken, user), reserve.token);
+  }
+
+  /**
+   * setUserEMode unless the account already is in `categoryId`
+   */
+  private async sendEMode(categoryId: number): Promise<EvmTransactionReceipt | null> {
+    const { evmAddress } = await this.requireSigner().getAccount();
+    if (await this.reader.getUserEMode(evmAddress) === categoryId) {
+      console.log(`ℹ️  E-mode category ${categoryId} already active`);
+      return null;
+    }
+
+    const category = categoryId > 0 ? await this.reader.getEModeCategory(categoryId) : null;
+    console.log(category
+      ? `🔗 Enabling e-mode "${category.label}" (LTV ${(category.ltv * 100).toFixed(0)}%, liquidation at ${(category.liquidationThreshold * 100).toFixed(0)}%)...`
+      : '🔗 Leaving e-mode...');
+
+    const receipt = await this.sendPoolTransaction(YEI_TRANSACTIONS.SET_USER_EMODE, [categoryId]);
+    console.log(`✅ E-mode set to ${categoryId}! TX: ${receipt.transactionHash}`);
+    return receipt;
+  }
+
+  /**
+   * Every aToken and variable debt token, the assets the rewards controller tracks
+   */
+  private async getIncentivizedTokens(): Promise<string[]> {
+    const reserves = await this.reader.getReserves();
+    return reserves.flatMap(reserve => [reserve.aToken, reserve.variableDebtToken]);
+  }
+
+  /**
+   * RewardsClaimed amounts paid to `to` in a receipt, one per reward token
+   */
+  private async claimedRewards(receipt: EvmTransactionReceipt, to: string, accrued: TokenAmount[]): Promise<TokenAmount[]> {
+    const totals = new Map<string, bigint>();
+    for (const log of receipt.logs) {
+      try {
+        const claim = decodeEventLog(YEI_EVENTS.REWARDS_CLAIMED, log);
+        if (parseEvmAddress(claim.to as string) === parseEvmAddress(to)) {
+          const reward = parseEvmAddress(claim.reward as string);
+          totals.set(reward, (totals.get(reward) ?? 0n) + (claim.amount as bigint));
         }
-      };
+      } catch {
+        // Not a claim
+      }
+    }
 
-      const priceData = await this.client.queryContractSmart(
-        this.contracts.PRICE_ORACLE,
-        queryMsg
-      );
+    return Promise.all([...totals].filter(([, amount]) => amount > 0n).map(async ([reward, amount]) => {
+      const token = accrued.find(known => erc20Address(known.token) === reward)?.token ?? await getErc20Token(this.evm, reward);
+      return TokenAmount.fromRaw(amount, token);
+    }));
+  }
 
-      return parseFloat(priceData.price) / 1_000_000; // Convert from micro units
+  /**
+   * Pool flash loan premium in bps
+   */
+  private async getFlashLoanPremium(): Promise<bigint> {
+    const pool = requireContract(this.network, 'yeiFinance', 'LENDING_POOL');
+    const [premium] = await this.evm.readContract(pool, YEI_FLASH_LEVERAGE.FLASHLOAN_PREMIUM_TOTAL);
+    return premium as bigint;
+  }
+
+  private async toFlashResult(
+    receipts: EvmTransactionReceipt[],
+    helperReceipt: EvmTransactionReceipt,
+    reserve: YeiAsset,
+    user: string
+  ): Promise<YeiFlashLeverageResult> {
+    const result = this.toResult(receipts, helperReceipt, reserve, YEI_EVENTS.FLASH_LOAN);
+    const { healthFactor } = await this.reader.getUserAccountData(user);
 
+    return {
+      ...result,
+      flashAmount: result.amount ?? TokenAmount.zero(reserve.token),
+      premium: TokenAmount.fromRaw(eventAmount(helperReceipt, YEI_EVENTS.FLASH_LOAN, 'premium') ?? 0n, reserve.token),
+      healthFactor,
+    };
+  }
+
+  private async sendPoolTransaction(fragment: string, args: unknown[]): Promise<EvmTransactionReceipt> {
+    const pool = requireContract(this.network, 'yeiFinance', 'LENDING_POOL');
+    const hash = await this.evm.writeContract(this.requireSigner(), pool, fragment, args);
+    return this.evm.waitForReceipt(hash);
+  }
+
+  /**
+   * Result for a multi-transaction flow: hash of the Pool call, total gas, every decoded log
+   */
+  private toResult(
+    receipts: EvmTransactionReceipt[],
+    poolReceipt: EvmTransactionReceipt,
+    reserve: YeiAsset,
+    event: string
+  ): YeiTransactionResult {
+    const moved = eventAmount(poolReceipt, event);
+
+    return {
+      transactionHash: poolReceipt.transactionHash,
+      gasUsed: receipts.reduce((total, receipt) => total + Number(receipt.gasUsed), 0),
+      success: receipts.every(receipt => receipt.status === 'success'),
+      logs: receipts.flatMap(receipt => receipt.logs.map(log => formatEventLog(log, RECEIPT_EVENTS))),
+      transactionHashes: receipts.map(receipt => receipt.transactionHash),
+      amount: moved === null ? undefined : TokenAmount.fromRaw(moved, reserve.token),
+      gasCost: gasCostOf(receipts),
+    };
+  }
+
+  /**
+   * Execute a contract message
+   * Broadcasts are never retried automatically (a timed-out broadcast may still land);
+   * a connection failure marks the endpoint so the next call fails over
+   */
+  private async execute(
+    sender: string,
+    contract: string,
+    msg: Record<string, unknown>,
+    fee: 'auto',
+    memo: string,
+    funds?: Coin[]
+  ): Promise<ExecuteResult> {
+    const client = await this.pool.withFailover(url => this.connectSigningClient(url), 'Connect signing client');
+
+    try {
+      return await client.execute(sender, contract, msg, fee, memo, funds);
     } catch (error) {
-      console.log('⚠️ Using mock SEI price: $0.45');
-      return 0.45; // Mock price if oracle query fails
+      if (this.clientUrl && isConnectionError(error)) {
+        this.pool.markFailed(this.clientUrl, error instanceof Error ? error.message : String(error));
+        this.client?.disconnect();
+        this.client = null;
+        this.clientUrl = null;
+      }
+      throw error;
     }
   }
 
   /**
-   * Calculate liquidation price for current position
+   * EVM address holding the Pool position of a sei1 or 0x address
+   * Our own account is derived from the signer's key; any other sei1 address must be associated on-chain,
+   * since the default cast of an unassociated address holds no position and would read as healthy
    */
-  calculateLiquidationPrice(collateral: number, debt: number): number {
-    const liquidationThreshold = 0.80; // 80%
-    return debt / (collateral * liquidationThreshold);
+  private async positionAddressOf(userAddress: string): Promise<string> {
+    const parsed = parseAddress(userAddress);
+    if (parsed.kind === 'evm') {
+      return parsed.address;
+    }
+
+    const account = await this.wallet?.getAccount();
+    if (account?.address === parsed.address) {
+      return deriveEvmAddress(account.pubkey);
+    }
+
+    return (await resolveLinkedAddressesWithFailover(parsed.address, this.network.evmRpcUrls, 'reject')).evmAddress;
+  }
+
+  private async connectSigningClient(url: string): Promise<SigningCosmWasmClient> {
+    if (!this.wallet) {
+      throw new Error('Client not initialized. Call initialize() first.');
+    }
+
+    if (!this.client || this.clientUrl !== url) {
+      this.client?.disconnect();
+      this.client = await SigningCosmWasmClient.connectWithSigner(url, this.wallet, {
+        gasPrice: GasPrice.fromString(this.network.gasPrice),
+      });
+      this.clientUrl = url;
+    }
+
+    return this.client;
   }
 
   /**
    * Disconnect client
    */
   async disconnect(): Promise<void> {
+    this.client?.disconnect();
     this.client = null;
+    this.clientUrl = null;
     this.wallet = null;
     console.log('🔌 Disconnected from Yei Finance');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * What repayAll funds for a debt: the debt plus the buffer for interest accrued until the repay lands
+ */
+export function repayAllFunding(debt: TokenAmount): TokenAmount {
+  return debt.mulDiv(BPS + REPAY_ALL_BUFFER_BPS, BPS, 'up');
+}
+
+/**
+ * Caller amounts for native SEI are usually 6-decimal usei; the WSEI reserve uses 18 decimals
+ */
+function toReserveAmount(amount: AmountInput, reserve: YeiAsset): TokenAmount {
+  if (reserve.native && amount instanceof TokenAmount && amount.token.denom === SEI.denom) {
+    return amount.convert(1, reserve.token);
+  }
+  return TokenAmount.from(amount, reserve.token);
+}
+
+/**
+ * `amount` (or another uint) field of the first matching Pool event in a receipt
+ */
+function eventAmount(receipt: EvmTransactionReceipt, event: string, field: string = 'amount'): bigint | null {
+  for (const log of receipt.logs) {
+    try {
+      const value = decodeEventLog(event, log)[field];
+      if (typeof value === 'bigint') {
+        return value;
+      }
+    } catch {
+      // Not this event
+    }
+  }
+  return null;
+}
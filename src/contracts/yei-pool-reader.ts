@@ -0,0 +1,430 @@
+/**
+ * Yei Finance (Aave V3) read-side
+ * Reserves, reserve configuration, e-mode categories, oracle prices and user positions,
+ * straight from the Pool and oracle contracts
+ */
+
+import { EvmClient } from '../evm/evm-client.js';
+import { ERC20_ABI, getErc20Balance, getErc20Token } from '../evm/erc20.js';
+import { NetworkProfile, requireContract } from '../config/networks.js';
+import { parseEvmAddress } from '../utils/address.js';
+import { Token, TokenAmount } from '../utils/token-amount.js';
+import { InterestRateModel } from '../protocols/yei-interest-rate.js';
+
+export interface ReserveConfiguration {
+  ltv: number; // 0.75 = 75%
+  liquidationThreshold: number;
+  liquidationPenalty: number; // Liquidation bonus above 100% (0.05 = 5%)
+  decimals: number;
+  active: boolean;
+  frozen: boolean;
+  borrowingEnabled: boolean;
+  paused: boolean;
+  flashLoanEnabled: boolean;
+  reserveFactor: number;
+  borrowCap: number; // Whole tokens, 0 = uncapped
+  supplyCap: number; // Whole tokens, 0 = uncapped
+  liquidationProtocolFee: number;
+  eModeCategory: number;
+  debtCeiling: number; // Isolation mode ceiling in base currency, 0 = not isolated
+}
+
+export interface YeiReserve {
+  id: number;
+  asset: string;
+  token: Token;
+  aToken: string;
+  variableDebtToken: string;
+  interestRateStrategy: string;
+  configuration: ReserveConfiguration;
+  liquidityIndex: bigint; // Ray (1e27)
+  variableBorrowIndex: bigint; // Ray
+  liquidityRate: bigint; // Supply APR, ray
+  variableBorrowRate: bigint; // Borrow APR, ray
+  lastUpdateTimestamp: number;
+  accruedToTreasury: bigint;
+  unbacked: bigint;
+}
+
+export interface YeiReserveTotals {
+  totalSupplied: bigint; // aToken supply (deposits + accrued interest)
+  totalBorrowed: bigint; // Variable debt token supply
+  availableLiquidity: bigint; // Underlying held by the aToken
+}
+
+export interface YeiEModeCategory {
+  id: number;
+  label: string;
+  ltv: number;
+  liquidationThreshold: number;
+  liquidationPenalty: number;
+  priceSource: string | null; // null = each asset's own oracle price
+}
+
+export interface YeiAccountData {
+  totalCollateralBase: number; // Base currency (USD)
+  totalDebtBase: number;
+  availableBorrowsBase: number;
+  currentLiquidationThreshold: number; // Collateral-weighted, e-mode aware
+  ltv: number; // Collateral-weighted max LTV
+  healthFactor: number; // Infinity with no debt
+}
+
+export interface YeiAssetPosition {
+  asset: string;
+  symbol: string;
+  supplied: TokenAmount; // aToken balance (principal + interest)
+  borrowed: TokenAmount; // Variable debt token balance
+  usedAsCollateral: boolean;
+  price: number; // Base currency per token
+  suppliedBase: number;
+  borrowedBase: number;
+  ltv: number; // Effective for this user (e-mode category values when it applies)
+  liquidationThreshold: number;
+  liquidationPenalty: number;
+}
+
+export interface YeiRewardEmission {
+  incentivized: string; // aToken or variable debt token earning the reward
+  reward: string; // Reward token
+  token: Token;
+  emissionPerSecond: bigint; // Reward token raw units, shared by every holder
+  distributionEnd: number; // Unix seconds
+}
+
+export interface YeiUserPosition {
+  user: string;
+  account: YeiAccountData;
+  eModeCategory: YeiEModeCategory | null;
+  assets: YeiAssetPosition[]; // Only reserves with a balance
+}
+
+/**
+ * Pool / oracle views used to read positions and reserves
+ */
+export const YEI_QUERIES = {
+  // Base-currency totals (oracle units), LTV/threshold in bps, health factor in 1e18
+  GET_USER_ACCOUNT_DATA: 'function getUserAccountData(address user) view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+  
+  GET_RESERVES_LIST: 'function getReservesList() view returns (address[])',
+  
+  // ReserveData struct (all static, so it decodes as a flat list)
+  GET_RESERVE_DATA: 'function getReserveData(address asset) view returns (uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt)',
+  
+  // Bit pairs per reserve id: borrowing (2*id), using as collateral (2*id + 1)
+  GET_USER_CONFIGURATION: 'function getUserConfiguration(address user) view returns (uint256)',
+  
+  GET_USER_EMODE: 'function getUserEMode(address user) view returns (uint256)',
+  
+  GET_EMODE_CATEGORY_DATA: 'function getEModeCategoryData(uint8 id) view returns ((uint16 ltv, uint16 liquidationThreshold, uint16 liquidationBonus, address priceSource, string label))',
+  
+  // AaveOracle
+  GET_ASSETS_PRICES: 'function getAssetsPrices(address[] assets) view returns (uint256[])',
+  BASE_CURRENCY_UNIT: 'function BASE_CURRENCY_UNIT() view returns (uint256)',
+  
+  // DefaultReserveInterestRateStrategy (all ray)
+  OPTIMAL_USAGE_RATIO: 'function OPTIMAL_USAGE_RATIO() view returns (uint256)',
+  GET_BASE_VARIABLE_BORROW_RATE: 'function getBaseVariableBorrowRate() view returns (uint256)',
+  GET_VARIABLE_RATE_SLOPE1: 'function getVariableRateSlope1() view returns (uint256)',
+  GET_VARIABLE_RATE_SLOPE2: 'function getVariableRateSlope2() view returns (uint256)',
+  
+  // RewardsController (keyed by aToken / debt token)
+  GET_REWARDS_BY_ASSET: 'function getRewardsByAsset(address asset) view returns (address[])',
+  GET_REWARDS_DATA: 'function getRewardsData(address asset, address reward) view returns (uint256 index, uint256 emissionPerSecond, uint256 lastUpdateTimestamp, uint256 distributionEnd)',
+  GET_ALL_USER_REWARDS: 'function getAllUserRewards(address[] assets, address user) view returns (address[] rewardsList, uint256[] unclaimedAmounts)',
+} as const;
+
+const BPS = 10_000;
+const HEALTH_FACTOR_DECIMALS = 18;
+
+/**
+ * Read-only access to the Pool and oracle (no signer needed)
+ */
+export class YeiPoolReader {
+  private evm: EvmClient;
+  private network: NetworkProfile;
+  private tokens = new Map<string, Token>();
+  private baseCurrencyUnit: bigint | null = null;
+
+  constructor(evm: EvmClient, network: NetworkProfile) {
+    this.evm = evm;
+    this.network = network;
+  }
+
+  async getReservesList(): Promise<string[]> {
+    const [reserves] = await this.evm.readContract(this.poolAddress(), YEI_QUERIES.GET_RESERVES_LIST);
+    return reserves as string[];
+  }
+
+  /**
+   * Reserve state and decoded configuration
+   */
+  async getReserve(asset: string): Promise<YeiReserve> {
+    const address = parseEvmAddress(asset);
+    const [data, token] = await Promise.all([
+      this.evm.readContract(this.poolAddress(), YEI_QUERIES.GET_RESERVE_DATA, [address]),
+      this.getToken(address),
+    ]);
+
+    return {
+      id: Number(data.id),
+      asset: address,
+      token,
+      aToken: data.aTokenAddress as string,
+      variableDebtToken: data.variableDebtTokenAddress as string,
+      interestRateStrategy: data.interestRateStrategyAddress as string,
+      configuration: decodeReserveConfiguration(data.configuration as bigint),
+      liquidityIndex: data.liquidityIndex as bigint,
+      variableBorrowIndex: data.variableBorrowIndex as bigint,
+      liquidityRate: data.currentLiquidityRate as bigint,
+      variableBorrowRate: data.currentVariableBorrowRate as bigint,
+      lastUpdateTimestamp: Number(data.lastUpdateTimestamp),
+      accruedToTreasury: data.accruedToTreasury as bigint,
+      unbacked: data.unbacked as bigint,
+    };
+  }
+
+  async getReserves(): Promise<YeiReserve[]> {
+    const assets = await this.getReservesList();
+    return Promise.all(assets.map(asset => this.getReserve(asset)));
+  }
+
+  async getReserveTotals(reserve: YeiReserve): Promise<YeiReserveTotals> {
+    const [[totalSupplied], [totalBorrowed], availableLiquidity] = await Promise.all([
+      this.evm.readContract(reserve.aToken, ERC20_ABI.TOTAL_SUPPLY),
+      this.evm.readContract(reserve.variableDebtToken, ERC20_ABI.TOTAL_SUPPLY),
+      getErc20Balance(this.evm, reserve.asset, reserve.aToken),
+    ]);
+
+    return { totalSupplied: totalSupplied as bigint, totalBorrowed: totalBorrowed as bigint, availableLiquidity };
+  }
+
+  /**
+   * Rate curve of the reserve's interest-rate strategy contract
+   */
+  async getInterestRateModel(reserve: YeiReserve): Promise<InterestRateModel> {
+    const strategy = reserve.interestRateStrategy;
+    const [[optimal], [base], [slope1], [slope2]] = await Promise.all([
+      this.evm.readContract(strategy, YEI_QUERIES.OPTIMAL_USAGE_RATIO),
+      this.evm.readContract(strategy, YEI_QUERIES.GET_BASE_VARIABLE_BORROW_RATE),
+      this.evm.readContract(strategy, YEI_QUERIES.GET_VARIABLE_RATE_SLOPE1),
+      this.evm.readContract(strategy, YEI_QUERIES.GET_VARIABLE_RATE_SLOPE2),
+    ]);
+
+    return {
+      optimalUtilization: fromRay(optimal as bigint),
+      baseVariableBorrowRate: fromRay(base as bigint),
+      variableRateSlope1: fromRay(slope1 as bigint),
+      variableRateSlope2: fromRay(slope2 as bigint),
+      reserveFactor: reserve.configuration.reserveFactor,
+    };
+  }
+
+  /**
+   * Whether incentives can be read (the rewards controller is optional in the network profile)
+   */
+  hasRewardsController(): boolean {
+    return Boolean(this.network.contracts.yeiFinance.REWARDS_CONTROLLER);
+  }
+
+  /**
+   * Rewards currently emitted to holders of an aToken or debt token (ended or zero emissions left out)
+   */
+  async getRewardEmissions(incentivized: string): Promise<YeiRewardEmission[]> {
+    const controller = requireContract(this.network, 'yeiFinance', 'REWARDS_CONTROLLER');
+    const [rewards] = await this.evm.readContract(controller, YEI_QUERIES.GET_REWARDS_BY_ASSET, [incentivized]);
+    const now = Math.floor(Date.now() / 1000);
+
+    const emissions = await Promise.all((rewards as string[]).map(async reward => {
+      const [data, token] = await Promise.all([
+        this.evm.readContract(controller, YEI_QUERIES.GET_REWARDS_DATA, [incentivized, reward]),
+        this.getToken(parseEvmAddress(reward)),
+      ]);
+      return {
+        incentivized,
+        reward: parseEvmAddress(reward),
+        token,
+        emissionPerSecond: data.emissionPerSecond as bigint,
+        distributionEnd: Number(data.distributionEnd),
+      };
+    }));
+
+    return emissions.filter(emission => emission.emissionPerSecond > 0n && emission.distributionEnd > now);
+  }
+
+  /**
+   * Unclaimed rewards of a user across the given aTokens / debt tokens (non-zero only)
+   */
+  async getAccruedRewards(user: string, incentivized: string[]): Promise<TokenAmount[]> {
+    const controller = requireContract(this.network, 'yeiFinance', 'REWARDS_CONTROLLER');
+    const result = await this.evm.readContract(controller, YEI_QUERIES.GET_ALL_USER_REWARDS, [incentivized, user]);
+    const rewards = result.rewardsList as string[];
+    const amounts = result.unclaimedAmounts as bigint[];
+
+    const accrued = await Promise.all(rewards.map(async (reward, i) =>
+      TokenAmount.fromRaw(amounts[i], await this.getToken(parseEvmAddress(reward)))
+    ));
+    return accrued.filter(amount => !amount.isZero());
+  }
+
+  async getUserAccountData(user: string): Promise<YeiAccountData> {
+    const [data, unit] = await Promise.all([
+      this.evm.readContract(this.poolAddress(), YEI_QUERIES.GET_USER_ACCOUNT_DATA, [user]),
+      this.getBaseCurrencyUnit(),
+    ]);
+    const healthFactor = data.healthFactor as bigint;
+
+    return {
+      totalCollateralBase: toBase(data.totalCollateralBase as bigint, unit),
+      totalDebtBase: toBase(data.totalDebtBase as bigint, unit),
+      availableBorrowsBase: toBase(data.availableBorrowsBase as bigint, unit),
+      currentLiquidationThreshold: Number(data.currentLiquidationThreshold) / BPS,
+      ltv: Number(data.ltv) / BPS,
+      healthFactor: (data.totalDebtBase as bigint) === 0n
+        ? Infinity
+        : Number(healthFactor) / 10 ** HEALTH_FACTOR_DECIMALS,
+    };
+  }
+
+  async getUserEMode(user: string): Promise<number> {
+    const [category] = await this.evm.readContract(this.poolAddress(), YEI_QUERIES.GET_USER_EMODE, [user]);
+    return Number(category);
+  }
+
+  async getEModeCategory(id: number): Promise<YeiEModeCategory> {
+    const [data] = await this.evm.readContract(this.poolAddress(), YEI_QUERIES.GET_EMODE_CATEGORY_DATA, [id]);
+    const category = data as { ltv: bigint; liquidationThreshold: bigint; liquidationBonus: bigint; priceSource: string; label: string };
+
+    return {
+      id,
+      label: category.label,
+      ltv: Number(category.ltv) / BPS,
+      liquidationThreshold: Number(category.liquidationThreshold) / BPS,
+      liquidationPenalty: category.liquidationBonus > 0n ? (Number(category.liquidationBonus) - BPS) / BPS : 0,
+      priceSource: /^0x0{40}$/.test(category.priceSource) ? null : category.priceSource,
+    };
+  }
+
+  /**
+   * Oracle prices in base currency (USD), keyed by checksummed asset address
+   */
+  async getAssetPrices(assets: string[]): Promise<Map<string, number>> {
+    if (assets.length === 0) {
+      return new Map();
+    }
+
+    const oracle = requireContract(this.network, 'yeiFinance', 'PRICE_ORACLE');
+    const [[prices], unit] = await Promise.all([
+      this.evm.readContract(oracle, YEI_QUERIES.GET_ASSETS_PRICES, [assets]),
+      this.getBaseCurrencyUnit(),
+    ]);
+
+    return new Map(assets.map((asset, i) => [parseEvmAddress(asset), toBase((prices as bigint[])[i], unit)]));
+  }
+
+  /**
+   * Every supplied and borrowed reserve with base-currency values, plus the Pool's own totals and health factor
+   */
+  async getUserPosition(user: string): Promise<YeiUserPosition> {
+    const address = parseEvmAddress(user);
+    const [account, reserves, eModeId, configuration] = await Promise.all([
+      this.getUserAccountData(address),
+      this.getReserves(),
+      this.getUserEMode(address),
+      this.evm.readContract(this.poolAddress(), YEI_QUERIES.GET_USER_CONFIGURATION, [address]),
+    ]);
+    const userConfig = configuration[0] as bigint;
+    const eModeCategory = eModeId > 0 ? await this.getEModeCategory(eModeId) : null;
+
+    const balances = await Promise.all(reserves.map(async reserve => {
+      const [supplied, borrowed] = await Promise.all([
+        getErc20Balance(this.evm, reserve.aToken, address),
+        getErc20Balance(this.evm, reserve.variableDebtToken, address),
+      ]);
+      return { reserve, supplied, borrowed };
+    }));
+
+    const held = balances.filter(balance => balance.supplied > 0n || balance.borrowed > 0n);
+    const prices = await this.getAssetPrices(held.map(balance => balance.reserve.asset));
+
+    const assets = held.map(({ reserve, supplied, borrowed }): YeiAssetPosition => {
+      const price = prices.get(reserve.asset) ?? 0;
+      const suppliedAmount = TokenAmount.fromRaw(supplied, reserve.token);
+      const borrowedAmount = TokenAmount.fromRaw(borrowed, reserve.token);
+      const inEMode = eModeCategory !== null && reserve.configuration.eModeCategory === eModeCategory.id;
+
+      return {
+        asset: reserve.asset,
+        symbol: reserve.token.symbol,
+        supplied: suppliedAmount,
+        borrowed: borrowedAmount,
+        usedAsCollateral: ((userConfig >> BigInt(reserve.id * 2 + 1)) & 1n) === 1n,
+        price,
+        suppliedBase: suppliedAmount.toNumber() * price,
+        borrowedBase: borrowedAmount.toNumber() * price,
+        ltv: inEMode ? eModeCategory.ltv : reserve.configuration.ltv,
+        liquidationThreshold: inEMode ? eModeCategory.liquidationThreshold : reserve.configuration.liquidationThreshold,
+        liquidationPenalty: inEMode ? eModeCategory.liquidationPenalty : reserve.configuration.liquidationPenalty,
+      };
+    });
+
+    return { user: address, account, eModeCategory, assets };
+  }
+
+  private async getToken(asset: string): Promise<Token> {
+    let token = this.tokens.get(asset);
+    if (!token) {
+      token = await getErc20Token(this.evm, asset);
+      this.tokens.set(asset, token);
+    }
+    return token;
+  }
+
+  private async getBaseCurrencyUnit(): Promise<bigint> {
+    if (this.baseCurrencyUnit === null) {
+      const oracle = requireContract(this.network, 'yeiFinance', 'PRICE_ORACLE');
+      const [unit] = await this.evm.readContract(oracle, YEI_QUERIES.BASE_CURRENCY_UNIT);
+      this.baseCurrencyUnit = unit as bigint;
+    }
+    return this.baseCurrencyUnit;
+  }
+
+  private poolAddress(): string {
+    return requireContract(this.network, 'yeiFinance', 'LENDING_POOL');
+  }
+}
+
+/**
+ * Decode the Aave V3 ReserveConfigurationMap bitfield
+ */
+export function decodeReserveConfiguration(data: bigint): ReserveConfiguration {
+  const bits = (offset: number, width: number): number => Number((data >> BigInt(offset)) & ((1n << BigInt(width)) - 1n));
+  const flag = (offset: number): boolean => bits(offset, 1) === 1;
+  const liquidationBonus = bits(32, 16);
+
+  return {
+    ltv: bits(0, 16) / BPS,
+    liquidationThreshold: bits(16, 16) / BPS,
+    liquidationPenalty: liquidationBonus > 0 ? (liquidationBonus - BPS) / BPS : 0,
+    decimals: bits(48, 8),
+    active: flag(56),
+    frozen: flag(57),
+    borrowingEnabled: flag(58),
+    paused: flag(60),
+    flashLoanEnabled: flag(63),
+    reserveFactor: bits(64, 16) / BPS,
+    borrowCap: bits(80, 36),
+    supplyCap: bits(116, 36),
+    liquidationProtocolFee: bits(152, 16) / BPS,
+    eModeCategory: bits(168, 8),
+    debtCeiling: bits(212, 40) / 100,
+  };
+}
+
+function fromRay(value: bigint): number {
+  return Number(value) / 1e27;
+}
+
+function toBase(value: bigint, unit: bigint): number {
+  return Number(value) / Number(unit);
+}
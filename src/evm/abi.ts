@@ -0,0 +1,666 @@
+/**
+ * Solidity ABI encoding/decoding
+ * Human-readable fragments ("function balanceOf(address owner) view returns (uint256)"),
+ * static/dynamic types, arrays and tuples, event logs and revert reasons
+ */
+
+import { keccak256 } from '@cosmjs/crypto';
+import { fromHex, toHex } from '@cosmjs/encoding';
+import { parseEvmAddress, toChecksumAddress } from '../utils/address.js';
+
+export interface AbiParam {
+  type: string; // Canonical element type, e.g. "uint256", "tuple[]", "address[2]"
+  name?: string;
+  indexed?: boolean;
+  components?: AbiParam[]; // For tuple types
+}
+
+export interface AbiFunction {
+  type: 'function';
+  name: string;
+  inputs: AbiParam[];
+  outputs: AbiParam[];
+  stateMutability: 'pure' | 'view' | 'nonpayable' | 'payable';
+}
+
+export interface AbiEvent {
+  type: 'event';
+  name: string;
+  inputs: AbiParam[];
+  anonymous?: boolean;
+}
+
+export interface AbiError {
+  type: 'error';
+  name: string;
+  inputs: AbiParam[];
+}
+
+export type AbiItem = AbiFunction | AbiEvent | AbiError;
+
+/**
+ * Decoded values: positional, with named parameters also available as properties
+ */
+export type AbiValues = unknown[] & { [name: string]: unknown };
+
+export interface EncodedLog {
+  topics: string[];
+  data: string;
+}
+
+const WORD = 32;
+
+/**
+ * Parse a human-readable fragment
+ * e.g. "function transfer(address to, uint256 amount) returns (bool)"
+ *      "event Transfer(address indexed from, address indexed to, uint256 value)"
+ */
+export function parseAbiItem(signature: string): AbiItem {
+  const text = signature.trim().replace(/\s+/g, ' ');
+  const match = /^(function|event|error) (\w+)\s*\((.*)$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid ABI fragment: "${signature}"`);
+  }
+
+  const [, kind, name, rest] = match;
+  const inputsEnd = findClosingParen(rest, 0);
+  const inputs = parseParamList(rest.slice(0, inputsEnd));
+  const modifiers = rest.slice(inputsEnd + 1).trim();
+
+  if (kind === 'event') {
+    return { type: 'event', name, inputs, anonymous: /\banonymous\b/.test(modifiers) };
+  }
+  if (kind === 'error') {
+    return { type: 'error', name, inputs };
+  }
+
+  let outputs: AbiParam[] = [];
+  const returnsIndex = modifiers.indexOf('returns');
+  if (returnsIndex >= 0) {
+    const afterReturns = modifiers.slice(returnsIndex + 'returns'.length).trim();
+    if (!afterReturns.startsWith('(')) {
+      throw new Error(`Invalid returns clause in "${signature}"`);
+    }
+    outputs = parseParamList(afterReturns.slice(1, findClosingParen(afterReturns.slice(1), 0) + 1));
+  }
+
+  const mutability = /\b(pure|view|payable|nonpayable)\b/.exec(returnsIndex >= 0 ? modifiers.slice(0, returnsIndex) : modifiers);
+
+  return {
+    type: 'function',
+    name,
+    inputs,
+    outputs,
+    stateMutability: (mutability?.[1] as AbiFunction['stateMutability']) ?? 'nonpayable',
+  };
+}
+
+/**
+ * Parse a fragment that must be a function
+ */
+export function parseFunction(fragment: string | AbiFunction): AbiFunction {
+  const item = typeof fragment === 'string' ? parseAbiItem(fragment) : fragment;
+  if (item.type !== 'function') {
+    throw new Error(`Expected a function fragment, got ${item.type} ${item.name}`);
+  }
+  return item;
+}
+
+/**
+ * Parse a fragment that must be an event
+ */
+export function parseEvent(fragment: string | AbiEvent): AbiEvent {
+  const item = typeof fragment === 'string' ? parseAbiItem(fragment) : fragment;
+  if (item.type !== 'event') {
+    throw new Error(`Expected an event fragment, got ${item.type} ${item.name}`);
+  }
+  return item;
+}
+
+/**
+ * Canonical signature used for selectors and topics, e.g. "transfer(address,uint256)"
+ */
+export function formatSignature(item: AbiItem): string {
+  return `${item.name}(${item.inputs.map(canonicalType).join(',')})`;
+}
+
+/**
+ * 4-byte function selector (0x-prefixed)
+ */
+export function functionSelector(fragment: string | AbiFunction | AbiError): string {
+  const item = typeof fragment === 'string' ? parseAbiItem(fragment) : fragment;
+  return '0x' + toHex(keccak256(new TextEncoder().encode(formatSignature(item))).slice(0, 4));
+}
+
+/**
+ * Event topic0 (0x-prefixed)
+ */
+export function eventTopic(fragment: string | AbiEvent): string {
+  return '0x' + toHex(keccak256(new TextEncoder().encode(formatSignature(parseEvent(fragment)))));
+}
+
+/**
+ * Calldata for a function call
+ */
+export function encodeFunctionData(fragment: string | AbiFunction, args: readonly unknown[] = []): string {
+  const fn = parseFunction(fragment);
+  if (args.length !== fn.inputs.length) {
+    throw new Error(`${fn.name} expects ${fn.inputs.length} arguments, got ${args.length}`);
+  }
+  return functionSelector(fn) + toHex(encodeParams(fn.inputs, args));
+}
+
+/**
+ * Decode calldata back into arguments (selector is checked)
+ */
+export function decodeFunctionData(fragment: string | AbiFunction, data: string): AbiValues {
+  const fn = parseFunction(fragment);
+  const bytes = hexToBytes(data);
+  const selector = '0x' + toHex(bytes.slice(0, 4));
+
+  if (selector !== functionSelector(fn)) {
+    throw new Error(`Calldata selector ${selector} does not match ${formatSignature(fn)}`);
+  }
+  return decodeParams(fn.inputs, bytes.slice(4));
+}
+
+/**
+ * Decode the return data of a call
+ */
+export function decodeFunctionResult(fragment: string | AbiFunction, data: string): AbiValues {
+  const fn = parseFunction(fragment);
+  const bytes = hexToBytes(data);
+
+  if (bytes.length === 0 && fn.outputs.length > 0) {
+    throw new Error(`Empty result from ${fn.name}() (no contract at address, or call reverted without data)`);
+  }
+  return decodeParams(fn.outputs, bytes);
+}
+
+/**
+ * Topics filter for eth_getLogs; null entries match anything
+ * Only static indexed arguments can be filtered by value
+ */
+export function encodeEventTopics(fragment: string | AbiEvent, args: readonly unknown[] = []): (string | null)[] {
+  const event = parseEvent(fragment);
+  const indexed = event.inputs.filter(input => input.indexed);
+  const topics: (string | null)[] = event.anonymous ? [] : [eventTopic(event)];
+
+  indexed.forEach((input, i) => {
+    const value = args[i];
+    if (value === undefined || value === null) {
+      topics.push(null);
+    } else if (isDynamic(input)) {
+      throw new Error(`Cannot filter on dynamic indexed parameter ${input.name || i} of ${event.name}`);
+    } else {
+      topics.push('0x' + toHex(encodeParams([input], [value])));
+    }
+  });
+
+  // Trailing wildcards are implied
+  while (topics.length > 0 && topics[topics.length - 1] === null) {
+    topics.pop();
+  }
+  return topics;
+}
+
+/**
+ * Decode a log against an event fragment
+ * Indexed dynamic values (string, bytes, arrays, tuples) are only available as their keccak hash
+ */
+export function decodeEventLog(fragment: string | AbiEvent, log: EncodedLog): AbiValues {
+  const event = parseEvent(fragment);
+  const topics = [...log.topics];
+
+  if (!event.anonymous) {
+    const topic0 = topics.shift();
+    if (topic0?.toLowerCase() !== eventTopic(event)) {
+      throw new Error(`Log topic ${topic0} does not match event ${formatSignature(event)}`);
+    }
+  }
+
+  const nonIndexed = event.inputs.filter(input => !input.indexed);
+  const dataValues = decodeParams(nonIndexed, hexToBytes(log.data));
+  const result = [] as unknown as AbiValues;
+  let dataIndex = 0;
+
+  event.inputs.forEach(input => {
+    let value: unknown;
+    if (input.indexed) {
+      const topic = topics.shift();
+      if (!topic) {
+        throw new Error(`Missing topic for indexed parameter ${input.name ?? ''} of ${event.name}`);
+      }
+      value = isDynamic(input) ? topic : decodeParams([input], hexToBytes(topic))[0];
+    } else {
+      value = dataValues[dataIndex++];
+    }
+    result.push(value);
+    if (isSafeName(input.name)) {
+      result[input.name] = value;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * One-line description of a log, e.g. "Supply(reserve=0x..., amount=1000)"; unknown events keep the raw topic
+ */
+export function formatEventLog(log: EncodedLog & { address?: string }, fragments: readonly (string | AbiEvent)[]): string {
+  for (const fragment of fragments) {
+    const event = parseEvent(fragment);
+    if (log.topics[0]?.toLowerCase() !== eventTopic(event)) {
+      continue;
+    }
+
+    try {
+      const values = decodeEventLog(event, log);
+      const args = event.inputs.map((input, i) => `${input.name || i}=${formatValue(values[i])}`);
+      return `${event.name}(${args.join(', ')})`;
+    } catch {
+      break; // Same topic but different indexing; fall through to the raw form
+    }
+  }
+
+  return `${log.address ?? 'log'}: ${log.topics[0] ?? 'anonymous'}`;
+}
+
+/**
+ * Human-readable reason from revert data (Error(string), Panic(uint256) or a custom error)
+ */
+export function decodeRevertReason(data: string, customErrors: readonly (string | AbiError)[] = []): string | null {
+  const bytes = hexToBytes(data);
+  if (bytes.length < 4) {
+    return null;
+  }
+
+  const selector = '0x' + toHex(bytes.slice(0, 4));
+  const payload = bytes.slice(4);
+
+  if (selector === '0x08c379a0') {
+    return String(decodeParams([{ type: 'string' }], payload)[0]);
+  }
+  if (selector === '0x4e487b71') {
+    const code = decodeParams([{ type: 'uint256' }], payload)[0] as bigint;
+    return `Panic(0x${code.toString(16)})`;
+  }
+
+  for (const fragment of customErrors) {
+    const error = typeof fragment === 'string' ? parseAbiItem(fragment) as AbiError : fragment;
+    if (functionSelector(error) === selector) {
+      const args = decodeParams(error.inputs, payload);
+      return `${error.name}(${args.map(formatValue).join(', ')})`;
+    }
+  }
+
+  return `Custom error ${selector}`;
+}
+
+/**
+ * Encode values for a parameter list (head/tail layout)
+ */
+export function encodeParams(params: readonly AbiParam[], values: readonly unknown[]): Uint8Array {
+  if (params.length !== values.length) {
+    throw new Error(`Expected ${params.length} values, got ${values.length}`);
+  }
+
+  const heads: Uint8Array[] = [];
+  const tails: Uint8Array[] = [];
+  const headSize = params.reduce((size, param) => size + (isDynamic(param) ? WORD : staticSize(param)), 0);
+  let tailOffset = headSize;
+
+  params.forEach((param, i) => {
+    const encoded = encodeValue(param, values[i]);
+    if (isDynamic(param)) {
+      heads.push(encodeUint(BigInt(tailOffset)));
+      tails.push(encoded);
+      tailOffset += encoded.length;
+    } else {
+      heads.push(encoded);
+    }
+  });
+
+  return concatBytes([...heads, ...tails]);
+}
+
+/**
+ * Decode values for a parameter list
+ */
+export function decodeParams(params: readonly AbiParam[], data: Uint8Array): AbiValues {
+  const result = [] as unknown as AbiValues;
+  let offset = 0;
+
+  params.forEach(param => {
+    let value: unknown;
+    if (isDynamic(param)) {
+      const pointer = Number(readUint(data, offset));
+      value = decodeValue(param, data, pointer);
+      offset += WORD;
+    } else {
+      value = decodeValue(param, data, offset);
+      offset += staticSize(param);
+    }
+    result.push(value);
+    if (isSafeName(param.name)) {
+      result[param.name] = value;
+    }
+  });
+
+  return result;
+}
+
+function encodeValue(param: AbiParam, value: unknown): Uint8Array {
+  const array = parseArrayType(param);
+  if (array) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected array for ${param.type}, got ${typeof value}`);
+    }
+    if (array.length !== null && value.length !== array.length) {
+      throw new Error(`Expected ${array.length} elements for ${param.type}, got ${value.length}`);
+    }
+    const elements = encodeParams(value.map(() => array.element), value);
+    return array.length === null ? concatBytes([encodeUint(BigInt(value.length)), elements]) : elements;
+  }
+
+  if (param.type === 'tuple') {
+    const components = param.components ?? [];
+    const values = Array.isArray(value)
+      ? value
+      : components.map(component => (value as Record<string, unknown>)[component.name ?? '']);
+    return encodeParams(components, values);
+  }
+
+  const type = param.type;
+
+  if (type === 'address') {
+    return leftPad(fromHex(parseEvmAddress(String(value)).slice(2)));
+  }
+  if (type === 'bool') {
+    return encodeUint(value ? 1n : 0n);
+  }
+  if (type === 'string') {
+    return encodeDynamicBytes(new TextEncoder().encode(String(value)));
+  }
+  if (type === 'bytes') {
+    return encodeDynamicBytes(toBytes(value));
+  }
+
+  const fixedBytes = /^bytes(\d+)$/.exec(type);
+  if (fixedBytes) {
+    const size = parseInt(fixedBytes[1], 10);
+    const bytes = toBytes(value);
+    if (bytes.length !== size) {
+      throw new Error(`Expected ${size} bytes for ${type}, got ${bytes.length}`);
+    }
+    return rightPad(bytes);
+  }
+
+  const integer = /^(u?)int(\d*)$/.exec(type);
+  if (integer) {
+    const signed = integer[1] === '';
+    const bits = parseInt(integer[2] || '256', 10);
+    const n = toBigInt(value);
+    const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+    const max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n;
+
+    if (n < min || n > max) {
+      throw new Error(`Value ${n} out of range for ${type}`);
+    }
+    return encodeUint(n < 0n ? (1n << 256n) + n : n);
+  }
+
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function decodeValue(param: AbiParam, data: Uint8Array, offset: number): unknown {
+  const array = parseArrayType(param);
+  if (array) {
+    if (array.length === null) {
+      const length = Number(readUint(data, offset));
+      return [...decodeParams(Array(length).fill(array.element), data.slice(offset + WORD))];
+    }
+    return [...decodeParams(Array(array.length).fill(array.element), data.slice(offset))];
+  }
+
+  if (param.type === 'tuple') {
+    return decodeParams(param.components ?? [], data.slice(offset));
+  }
+
+  const type = param.type;
+  if (offset + WORD > data.length) {
+    throw new Error(`ABI data too short reading ${type} at offset ${offset}`);
+  }
+
+  if (type === 'address') {
+    return toChecksumAddress(toHex(data.slice(offset + 12, offset + WORD)));
+  }
+  if (type === 'bool') {
+    return readUint(data, offset) !== 0n;
+  }
+  if (type === 'string' || type === 'bytes') {
+    const length = Number(readUint(data, offset));
+    const bytes = data.slice(offset + WORD, offset + WORD + length);
+    return type === 'string' ? new TextDecoder().decode(bytes) : '0x' + toHex(bytes);
+  }
+
+  const fixedBytes = /^bytes(\d+)$/.exec(type);
+  if (fixedBytes) {
+    return '0x' + toHex(data.slice(offset, offset + parseInt(fixedBytes[1], 10)));
+  }
+
+  const integer = /^(u?)int(\d*)$/.exec(type);
+  if (integer) {
+    const raw = readUint(data, offset);
+    const bits = parseInt(integer[2] || '256', 10);
+    if (integer[1] === '') {
+      // Sign-extended two's complement
+      return raw >= 1n << 255n ? raw - (1n << 256n) : raw;
+    }
+    return raw & ((1n << BigInt(bits)) - 1n);
+  }
+
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function isDynamic(param: AbiParam): boolean {
+  const array = parseArrayType(param);
+  if (array) {
+    return array.length === null || isDynamic(array.element);
+  }
+  if (param.type === 'tuple') {
+    return (param.components ?? []).some(isDynamic);
+  }
+  return param.type === 'string' || param.type === 'bytes';
+}
+
+function staticSize(param: AbiParam): number {
+  const array = parseArrayType(param);
+  if (array) {
+    return (array.length ?? 0) * staticSize(array.element);
+  }
+  if (param.type === 'tuple') {
+    return (param.components ?? []).reduce((size, component) => size + staticSize(component), 0);
+  }
+  return WORD;
+}
+
+/**
+ * Split "T[]" / "T[k]" into element type and length (null = dynamic)
+ */
+function parseArrayType(param: AbiParam): { element: AbiParam; length: number | null } | null {
+  const match = /^(.*)\[(\d*)\]$/.exec(param.type);
+  if (!match) {
+    return null;
+  }
+  return {
+    element: { type: match[1], components: param.components },
+    length: match[2] === '' ? null : parseInt(match[2], 10),
+  };
+}
+
+function canonicalType(param: AbiParam): string {
+  if (param.type.startsWith('tuple')) {
+    return `(${(param.components ?? []).map(canonicalType).join(',')})${param.type.slice('tuple'.length)}`;
+  }
+  return param.type;
+}
+
+function parseParamList(text: string): AbiParam[] {
+  return splitTopLevel(text).map(parseParam);
+}
+
+function parseParam(text: string): AbiParam {
+  let rest = text.trim();
+  let components: AbiParam[] | undefined;
+  let type: string;
+
+  if (rest.startsWith('tuple(')) {
+    rest = rest.slice('tuple'.length);
+  }
+
+  if (rest.startsWith('(')) {
+    const end = findClosingParen(rest.slice(1), 0) + 1;
+    components = parseParamList(rest.slice(1, end));
+    const suffix = /^((?:\[\d*\])*)/.exec(rest.slice(end + 1))![1];
+    type = `tuple${suffix}`;
+    rest = rest.slice(end + 1 + suffix.length).trim();
+  } else {
+    const match = /^([a-z0-9]+(?:\[\d*\])*)\s*(.*)$/i.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid ABI parameter: "${text}"`);
+    }
+    type = normalizeType(match[1]);
+    rest = match[2].trim();
+  }
+
+  const words = rest.split(' ').filter(Boolean);
+  const indexed = words.includes('indexed');
+  const name = words.filter(word => !['indexed', 'memory', 'calldata', 'storage', 'payable'].includes(word))[0];
+
+  return { type, name, ...(indexed ? { indexed } : {}), ...(components ? { components } : {}) };
+}
+
+function normalizeType(type: string): string {
+  // uint/int/byte aliases are not valid in canonical signatures
+  return type
+    .replace(/^uint(?=$|\[)/, 'uint256')
+    .replace(/^int(?=$|\[)/, 'int256')
+    .replace(/^byte(?=$|\[)/, 'bytes1');
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) {
+    parts.push(current);
+  }
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Index of the ")" closing a group whose "(" precedes `start`
+ */
+function findClosingParen(text: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced parentheses in "${text}"`);
+}
+
+function encodeUint(value: bigint): Uint8Array {
+  return fromHex(value.toString(16).padStart(64, '0'));
+}
+
+function readUint(data: Uint8Array, offset: number): bigint {
+  if (offset + WORD > data.length) {
+    throw new Error(`ABI data too short: need ${offset + WORD} bytes, have ${data.length}`);
+  }
+  return BigInt('0x' + toHex(data.slice(offset, offset + WORD)));
+}
+
+function encodeDynamicBytes(bytes: Uint8Array): Uint8Array {
+  return concatBytes([encodeUint(BigInt(bytes.length)), rightPad(bytes)]);
+}
+
+function leftPad(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(WORD);
+  out.set(bytes, WORD - bytes.length);
+  return out;
+}
+
+function rightPad(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(Math.ceil(bytes.length / WORD) * WORD);
+  out.set(bytes);
+  return out;
+}
+
+function toBigInt(value: unknown): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Number ${value} is not a safe integer; pass a bigint or string`);
+    }
+    return BigInt(value);
+  }
+  if (typeof value === 'boolean') return value ? 1n : 0n;
+  if (typeof value === 'string') return BigInt(value);
+  if (value && typeof value === 'object' && 'raw' in value) {
+    return toBigInt((value as { raw: unknown }).raw); // TokenAmount
+  }
+  throw new Error(`Cannot convert ${String(value)} to an integer`);
+}
+
+function toBytes(value: unknown): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (typeof value === 'string') return hexToBytes(value);
+  throw new Error(`Expected hex string or Uint8Array, got ${typeof value}`);
+}
+
+/**
+ * 0x-prefixed (or bare) hex to bytes
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/^0x/i, '');
+  if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+    throw new Error(`Invalid hex data: "${hex.slice(0, 20)}${hex.length > 20 ? '...' : ''}"`);
+  }
+  return fromHex(clean);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Names like "length" or "push" would clobber the array itself
+ */
+function isSafeName(name: string | undefined): name is string {
+  return !!name && !(name in Array.prototype);
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  return String(value);
+}
@@ -0,0 +1,108 @@
+/**
+ * ERC20 and wrapped-native (WSEI) helpers
+ * Allowance top-ups and wrap/unwrap steps shared by the EVM protocol clients
+ */
+
+import { Signer } from '../signers/signer.js';
+import { Token } from '../utils/token-amount.js';
+import { parseEvmAddress, toChecksumAddress } from '../utils/address.js';
+import { EvmClient, EvmTransactionReceipt } from './evm-client.js';
+
+export const ERC20_ABI = {
+  BALANCE_OF: 'function balanceOf(address owner) view returns (uint256)',
+  TOTAL_SUPPLY: 'function totalSupply() view returns (uint256)',
+  ALLOWANCE: 'function allowance(address owner, address spender) view returns (uint256)',
+  APPROVE: 'function approve(address spender, uint256 amount) returns (bool)',
+  DECIMALS: 'function decimals() view returns (uint8)',
+  SYMBOL: 'function symbol() view returns (string)',
+  TRANSFER_EVENT: 'event Transfer(address indexed from, address indexed to, uint256 value)',
+  APPROVAL_EVENT: 'event Approval(address indexed owner, address indexed spender, uint256 value)',
+} as const;
+
+export const WRAPPED_NATIVE_ABI = {
+  DEPOSIT: 'function deposit() payable',
+  WITHDRAW: 'function withdraw(uint256 wad)',
+  DEPOSIT_EVENT: 'event Deposit(address indexed dst, uint256 wad)',
+  WITHDRAWAL_EVENT: 'event Withdrawal(address indexed src, uint256 wad)',
+} as const;
+
+export const ERC20_EVENTS = [
+  ERC20_ABI.TRANSFER_EVENT,
+  ERC20_ABI.APPROVAL_EVENT,
+  WRAPPED_NATIVE_ABI.DEPOSIT_EVENT,
+  WRAPPED_NATIVE_ABI.WITHDRAWAL_EVENT,
+];
+
+/**
+ * Token descriptor (symbol/decimals read on-chain); denom follows the registry's erc20/ form
+ */
+export async function getErc20Token(evm: EvmClient, address: string): Promise<Token> {
+  const [[symbol], [decimals]] = await Promise.all([
+    evm.readContract(address, ERC20_ABI.SYMBOL),
+    evm.readContract(address, ERC20_ABI.DECIMALS),
+  ]);
+
+  return { denom: `erc20/${toChecksumAddress(address)}`, symbol: String(symbol), decimals: Number(decimals) };
+}
+
+/**
+ * Contract address of a token descriptor from getErc20Token
+ */
+export function erc20Address(token: Token): string {
+  if (!token.denom.startsWith('erc20/')) {
+    throw new Error(`${token.symbol} (${token.denom}) is not an ERC20 token`);
+  }
+  return parseEvmAddress(token.denom.slice('erc20/'.length));
+}
+
+export async function getErc20Balance(evm: EvmClient, token: string, owner: string): Promise<bigint> {
+  const [balance] = await evm.readContract(token, ERC20_ABI.BALANCE_OF, [owner]);
+  return balance as bigint;
+}
+
+/**
+ * Approve exactly `amount` when the current allowance is short; null when no transaction was needed
+ */
+export async function ensureAllowance(
+  evm: EvmClient,
+  signer: Signer,
+  token: string,
+  spender: string,
+  amount: bigint
+): Promise<EvmTransactionReceipt | null> {
+  const { evmAddress } = await signer.getAccount();
+  const [allowance] = await evm.readContract(token, ERC20_ABI.ALLOWANCE, [evmAddress, spender]);
+
+  if ((allowance as bigint) >= amount) {
+    return null;
+  }
+
+  const hash = await evm.writeContract(signer, token, ERC20_ABI.APPROVE, [spender, amount]);
+  return evm.waitForReceipt(hash);
+}
+
+/**
+ * Native SEI → WSEI
+ */
+export async function wrapNative(
+  evm: EvmClient,
+  signer: Signer,
+  wrappedToken: string,
+  amount: bigint
+): Promise<EvmTransactionReceipt> {
+  const hash = await evm.writeContract(signer, wrappedToken, WRAPPED_NATIVE_ABI.DEPOSIT, [], { value: amount });
+  return evm.waitForReceipt(hash);
+}
+
+/**
+ * WSEI → native SEI
+ */
+export async function unwrapNative(
+  evm: EvmClient,
+  signer: Signer,
+  wrappedToken: string,
+  amount: bigint
+): Promise<EvmTransactionReceipt> {
+  const hash = await evm.writeContract(signer, wrappedToken, WRAPPED_NATIVE_ABI.WITHDRAW, [amount]);
+  return evm.waitForReceipt(hash);
+}
@@ -0,0 +1,472 @@
+/**
+ * Sei EVM JSON-RPC client
+ * Sits alongside the Cosmos StargateClient: contract reads, gas estimation, signed
+ * EIP-1559 transactions, receipts and logs, with the same endpoint failover as SeiClient
+ */
+
+import { NetworkProfile } from '../config/networks.js';
+import { Signer } from '../signers/signer.js';
+import { parseEvmAddress } from '../utils/address.js';
+import { EVM_SEI, TokenAmount } from '../utils/token-amount.js';
+import { EndpointStatus, HeightProbe, RpcEndpointPool, RpcFailoverOptions } from '../utils/rpc-pool.js';
+import {
+  AbiFunction,
+  AbiValues,
+  decodeFunctionResult,
+  decodeRevertReason,
+  encodeFunctionData,
+  parseFunction,
+} from './abi.js';
+import { Eip1559Transaction, signEip1559Transaction } from './transaction.js';
+
+export type BlockTag = number | 'latest' | 'pending' | 'earliest' | 'safe' | 'finalized';
+
+export interface EvmCallRequest {
+  to: string;
+  from?: string;
+  data?: string;
+  value?: bigint;
+  gas?: bigint;
+}
+
+export interface EvmTransactionRequest {
+  to: string;
+  data?: string;
+  value?: bigint;
+  gasLimit?: bigint; // Estimated (+ buffer) when omitted
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  nonce?: number;
+}
+
+export interface EvmLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  removed: boolean;
+}
+
+export interface EvmLogFilter {
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+  fromBlock?: BlockTag;
+  toBlock?: BlockTag;
+}
+
+export interface EvmTransactionReceipt {
+  transactionHash: string;
+  status: 'success' | 'reverted';
+  blockNumber: number;
+  from: string;
+  to: string | null;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  contractAddress: string | null;
+  logs: EvmLog[];
+}
+
+export interface FeeData {
+  baseFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface EvmClientOptions extends RpcFailoverOptions {
+  chainId?: number; // Expected EVM chain ID; checked on connect and used for signing
+  gasLimitBufferBps: number; // Headroom added to eth_estimateGas (2000 = +20%)
+  requestTimeoutMs: number;
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+const DEFAULT_EVM_OPTIONS = {
+  gasLimitBufferBps: 2000,
+  requestTimeoutMs: 15_000,
+};
+
+/**
+ * EVM endpoint probe: eth_blockNumber
+ */
+export const evmHeightProbe: HeightProbe = async (url, timeoutMs) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] }),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const body = await response.json() as JsonRpcResponse<string>;
+  if (!body.result) {
+    throw new Error(body.error?.message || 'Malformed eth_blockNumber response');
+  }
+  return Number(BigInt(body.result));
+};
+
+/**
+ * JSON-RPC client for Sei's EVM side
+ */
+export class EvmClient {
+  private pool: RpcEndpointPool;
+  private options: Partial<RpcFailoverOptions> & typeof DEFAULT_EVM_OPTIONS & { chainId?: number };
+  private chainId: number | null;
+  private requestId = 0;
+
+  constructor(rpcUrls: string | string[], options: Partial<EvmClientOptions> = {}) {
+    this.options = { ...DEFAULT_EVM_OPTIONS, ...options };
+    this.pool = new RpcEndpointPool(rpcUrls, options, evmHeightProbe);
+    this.chainId = options.chainId ?? null;
+  }
+
+  /**
+   * Client for a network profile's EVM endpoints and chain ID
+   */
+  static forNetwork(network: NetworkProfile, options: Partial<EvmClientOptions> = {}): EvmClient {
+    return new EvmClient(network.evmRpcUrls, { chainId: network.evmChainId, ...options });
+  }
+
+  /**
+   * Probe endpoints and verify the chain ID
+   */
+  async connect(): Promise<void> {
+    try {
+      await this.pool.probe();
+      const actual = Number(BigInt(await this.rpc<string>('eth_chainId', [])));
+
+      if (this.options.chainId !== undefined && actual !== this.options.chainId) {
+        throw new Error(`EVM endpoint is on chain ${actual}, expected ${this.options.chainId}`);
+      }
+      this.chainId = actual;
+    } catch (error) {
+      throw new Error(`Failed to connect to Sei EVM: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Endpoint currently serving requests
+   */
+  getActiveEndpoint(): string | null {
+    return this.pool.getActiveEndpoint();
+  }
+
+  /**
+   * Latency / block-lag status of every configured endpoint
+   */
+  getEndpointStatus(): EndpointStatus[] {
+    return this.pool.getStatus();
+  }
+
+  async getChainId(): Promise<number> {
+    if (this.chainId === null) {
+      this.chainId = Number(BigInt(await this.rpc<string>('eth_chainId', [])));
+    }
+    return this.chainId;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return Number(BigInt(await this.rpc<string>('eth_blockNumber', [])));
+  }
+
+  /**
+   * Block timestamp in Unix seconds
+   */
+  async getBlockTimestamp(block: BlockTag = 'latest'): Promise<number> {
+    const header = await this.rpc<{ timestamp: string } | null>('eth_getBlockByNumber', [formatBlockTag(block), false]);
+    if (!header) {
+      throw new Error(`Block ${block} not found`);
+    }
+    return Number(BigInt(header.timestamp));
+  }
+
+  /**
+   * Native balance in wei (18 decimals on Sei EVM)
+   */
+  async getBalance(address: string, block: BlockTag = 'latest'): Promise<bigint> {
+    return BigInt(await this.rpc<string>('eth_getBalance', [parseEvmAddress(address), formatBlockTag(block)]));
+  }
+
+  async getTransactionCount(address: string, block: BlockTag = 'pending'): Promise<number> {
+    return Number(BigInt(await this.rpc<string>('eth_getTransactionCount', [parseEvmAddress(address), formatBlockTag(block)])));
+  }
+
+  async getCode(address: string, block: BlockTag = 'latest'): Promise<string> {
+    return this.rpc<string>('eth_getCode', [parseEvmAddress(address), formatBlockTag(block)]);
+  }
+
+  /**
+   * eth_call; reverts throw with the decoded reason
+   */
+  async call(request: EvmCallRequest, block: BlockTag = 'latest'): Promise<string> {
+    return this.rpc<string>('eth_call', [formatCallRequest(request), formatBlockTag(block)], 'eth_call');
+  }
+
+  /**
+   * Call a view function and decode its outputs
+   */
+  async readContract(
+    address: string,
+    fragment: string | AbiFunction,
+    args: readonly unknown[] = [],
+    block: BlockTag = 'latest'
+  ): Promise<AbiValues> {
+    const fn = parseFunction(fragment);
+    const data = await this.call({ to: address, data: encodeFunctionData(fn, args) }, block);
+    return decodeFunctionResult(fn, data);
+  }
+
+  async estimateGas(request: EvmCallRequest): Promise<bigint> {
+    return BigInt(await this.rpc<string>('eth_estimateGas', [formatCallRequest(request)], 'eth_estimateGas'));
+  }
+
+  /**
+   * EIP-1559 fee suggestion: 2 × base fee + priority tip
+   */
+  async getFeeData(): Promise<FeeData> {
+    const block = await this.rpc<{ baseFeePerGas?: string }>('eth_getBlockByNumber', ['latest', false]);
+    let maxPriorityFeePerGas: bigint;
+    try {
+      maxPriorityFeePerGas = BigInt(await this.rpc<string>('eth_maxPriorityFeePerGas', []));
+    } catch {
+      maxPriorityFeePerGas = 0n; // Not every node implements it
+    }
+
+    if (!block.baseFeePerGas) {
+      // Pre-London style node: fall back to the legacy gas price, which also caps the tip
+      const gasPrice = BigInt(await this.rpc<string>('eth_gasPrice', []));
+      return {
+        baseFeePerGas: gasPrice,
+        maxFeePerGas: gasPrice,
+        maxPriorityFeePerGas: maxPriorityFeePerGas > gasPrice ? gasPrice : maxPriorityFeePerGas,
+      };
+    }
+
+    const baseFeePerGas = BigInt(block.baseFeePerGas);
+    return {
+      baseFeePerGas,
+      maxFeePerGas: baseFeePerGas * 2n + maxPriorityFeePerGas,
+      maxPriorityFeePerGas,
+    };
+  }
+
+  /**
+   * Broadcast a signed transaction
+   * Not retried on another endpoint (the first one may have accepted it); a connection
+   * failure marks the endpoint so the next call fails over
+   */
+  async sendRawTransaction(rawTransaction: string): Promise<string> {
+    const url = this.pool.getActiveEndpoint() ?? this.pool.rankedEndpoints()[0];
+
+    let response: JsonRpcResponse<string>;
+    try {
+      response = await this.request<string>(url, 'eth_sendRawTransaction', [rawTransaction]);
+    } catch (error) {
+      this.pool.markFailed(url, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    return unwrap(response, 'eth_sendRawTransaction');
+  }
+
+  /**
+   * Fill in nonce, fees and gas, sign with the injected signer and broadcast
+   */
+  async sendTransaction(signer: Signer, request: EvmTransactionRequest): Promise<string> {
+    const { evmAddress } = await signer.getAccount();
+    const callRequest: EvmCallRequest = { from: evmAddress, to: request.to, data: request.data, value: request.value };
+
+    const [chainId, nonce, fees, gasEstimate] = await Promise.all([
+      this.getChainId(),
+      request.nonce ?? this.getTransactionCount(evmAddress, 'pending'),
+      request.maxFeePerGas === undefined ? this.getFeeData() : null,
+      request.gasLimit === undefined ? this.estimateGas(callRequest) : null,
+    ]);
+
+    const tx: Eip1559Transaction = {
+      chainId,
+      nonce,
+      maxFeePerGas: request.maxFeePerGas ?? fees!.maxFeePerGas,
+      maxPriorityFeePerGas: request.maxPriorityFeePerGas ?? fees?.maxPriorityFeePerGas ?? 0n,
+      gasLimit: request.gasLimit ?? gasEstimate! * BigInt(10_000 + this.options.gasLimitBufferBps) / 10_000n,
+      to: request.to,
+      value: request.value ?? 0n,
+      data: request.data ?? '0x',
+    };
+
+    const { rawTransaction, hash } = await signEip1559Transaction(tx, signer);
+    const broadcastHash = await this.sendRawTransaction(rawTransaction);
+
+    if (broadcastHash.toLowerCase() !== hash) {
+      throw new Error(`Node returned unexpected transaction hash ${broadcastHash} (expected ${hash})`);
+    }
+    return hash;
+  }
+
+  /**
+   * Encode a contract call and send it as a transaction
+   */
+  async writeContract(
+    signer: Signer,
+    address: string,
+    fragment: string | AbiFunction,
+    args: readonly unknown[] = [],
+    overrides: Omit<EvmTransactionRequest, 'to' | 'data'> = {}
+  ): Promise<string> {
+    return this.sendTransaction(signer, { ...overrides, to: address, data: encodeFunctionData(fragment, args) });
+  }
+
+  async getTransactionReceipt(hash: string): Promise<EvmTransactionReceipt | null> {
+    const receipt = await this.rpc<RawReceipt | null>('eth_getTransactionReceipt', [hash]);
+    return receipt ? parseReceipt(receipt) : null;
+  }
+
+  /**
+   * Poll until the transaction is mined; throws on timeout or (by default) on revert
+   */
+  async waitForReceipt(
+    hash: string,
+    options: { timeoutMs?: number; pollIntervalMs?: number; allowRevert?: boolean } = {}
+  ): Promise<EvmTransactionReceipt> {
+    const deadline = Date.now() + (options.timeoutMs ?? 120_000);
+
+    while (Date.now() < deadline) {
+      const receipt = await this.getTransactionReceipt(hash);
+      if (receipt) {
+        if (receipt.status === 'reverted' && !options.allowRevert) {
+          throw new Error(`Transaction ${hash} reverted in block ${receipt.blockNumber}`);
+        }
+        return receipt;
+      }
+      await new Promise(resolve => setTimeout(resolve, options.pollIntervalMs ?? 1000));
+    }
+
+    throw new Error(`Timed out waiting for transaction ${hash}`);
+  }
+
+  async getLogs(filter: EvmLogFilter): Promise<EvmLog[]> {
+    const logs = await this.rpc<RawLog[]>('eth_getLogs', [{
+      address: filter.address,
+      topics: filter.topics,
+      fromBlock: filter.fromBlock !== undefined ? formatBlockTag(filter.fromBlock) : undefined,
+      toBlock: filter.toBlock !== undefined ? formatBlockTag(filter.toBlock) : undefined,
+    }]);
+    return logs.map(parseLog);
+  }
+
+  /**
+   * JSON-RPC call with endpoint failover; node-level errors (reverts, bad params) are not retried
+   */
+  private async rpc<T>(method: string, params: unknown[], description: string = method): Promise<T> {
+    const response = await this.pool.withFailover(url => this.request<T>(url, method, params), description);
+    return unwrap(response, description);
+  }
+
+  private async request<T>(url: string, method: string, params: unknown[]): Promise<JsonRpcResponse<T>> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+      signal: AbortSignal.timeout(this.options.requestTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} from ${url}`);
+    }
+
+    const body = await response.json() as JsonRpcResponse<T>;
+    if (body.error === undefined && !('result' in body)) {
+      throw new Error(`Malformed JSON-RPC response from ${url}`);
+    }
+    return body;
+  }
+}
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+  removed?: boolean;
+}
+
+interface RawReceipt {
+  transactionHash: string;
+  status: string;
+  blockNumber: string;
+  from: string;
+  to: string | null;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+  contractAddress: string | null;
+  logs: RawLog[];
+}
+
+/**
+ * Native SEI actually paid for gas across receipts (gasUsed × effectiveGasPrice)
+ */
+export function gasCostOf(receipts: EvmTransactionReceipt[]): TokenAmount {
+  const wei = receipts.reduce((total, receipt) => total + receipt.gasUsed * receipt.effectiveGasPrice, 0n);
+  return TokenAmount.fromRaw(wei, EVM_SEI);
+}
+
+function unwrap<T>(response: JsonRpcResponse<T>, description: string): T {
+  if (response.error) {
+    const revertData = extractRevertData(response.error.data);
+    const reason = revertData ? decodeRevertReason(revertData) : null;
+    throw new Error(`${description} failed: ${reason ? `execution reverted: ${reason}` : response.error.message}`);
+  }
+  return response.result as T;
+}
+
+function extractRevertData(data: unknown): string | null {
+  if (typeof data === 'string' && data.startsWith('0x')) return data;
+  if (data && typeof data === 'object' && 'data' in data) return extractRevertData((data as { data: unknown }).data);
+  return null;
+}
+
+function formatBlockTag(block: BlockTag): string {
+  return typeof block === 'number' ? `0x${block.toString(16)}` : block;
+}
+
+function formatCallRequest(request: EvmCallRequest): Record<string, string> {
+  const call: Record<string, string> = { to: parseEvmAddress(request.to) };
+  if (request.from) call.from = parseEvmAddress(request.from);
+  if (request.data) call.data = request.data;
+  if (request.value !== undefined) call.value = `0x${request.value.toString(16)}`;
+  if (request.gas !== undefined) call.gas = `0x${request.gas.toString(16)}`;
+  return call;
+}
+
+function parseLog(log: RawLog): EvmLog {
+  return {
+    address: parseEvmAddress(log.address),
+    topics: log.topics,
+    data: log.data,
+    blockNumber: Number(BigInt(log.blockNumber)),
+    transactionHash: log.transactionHash,
+    logIndex: Number(BigInt(log.logIndex)),
+    removed: log.removed ?? false,
+  };
+}
+
+function parseReceipt(receipt: RawReceipt): EvmTransactionReceipt {
+  return {
+    transactionHash: receipt.transactionHash,
+    status: BigInt(receipt.status) === 1n ? 'success' : 'reverted',
+    blockNumber: Number(BigInt(receipt.blockNumber)),
+    from: parseEvmAddress(receipt.from),
+    to: receipt.to ? parseEvmAddress(receipt.to) : null,
+    gasUsed: BigInt(receipt.gasUsed),
+    effectiveGasPrice: BigInt(receipt.effectiveGasPrice ?? 0),
+    contractAddress: receipt.contractAddress ? parseEvmAddress(receipt.contractAddress) : null,
+    logs: receipt.logs.map(parseLog),
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Multicall3 batching
+ * Many view calls in one eth_call (aggregate3); each call may fail on its own
+ */
+
+import { AbiFunction, AbiValues, decodeFunctionResult, encodeFunctionData, parseFunction } from './abi.js';
+import { BlockTag, EvmClient } from './evm-client.js';
+
+export const MULTICALL3_ABI = {
+  AGGREGATE3: 'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+} as const;
+
+export interface ContractCall {
+  target: string;
+  fragment: string | AbiFunction;
+  args?: readonly unknown[];
+}
+
+const DEFAULT_BATCH_SIZE = 200; // Calls per aggregate3, keeps each eth_call under node gas caps
+
+/**
+ * Decoded results in call order; null for a call that reverted or returned nothing decodable
+ * Without a multicall address the calls go out as parallel eth_calls with the same semantics
+ */
+export async function multicall(
+  evm: EvmClient,
+  multicallAddress: string | null,
+  calls: readonly ContractCall[],
+  block: BlockTag = 'latest',
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<(AbiValues | null)[]> {
+  if (!multicallAddress) {
+    return Promise.all(calls.map(call =>
+      evm.readContract(call.target, call.fragment, call.args ?? [], block).catch(() => null)
+    ));
+  }
+
+  const results: (AbiValues | null)[] = [];
+  for (let start = 0; start < calls.length; start += batchSize) {
+    const batch = calls.slice(start, start + batchSize);
+    const functions = batch.map(call => parseFunction(call.fragment));
+    const [returned] = await evm.readContract(multicallAddress, MULTICALL3_ABI.AGGREGATE3, [
+      batch.map((call, i) => [call.target, true, encodeFunctionData(functions[i], call.args ?? [])]),
+    ], block);
+
+    (returned as [boolean, string][]).forEach(([success, data], i) => {
+      results.push(success ? tryDecode(functions[i], data) : null);
+    });
+  }
+  return results;
+}
+
+function tryDecode(fn: AbiFunction, data: string): AbiValues | null {
+  try {
+    return decodeFunctionResult(fn, data);
+  } catch {
+    return null;
+  }
+}
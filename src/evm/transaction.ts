@@ -0,0 +1,136 @@
+/**
+ * EIP-1559 (type 2) transaction serialization and signing
+ * Signing goes through Signer.signDigest, so keystore, raw-key and remote signers all work
+ */
+
+import { keccak256 } from '@cosmjs/crypto';
+import { fromHex, toHex } from '@cosmjs/encoding';
+import { DigestSignature, Signer } from '../signers/signer.js';
+import { parseEvmAddress } from '../utils/address.js';
+import { hexToBytes } from './abi.js';
+
+export interface Eip1559Transaction {
+  chainId: number;
+  nonce: number;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  gasLimit: bigint;
+  to: string | null; // null = contract creation
+  value: bigint;
+  data: string; // 0x-prefixed calldata
+  accessList?: { address: string; storageKeys: string[] }[];
+}
+
+type RlpInput = Uint8Array | RlpInput[];
+
+const TX_TYPE_EIP1559 = 0x02;
+
+/**
+ * Unsigned payload hash (keccak256(0x02 || rlp([...fields])))
+ */
+export function hashEip1559Transaction(tx: Eip1559Transaction): Uint8Array {
+  return keccak256(serializeEip1559Transaction(tx));
+}
+
+/**
+ * Serialize a type-2 transaction, signed when a signature is given
+ */
+export function serializeEip1559Transaction(tx: Eip1559Transaction, signature?: DigestSignature): Uint8Array {
+  const fields: RlpInput[] = [
+    encodeInteger(BigInt(tx.chainId)),
+    encodeInteger(BigInt(tx.nonce)),
+    encodeInteger(tx.maxPriorityFeePerGas),
+    encodeInteger(tx.maxFeePerGas),
+    encodeInteger(tx.gasLimit),
+    tx.to ? fromHex(parseEvmAddress(tx.to).slice(2)) : new Uint8Array(),
+    encodeInteger(tx.value),
+    hexToBytes(tx.data || '0x'),
+    (tx.accessList ?? []).map(entry => [
+      fromHex(parseEvmAddress(entry.address).slice(2)),
+      entry.storageKeys.map(key => hexToBytes(key)),
+    ]),
+  ];
+
+  if (signature) {
+    fields.push(
+      encodeInteger(BigInt(signature.recovery)),
+      stripLeadingZeros(signature.r),
+      stripLeadingZeros(signature.s),
+    );
+  }
+
+  const encoded = rlpEncode(fields);
+  const out = new Uint8Array(encoded.length + 1);
+  out[0] = TX_TYPE_EIP1559;
+  out.set(encoded, 1);
+  return out;
+}
+
+/**
+ * Sign with the injected signer and return the raw transaction (0x-prefixed) and its hash
+ */
+export async function signEip1559Transaction(
+  tx: Eip1559Transaction,
+  signer: Signer
+): Promise<{ rawTransaction: string; hash: string }> {
+  const signature = await signer.signDigest(hashEip1559Transaction(tx));
+  const raw = serializeEip1559Transaction(tx, signature);
+
+  return {
+    rawTransaction: '0x' + toHex(raw),
+    hash: '0x' + toHex(keccak256(raw)),
+  };
+}
+
+/**
+ * Minimal RLP encoder (byte strings and nested lists)
+ */
+function rlpEncode(input: RlpInput): Uint8Array {
+  if (input instanceof Uint8Array) {
+    if (input.length === 1 && input[0] < 0x80) {
+      return input;
+    }
+    return concat([encodeLength(input.length, 0x80), input]);
+  }
+
+  const payload = concat(input.map(rlpEncode));
+  return concat([encodeLength(payload.length, 0xc0), payload]);
+}
+
+function encodeLength(length: number, offset: number): Uint8Array {
+  if (length < 56) {
+    return Uint8Array.of(offset + length);
+  }
+  const lengthBytes = encodeInteger(BigInt(length));
+  return concat([Uint8Array.of(offset + 55 + lengthBytes.length), lengthBytes]);
+}
+
+/**
+ * Big-endian integer without leading zeros (0 encodes as the empty string)
+ */
+function encodeInteger(value: bigint): Uint8Array {
+  if (value < 0n) {
+    throw new Error(`Cannot RLP-encode negative integer ${value}`);
+  }
+  if (value === 0n) {
+    return new Uint8Array();
+  }
+  const hex = value.toString(16);
+  return fromHex(hex.length % 2 ? `0${hex}` : hex);
+}
+
+function stripLeadingZeros(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length && bytes[start] === 0) start++;
+  return bytes.slice(start);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -3,8 +3,15 @@
  * Tracks health, alerts, and automated management
  */
 
-import { YeiFinanceClient } from '../contracts/yei-finance-real.js';
+import { YeiFinanceClient, YeiPosition } from '../contracts/yei-finance-real.js';
+import { YeiFinance } from '../protocols/yei-finance.js';
+import { HealthFactorAction, planHealthActions } from '../protocols/yei-health-solver.js';
+import { InterestRateModel, projectRates } from '../protocols/yei-interest-rate.js';
+import { liquidationPriceDrop, simulateLiquidation } from '../protocols/yei-liquidation.js';
+import { Signer } from '../signers/signer.js';
 import { SeiClient } from '../utils/sei-client.js';
+import { SEI, TokenAmount } from '../utils/token-amount.js';
+import { NetworkProfile } from '../config/networks.js';
 
 export interface MonitoringAlert {
   level: 'INFO' | 'WARNING' | 'CRITICAL';
@@ -21,9 +28,21 @@ export interface PositionSnapshot {
   ltv: number;
   seiPrice: number;
   liquidationPrice: number;
+  liquidationDrop: number | null; // Collateral price drop against the debt that allows liquidation
+  dailyBorrowCost: number; // SEI per day at the projected borrow APY of each debt
+  dailyYield: number; // Net SEI per day: supply APY and incentives minus borrow cost
   netPnL: number;
 }
 
+interface ReserveRates {
+  supplyAPY: number; // Supply APY plus incentive APR
+  borrowAPY: number; // Borrow APY
+  borrowIncentiveAPR: number;
+}
+
+// Alert when liquidation is this close (collateral price drop against the debt)
+const LIQUIDATION_DROP_WARNING = 0.15;
+
 /**
  * Comprehensive leverage position monitoring system
  */
@@ -34,18 +53,27 @@ export class LeverageMonitor {
   private alerts: MonitoringAlert[] = [];
   private snapshots: PositionSnapshot[] = [];
   private isMonitoring: boolean = false;
+  private consecutiveFailures: number = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private lastPosition: YeiPosition | null = null;
+  private targetHealthFactor: number;
+  private yeiFinance: YeiFinance;
+  private rateModels = new Map<string, InterestRateModel>(); // Reserve address → rate strategy
+  private reserveRates = new Map<string, ReserveRates>(); // Last known rates, kept when a refresh fails
 
-  constructor(rpcUrl: string, walletAddress: string) {
-    this.yeiClient = new YeiFinanceClient(rpcUrl);
-    this.seiClient = new SeiClient(rpcUrl);
+  constructor(network: NetworkProfile, walletAddress: string, targetHealthFactor: number = 1.5) {
+    this.yeiClient = new YeiFinanceClient(network);
+    this.yeiFinance = new YeiFinance(network);
+    this.seiClient = new SeiClient(network.rpcUrls, {}, network.evmRpcUrls[0]);
     this.walletAddress = walletAddress;
+    this.targetHealthFactor = targetHealthFactor;
   }
 
   /**
    * Initialize monitoring system
    */
-  async initialize(mnemonic: string): Promise<void> {
-    await this.yeiClient.initialize(mnemonic);
+  async initialize(signer: Signer): Promise<void> {
+    await this.yeiClient.initialize(signer);
     await this.seiClient.connect();
     console.log('🔍 Leverage monitoring system initialized');
   }
@@ -62,7 +90,7 @@ export class LeverageMonitor {
     this.isMonitoring = true;
     console.log('🔄 Starting leverage position monitoring...');
     console.log('📊 Monitoring frequency: Every 15 minutes');
-    console.log('🚨 Alerts: Health Factor < 1.5, Price movements > 10%');
+    console.log(`🚨 Alerts: Health Factor < ${this.targetHealthFactor}, Price movements > 10%`);
     
     // Initial check
     this.performHealthCheck();
@@ -82,7 +110,10 @@ export class LeverageMonitor {
       
       const position = await this.yeiClient.getPositionHealth(this.walletAddress);
       const seiPrice = await this.yeiClient.getSEIPrice();
-      const liquidationPrice = this.yeiClient.calculateLiquidationPrice(position.collateral, position.debt);
+      const liquidationPrice = this.yeiClient.calculateLiquidationPrice(position.collateral, position.debt, position.liquidationThreshold);
+      this.lastPosition = position;
+      await this.refreshReserveRates();
+      const { dailyBorrowCost, dailyYield } = this.positionCarry(position);
       
       // Create snapshot
       const snapshot: PositionSnapshot = {
@@ -93,7 +124,10 @@ export class LeverageMonitor {
         ltv: position.ltv,
         seiPrice,
         liquidationPrice,
-        netPnL: this.calculatePnL(position.collateral, position.debt, seiPrice)
+        liquidationDrop: liquidationPriceDrop(position.assets),
+        dailyBorrowCost,
+        dailyYield,
+        netPnL: this.calculatePnL(position.collateral, seiPrice, dailyBorrowCost)
       };
       
       this.snapshots.push(snapshot);
@@ -108,13 +142,40 @@ export class LeverageMonitor {
       
       // Check for alerts
       this.checkAlertConditions(snapshot);
+      this.consecutiveFailures = 0;
       
     } catch (error) {
-      this.addAlert('CRITICAL', `Health check failed: ${error}`, true);
+      this.consecutiveFailures++;
+      const message = error instanceof Error ? error.message : String(error);
+      this.addAlert('CRITICAL', `Health check failed (${this.consecutiveFailures}x, endpoint ${this.yeiClient.getActiveEndpoint() ?? 'none'}): ${message}`, true);
       console.error('❌ Health check failed:', error);
+      this.displayEndpointStatus();
+      
+      // Don't wait for the next 15-minute tick: retry sooner with backoff (1, 2, 4 ... max 8 minutes)
+      if (this.isMonitoring && !this.retryTimer) {
+        const delayMinutes = Math.min(2 ** (this.consecutiveFailures - 1), 8);
+        console.log(`🔁 Retrying health check in ${delayMinutes} minute(s)`);
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null;
+          this.performHealthCheck();
+        }, delayMinutes * 60 * 1000);
+      }
     }
   }
 
+  /**
+   * Display RPC endpoint health (latency, block lag, last error)
+   */
+  private displayEndpointStatus(): void {
+    console.log('🌐 RPC endpoints:');
+    this.yeiClient.getEndpointStatus().forEach(status => {
+      const details = status.healthy
+        ? `${status.latencyMs ?? '?'}ms, lag ${status.lag ?? '?'} blocks`
+        : `DOWN${status.lastError ? ` (${status.lastError})` : ''}`;
+      console.log(`   ${status.healthy ? '🟢' : '🔴'} ${status.url}: ${details}`);
+    });
+  }
+
   /**
    * Display current position status
    */
@@ -131,6 +192,10 @@ export class LeverageMonitor {
     console.log(`📊 LTV: ${(snapshot.ltv * 100).toFixed(2)}%`);
     console.log(`💲 SEI Price: $${snapshot.seiPrice.toFixed(4)}`);
     console.log(`⚡ Liquidation Price: $${snapshot.liquidationPrice.toFixed(4)}`);
+    if (snapshot.liquidationDrop !== null) {
+      console.log(`🧯 Liquidatable after a ${(snapshot.liquidationDrop * 100).toFixed(2)}% collateral price drop`);
+    }
+    console.log(`💸 Borrow Cost: ${snapshot.dailyBorrowCost.toFixed(4)} SEI/day (net yield ${snapshot.dailyYield.toFixed(4)} SEI/day)`);
     console.log(`📈 Net P&L: ${snapshot.netPnL.toFixed(4)} SEI`);
   }
 
@@ -142,8 +207,9 @@ export class LeverageMonitor {
     if (snapshot.healthFactor < 1.2) {
       this.addAlert('CRITICAL', `URGENT: Health factor ${snapshot.healthFactor.toFixed(3)} - Immediate action required!`, true);
       this.triggerEmergencyProcedures();
-    } else if (snapshot.healthFactor < 1.5) {
+    } else if (snapshot.healthFactor < this.targetHealthFactor) {
       this.addAlert('WARNING', `Low health factor ${snapshot.healthFactor.toFixed(3)} - Consider adding collateral`, false);
+      this.displayHealthPlan();
     }
     
     // Price movement alerts
@@ -157,6 +223,23 @@ export class LeverageMonitor {
       }
     }
     
+    // Liquidation proximity, with what a liquidator would take at that point
+    if (snapshot.liquidationDrop !== null && snapshot.liquidationDrop < LIQUIDATION_DROP_WARNING && this.lastPosition) {
+      const outcome = simulateLiquidation(
+        this.lastPosition.assets,
+        snapshot.liquidationDrop === 0 ? 0 : Math.min(snapshot.liquidationDrop + 0.01, 0.99)
+      );
+      const loss = outcome.liquidatable
+        ? `: liquidator repays ${outcome.debtRepaid?.format(4)}, seizes ${outcome.collateralSeized?.format(4)} (penalty $${outcome.penaltyBase.toFixed(2)})`
+        : '';
+      
+      if (snapshot.liquidationDrop === 0) {
+        this.addAlert('CRITICAL', `Position is liquidatable now${loss}`, true);
+      } else {
+        this.addAlert('WARNING', `A ${(snapshot.liquidationDrop * 100).toFixed(2)}% collateral price drop makes the position liquidatable${loss}`, true);
+      }
+    }
+    
     // LTV alerts
     if (snapshot.ltv > 0.7) {
       this.addAlert('WARNING', `High LTV ${(snapshot.ltv * 100).toFixed(2)}% - Near liquidation threshold`, true);
@@ -200,17 +283,25 @@ export class LeverageMonitor {
     try {
       // Get current position
       const position = await this.yeiClient.getPositionHealth(this.walletAddress);
+      this.lastPosition = position;
+      const actions = this.displayHealthPlan();
       
-      // Calculate emergency repay amount (25% of debt)
-      const repayAmount = position.debt * 0.25;
+      // Exact SEI repay that restores the target health factor
+      const sei = await this.yeiClient.resolveAsset('SEI');
+      const repay = actions.find(action => action.action === 'REPAY' && action.asset.toLowerCase() === sei.address.toLowerCase());
+      if (!repay) {
+        console.log('💡 No SEI debt to repay - use the collateral/repay options above');
+        return;
+      }
+      const repayAmount = repay.amount.convert(1, SEI, 'up');
       
-      console.log(`💊 Recommended emergency repay: ${repayAmount.toFixed(4)} SEI`);
-      console.log(`🎯 This would improve health factor to ~${((position.collateral * 0.8) / (position.debt - repayAmount)).toFixed(3)}`);
+      console.log(`💊 Recommended emergency repay: ${repayAmount.format(4)}`);
+      console.log(`🎯 This would improve health factor to ${repay.healthFactor.toFixed(3)}`);
       
       // Check if we have enough SEI balance
       const balance = await this.seiClient.getSeiBalance(this.walletAddress);
       
-      if (parseFloat(balance) >= repayAmount + 1) { // +1 for gas
+      if (balance.gte(repayAmount.add(TokenAmount.parse('1', SEI)))) { // +1 for gas
         console.log('✅ Sufficient balance for emergency repay');
         console.log('🤖 Auto-execution available (if enabled)');
         
@@ -226,17 +317,74 @@ export class LeverageMonitor {
     }
   }
 
+  /**
+   * Print the exact repay / collateral top-up per asset that brings the position back to target
+   */
+  private displayHealthPlan(): HealthFactorAction[] {
+    if (!this.lastPosition) {
+      return [];
+    }
+    
+    const actions = planHealthActions(this.lastPosition.assets, this.targetHealthFactor);
+    if (actions.length > 0) {
+      console.log(`🎯 To reach health factor ${this.targetHealthFactor.toFixed(2)} (any one of):`);
+      actions.forEach(action => console.log(`   • ${formatHealthAction(action)}`));
+    }
+    return actions;
+  }
+
   /**
    * Calculate P&L based on current position and price
    */
-  private calculatePnL(collateral: number, debt: number, currentPrice: number): number {
+  private calculatePnL(collateral: number, currentPrice: number, dailyBorrowCost: number): number {
     // Simplified P&L calculation
     // In production, this would consider entry price, fees, rewards, etc.
     const initialValue = collateral * 0.45; // Assuming entry price of $0.45
     const currentValue = collateral * currentPrice;
-    const debtValue = debt * currentPrice;
     
-    return (currentValue - initialValue) - (debtValue * 0.12 * (1/365)); // Daily borrow cost
+    return (currentValue - initialValue) - dailyBorrowCost * currentPrice;
+  }
+
+  /**
+   * Re-price every reserve from its interest-rate model at the current utilization (our own position included)
+   */
+  private async refreshReserveRates(): Promise<void> {
+    try {
+      const markets = await this.yeiFinance.getAllMarkets();
+      for (const market of markets) {
+        const key = market.address.toLowerCase();
+        if (!this.rateModels.has(key)) {
+          this.rateModels.set(key, await this.yeiFinance.getInterestRateModel(market));
+        }
+        const projected = projectRates(this.rateModels.get(key)!, market);
+        this.reserveRates.set(key, {
+          supplyAPY: projected.supplyAPY + market.supplyIncentiveAPR,
+          borrowAPY: projected.borrowAPY,
+          borrowIncentiveAPR: market.borrowIncentiveAPR,
+        });
+      }
+    } catch (error) {
+      const known = this.reserveRates.size > 0 ? 'using the last known rates' : 'yield and borrow cost unknown';
+      console.log(`⚠️ Could not refresh market rates (${known}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Daily borrow cost and net yield of the position in SEI, from each reserve's projected rates
+   */
+  private positionCarry(position: YeiPosition): { dailyBorrowCost: number; dailyYield: number } {
+    let borrowCost = 0;
+    let earned = 0;
+    position.assets.forEach(asset => {
+      const rates = this.reserveRates.get(asset.asset.toLowerCase());
+      if (rates) {
+        borrowCost += asset.borrowedBase * rates.borrowAPY;
+        earned += asset.suppliedBase * rates.supplyAPY + asset.borrowedBase * rates.borrowIncentiveAPR;
+      }
+    });
+
+    const toDailySEI = (base: number) => position.seiPrice > 0 ? base / position.seiPrice / 365 : 0;
+    return { dailyBorrowCost: toDailySEI(borrowCost), dailyYield: toDailySEI(earned - borrowCost) };
   }
 
   /**
@@ -273,16 +421,10 @@ export class LeverageMonitor {
   }
 
   /**
-   * Calculate daily yield estimate
+   * Net daily yield of the latest snapshot
    */
   private calculateDailyYield(): number {
-    if (this.snapshots.length < 2) return 0;
-    
-    const latest = this.snapshots[this.snapshots.length - 1];
-    const stakingAPY = 0.08;
-    const totalExposure = latest.collateral + latest.debt;
-    
-    return (totalExposure * stakingAPY) / 365;
+    return this.snapshots.length > 0 ? this.snapshots[this.snapshots.length - 1].dailyYield : 0;
   }
 
   /**
@@ -290,6 +432,10 @@ export class LeverageMonitor {
    */
   stopMonitoring(): void {
     this.isMonitoring = false;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
     console.log('🛑 Monitoring stopped');
   }
 
@@ -326,9 +472,18 @@ ${dashboard.recentAlerts.slice(-3).map(alert =>
 ).join('\n')}
 
 💡 RECOMMENDATIONS
-${position.healthFactor < 1.5 ? '├─ ⚠️ Consider adding collateral or repaying debt' : '├─ ✅ Position is healthy'}
+${position.healthFactor < this.targetHealthFactor ? '├─ ⚠️ Consider adding collateral or repaying debt' : '├─ ✅ Position is healthy'}
 ${position.ltv > 0.6 ? '├─ ⚠️ High leverage - monitor closely' : '├─ ✅ Safe leverage level'}
 └─ 🔄 Continue monitoring every 15 minutes
 `;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * One-line description of a solver action ("Repay 12.5 SEI → HF 1.500")
+ */
+export function formatHealthAction(action: HealthFactorAction): string {
+  const verb = action.action === 'REPAY' ? 'Repay' : action.action === 'SUPPLY' ? 'Supply' : 'Withdraw up to';
+  const shortfall = action.reachesTarget ? '' : ' (entire balance, not enough alone)';
+  return `${verb} ${action.amount.format(6)} ($${action.amountBase.toFixed(2)}) → HF ${action.healthFactor.toFixed(3)}${shortfall}`;
+}
@@ -0,0 +1,326 @@
+/**
+ * DragonSwap pool discovery
+ * Finds V2 pairs and V3 pools between the network's tokens through the factories, loads their state
+ * in multicall batches and values them: TVL from pool balances at oracle prices, APR from the fees
+ * the pool earned over the last 24h
+ */
+
+import { NetworkProfile } from '../config/networks.js';
+import { EvmClient } from '../evm/evm-client.js';
+import { AbiValues } from '../evm/abi.js';
+import { ContractCall, multicall } from '../evm/multicall.js';
+import { ERC20_ABI, getErc20Token } from '../evm/erc20.js';
+import { YeiPoolReader } from '../contracts/yei-pool-reader.js';
+import { parseEvmAddress } from '../utils/address.js';
+import { Token, TokenAmount } from '../utils/token-amount.js';
+import { DRAGONSWAP_V2_ABI, V2_FEE_BPS } from './dragonswap-v2.js';
+import { DRAGONSWAP_V3_ABI, FEE_PIPS, spotPrice, V3_FEE_TIERS } from './dragonswap-v3.js';
+
+export interface DragonSwapPool {
+  address: string;
+  version: 'V2' | 'V3';
+  token0: string; // Symbol in pool order ('SEI' for WSEI)
+  token1: string;
+  token0Address: string;
+  token1Address: string;
+  fee: number; // Fee tier (e.g., 0.003 for 0.3%)
+  tvl: number; // Pool balances at oracle prices (USD); 0 when neither token is priced
+  price: number; // token1 per token0
+  fees24h: number; // USD earned by LPs over the last 24h
+  apr: number; // fees24h × 365 / TVL
+}
+
+interface LoadedPool {
+  version: DragonSwapPool['version'];
+  address: string;
+  token0: string;
+  token1: string;
+  fee: number;
+  balance0: bigint; // V2 reserves, V3 token balances held by the pool
+  balance1: bigint;
+  rawPrice: number; // Raw token1 units per raw token0 unit
+  growth24h: number; // V2: LP share value growth over 24h
+  feesRaw0: bigint; // V3: fees earned in token0 over 24h
+  feesRaw1: bigint;
+}
+
+const ZERO_ADDRESS = /^0x0{40}$/i;
+const DAY_SECONDS = 86_400;
+const BLOCK_TIME_SAMPLE = 10_000; // Blocks between the two timestamps used to estimate block time
+
+/**
+ * Factory lookups and batched state reads for every token pair the network profile knows
+ */
+export class DragonSwapPoolLoader {
+  private evm: EvmClient;
+  private network: NetworkProfile;
+  private reader: YeiPoolReader;
+
+  constructor(evm: EvmClient, network: NetworkProfile) {
+    this.evm = evm;
+    this.network = network;
+    this.reader = new YeiPoolReader(evm, network);
+  }
+
+  /**
+   * Every V2 pair and V3 pool (each fee tier) between WSEI, iSEI, USDC, WETH and any extra tokens, valued
+   */
+  async loadPools(extraTokens: string[] = []): Promise<DragonSwapPool[]> {
+    const tokens = this.tokensWith(extraTokens);
+    const pairs = tokens.flatMap((tokenA, i) => tokens.slice(i + 1).map(tokenB => [tokenA, tokenB] as const));
+    const [addresses, dayAgo] = await Promise.all([this.discover(pairs), this.blockDayAgo()]);
+
+    const [v2, v3] = await Promise.all([
+      this.loadV2(addresses.filter(pool => pool.version === 'V2').map(pool => pool.address), dayAgo),
+      this.loadV3(addresses.filter(pool => pool.version === 'V3'), dayAgo),
+    ]);
+    const loaded = [...v2, ...v3];
+
+    const descriptors = new Map<string, Token>();
+    await Promise.all([...new Set(loaded.flatMap(pool => [pool.token0, pool.token1]))].map(async address => {
+      descriptors.set(address, await getErc20Token(this.evm, address));
+    }));
+    const prices = await this.getPrices(loaded, descriptors);
+
+    return loaded.map(pool => this.toPool(pool, descriptors, prices));
+  }
+
+  /**
+   * Pool addresses from the factories: getPair for V2, getPool per fee tier for V3 (one batch)
+   */
+  private async discover(pairs: (readonly [string, string])[]): Promise<{ version: 'V2' | 'V3'; address: string; fee: number }[]> {
+    const { FACTORY, V3_FACTORY } = this.network.contracts.dragonswap;
+    const lookups: { version: 'V2' | 'V3'; fee: number; call: ContractCall }[] = [];
+
+    for (const [tokenA, tokenB] of pairs) {
+      if (FACTORY) {
+        lookups.push({ version: 'V2', fee: Number(V2_FEE_BPS) * 100, call: { target: FACTORY, fragment: DRAGONSWAP_V2_ABI.GET_PAIR, args: [tokenA, tokenB] } });
+      }
+      if (V3_FACTORY) {
+        V3_FEE_TIERS.forEach(fee => lookups.push({ version: 'V3', fee, call: { target: V3_FACTORY, fragment: DRAGONSWAP_V3_ABI.GET_POOL, args: [tokenA, tokenB, fee] } }));
+      }
+    }
+
+    const results = await this.read(lookups.map(lookup => lookup.call));
+    return lookups
+      .map((lookup, i) => ({ version: lookup.version, fee: lookup.fee, address: results[i]?.[0] as string | undefined }))
+      .filter((pool): pool is { version: 'V2' | 'V3'; fee: number; address: string } => !!pool.address && !ZERO_ADDRESS.test(pool.address));
+  }
+
+  /**
+   * Reserves now and 24h ago; fee growth is the growth of sqrt(k) per LP token
+   */
+  private async loadV2(addresses: string[], dayAgo: number | null): Promise<LoadedPool[]> {
+    const stateCalls = (address: string): ContractCall[] => [
+      { target: address, fragment: DRAGONSWAP_V2_ABI.GET_RESERVES },
+      { target: address, fragment: DRAGONSWAP_V2_ABI.TOTAL_SUPPLY },
+    ];
+    const [now, past, token0s, token1s] = await Promise.all([
+      this.read(addresses.flatMap(stateCalls)),
+      this.readPast(addresses.flatMap(stateCalls), dayAgo),
+      this.read(addresses.map(address => ({ target: address, fragment: DRAGONSWAP_V2_ABI.TOKEN0 }))),
+      this.read(addresses.map(address => ({ target: address, fragment: DRAGONSWAP_V2_ABI.TOKEN1 }))),
+    ]);
+
+    return addresses.flatMap((address, i) => {
+      const [reserves, supply] = [now[i * 2], now[i * 2 + 1]];
+      if (!reserves || !supply || !token0s[i] || !token1s[i]) {
+        return [];
+      }
+
+      const reserve0 = reserves.reserve0 as bigint;
+      const reserve1 = reserves.reserve1 as bigint;
+      const shareValue = lpShareValue(reserve0, reserve1, supply[0] as bigint);
+      const [pastReserves, pastSupply] = [past[i * 2], past[i * 2 + 1]];
+      const pastShareValue = pastReserves && pastSupply
+        ? lpShareValue(pastReserves.reserve0 as bigint, pastReserves.reserve1 as bigint, pastSupply[0] as bigint)
+        : 0;
+
+      return [{
+        version: 'V2' as const,
+        address,
+        token0: parseEvmAddress(token0s[i]![0] as string),
+        token1: parseEvmAddress(token1s[i]![0] as string),
+        fee: Number(V2_FEE_BPS) / 10_000,
+        balance0: reserve0,
+        balance1: reserve1,
+        rawPrice: reserve0 > 0n ? Number(reserve1) / Number(reserve0) : 0,
+        growth24h: pastShareValue > 0 ? Math.max(0, shareValue / pastShareValue - 1) : 0,
+        feesRaw0: 0n,
+        feesRaw1: 0n,
+      }];
+    });
+  }
+
+  /**
+   * Price, in-range liquidity and balances now; fee growth per unit of liquidity over 24h
+   */
+  private async loadV3(pools: { address: string; fee: number }[], dayAgo: number | null): Promise<LoadedPool[]> {
+    const growthCalls = (address: string): ContractCall[] => [
+      { target: address, fragment: DRAGONSWAP_V3_ABI.FEE_GROWTH_GLOBAL0_X128 },
+      { target: address, fragment: DRAGONSWAP_V3_ABI.FEE_GROWTH_GLOBAL1_X128 },
+    ];
+    const stateCalls = (address: string): ContractCall[] => [
+      { target: address, fragment: DRAGONSWAP_V3_ABI.SLOT0 },
+      { target: address, fragment: DRAGONSWAP_V3_ABI.LIQUIDITY },
+      { target: address, fragment: DRAGONSWAP_V3_ABI.TOKEN0 },
+      { target: address, fragment: DRAGONSWAP_V3_ABI.TOKEN1 },
+      ...growthCalls(address),
+    ];
+    const perPool = 6;
+
+    const [now, past] = await Promise.all([
+      this.read(pools.flatMap(pool => stateCalls(pool.address))),
+      this.readPast(pools.flatMap(pool => growthCalls(pool.address)), dayAgo),
+    ]);
+
+    const live = pools.flatMap((pool, i) => {
+      const [slot0, liquidity, token0, token1, growth0, growth1] = now.slice(i * perPool, (i + 1) * perPool);
+      if (!slot0 || !liquidity || !token0 || !token1 || !growth0 || !growth1) {
+        return [];
+      }
+      const [pastGrowth0, pastGrowth1] = [past[i * 2], past[i * 2 + 1]];
+      const feesRaw = (current: AbiValues, previous: AbiValues | null | undefined) =>
+        previous ? (((current[0] as bigint) - (previous[0] as bigint)) * (liquidity[0] as bigint)) >> 128n : 0n;
+
+      return [{
+        pool,
+        token0: parseEvmAddress(token0[0] as string),
+        token1: parseEvmAddress(token1[0] as string),
+        sqrtPriceX96: slot0.sqrtPriceX96 as bigint,
+        feesRaw0: feesRaw(growth0, pastGrowth0),
+        feesRaw1: feesRaw(growth1, pastGrowth1),
+      }];
+    });
+
+    const balances = await this.read(live.flatMap(({ pool, token0, token1 }) => [
+      { target: token0, fragment: ERC20_ABI.BALANCE_OF, args: [pool.address] },
+      { target: token1, fragment: ERC20_ABI.BALANCE_OF, args: [pool.address] },
+    ]));
+
+    return live.map(({ pool, token0, token1, sqrtPriceX96, feesRaw0, feesRaw1 }, i) => ({
+      version: 'V3' as const,
+      address: pool.address,
+      token0,
+      token1,
+      fee: pool.fee / Number(FEE_PIPS),
+      balance0: (balances[i * 2]?.[0] as bigint | undefined) ?? 0n,
+      balance1: (balances[i * 2 + 1]?.[0] as bigint | undefined) ?? 0n,
+      rawPrice: spotPrice(sqrtPriceX96, true),
+      growth24h: 0,
+      feesRaw0: feesRaw0 > 0n ? feesRaw0 : 0n,
+      feesRaw1: feesRaw1 > 0n ? feesRaw1 : 0n,
+    }));
+  }
+
+  /**
+   * USD per whole token: the Yei oracle first, then through a pool against an already priced token
+   */
+  private async getPrices(pools: LoadedPool[], descriptors: Map<string, Token>): Promise<Map<string, number>> {
+    const tokens = [...descriptors.keys()];
+    const oracle = await Promise.all(tokens.map(token =>
+      this.reader.getAssetPrices([token]).then(result => result.get(token) ?? 0).catch(() => 0)
+    ));
+    const prices = new Map(tokens.map((token, i) => [token, oracle[i]]).filter(([, price]) => (price as number) > 0) as [string, number][]);
+
+    for (const pool of pools) {
+      const price = wholePrice(pool, descriptors);
+      if (price <= 0) {
+        continue;
+      }
+      if (prices.has(pool.token0) && !prices.has(pool.token1)) {
+        prices.set(pool.token1, prices.get(pool.token0)! / price);
+      } else if (prices.has(pool.token1) && !prices.has(pool.token0)) {
+        prices.set(pool.token0, prices.get(pool.token1)! * price);
+      }
+    }
+    return prices;
+  }
+
+  private toPool(pool: LoadedPool, descriptors: Map<string, Token>, prices: Map<string, number>): DragonSwapPool {
+    const token0 = descriptors.get(pool.token0)!;
+    const token1 = descriptors.get(pool.token1)!;
+    const value = (raw: bigint, token: Token, address: string) => TokenAmount.fromRaw(raw, token).toNumber() * (prices.get(address) ?? 0);
+
+    const tvl = value(pool.balance0, token0, pool.token0) + value(pool.balance1, token1, pool.token1);
+    const fees24h = pool.version === 'V2'
+      ? pool.growth24h * tvl
+      : value(pool.feesRaw0, token0, pool.token0) + value(pool.feesRaw1, token1, pool.token1);
+
+    return {
+      address: pool.address,
+      version: pool.version,
+      token0: this.symbolOf(pool.token0, token0),
+      token1: this.symbolOf(pool.token1, token1),
+      token0Address: pool.token0,
+      token1Address: pool.token1,
+      fee: pool.fee,
+      tvl,
+      price: wholePrice(pool, descriptors),
+      fees24h,
+      apr: tvl > 0 ? (fees24h * 365) / tvl : 0,
+    };
+  }
+
+  /**
+   * Block about 24h back, from the average block time over the last BLOCK_TIME_SAMPLE blocks;
+   * null when it cannot be read (history reads then fail softly and APR is 0)
+   */
+  private async blockDayAgo(): Promise<number | null> {
+    try {
+      const latest = await this.evm.getBlockNumber();
+      const sample = Math.min(BLOCK_TIME_SAMPLE, latest);
+      const [now, then] = await Promise.all([
+        this.evm.getBlockTimestamp(latest),
+        this.evm.getBlockTimestamp(latest - sample),
+      ]);
+      const blockTime = sample > 0 ? (now - then) / sample : 0;
+      return blockTime > 0 ? Math.max(0, latest - Math.round(DAY_SECONDS / blockTime)) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The network's tokens plus extra addresses, checksummed and deduplicated
+   */
+  tokensWith(extraTokens: string[] = []): string[] {
+    const { yeiFinance, tokens } = this.network.contracts;
+    const known = [yeiFinance.WSEI, tokens.ISEI, tokens.USDC, tokens.WETH].filter(Boolean);
+    return [...new Set([...known, ...extraTokens].map(parseEvmAddress))];
+  }
+
+  private symbolOf(address: string, token: Token): string {
+    const wsei = this.network.contracts.yeiFinance.WSEI;
+    return wsei && parseEvmAddress(wsei) === address ? 'SEI' : token.symbol;
+  }
+
+  private read(calls: ContractCall[], block?: number): Promise<(AbiValues | null)[]> {
+    return calls.length === 0
+      ? Promise.resolve([])
+      : multicall(this.evm, this.network.contracts.dragonswap.MULTICALL || null, calls, block);
+  }
+
+  /**
+   * Reads at the 24h-old block; empty when the node keeps no state that far back
+   */
+  private readPast(calls: ContractCall[], block: number | null): Promise<(AbiValues | null)[]> {
+    return block === null ? Promise.resolve([]) : this.read(calls, block).catch(() => []);
+  }
+}
+
+/**
+ * sqrt(k) per LP token; only fees (and donations) make it grow
+ */
+function lpShareValue(reserve0: bigint, reserve1: bigint, totalSupply: bigint): number {
+  return totalSupply > 0n ? Math.sqrt(Number(reserve0) * Number(reserve1)) / Number(totalSupply) : 0;
+}
+
+/**
+ * token1 per whole token0
+ */
+function wholePrice(pool: LoadedPool, descriptors: Map<string, Token>): number {
+  const decimals0 = descriptors.get(pool.token0)?.decimals ?? 18;
+  const decimals1 = descriptors.get(pool.token1)?.decimals ?? 18;
+  return pool.rawPrice * 10 ** (decimals0 - decimals1);
+}
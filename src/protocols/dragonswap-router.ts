@@ -0,0 +1,380 @@
+/**
+ * DragonSwap multi-hop router
+ * Searches paths up to N hops across the discovered V2 pairs and V3 fee tiers, quotes every hop
+ * from live pool state and splits an order over pool-disjoint routes when that improves the output
+ */
+
+import { NetworkProfile } from '../config/networks.js';
+import { EvmClient } from '../evm/evm-client.js';
+import { DragonSwapV2, getAmountOut } from './dragonswap-v2.js';
+import { DragonSwapV3, FEE_PIPS, quoteExactInput, spotPrice, V3SwapState } from './dragonswap-v3.js';
+import { DragonSwapPool } from './dragonswap-pools.js';
+
+export interface RouteOptions {
+  maxHops: number;
+  versions: DragonSwapPool['version'][]; // Pool versions a route may use
+  mixedVersions: boolean; // Routes may chain V2 and V3 pools (quotable, but not one router call)
+  splitParts: number; // Slices the order is split into; 1 disables splitting
+  maxSplitRoutes: number; // Routes one order may be spread over
+  minSplitGainBps: number; // A split must beat the best single route by this much (it costs extra gas)
+}
+
+export interface RouteHop {
+  pool: string;
+  version: DragonSwapPool['version'];
+  tokenIn: string;
+  tokenOut: string;
+  fee: number; // 0.003 = 0.3%
+}
+
+/**
+ * A path with the state of each hop loaded, ready to quote any amount
+ */
+export interface CandidateRoute {
+  path: string[]; // Token addresses, tokenIn first
+  hops: RouteHop[];
+  states: HopState[];
+  rawMidPrice: number; // Raw output units per raw input unit across all hops, before fees
+  feeFactor: number; // Share of the input left after every hop's fee
+}
+
+export interface RouteSplit {
+  path: string[];
+  hops: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  ticksCrossed: number;
+  gasUnits: number;
+}
+
+export interface RoutePlan {
+  splits: RouteSplit[]; // One entry unless splitting improved the output
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint; // Fees across all hops, in input-token terms
+  rawMidPrice: number; // Raw output units per raw input unit before fees, input-weighted across splits
+  idealOut: number; // Raw output at the mid prices after fees (no price impact)
+  priceImpact: number; // Percent lost to moving the pools (fee excluded)
+  ticksCrossed: number;
+  gasUnits: number;
+}
+
+export type HopState =
+  | { version: 'V2'; reserveIn: bigint; reserveOut: bigint }
+  | { version: 'V3'; state: V3SwapState };
+
+export interface RouteQuote {
+  amountOut: bigint;
+  hopAmounts: bigint[]; // Output of each hop, the last one being amountOut
+  ticksCrossed: number;
+}
+
+export const DEFAULT_ROUTE_OPTIONS: RouteOptions = {
+  maxHops: 3,
+  versions: ['V2', 'V3'],
+  mixedVersions: true,
+  splitParts: 10,
+  maxSplitRoutes: 3,
+  minSplitGainBps: 10,
+};
+
+// Rough router gas: one swap call plus each pool it goes through
+const SWAP_BASE_GAS = 90_000;
+const V2_HOP_GAS = 60_000;
+const V3_HOP_GAS = 80_000;
+const V3_TICK_GAS = 20_000;
+const BPS = 10_000n;
+const IMPACT_SEARCH_STEPS = 24;
+
+/**
+ * Path search and per-hop state loading over a set of discovered pools
+ */
+export class DragonSwapRouter {
+  private v2: DragonSwapV2;
+  private v3: DragonSwapV3;
+
+  constructor(evm: EvmClient, network: NetworkProfile) {
+    this.v2 = new DragonSwapV2(evm, network);
+    this.v3 = new DragonSwapV3(evm, network);
+  }
+
+  /**
+   * Every simple path from tokenIn to tokenOut within maxHops, one route per pool choice on each hop;
+   * routes through a pool whose state fails to load are dropped
+   */
+  async loadRoutes(
+    pools: DragonSwapPool[],
+    tokenIn: string,
+    tokenOut: string,
+    overrides: Partial<RouteOptions> = {}
+  ): Promise<CandidateRoute[]> {
+    const options = { ...DEFAULT_ROUTE_OPTIONS, ...overrides };
+    const usable = pools.filter(pool => options.versions.includes(pool.version));
+    const paths = findPaths(usable, tokenIn, tokenOut, options.maxHops)
+      .filter(hops => options.mixedVersions || hops.every(hop => hop.version === hops[0].version));
+
+    const states = new Map<string, Promise<HopState | null>>();
+    const stateOf = (hop: RouteHop) => {
+      const key = `${hop.pool}:${hop.tokenIn}`;
+      if (!states.has(key)) {
+        states.set(key, this.loadHop(hop).catch(() => null));
+      }
+      return states.get(key)!;
+    };
+
+    const routes = await Promise.all(paths.map(async hops => {
+      const loaded = await Promise.all(hops.map(stateOf));
+      if (loaded.some(state => state === null)) {
+        return null;
+      }
+      return toCandidate(hops, loaded as HopState[]);
+    }));
+    return routes.filter((route): route is CandidateRoute => route !== null);
+  }
+
+  /**
+   * One known route with fresh pool state (e.g. to re-quote before sending); null when a pool is gone or empty
+   */
+  async loadRoute(hops: RouteHop[]): Promise<CandidateRoute | null> {
+    const states = await Promise.all(hops.map(hop => this.loadHop(hop).catch(() => null)));
+    return states.some(state => state === null) ? null : toCandidate(hops, states as HopState[]);
+  }
+
+  /**
+   * Pool state oriented in the hop's direction; null when the pool holds nothing to trade against
+   */
+  private async loadHop(hop: RouteHop): Promise<HopState | null> {
+    if (hop.version === 'V2') {
+      const pair = await this.v2.getPair(hop.tokenIn, hop.tokenOut);
+      return pair && pair.reserveA > 0n && pair.reserveB > 0n
+        ? { version: 'V2', reserveIn: pair.reserveA, reserveOut: pair.reserveB }
+        : null;
+    }
+
+    const pool = await this.v3.getPool(hop.tokenIn, hop.tokenOut, Math.round(hop.fee * Number(FEE_PIPS)));
+    if (!pool || pool.liquidity === 0n) {
+      return null;
+    }
+    return { version: 'V3', state: await this.v3.getSwapState(pool) };
+  }
+}
+
+/**
+ * Best plan for an exact input: the best single route, or a greedy split over pool-disjoint routes
+ * when it beats that by minSplitGainBps; null when no combination fills the whole amount
+ */
+export function planRoute(
+  routes: CandidateRoute[],
+  amountIn: bigint,
+  overrides: Partial<RouteOptions> = {}
+): RoutePlan | null {
+  const options = { ...DEFAULT_ROUTE_OPTIONS, ...overrides };
+  if (amountIn <= 0n || routes.length === 0) {
+    return null;
+  }
+
+  let single: RouteSplit | null = null;
+  for (const route of routes) {
+    const quote = quoteRoute(route, amountIn);
+    if (quote && (!single || quote.amountOut > single.amountOut)) {
+      single = toSplit(route, amountIn, quote);
+    }
+  }
+
+  const split = options.splitParts > 1 && options.maxSplitRoutes > 1 && routes.length > 1
+    ? splitOrder(routes, amountIn, options)
+    : null;
+  const splitWins = split && split.length > 1 && (!single ||
+    totalOut(split) * BPS > single.amountOut * (BPS + BigInt(options.minSplitGainBps)));
+
+  const splits = splitWins ? split : single ? [single] : null;
+  return splits ? toPlan(routes, splits) : null;
+}
+
+/**
+ * Largest input up to `amountIn` whose plan stays within `maxImpact` percent (binary search);
+ * null when not even a tiny amount fits
+ */
+export function planWithinImpact(
+  routes: CandidateRoute[],
+  amountIn: bigint,
+  maxImpact: number,
+  overrides: Partial<RouteOptions> = {}
+): RoutePlan | null {
+  const full = planRoute(routes, amountIn, overrides);
+  if (full && full.priceImpact <= maxImpact) {
+    return full;
+  }
+
+  let best: RoutePlan | null = null;
+  let [low, high] = [0n, amountIn];
+  for (let step = 0; step < IMPACT_SEARCH_STEPS && high - low > 1n; step++) {
+    const middle = (low + high) / 2n;
+    const plan = planRoute(routes, middle, overrides);
+    if (plan && plan.priceImpact <= maxImpact) {
+      best = plan;
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return best;
+}
+
+/**
+ * Simple paths (no token visited twice) as hop lists, one per pool choice on each hop
+ */
+function findPaths(pools: DragonSwapPool[], tokenIn: string, tokenOut: string, maxHops: number): RouteHop[][] {
+  const edges = new Map<string, RouteHop[]>();
+  const addEdge = (pool: DragonSwapPool, from: string, to: string) => {
+    const hop: RouteHop = { pool: pool.address, version: pool.version, tokenIn: from, tokenOut: to, fee: pool.fee };
+    edges.set(from, [...(edges.get(from) ?? []), hop]);
+  };
+  pools.forEach(pool => {
+    addEdge(pool, pool.token0Address, pool.token1Address);
+    addEdge(pool, pool.token1Address, pool.token0Address);
+  });
+
+  const paths: RouteHop[][] = [];
+  const walk = (token: string, hops: RouteHop[], visited: Set<string>) => {
+    for (const hop of edges.get(token) ?? []) {
+      if (hop.tokenOut === tokenOut) {
+        paths.push([...hops, hop]);
+      } else if (hops.length + 1 < maxHops && !visited.has(hop.tokenOut)) {
+        walk(hop.tokenOut, [...hops, hop], new Set([...visited, hop.tokenOut]));
+      }
+    }
+  };
+  if (tokenIn !== tokenOut) {
+    walk(tokenIn, [], new Set([tokenIn]));
+  }
+  return paths;
+}
+
+/**
+ * Greedy split: each slice goes to the route with the best marginal output, where routes sharing a
+ * pool with a route already in use are excluded (their quotes would ignore each other's price move)
+ */
+function splitOrder(routes: CandidateRoute[], amountIn: bigint, options: RouteOptions): RouteSplit[] | null {
+  const parts = BigInt(options.splitParts);
+  const slice = amountIn / parts;
+  if (slice === 0n) {
+    return null;
+  }
+
+  const allocated = new Map<CandidateRoute, { amountIn: bigint; quote: RouteQuote }>();
+  const poolsInUse = new Set<string>();
+
+  for (let part = 0n; part < parts; part++) {
+    const size = part === parts - 1n ? amountIn - slice * (parts - 1n) : slice;
+    let best: { route: CandidateRoute; amountIn: bigint; quote: RouteQuote; gain: bigint } | null = null;
+
+    for (const route of routes) {
+      const current = allocated.get(route);
+      if (!current && (allocated.size >= options.maxSplitRoutes || route.hops.some(hop => poolsInUse.has(hop.pool)))) {
+        continue;
+      }
+      const next = (current?.amountIn ?? 0n) + size;
+      const quote = quoteRoute(route, next);
+      if (!quote) {
+        continue;
+      }
+      const gain = quote.amountOut - (current?.quote.amountOut ?? 0n);
+      if (!best || gain > best.gain) {
+        best = { route, amountIn: next, quote, gain };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+    allocated.set(best.route, { amountIn: best.amountIn, quote: best.quote });
+    best.route.hops.forEach(hop => poolsInUse.add(hop.pool));
+  }
+
+  return [...allocated].map(([route, { amountIn: routeIn, quote }]) => toSplit(route, routeIn, quote));
+}
+
+/**
+ * Hop-by-hop output; null when a V3 hop runs out of loaded liquidity before the input is used up
+ */
+export function quoteRoute(route: CandidateRoute, amountIn: bigint): RouteQuote | null {
+  let amount = amountIn;
+  let ticksCrossed = 0;
+  const hopAmounts: bigint[] = [];
+
+  for (const state of route.states) {
+    if (state.version === 'V2') {
+      amount = getAmountOut(amount, state.reserveIn, state.reserveOut);
+    } else {
+      const quote = quoteExactInput(state.state, amount);
+      if (quote.exhausted) {
+        return null;
+      }
+      amount = quote.amountOut;
+      ticksCrossed += quote.ticksCrossed;
+    }
+    hopAmounts.push(amount);
+  }
+  return amount > 0n ? { amountOut: amount, hopAmounts, ticksCrossed } : null;
+}
+
+function toCandidate(hops: RouteHop[], states: HopState[]): CandidateRoute {
+  const rawMidPrice = states.reduce((price, state) => price * (state.version === 'V2'
+    ? Number(state.reserveOut) / Number(state.reserveIn)
+    : spotPrice(state.state.pool.sqrtPriceX96, state.state.zeroForOne)), 1);
+
+  return {
+    path: [hops[0].tokenIn, ...hops.map(hop => hop.tokenOut)],
+    hops,
+    states,
+    rawMidPrice,
+    feeFactor: hops.reduce((factor, hop) => factor * (1 - hop.fee), 1),
+  };
+}
+
+function toSplit(route: CandidateRoute, amountIn: bigint, quote: RouteQuote): RouteSplit {
+  const gasUnits = SWAP_BASE_GAS
+    + route.hops.reduce((total, hop) => total + (hop.version === 'V2' ? V2_HOP_GAS : V3_HOP_GAS), 0)
+    + quote.ticksCrossed * V3_TICK_GAS;
+
+  return {
+    path: route.path,
+    hops: route.hops,
+    amountIn,
+    amountOut: quote.amountOut,
+    ticksCrossed: quote.ticksCrossed,
+    gasUnits,
+  };
+}
+
+function toPlan(routes: CandidateRoute[], splits: RouteSplit[]): RoutePlan {
+  const routeOf = (split: RouteSplit) => routes.find(route => route.hops === split.hops)!;
+  const amountIn = splits.reduce((total, split) => total + split.amountIn, 0n);
+  const amountOut = totalOut(splits);
+  const idealOut = splits.reduce((total, split) => {
+    const route = routeOf(split);
+    return total + Number(split.amountIn) * route.feeFactor * route.rawMidPrice;
+  }, 0);
+  const feeAmount = splits.reduce((total, split) => {
+    const kept = BigInt(Math.round(routeOf(split).feeFactor * 1e9));
+    return total + split.amountIn - (split.amountIn * kept) / 1_000_000_000n;
+  }, 0n);
+  const rawMidPrice = splits.reduce((total, split) => total + Number(split.amountIn) * routeOf(split).rawMidPrice, 0) / Number(amountIn);
+
+  return {
+    splits,
+    amountIn,
+    amountOut,
+    feeAmount,
+    rawMidPrice,
+    idealOut,
+    priceImpact: idealOut > 0 ? Math.max(0, 1 - Number(amountOut) / idealOut) * 100 : 0,
+    ticksCrossed: splits.reduce((total, split) => total + split.ticksCrossed, 0),
+    gasUnits: splits.reduce((total, split) => total + split.gasUnits, 0),
+  };
+}
+
+function totalOut(splits: RouteSplit[]): bigint {
+  return splits.reduce((total, split) => total + split.amountOut, 0n);
+}
@@ -0,0 +1,209 @@
+/**
+ * DragonSwap V2 (constant-product) pools and router
+ * Reads pair reserves and sends the swaps and liquidity removals used to unwind positions
+ */
+
+import { NetworkProfile, requireContract } from '../config/networks.js';
+import { Signer } from '../signers/signer.js';
+import { TokenAmount } from '../utils/token-amount.js';
+import { EvmClient, EvmTransactionReceipt } from '../evm/evm-client.js';
+import { ensureAllowance, getErc20Balance, getErc20Token } from '../evm/erc20.js';
+
+export const DRAGONSWAP_V2_ABI = {
+  GET_PAIR: 'function getPair(address tokenA, address tokenB) view returns (address)',
+  GET_RESERVES: 'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  TOKEN0: 'function token0() view returns (address)',
+  TOKEN1: 'function token1() view returns (address)',
+  TOTAL_SUPPLY: 'function totalSupply() view returns (uint256)',
+  SWAP_EXACT_TOKENS_FOR_TOKENS: 'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+  REMOVE_LIQUIDITY: 'function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) returns (uint256 amountA, uint256 amountB)',
+} as const;
+
+export const V2_FEE_BPS = 30n; // 0.3% on every V2 pair
+const BPS = 10_000n;
+const DEADLINE_SECONDS = 20 * 60;
+
+export interface V2Pair {
+  address: string;
+  tokenA: string;
+  tokenB: string;
+  reserveA: bigint;
+  reserveB: bigint;
+  totalSupply: bigint; // LP tokens
+}
+
+export interface V2TradeResult {
+  receipts: EvmTransactionReceipt[];
+  amountIn: bigint;
+  amountsOut: bigint[]; // Received per output token (balance deltas), in call order
+}
+
+/**
+ * Output of an exact-input swap against constant-product reserves, fee taken from the input
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: bigint = V2_FEE_BPS): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) {
+    return 0n;
+  }
+  const amountInWithFee = amountIn * (BPS - feeBps);
+  return (amountInWithFee * reserveOut) / (reserveIn * BPS + amountInWithFee);
+}
+
+/**
+ * Largest input whose price impact stays within `maxImpactBps` (impact = in / (reserveIn + in))
+ */
+export function maxInputForImpact(reserveIn: bigint, maxImpactBps: bigint): bigint {
+  if (maxImpactBps >= BPS) {
+    return reserveIn;
+  }
+  return (reserveIn * maxImpactBps) / (BPS - maxImpactBps);
+}
+
+/**
+ * Minimum acceptable amount after slippage
+ */
+export function withSlippage(amount: bigint, slippageBps: bigint): bigint {
+  return (amount * (BPS - slippageBps)) / BPS;
+}
+
+/**
+ * Pair reads and router calls (router/factory from the network profile's dragonswap contracts)
+ */
+export class DragonSwapV2 {
+  private evm: EvmClient;
+  private network: NetworkProfile;
+
+  constructor(evm: EvmClient, network: NetworkProfile) {
+    this.evm = evm;
+    this.network = network;
+  }
+
+  /**
+   * Pair for two tokens with reserves ordered as asked; null when no pool exists
+   */
+  async getPair(tokenA: string, tokenB: string): Promise<V2Pair | null> {
+    const factory = requireContract(this.network, 'dragonswap', 'FACTORY');
+    const [pairAddress] = await this.evm.readContract(factory, DRAGONSWAP_V2_ABI.GET_PAIR, [tokenA, tokenB]);
+    const address = pairAddress as string;
+
+    if (/^0x0{40}$/i.test(address)) {
+      return null;
+    }
+
+    const [[reserve0, reserve1], [token0], [totalSupply]] = await Promise.all([
+      this.evm.readContract(address, DRAGONSWAP_V2_ABI.GET_RESERVES),
+      this.evm.readContract(address, DRAGONSWAP_V2_ABI.TOKEN0),
+      this.evm.readContract(address, DRAGONSWAP_V2_ABI.TOTAL_SUPPLY),
+    ]);
+    const aIsToken0 = (token0 as string).toLowerCase() === tokenA.toLowerCase();
+
+    return {
+      address,
+      tokenA,
+      tokenB,
+      reserveA: (aIsToken0 ? reserve0 : reserve1) as bigint,
+      reserveB: (aIsToken0 ? reserve1 : reserve0) as bigint,
+      totalSupply: totalSupply as bigint,
+    };
+  }
+
+  /**
+   * Swap an exact input along one pair; amountOutMin comes from the live reserves less slippage
+   */
+  async swapExactIn(
+    signer: Signer,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    slippageBps: bigint
+  ): Promise<V2TradeResult> {
+    const pair = await this.getPair(tokenIn, tokenOut);
+    if (!pair) {
+      throw new Error(`No DragonSwap pool for ${tokenIn}/${tokenOut}`);
+    }
+
+    const minOut = withSlippage(getAmountOut(amountIn, pair.reserveA, pair.reserveB), slippageBps);
+    return this.swapPath(signer, [tokenIn, tokenOut], amountIn, minOut);
+  }
+
+  /**
+   * Swap an exact input through a chain of pairs (path[0] in, last token out) with a set minimum out
+   */
+  async swapPath(
+    signer: Signer,
+    path: string[],
+    amountIn: bigint,
+    minOut: bigint,
+    deadlineAt: bigint = deadline()
+  ): Promise<V2TradeResult> {
+    const router = requireContract(this.network, 'dragonswap', 'ROUTER');
+    const { evmAddress } = await signer.getAccount();
+    const [tokenIn, tokenOut] = [path[0], path[path.length - 1]];
+    const receipts: EvmTransactionReceipt[] = [];
+
+    const approval = await ensureAllowance(this.evm, signer, tokenIn, router, amountIn);
+    if (approval) {
+      receipts.push(approval);
+    }
+
+    const before = await getErc20Balance(this.evm, tokenOut, evmAddress);
+    const hash = await this.evm.writeContract(signer, router, DRAGONSWAP_V2_ABI.SWAP_EXACT_TOKENS_FOR_TOKENS, [
+      amountIn, minOut, path, evmAddress, deadlineAt,
+    ]);
+    receipts.push(await this.evm.waitForReceipt(hash));
+    const after = await getErc20Balance(this.evm, tokenOut, evmAddress);
+
+    return { receipts, amountIn, amountsOut: [after - before] };
+  }
+
+  /**
+   * Burn LP tokens for both underlying tokens; minimums are the pro-rata share less slippage
+   */
+  async removeLiquidity(
+    signer: Signer,
+    pair: V2Pair,
+    liquidity: bigint,
+    slippageBps: bigint
+  ): Promise<V2TradeResult> {
+    const router = requireContract(this.network, 'dragonswap', 'ROUTER');
+    const { evmAddress } = await signer.getAccount();
+    const minA = withSlippage((pair.reserveA * liquidity) / pair.totalSupply, slippageBps);
+    const minB = withSlippage((pair.reserveB * liquidity) / pair.totalSupply, slippageBps);
+    const receipts: EvmTransactionReceipt[] = [];
+
+    const approval = await ensureAllowance(this.evm, signer, pair.address, router, liquidity);
+    if (approval) {
+      receipts.push(approval);
+    }
+
+    const [beforeA, beforeB] = await Promise.all([
+      getErc20Balance(this.evm, pair.tokenA, evmAddress),
+      getErc20Balance(this.evm, pair.tokenB, evmAddress),
+    ]);
+    const hash = await this.evm.writeContract(signer, router, DRAGONSWAP_V2_ABI.REMOVE_LIQUIDITY, [
+      pair.tokenA, pair.tokenB, liquidity, minA, minB, evmAddress, deadline(),
+    ]);
+    receipts.push(await this.evm.waitForReceipt(hash));
+    const [afterA, afterB] = await Promise.all([
+      getErc20Balance(this.evm, pair.tokenA, evmAddress),
+      getErc20Balance(this.evm, pair.tokenB, evmAddress),
+    ]);
+
+    return { receipts, amountIn: liquidity, amountsOut: [afterA - beforeA, afterB - beforeB] };
+  }
+
+  /**
+   * Balance of a token as an amount with on-chain symbol/decimals
+   */
+  async getBalance(token: string, owner: string): Promise<TokenAmount> {
+    const [descriptor, raw] = await Promise.all([
+      getErc20Token(this.evm, token),
+      getErc20Balance(this.evm, token, owner),
+    ]);
+    return TokenAmount.fromRaw(raw, descriptor);
+  }
+}
+
+function deadline(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + DEADLINE_SECONDS);
+}
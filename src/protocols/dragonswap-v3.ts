@@ -0,0 +1,418 @@
+/**
+ * DragonSwap V3 (concentrated liquidity) pools
+ * Reads pool state and initialized ticks, quotes exact-input swaps with the pool's own
+ * tick-crossing math (TickMath, SqrtPriceMath and SwapMath, exact in bigint) and sends them
+ * through the SwapRouter
+ */
+
+import { NetworkProfile, requireContract } from '../config/networks.js';
+import { Signer } from '../signers/signer.js';
+import { EvmClient, EvmTransactionReceipt } from '../evm/evm-client.js';
+import { AbiValues } from '../evm/abi.js';
+import { ContractCall, multicall } from '../evm/multicall.js';
+import { ensureAllowance } from '../evm/erc20.js';
+
+export const DRAGONSWAP_V3_ABI = {
+  GET_POOL: 'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+  SLOT0: 'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  LIQUIDITY: 'function liquidity() view returns (uint128)',
+  TICK_SPACING: 'function tickSpacing() view returns (int24)',
+  TOKEN0: 'function token0() view returns (address)',
+  TOKEN1: 'function token1() view returns (address)',
+  TICK_BITMAP: 'function tickBitmap(int16 wordPosition) view returns (uint256)',
+  FEE_GROWTH_GLOBAL0_X128: 'function feeGrowthGlobal0X128() view returns (uint256)',
+  FEE_GROWTH_GLOBAL1_X128: 'function feeGrowthGlobal1X128() view returns (uint256)',
+  TICKS: 'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+  EXACT_INPUT_SINGLE: 'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+  EXACT_INPUT: 'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)',
+} as const;
+
+export const V3_FEE_TIERS = [100, 500, 3000, 10000]; // Pips (1e-6): 0.01%, 0.05%, 0.3%, 1%
+export const FEE_PIPS = 1_000_000n;
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+export const Q96 = 1n << 96n;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+const TICK_WORDS = 4; // Bitmap words loaded in the swap direction, 256 tick spacings each
+
+export interface V3Pool {
+  address: string;
+  tokenA: string;
+  tokenB: string;
+  zeroForOne: boolean; // tokenA is the pool's token0
+  fee: number; // Pips
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint; // In range at the current tick
+}
+
+/**
+ * One pool on a SwapRouter path
+ */
+export interface V3PathHop {
+  tokenIn: string;
+  tokenOut: string;
+  fee: number; // Pips
+}
+
+export interface V3Tick {
+  tick: number;
+  liquidityNet: bigint;
+}
+
+/**
+ * What a quote may cross: initialized ticks in the swap direction, up to the last loaded bitmap word
+ */
+export interface V3SwapState {
+  pool: V3Pool;
+  zeroForOne: boolean;
+  ticks: V3Tick[]; // Sorted in swap direction
+  boundaryTick: number; // Ticks beyond are unknown; a quote stops here
+}
+
+export interface V3Quote {
+  amountIn: bigint; // Consumed, fee included (below the request when liquidity runs out)
+  amountOut: bigint;
+  feeAmount: bigint;
+  sqrtPriceAfter: bigint;
+  ticksCrossed: number;
+  exhausted: boolean; // Stopped at the loaded range or the price limit with input left
+}
+
+interface SwapStep {
+  sqrtPriceNext: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+// TickMath: 2^128 / sqrt(1.0001)^(2^i), one factor per bit of |tick|
+const TICK_RATIOS: [number, bigint][] = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/**
+ * sqrt(1.0001^tick) as a Q64.96, rounded up exactly like the pool
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range [${MIN_TICK}, ${MAX_TICK}]`);
+  }
+
+  const absTick = Math.abs(tick);
+  let ratio = absTick & 0x1 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 1n << 128n;
+  for (const [bit, factor] of TICK_RATIOS) {
+    if (absTick & bit) {
+      ratio = (ratio * factor) >> 128n;
+    }
+  }
+  if (tick > 0) {
+    ratio = MAX_UINT256 / ratio;
+  }
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Token0 owed between two prices for `liquidity`
+ */
+export function getAmount0Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtA < sqrtB ? [sqrtA, sqrtB] : [sqrtB, sqrtA];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+
+  return roundUp
+    ? divUp(divUp(numerator1 * numerator2, upper), lower)
+    : (numerator1 * numerator2) / upper / lower;
+}
+
+/**
+ * Token1 owed between two prices for `liquidity`
+ */
+export function getAmount1Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtA < sqrtB ? [sqrtA, sqrtB] : [sqrtB, sqrtA];
+  return roundUp ? divUp(liquidity * (upper - lower), Q96) : (liquidity * (upper - lower)) / Q96;
+}
+
+/**
+ * Price after adding `amountIn` of the input token (rounded against the trader)
+ */
+export function getNextSqrtPriceFromInput(sqrtPrice: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  if (amountIn === 0n) {
+    return sqrtPrice;
+  }
+  if (zeroForOne) {
+    const numerator1 = liquidity << 96n;
+    return divUp(numerator1 * sqrtPrice, numerator1 + amountIn * sqrtPrice);
+  }
+  return sqrtPrice + (amountIn << 96n) / liquidity;
+}
+
+/**
+ * One exact-input swap step towards `sqrtTarget` within constant liquidity (SwapMath.computeSwapStep)
+ */
+export function computeSwapStep(
+  sqrtCurrent: bigint,
+  sqrtTarget: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: number
+): SwapStep {
+  const zeroForOne = sqrtCurrent >= sqrtTarget;
+  const fee = BigInt(feePips);
+  const amountRemainingLessFee = (amountRemaining * (FEE_PIPS - fee)) / FEE_PIPS;
+
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtTarget, sqrtCurrent, liquidity, true)
+    : getAmount1Delta(sqrtCurrent, sqrtTarget, liquidity, true);
+  const sqrtPriceNext = amountRemainingLessFee >= amountIn
+    ? sqrtTarget
+    : getNextSqrtPriceFromInput(sqrtCurrent, liquidity, amountRemainingLessFee, zeroForOne);
+  const reachedTarget = sqrtPriceNext === sqrtTarget;
+
+  let amountOut: bigint;
+  if (zeroForOne) {
+    amountIn = reachedTarget ? amountIn : getAmount0Delta(sqrtPriceNext, sqrtCurrent, liquidity, true);
+    amountOut = getAmount1Delta(sqrtPriceNext, sqrtCurrent, liquidity, false);
+  } else {
+    amountIn = reachedTarget ? amountIn : getAmount1Delta(sqrtCurrent, sqrtPriceNext, liquidity, true);
+    amountOut = getAmount0Delta(sqrtCurrent, sqrtPriceNext, liquidity, false);
+  }
+
+  // Short of the target the whole remainder is spent; the fee is whatever input is left over
+  const feeAmount = reachedTarget ? divUp(amountIn * fee, FEE_PIPS - fee) : amountRemaining - amountIn;
+  return { sqrtPriceNext, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * Exact-input quote replaying the pool's swap loop over the loaded ticks
+ */
+export function quoteExactInput(state: V3SwapState, amountIn: bigint): V3Quote {
+  const { pool, zeroForOne } = state;
+  const sqrtPriceLimit = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+  let remaining = amountIn;
+  let amountOut = 0n;
+  let feeAmount = 0n;
+  let sqrtPrice = pool.sqrtPriceX96;
+  let tick = pool.tick;
+  let liquidity = pool.liquidity;
+  let ticksCrossed = 0;
+  let exhausted = false;
+
+  while (remaining > 0n && sqrtPrice !== sqrtPriceLimit) {
+    const next = state.ticks.find(candidate => (zeroForOne ? candidate.tick <= tick : candidate.tick > tick));
+    const beyondLoaded = !next || (zeroForOne ? next.tick < state.boundaryTick : next.tick > state.boundaryTick);
+    const tickNext = Math.min(MAX_TICK, Math.max(MIN_TICK, beyondLoaded ? state.boundaryTick : next!.tick));
+    const sqrtNext = getSqrtRatioAtTick(tickNext);
+    const sqrtTarget = zeroForOne
+      ? (sqrtNext < sqrtPriceLimit ? sqrtPriceLimit : sqrtNext)
+      : (sqrtNext > sqrtPriceLimit ? sqrtPriceLimit : sqrtNext);
+
+    const step = computeSwapStep(sqrtPrice, sqrtTarget, liquidity, remaining, pool.fee);
+    remaining -= step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+    feeAmount += step.feeAmount;
+    sqrtPrice = step.sqrtPriceNext;
+
+    if (sqrtPrice !== sqrtNext) {
+      continue;
+    }
+    if (beyondLoaded) {
+      exhausted = remaining > 0n;
+      break;
+    }
+
+    // Crossing: liquidityNet is signed for left-to-right crossings
+    liquidity += zeroForOne ? -next!.liquidityNet : next!.liquidityNet;
+    tick = zeroForOne ? tickNext - 1 : tickNext;
+    ticksCrossed++;
+  }
+
+  return {
+    amountIn: amountIn - remaining,
+    amountOut,
+    feeAmount,
+    sqrtPriceAfter: sqrtPrice,
+    ticksCrossed,
+    exhausted: exhausted || remaining > 0n,
+  };
+}
+
+/**
+ * SwapRouter path: tokenIn, then fee (uint24) and next token for every hop, tightly packed
+ */
+export function encodePath(hops: V3PathHop[]): string {
+  if (hops.length === 0) {
+    throw new Error('A V3 path needs at least one hop');
+  }
+  const token = (address: string) => address.slice(2).toLowerCase();
+  return '0x' + token(hops[0].tokenIn) + hops.map(hop => hop.fee.toString(16).padStart(6, '0') + token(hop.tokenOut)).join('');
+}
+
+/**
+ * Spot price of the output token per input token in raw units
+ */
+export function spotPrice(sqrtPriceX96: bigint, zeroForOne: boolean): number {
+  const price1Per0 = (Number(sqrtPriceX96) / 2 ** 96) ** 2;
+  return zeroForOne ? price1Per0 : 1 / price1Per0;
+}
+
+/**
+ * Pool reads and SwapRouter swaps (dragonswap.V3_FACTORY and V3_ROUTER from the network profile)
+ */
+export class DragonSwapV3 {
+  private evm: EvmClient;
+  private network: NetworkProfile;
+
+  constructor(evm: EvmClient, network: NetworkProfile) {
+    this.evm = evm;
+    this.network = network;
+  }
+
+  /**
+   * Pool for two tokens and a fee tier (pips); null when none was deployed
+   */
+  async getPool(tokenA: string, tokenB: string, fee: number): Promise<V3Pool | null> {
+    const factory = requireContract(this.network, 'dragonswap', 'V3_FACTORY');
+    const [poolAddress] = await this.evm.readContract(factory, DRAGONSWAP_V3_ABI.GET_POOL, [tokenA, tokenB, fee]);
+    const address = poolAddress as string;
+
+    if (/^0x0{40}$/i.test(address)) {
+      return null;
+    }
+
+    const [slot0, liquidity, tickSpacing, token0] = await this.readAll([
+      { target: address, fragment: DRAGONSWAP_V3_ABI.SLOT0 },
+      { target: address, fragment: DRAGONSWAP_V3_ABI.LIQUIDITY },
+      { target: address, fragment: DRAGONSWAP_V3_ABI.TICK_SPACING },
+      { target: address, fragment: DRAGONSWAP_V3_ABI.TOKEN0 },
+    ], `DragonSwap V3 pool ${address}`);
+
+    return {
+      address,
+      tokenA,
+      tokenB,
+      zeroForOne: (token0[0] as string).toLowerCase() === tokenA.toLowerCase(),
+      fee,
+      tickSpacing: Number(tickSpacing[0]),
+      sqrtPriceX96: slot0.sqrtPriceX96 as bigint,
+      tick: Number(slot0.tick),
+      liquidity: liquidity[0] as bigint,
+    };
+  }
+
+  /**
+   * Initialized ticks from the current tick onwards, `words` bitmap words in the swap direction
+   * (tokenA → tokenB as the pool was read)
+   */
+  async getSwapState(pool: V3Pool, words: number = TICK_WORDS): Promise<V3SwapState> {
+    const { zeroForOne, tickSpacing } = pool;
+    const currentWord = Math.floor(Math.floor(pool.tick / tickSpacing) / 256);
+    const positions = Array.from({ length: words }, (_, i) => currentWord + (zeroForOne ? -i : i));
+
+    const bitmaps = (await this.readAll(
+      positions.map(position => ({ target: pool.address, fragment: DRAGONSWAP_V3_ABI.TICK_BITMAP, args: [position] })),
+      `DragonSwap V3 tick bitmap of ${pool.address}`
+    )).map(([bitmap]) => bitmap as bigint);
+
+    const initialized = positions.flatMap((position, i) =>
+      Array.from({ length: 256 }, (_, bit) => bit)
+        .filter(bit => (bitmaps[i] >> BigInt(bit)) & 1n)
+        .map(bit => (position * 256 + bit) * tickSpacing)
+    );
+    const tickData = await this.readAll(
+      initialized.map(tick => ({ target: pool.address, fragment: DRAGONSWAP_V3_ABI.TICKS, args: [tick] })),
+      `DragonSwap V3 ticks of ${pool.address}`
+    );
+    const ticks = initialized.map((tick, i) => ({ tick, liquidityNet: tickData[i].liquidityNet as bigint }));
+
+    const lastWord = positions[positions.length - 1];
+    const boundaryTick = zeroForOne ? lastWord * 256 * tickSpacing : (lastWord * 256 + 255) * tickSpacing;
+
+    return {
+      pool,
+      zeroForOne,
+      ticks: ticks.sort((a, b) => (zeroForOne ? b.tick - a.tick : a.tick - b.tick)),
+      boundaryTick: Math.min(MAX_TICK, Math.max(MIN_TICK, boundaryTick)),
+    };
+  }
+
+  /**
+   * Exact-input swap along V3 pools: exactInputSingle for one hop, exactInput with a packed path
+   * otherwise; proceeds go to the signer. Returns the approval (when needed) and swap receipts
+   */
+  async swapExactInput(
+    signer: Signer,
+    hops: V3PathHop[],
+    amountIn: bigint,
+    minOut: bigint,
+    deadline: bigint
+  ): Promise<EvmTransactionReceipt[]> {
+    const router = requireContract(this.network, 'dragonswap', 'V3_ROUTER');
+    const { evmAddress } = await signer.getAccount();
+    const receipts: EvmTransactionReceipt[] = [];
+
+    const approval = await ensureAllowance(this.evm, signer, hops[0].tokenIn, router, amountIn);
+    if (approval) {
+      receipts.push(approval);
+    }
+
+    const hash = hops.length === 1
+      ? await this.evm.writeContract(signer, router, DRAGONSWAP_V3_ABI.EXACT_INPUT_SINGLE, [{
+          tokenIn: hops[0].tokenIn,
+          tokenOut: hops[0].tokenOut,
+          fee: hops[0].fee,
+          recipient: evmAddress,
+          deadline,
+          amountIn,
+          amountOutMinimum: minOut,
+          sqrtPriceLimitX96: 0n,
+        }])
+      : await this.evm.writeContract(signer, router, DRAGONSWAP_V3_ABI.EXACT_INPUT, [{
+          path: encodePath(hops),
+          recipient: evmAddress,
+          deadline,
+          amountIn,
+          amountOutMinimum: minOut,
+        }]);
+    receipts.push(await this.evm.waitForReceipt(hash));
+    return receipts;
+  }
+
+  /**
+   * Batched reads through the profile's multicall (parallel calls without one); every call must succeed
+   */
+  private async readAll(calls: ContractCall[], description: string): Promise<AbiValues[]> {
+    const results = await multicall(this.evm, this.network.contracts.dragonswap.MULTICALL || null, calls);
+    if (results.some(result => result === null)) {
+      throw new Error(`Failed to read ${description}`);
+    }
+    return results as AbiValues[];
+  }
+}
+
+function divUp(numerator: bigint, denominator: bigint): bigint {
+  return numerator / denominator + (numerator % denominator === 0n ? 0n : 1n);
+}
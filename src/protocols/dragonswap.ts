@@ -4,14 +4,14 @@
  * Handles token swaps, liquidity provision, and concentrated liquidity pools
  */
 
-export interface DragonSwapPool {
-  token0: string;
-  token1: string;
-  fee: number; // Fee tier (e.g., 0.003 for 0.3%)
-  liquidity: number;
-  price: number;
-  apr: number;
-}
+import { AmountInput, Token, TokenAmount } from '../utils/token-amount.js';
+import { getNetwork, NetworkProfile, requireContract } from '../config/networks.js';
+import { EvmClient } from '../evm/evm-client.js';
+import { getErc20Token } from '../evm/erc20.js';
+import { parseEvmAddress } from '../utils/address.js';
+import { withSlippage } from './dragonswap-v2.js';
+import { DragonSwapPool, DragonSwapPoolLoader } from './dragonswap-pools.js';
+import { CandidateRoute, DEFAULT_ROUTE_OPTIONS, DragonSwapRouter, planRoute, RouteHop, RouteOptions, RoutePlan } from './dragonswap-router.js';
 
 export interface LiquidityPosition {
   poolId: string;
@@ -23,47 +23,73 @@ export interface LiquidityPosition {
   fees24h: number;
 }
 
+export interface SwapQuoteSplit {
+  path: string[]; // Token symbols, tokenIn first
+  hops: RouteHop[];
+  amountIn: TokenAmount;
+  amountOut: TokenAmount;
+  share: number; // Of the whole input
+}
+
+/**
+ * Exact-input quote against live pool state along the best route (or split of routes)
+ */
+export interface SwapQuote {
+  splits: SwapQuoteSplit[];
+  amountIn: TokenAmount;
+  amountOut: TokenAmount;
+  minimumOut: TokenAmount; // amountOut less slippage, the swap's amountOutMin
+  fee: TokenAmount; // Every hop's fee, in input-token terms
+  midPrice: number; // tokenOut per tokenIn before the swap
+  executionPrice: number; // amountOut / amountIn, fee included
+  priceImpact: number; // Percent the pool prices move against the trade (fee excluded)
+  ticksCrossed: number; // V3 hops only
+  gasUnits: number;
+  gasEstimate: number; // SEI at the current gas price
+}
+
+export const DEFAULT_SWAP_SLIPPAGE_BPS = 50n;
+const POOL_CACHE_TTL_MS = 5 * 60 * 1000;
+
 /**
  * DragonSwap DEX utilities for leverage strategies
  */
 export class DragonSwap {
-  private rpcUrl: string;
+  private network: NetworkProfile;
+  private evm: EvmClient;
+  private router: DragonSwapRouter;
+  private poolLoader: DragonSwapPoolLoader;
+  private poolCache = new Map<string, { pools: DragonSwapPool[]; loadedAt: number }>();
   
-  constructor(rpcUrl: string) {
-    this.rpcUrl = rpcUrl;
+  constructor(network: NetworkProfile = getNetwork()) {
+    this.network = network;
+    this.evm = EvmClient.forNetwork(network);
+    this.router = new DragonSwapRouter(this.evm, network);
+    this.poolLoader = new DragonSwapPoolLoader(this.evm, network);
+  }
+
+  /**
+   * Every discovered pool between the network's tokens and any extra tokens (cached per token set
+   * for POOL_CACHE_TTL_MS)
+   */
+  async getPools(refresh: boolean = false, extraTokens: string[] = []): Promise<DragonSwapPool[]> {
+    const tokens = this.poolLoader.tokensWith(extraTokens);
+    const key = tokens.join(',');
+    const cached = this.poolCache.get(key);
+    if (!refresh && cached && Date.now() - cached.loadedAt <= POOL_CACHE_TTL_MS) {
+      return cached.pools;
+    }
+    const pools = await this.poolLoader.loadPools(tokens);
+    this.poolCache.set(key, { pools, loadedAt: Date.now() });
+    return pools;
   }
 
   /**
    * Get available liquidity pools for SEI
    */
   async getSEIPools(): Promise<DragonSwapPool[]> {
-    // Mock data - in production, fetch from DragonSwap API/contracts
-    return [
-      {
-        token0: 'SEI',
-        token1: 'USDC',
-        fee: 0.003, // 0.3%
-        liquidity: 1000000,
-        price: 0.45, // SEI/USDC price
-        apr: 0.25 // 25% APR from fees + rewards
-      },
-      {
-        token0: 'SEI',
-        token1: 'WETH',
-        fee: 0.003,
-        liquidity: 500000,
-        price: 0.00015, // SEI/WETH price
-        apr: 0.18 // 18% APR
-      },
-      {
-        token0: 'iSEI', // Silo liquid staking token
-        token1: 'SEI',
-        fee: 0.001, // 0.1% (lower fee for similar assets)
-        liquidity: 300000,
-        price: 1.05, // iSEI trades at slight premium
-        apr: 0.12 // 12% APR
-      }
-    ];
+    const pools = await this.getPools();
+    return pools.filter(pool => pool.token0 === 'SEI' || pool.token1 === 'SEI');
   }
 
   /**
@@ -79,19 +105,30 @@ export class DragonSwap {
     lpTokens: number;
     estimatedAPR: number;
     impermanentLossRisk: string;
+    pool: DragonSwapPool;
+    swap: SwapQuote; // SEI → pair token conversion along the best route
   }> {
     
     const totalSEI = seiAmount + borrowedSEI;
     const pools = await this.getSEIPools();
-    const selectedPool = pools.find(p => p.token0 + '-' + p.token1 === poolType);
+    const [tokenA, tokenB] = poolType.split('-').map(symbol => this.resolveToken(symbol));
+    const candidates = pools.filter(p =>
+      (p.token0Address === tokenA && p.token1Address === tokenB) ||
+      (p.token0Address === tokenB && p.token1Address === tokenA)
+    );
     
-    if (!selectedPool) {
+    if (candidates.length === 0) {
       throw new Error(`Pool ${poolType} not found`);
     }
     
-    // For 50/50 LP, need to convert half SEI to pair token
+    // Deepest pool across V2 and the V3 fee tiers
+    const selectedPool = candidates.reduce((best, p) => (p.tvl > best.tvl ? p : best));
+    
+    // For 50/50 LP, need to convert half SEI to pair token, quoted with price impact over the best route
     const seiForLP = totalSEI / 2;
-    const pairAmount = seiForLP * selectedPool.price;
+    const pairToken = selectedPool.token0 === 'SEI' ? selectedPool.token1Address : selectedPool.token0Address;
+    const swap = await this.simulateSwap('SEI', pairToken, seiForLP);
+    const pairAmount = swap.amountOut.toNumber();
     
     // Estimate LP tokens (simplified calculation)
     const lpTokens = Math.sqrt(seiForLP * pairAmount);
@@ -109,7 +146,9 @@ export class DragonSwap {
       pairAmount,
       lpTokens,
       estimatedAPR: selectedPool.apr,
-      impermanentLossRisk
+      impermanentLossRisk,
+      pool: selectedPool,
+      swap
     };
   }
 
@@ -150,41 +189,71 @@ export class DragonSwap {
   }
 
   /**
-   * Execute token swap on DragonSwap
+   * Quote an exact-input swap from pool state along the best route (up to maxHops through any
+   * discovered pool, split across routes when that pays). Tokens are symbols (SEI, iSEI, USDC, WETH) or addresses.
    */
   async simulateSwap(
     tokenIn: string,
     tokenOut: string,
-    amountIn: number
-  ): Promise<{
-    amountOut: number;
-    priceImpact: number;
-    fee: number;
-    gasEstimate: number;
-  }> {
+    amountIn: AmountInput,
+    slippageBps: bigint = DEFAULT_SWAP_SLIPPAGE_BPS,
+    routeOptions: Partial<RouteOptions> = {}
+  ): Promise<SwapQuote> {
     
-    const pools = await this.getSEIPools();
-    const relevantPool = pools.find(p => 
-      (p.token0 === tokenIn && p.token1 === tokenOut) ||
-      (p.token1 === tokenIn && p.token0 === tokenOut)
-    );
+    const addressIn = this.resolveToken(tokenIn);
+    const addressOut = this.resolveToken(tokenOut);
+    const [inToken, outToken] = await Promise.all([
+      getErc20Token(this.evm, addressIn),
+      getErc20Token(this.evm, addressOut),
+    ]);
+    const input = TokenAmount.from(amountIn, inToken);
     
-    if (!relevantPool) {
-      throw new Error(`No pool found for ${tokenIn}/${tokenOut}`);
+    const pools = await this.getPools(false, [addressIn, addressOut]);
+    const routes = await this.router.loadRoutes(pools, addressIn, addressOut, routeOptions);
+    if (routes.length === 0) {
+      const { maxHops } = { ...DEFAULT_ROUTE_OPTIONS, ...routeOptions };
+      throw new Error(`No DragonSwap route for ${tokenIn}/${tokenOut} within ${maxHops} hops`);
     }
     
-    // Simplified swap calculation
-    const amountOut = amountIn * relevantPool.price * 0.997; // Account for 0.3% fee
-    const priceImpact = (amountIn / relevantPool.liquidity) * 100;
-    const fee = amountIn * relevantPool.fee;
-    const gasEstimate = 0.01; // SEI gas estimate
+    const plan = planRoute(routes, input.raw, routeOptions);
+    if (!plan) {
+      throw new Error(`Not enough ${tokenIn}/${tokenOut} liquidity for ${input.format()} across ${routes.length} routes`);
+    }
     
-    return {
-      amountOut,
-      priceImpact,
-      fee,
-      gasEstimate
-    };
+    const feeData = await this.evm.getFeeData().catch(() => null);
+    const gasPrice = feeData ? feeData.baseFeePerGas + feeData.maxPriorityFeePerGas : 0n;
+    return toQuote(plan, input, outToken, symbolsOf(pools), slippageBps, gasPrice);
+  }
+
+  /**
+   * Candidate routes with loaded pool state, to plan several amounts against (e.g. sizing a swap
+   * to a price impact cap with planWithinImpact)
+   */
+  async getRoutes(tokenIn: string, tokenOut: string, routeOptions: Partial<RouteOptions> = {}): Promise<CandidateRoute[]> {
+    const addressIn = this.resolveToken(tokenIn);
+    const addressOut = this.resolveToken(tokenOut);
+    const pools = await this.getPools(false, [addressIn, addressOut]);
+    return this.router.loadRoutes(pools, addressIn, addressOut, routeOptions);
+  }
+
+  /**
+   * Symbol from the network profile (SEI trades as WSEI) or a 0x address
+   */
+  private resolveToken(token: string): string {
+    // Checksummed like the pool token addresses, whatever case the profile uses
+    switch (token.toUpperCase()) {
+      case 'SEI':
+      case 'WSEI':
+        return parseEvmAddress(requireContract(this.network, 'yeiFinance', 'WSEI'));
+      case 'ISEI':
+        return parseEvmAddress(requireContract(this.network, 'tokens', 'ISEI'));
+      case 'USDC':
+        return parseEvmAddress(requireContract(this.network, 'tokens', 'USDC'));
+      case 'WETH':
+        return parseEvmAddress(requireContract(this.network, 'tokens', 'WETH'));
+      default:
+        return parseEvmAddress(token);
+    }
   }
 
   /**
@@ -227,20 +296,63 @@ export class DragonSwap {
 }
 
 /**
- * DragonSwap contract addresses (SEI mainnet)
+ * Quote from a route plan; prices are decimal-adjusted to whole tokens
  */
-export const DRAGONSWAP_CONTRACTS = {
-  ROUTER: '0x...', // Main router contract
-  FACTORY: '0x...', // Pool factory
-  POSITION_MANAGER: '0x...', // NFT position manager for V3
-  MULTICALL: '0x...', // Multicall contract
-} as const;
+function toQuote(
+  plan: RoutePlan,
+  input: TokenAmount,
+  outToken: Token,
+  symbols: Map<string, string>,
+  slippageBps: bigint,
+  gasPrice: bigint
+): SwapQuote {
+  const amountOut = TokenAmount.fromRaw(plan.amountOut, outToken);
+  const decimalShift = 10 ** (input.token.decimals - outToken.decimals);
+
+  return {
+    splits: plan.splits.map(split => ({
+      path: split.path.map(address => symbols.get(address) ?? address),
+      hops: split.hops,
+      amountIn: TokenAmount.fromRaw(split.amountIn, input.token),
+      amountOut: TokenAmount.fromRaw(split.amountOut, outToken),
+      share: Number(split.amountIn) / Number(plan.amountIn),
+    })),
+    amountIn: input,
+    amountOut,
+    minimumOut: TokenAmount.fromRaw(withSlippage(plan.amountOut, slippageBps), outToken),
+    fee: TokenAmount.fromRaw(plan.feeAmount, input.token),
+    midPrice: plan.rawMidPrice * decimalShift,
+    executionPrice: input.isZero() ? 0 : (Number(plan.amountOut) / Number(input.raw)) * decimalShift,
+    priceImpact: plan.priceImpact,
+    ticksCrossed: plan.ticksCrossed,
+    gasUnits: plan.gasUnits,
+    gasEstimate: Number(BigInt(plan.gasUnits) * gasPrice) / 1e18,
+  };
+}
+
+/**
+ * "SEI → USDC", or each split with its share: "SEI → USDC (70%) + SEI → iSEI → USDC (30%)"
+ */
+export function routeLabel(quote: SwapQuote): string {
+  return quote.splits
+    .map(split => split.path.join(' → ') + (quote.splits.length > 1 ? ` (${(split.share * 100).toFixed(0)}%)` : ''))
+    .join(' + ');
+}
+
+/**
+ * Symbol per pool token address ('SEI' for WSEI)
+ */
+function symbolsOf(pools: DragonSwapPool[]): Map<string, string> {
+  return new Map(pools.flatMap(pool => [[pool.token0Address, pool.token0], [pool.token1Address, pool.token1]]));
+}
 
 /**
  * Common DragonSwap transaction types
  */
 export const DRAGONSWAP_TRANSACTIONS = {
   SWAP: 'exactInputSingle',
+  SWAP_MULTI_HOP: 'exactInput',
+  SWAP_V2: 'swapExactTokensForTokens',
   ADD_LIQUIDITY: 'addLiquidity',
   REMOVE_LIQUIDITY: 'removeLiquidity',
   COLLECT_FEES: 'collect',
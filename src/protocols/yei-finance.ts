@@ -4,6 +4,14 @@
  * Captured 63% of SEI's TVL with $14.8 million
  */
 
+import { SEI, TokenAmount } from '../utils/token-amount.js';
+import { getNetwork, NetworkProfile } from '../config/networks.js';
+import { EvmClient } from '../evm/evm-client.js';
+import { YeiEModeCategory, YeiPoolReader, YeiReserve, YeiRewardEmission } from '../contracts/yei-pool-reader.js';
+import { parseEvmAddress } from '../utils/address.js';
+import { aprToApy, InterestRateModel, projectRates, ProjectedRates, SECONDS_PER_YEAR } from './yei-interest-rate.js';
+import { HealthAsset, HealthFactorAction, solveRepay } from './yei-health-solver.js';
+
 export interface YeiPosition {
   collateralAmount: number;
   borrowedAmount: number;
@@ -18,15 +26,60 @@ export interface YeiPosition {
 }
 
 export interface YeiMarketData {
-  asset: string;
+  asset: string; // Symbol ('SEI' for the WSEI reserve)
+  address: string; // Reserve (ERC20) address
+  decimals: number;
+  price: number; // Oracle price in base currency (USD)
   supplyAPY: number;
   borrowAPY: number;
-  totalSupply: number;
+  supplyIncentiveAPR: number; // Rewards controller emissions to aToken holders (0 without a controller)
+  borrowIncentiveAPR: number; // Emissions to variable debt holders, offsets borrow cost
+  totalSupply: number; // Token units
   totalBorrow: number;
+  availableLiquidity: number;
+  totalSupplyUSD: number;
+  totalBorrowUSD: number;
   utilizationRate: number;
   ltv: number;
   liquidationThreshold: number;
   liquidationPenalty: number;
+  reserveFactor: number;
+  supplyCap: number; // Whole tokens, 0 = uncapped
+  borrowCap: number;
+  borrowingEnabled: boolean;
+  frozen: boolean;
+  eModeCategory: number;
+}
+
+/**
+ * Risk parameters the leverage math needs from a market
+ */
+export type LeverageMarketParams = Pick<YeiMarketData, 'ltv' | 'liquidationThreshold' | 'liquidationPenalty'>;
+
+/**
+ * Aave rates are APRs in ray (1e27), compounded per second
+ */
+export function rayToAPY(rate: bigint): number {
+  return aprToApy(Number(rate) / 1e27);
+}
+
+/**
+ * Yearly value of reward emissions over the value they are shared by (same base currency)
+ */
+export function incentiveEmissionAPR(
+  emissions: YeiRewardEmission[],
+  rewardPrices: Map<string, number>,
+  totalValue: number
+): number {
+  if (totalValue <= 0) {
+    return 0;
+  }
+
+  const yearlyValue = emissions.reduce((total, emission) => {
+    const perYear = TokenAmount.fromRaw(emission.emissionPerSecond * BigInt(SECONDS_PER_YEAR), emission.token).toNumber();
+    return total + perYear * (rewardPrices.get(emission.reward) ?? 0);
+  }, 0);
+  return yearlyValue / totalValue;
 }
 
 /**
@@ -34,57 +87,201 @@ export interface YeiMarketData {
  * Based on Aave V3 architecture
  */
 export class YeiFinance {
-  private rpcUrl: string;
+  private network: NetworkProfile;
+  private reader: YeiPoolReader;
   
-  constructor(rpcUrl: string) {
-    this.rpcUrl = rpcUrl;
+  constructor(network: NetworkProfile = getNetwork(), reader?: YeiPoolReader) {
+    this.network = network;
+    this.reader = reader ?? new YeiPoolReader(EvmClient.forNetwork(network), network);
+  }
+
+  /**
+   * Live data for every reserve (SEI, USDC, WETH, iSEI, ...) from the Pool and oracle
+   */
+  async getAllMarkets(): Promise<YeiMarketData[]> {
+    const reserves = await this.reader.getReserves();
+    const [totals, prices, emissions] = await Promise.all([
+      Promise.all(reserves.map(reserve => this.reader.getReserveTotals(reserve))),
+      this.reader.getAssetPrices(reserves.map(reserve => reserve.asset)),
+      this.getIncentiveEmissions(reserves),
+    ]);
+    const rewardPrices = await this.getRewardPrices(emissions.flatMap(({ supply, borrow }) => [...supply, ...borrow]));
+    const wsei = this.network.contracts.yeiFinance.WSEI ? parseEvmAddress(this.network.contracts.yeiFinance.WSEI) : null;
+
+    return reserves.map((reserve, i) => {
+      const { totalSupplied, totalBorrowed, availableLiquidity } = totals[i];
+      const toUnits = (raw: bigint) => TokenAmount.fromRaw(raw, reserve.token).toNumber();
+      const price = prices.get(reserve.asset) ?? 0;
+      const config = reserve.configuration;
+      const liquidity = availableLiquidity + totalBorrowed;
+      const incentiveAPR = (rewards: YeiRewardEmission[], total: bigint) =>
+        incentiveEmissionAPR(rewards, rewardPrices, toUnits(total) * price);
+
+      return {
+        asset: reserve.asset === wsei ? 'SEI' : reserve.token.symbol,
+        address: reserve.asset,
+        decimals: reserve.token.decimals,
+        price,
+        supplyAPY: rayToAPY(reserve.liquidityRate),
+        borrowAPY: rayToAPY(reserve.variableBorrowRate),
+        supplyIncentiveAPR: incentiveAPR(emissions[i].supply, totalSupplied),
+        borrowIncentiveAPR: incentiveAPR(emissions[i].borrow, totalBorrowed),
+        totalSupply: toUnits(totalSupplied),
+        totalBorrow: toUnits(totalBorrowed),
+        availableLiquidity: toUnits(availableLiquidity),
+        totalSupplyUSD: toUnits(totalSupplied) * price,
+        totalBorrowUSD: toUnits(totalBorrowed) * price,
+        utilizationRate: liquidity > 0n ? Number(totalBorrowed * 1_000_000n / liquidity) / 1_000_000 : 0,
+        ltv: config.ltv,
+        liquidationThreshold: config.liquidationThreshold,
+        liquidationPenalty: config.liquidationPenalty,
+        reserveFactor: config.reserveFactor,
+        supplyCap: config.supplyCap,
+        borrowCap: config.borrowCap,
+        borrowingEnabled: config.borrowingEnabled && config.active && !config.paused,
+        frozen: config.frozen,
+        eModeCategory: config.eModeCategory,
+      };
+    });
+  }
+
+  /**
+   * Active reward emissions on each reserve's aToken and variable debt token (none without a controller)
+   */
+  private async getIncentiveEmissions(reserves: YeiReserve[]): Promise<{ supply: YeiRewardEmission[]; borrow: YeiRewardEmission[] }[]> {
+    if (!this.reader.hasRewardsController()) {
+      return reserves.map(() => ({ supply: [], borrow: [] }));
+    }
+
+    return Promise.all(reserves.map(async reserve => {
+      const [supply, borrow] = await Promise.all([
+        this.reader.getRewardEmissions(reserve.aToken),
+        this.reader.getRewardEmissions(reserve.variableDebtToken),
+      ]);
+      return { supply, borrow };
+    }));
+  }
+
+  /**
+   * Oracle prices of reward tokens; a reward the oracle does not list is valued at 0
+   */
+  private async getRewardPrices(emissions: YeiRewardEmission[]): Promise<Map<string, number>> {
+    const rewards = [...new Set(emissions.map(emission => emission.reward))];
+    const prices = await Promise.all(rewards.map(reward =>
+      this.reader.getAssetPrices([reward]).then(result => result.get(reward) ?? 0).catch(() => 0)
+    ));
+    return new Map(rewards.map((reward, i) => [reward, prices[i]]));
+  }
+
+  /**
+   * Market by symbol ('SEI', 'USDC', ...) or reserve address
+   */
+  async getMarket(asset: string): Promise<YeiMarketData> {
+    const markets = await this.getAllMarkets();
+    const market = markets.find(m => m.asset.toLowerCase() === asset.toLowerCase() || m.address.toLowerCase() === asset.toLowerCase());
+
+    if (!market) {
+      throw new Error(`No Yei Finance market for ${asset}. Available: ${markets.map(m => m.asset).join(', ')}`);
+    }
+    return market;
   }
 
   /**
    * Get current market data for SEI on Yei Finance
    */
   async getSEIMarketData(): Promise<YeiMarketData> {
-    // Mock data based on typical Aave V3 parameters
-    // In production, this would fetch from Yei Finance contracts
+    return this.getMarket('SEI');
+  }
+
+  /**
+   * E-mode category a market belongs to (e.g. the SEI-correlated SEI/iSEI category); null when none
+   */
+  async getEModeCategory(market: YeiMarketData): Promise<YeiEModeCategory | null> {
+    return market.eModeCategory > 0 ? this.reader.getEModeCategory(market.eModeCategory) : null;
+  }
+
+  /**
+   * Risk parameters of a market for a user in `category`
+   * Only assets of the category get its LTV/threshold, and e-mode users can only borrow those
+   */
+  eModeParams(market: YeiMarketData, category: YeiEModeCategory): LeverageMarketParams {
+    if (market.eModeCategory !== category.id) {
+      throw new Error(`Yei ${market.asset} market is not in e-mode category ${category.id} (${category.label})`);
+    }
+
+    return {
+      ltv: category.ltv,
+      liquidationThreshold: category.liquidationThreshold,
+      liquidationPenalty: category.liquidationPenalty,
+    };
+  }
+
+  /**
+   * Interest-rate curve for a market (for projecting rates after our own supply/borrow)
+   */
+  async getInterestRateModel(market: YeiMarketData): Promise<InterestRateModel> {
+    const reserve = await this.reader.getReserve(market.address);
+    return this.reader.getInterestRateModel(reserve);
+  }
+
+  /**
+   * Net APY of a leveraged position in one market, with rates re-priced for the utilization
+   * our collateral supply and borrow create
+   */
+  projectNetAPY(
+    market: YeiMarketData,
+    model: InterestRateModel,
+    collateralAmount: number,
+    borrowedAmount: number,
+    stakingAPY: number = 0.08
+  ): ReturnType<YeiFinance['calculateNetAPY']> & { rates: ProjectedRates } {
+    const rates = projectRates(model, market, { supply: collateralAmount, borrow: borrowedAmount });
+    const incentives = this.projectIncentiveAPR(market, collateralAmount, borrowedAmount);
+
+    return {
+      ...this.calculateNetAPY(collateralAmount, borrowedAmount, rates.supplyAPY, rates.borrowAPY, stakingAPY, incentives.supply, incentives.borrow),
+      rates,
+    };
+  }
+
+  /**
+   * Incentive APRs after our own supply/borrow joins the reserve: emissions are fixed per second
+   * and shared pro rata, so adding to a total dilutes its APR
+   */
+  projectIncentiveAPR(market: YeiMarketData, supplyAmount: number, borrowAmount: number): { supply: number; borrow: number } {
+    const dilute = (apr: number, total: number, added: number) => (total + added > 0 ? apr * total / (total + added) : 0);
+
     return {
-      asset: 'SEI',
-      supplyAPY: 0.08, // 8% supply APY
-      borrowAPY: 0.12, // 12% borrow APY
-      totalSupply: 14800000, // $14.8M TVL
-      totalBorrow: 8000000, // Estimated
-      utilizationRate: 0.54, // 54% utilization
-      ltv: 0.75, // 75% Loan-to-Value
-      liquidationThreshold: 0.80, // 80% liquidation threshold
-      liquidationPenalty: 0.05 // 5% liquidation penalty
+      supply: dilute(market.supplyIncentiveAPR, market.totalSupply, supplyAmount),
+      borrow: dilute(market.borrowIncentiveAPR, market.totalBorrow, borrowAmount),
     };
   }
 
   /**
-   * Calculate optimal borrowing parameters for leverage
+   * Calculate optimal borrowing parameters for leverage against a market's risk parameters
    */
   calculateLeverageParams(
     collateralSEI: number,
+    marketData: LeverageMarketParams,
     targetLeverage: number = 2.0,
     safetyBuffer: number = 0.15
   ): {
     maxBorrowAmount: number;
     safeBorrowAmount: number;
+    safeBorrow: TokenAmount; // Exact usei amount to borrow on-chain
     resultingLTV: number;
     healthFactor: number;
     liquidationPrice: number;
+    maxLeverage: number; // Looping at the market's max LTV: 1 / (1 - ltv)
   } {
     
-    const marketData = {
-      ltv: 0.75,
-      liquidationThreshold: 0.80,
-      liquidationPenalty: 0.05
-    };
-    
-    // Calculate maximum borrowable amount
-    const maxBorrowAmount = collateralSEI * marketData.ltv;
+    // Calculate maximum borrowable amount (exact, rounded down to whole usei)
+    const maxBorrow = TokenAmount.from(collateralSEI, SEI).mul(marketData.ltv);
+    const maxBorrowAmount = maxBorrow.toNumber();
     
     // Apply safety buffer
-    const safeBorrowAmount = maxBorrowAmount * (1 - safetyBuffer);
+    const safeBorrow = maxBorrow.mul(1 - safetyBuffer);
+    const safeBorrowAmount = safeBorrow.toNumber();
     
     // Calculate resulting metrics
     const resultingLTV = safeBorrowAmount / collateralSEI;
@@ -94,46 +291,11 @@ export class YeiFinance {
     return {
       maxBorrowAmount,
       safeBorrowAmount,
+      safeBorrow,
       resultingLTV,
       healthFactor,
-      liquidationPrice
-    };
-  }
-
-  /**
-   * Monitor position health and liquidation risk
-   */
-  async monitorPosition(position: YeiPosition): Promise<{
-    status: 'HEALTHY' | 'WARNING' | 'CRITICAL';
-    healthFactor: number;
-    liquidationRisk: number;
-    recommendations: string[];
-  }> {
-    
-    const recommendations: string[] = [];
-    let status: 'HEALTHY' | 'WARNING' | 'CRITICAL' = 'HEALTHY';
-    
-    // Health factor analysis
-    if (position.healthFactor < 1.1) {
-      status = 'CRITICAL';
-      recommendations.push('URGENT: Repay debt or add collateral immediately');
-      recommendations.push('Position at high liquidation risk');
-    } else if (position.healthFactor < 1.3) {
-      status = 'WARNING';
-      recommendations.push('Consider repaying some debt or adding collateral');
-      recommendations.push('Monitor position closely');
-    } else {
-      recommendations.push('Position is healthy');
-      recommendations.push('Continue monitoring market conditions');
-    }
-    
-    const liquidationRisk = Math.max(0, (1.5 - position.healthFactor) / 0.5);
-    
-    return {
-      status,
-      healthFactor: position.healthFactor,
-      liquidationRisk,
-      recommendations
+      liquidationPrice,
+      maxLeverage: 1 / (1 - marketData.ltv)
     };
   }
 
@@ -145,10 +307,13 @@ export class YeiFinance {
     borrowedAmount: number,
     supplyAPY: number,
     borrowAPY: number,
-    stakingAPY: number = 0.08
+    stakingAPY: number = 0.08,
+    supplyIncentiveAPR: number = 0,
+    borrowIncentiveAPR: number = 0
   ): {
     totalExposure: number;
     grossYield: number;
+    incentiveYield: number; // Rewards controller emissions on the collateral and the debt
     borrowCost: number;
     netYield: number;
     netAPY: number;
@@ -156,13 +321,15 @@ export class YeiFinance {
     
     const totalExposure = collateralAmount + borrowedAmount;
     const grossYield = (collateralAmount * supplyAPY) + (borrowedAmount * stakingAPY);
+    const incentiveYield = (collateralAmount * supplyIncentiveAPR) + (borrowedAmount * borrowIncentiveAPR);
     const borrowCost = borrowedAmount * borrowAPY;
-    const netYield = grossYield - borrowCost;
+    const netYield = grossYield + incentiveYield - borrowCost;
     const netAPY = netYield / collateralAmount;
     
     return {
       totalExposure,
       grossYield,
+      incentiveYield,
       borrowCost,
       netYield,
       netAPY
@@ -170,54 +337,84 @@ export class YeiFinance {
   }
 
   /**
-   * Emergency position management
+   * Emergency position management: repay of `debtAsset` that restores the target health factor,
+   * with each collateral weighted by its on-chain liquidation threshold (see yei-health-solver.ts)
    */
   async emergencyRepay(
-    position: YeiPosition,
-    repayAmount: number
+    assets: HealthAsset[],
+    debtAsset: string,
+    targetHealthFactor: number = 1.5
   ): Promise<{
+    repay: HealthFactorAction;
     newHealthFactor: number;
-    newLTV: number;
     status: string;
   }> {
     
-    const newBorrowedAmount = Math.max(0, position.borrowedAmount - repayAmount);
-    const newLTV = newBorrowedAmount / position.collateralAmount;
-    const newHealthFactor = (position.collateralAmount * 0.80) / newBorrowedAmount;
+    const repay = solveRepay(assets, debtAsset, targetHealthFactor);
+    const newHealthFactor = repay.healthFactor;
     
     return {
+      repay,
       newHealthFactor,
-      newLTV,
       status: newHealthFactor > 1.5 ? 'SAFE' : newHealthFactor > 1.2 ? 'WARNING' : 'CRITICAL'
     };
   }
 }
 
 /**
- * Mock Yei Finance contract addresses (SEI mainnet)
- * These would be the actual deployed contract addresses
- */
-export const YEI_FINANCE_CONTRACTS = {
-  LENDING_POOL: '0x...', // Main lending pool contract
-  LENDING_POOL_CORE: '0x...', // Core lending logic
-  PRICE_ORACLE: '0x...', // Price oracle contract
-  SEI_ATOKEN: '0x...', // SEI interest-bearing token
-  SEI_DEBT_TOKEN: '0x...', // SEI debt token
-} as const;
-
-/**
- * Yei Finance transaction utilities
+ * Yei Finance transaction utilities (Aave V3 Pool)
  */
 export const YEI_TRANSACTIONS = {
   // Supply SEI as collateral
-  SUPPLY: 'supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
+  SUPPLY: 'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
   
   // Borrow SEI
-  BORROW: 'borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)',
+  BORROW: 'function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)',
   
   // Repay borrowed SEI
-  REPAY: 'repay(address asset, uint256 amount, uint256 rateMode, address onBehalfOf)',
+  REPAY: 'function repay(address asset, uint256 amount, uint256 rateMode, address onBehalfOf) returns (uint256)',
   
   // Withdraw collateral
-  WITHDRAW: 'withdraw(address asset, uint256 amount, address to)',
-} as const;
\ No newline at end of file
+  WITHDRAW: 'function withdraw(address asset, uint256 amount, address to) returns (uint256)',
+  
+  // Opt into an e-mode category (0 leaves e-mode)
+  SET_USER_EMODE: 'function setUserEMode(uint8 categoryId)',
+} as const;
+
+/**
+ * Pool events used to read actual amounts back from receipts
+ */
+export const YEI_EVENTS = {
+  SUPPLY: 'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+  BORROW: 'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)',
+  REPAY: 'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)',
+  WITHDRAW: 'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  USER_EMODE_SET: 'event UserEModeSet(address indexed user, uint8 categoryId)',
+  REWARDS_CLAIMED: 'event RewardsClaimed(address indexed user, address indexed reward, address indexed to, address claimer, uint256 amount)',
+  FLASH_LOAN: 'event FlashLoan(address indexed target, address initiator, address indexed asset, uint256 amount, uint8 interestRateMode, uint256 premium, uint16 indexed referralCode)',
+} as const;
+
+/**
+ * Flash-loan leverage: our helper contract (solidity/FlashLeverageHelper.sol) and the
+ * Pool / debt token calls it depends on
+ */
+export const YEI_FLASH_LEVERAGE = {
+  OPEN_LEVERAGE: 'function openLeverage(address asset, uint256 deposit, uint256 flashAmount)',
+  CLOSE_LEVERAGE: 'function closeLeverage(address asset, address aToken, uint256 flashAmount)',
+  
+  // Pool premium on flash loans, in bps (Aave V3 default 5)
+  FLASHLOAN_PREMIUM_TOTAL: 'function FLASHLOAN_PREMIUM_TOTAL() view returns (uint128)',
+  
+  // Variable debt token credit delegation, lets the helper borrow on the user's behalf
+  APPROVE_DELEGATION: 'function approveDelegation(address delegatee, uint256 amount)',
+  BORROW_ALLOWANCE: 'function borrowAllowance(address fromUser, address toUser) view returns (uint256)',
+} as const;
+
+/**
+ * RewardsController claim (assets are aTokens / debt tokens, every reward is claimed to `to`)
+ */
+export const YEI_REWARDS = {
+  CLAIM_ALL_REWARDS: 'function claimAllRewards(address[] assets, address to) returns (address[] rewardsList, uint256[] claimedAmounts)',
+} as const;
+
+export const VARIABLE_RATE_MODE = 2; // Stable rate is disabled on Aave V3 markets
\ No newline at end of file
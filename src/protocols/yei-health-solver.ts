@@ -0,0 +1,178 @@
+/**
+ * Target health-factor solver for Yei (Aave V3) positions
+ * Sizes the repay, extra collateral or withdrawal that moves a position to a given health factor
+ */
+
+import { YeiAssetPosition } from '../contracts/yei-pool-reader.js';
+import { TokenAmount } from '../utils/token-amount.js';
+
+export type HealthAsset = Pick<
+  YeiAssetPosition,
+  'asset' | 'symbol' | 'supplied' | 'borrowed' | 'usedAsCollateral' | 'price' | 'liquidationThreshold'
+>;
+
+export interface HealthTotals {
+  weightedCollateralBase: number; // Σ collateral × liquidation threshold (base currency)
+  debtBase: number;
+  healthFactor: number; // Infinity with no debt
+}
+
+export interface HealthFactorAction {
+  action: 'REPAY' | 'SUPPLY' | 'WITHDRAW';
+  asset: string;
+  symbol: string;
+  amount: TokenAmount; // Exact reserve-token amount (repay/supply rounded up, withdraw rounded down)
+  amountBase: number;
+  healthFactor: number; // After the action
+  reachesTarget: boolean; // False when the asset's balance cannot get there on its own
+}
+
+/**
+ * Health factor as the Pool computes it: Σ(collateral × threshold) / Σ debt
+ */
+export function healthTotals(assets: HealthAsset[]): HealthTotals {
+  let weightedCollateralBase = 0;
+  let debtBase = 0;
+
+  for (const asset of assets) {
+    if (asset.usedAsCollateral) {
+      weightedCollateralBase += asset.supplied.toNumber() * asset.price * asset.liquidationThreshold;
+    }
+    debtBase += asset.borrowed.toNumber() * asset.price;
+  }
+
+  return {
+    weightedCollateralBase,
+    debtBase,
+    healthFactor: debtBase > 0 ? weightedCollateralBase / debtBase : Infinity,
+  };
+}
+
+/**
+ * Debt of `asset` to repay for the target health factor (capped at what is owed in that asset)
+ */
+export function solveRepay(assets: HealthAsset[], asset: string, targetHealthFactor: number): HealthFactorAction {
+  const target = findAsset(assets, asset);
+  const totals = healthTotals(assets);
+  assertTarget(targetHealthFactor);
+
+  const neededBase = Math.max(0, totals.debtBase - totals.weightedCollateralBase / targetHealthFactor);
+  const owed = target.borrowed;
+  const amount = TokenAmount.min(toAmount(neededBase / target.price, owed, 'up'), owed);
+  const amountBase = amount.toNumber() * target.price;
+  const debtBase = totals.debtBase - amountBase;
+
+  return {
+    action: 'REPAY',
+    asset: target.asset,
+    symbol: target.symbol,
+    amount,
+    amountBase,
+    healthFactor: debtBase > 0 ? totals.weightedCollateralBase / debtBase : Infinity,
+    reachesTarget: amountBase >= neededBase - 1e-9,
+  };
+}
+
+/**
+ * Collateral of `asset` to add for the target health factor
+ * The asset must be enabled as collateral with a non-zero liquidation threshold
+ */
+export function solveSupply(assets: HealthAsset[], asset: string, targetHealthFactor: number): HealthFactorAction {
+  const target = findAsset(assets, asset);
+  const totals = healthTotals(assets);
+  assertTarget(targetHealthFactor);
+
+  if (target.liquidationThreshold <= 0) {
+    throw new Error(`${target.symbol} cannot be used as collateral on Yei Finance`);
+  }
+  if (!target.usedAsCollateral && !target.supplied.isZero()) {
+    throw new Error(`${target.symbol} supply is not enabled as collateral`);
+  }
+
+  const neededBase = Math.max(0, targetHealthFactor * totals.debtBase - totals.weightedCollateralBase);
+  const amount = toAmount(neededBase / (target.price * target.liquidationThreshold), target.supplied, 'up');
+  const weighted = totals.weightedCollateralBase + amount.toNumber() * target.price * target.liquidationThreshold;
+
+  return {
+    action: 'SUPPLY',
+    asset: target.asset,
+    symbol: target.symbol,
+    amount,
+    amountBase: amount.toNumber() * target.price,
+    healthFactor: totals.debtBase > 0 ? weighted / totals.debtBase : Infinity,
+    reachesTarget: true,
+  };
+}
+
+/**
+ * Collateral of `asset` that can be withdrawn while keeping the target health factor
+ * Zero when the position is already below target; the full balance with no debt
+ */
+export function solveWithdraw(assets: HealthAsset[], asset: string, targetHealthFactor: number): HealthFactorAction {
+  const target = findAsset(assets, asset);
+  const totals = healthTotals(assets);
+  assertTarget(targetHealthFactor);
+
+  const weight = target.usedAsCollateral ? target.price * target.liquidationThreshold : 0;
+  const supplied = target.supplied;
+  let amount = supplied;
+
+  if (totals.debtBase > 0 && weight > 0) {
+    const spareBase = Math.max(0, totals.weightedCollateralBase - targetHealthFactor * totals.debtBase);
+    amount = TokenAmount.min(toAmount(spareBase / weight, supplied, 'down'), supplied);
+  }
+
+  const weighted = totals.weightedCollateralBase - amount.toNumber() * weight;
+
+  return {
+    action: 'WITHDRAW',
+    asset: target.asset,
+    symbol: target.symbol,
+    amount,
+    amountBase: amount.toNumber() * target.price,
+    healthFactor: totals.debtBase > 0 ? weighted / totals.debtBase : Infinity,
+    reachesTarget: true,
+  };
+}
+
+/**
+ * Every single-asset way to reach the target: repay each debt, top up each collateral,
+ * or (when above target) withdraw each collateral down to it
+ */
+export function planHealthActions(assets: HealthAsset[], targetHealthFactor: number): HealthFactorAction[] {
+  const { healthFactor } = healthTotals(assets);
+  const collateral = assets.filter(asset => asset.usedAsCollateral && asset.liquidationThreshold > 0);
+
+  if (healthFactor >= targetHealthFactor) {
+    return collateral
+      .map(asset => solveWithdraw(assets, asset.asset, targetHealthFactor))
+      .filter(action => !action.amount.isZero());
+  }
+
+  return [
+    ...assets.filter(asset => !asset.borrowed.isZero()).map(asset => solveRepay(assets, asset.asset, targetHealthFactor)),
+    ...collateral.map(asset => solveSupply(assets, asset.asset, targetHealthFactor)),
+  ];
+}
+
+function findAsset(assets: HealthAsset[], asset: string): HealthAsset {
+  const key = asset.toLowerCase();
+  const found = assets.find(candidate => candidate.asset.toLowerCase() === key || candidate.symbol.toLowerCase() === key);
+  if (!found) {
+    throw new Error(`Asset ${asset} is not part of this Yei position`);
+  }
+  return found;
+}
+
+function assertTarget(targetHealthFactor: number): void {
+  if (!Number.isFinite(targetHealthFactor) || targetHealthFactor <= 1) {
+    throw new Error(`Target health factor must be above 1, got ${targetHealthFactor}`);
+  }
+}
+
+/**
+ * Whole-token float → exact amount in the reserve token of `like`
+ */
+function toAmount(value: number, like: TokenAmount, rounding: 'up' | 'down'): TokenAmount {
+  return TokenAmount.parse(value, like.token, rounding);
+}
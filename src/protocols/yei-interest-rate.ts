@@ -0,0 +1,101 @@
+/**
+ * Aave V3 interest-rate model (DefaultReserveInterestRateStrategy)
+ * Projects supply/borrow rates after our own supply or borrow moves a reserve's utilization
+ */
+
+export interface InterestRateModel {
+  optimalUtilization: number; // Kink, e.g. 0.8
+  baseVariableBorrowRate: number; // APR at 0% utilization
+  variableRateSlope1: number; // APR added from 0% to the kink
+  variableRateSlope2: number; // APR added from the kink to 100%
+  reserveFactor: number; // Share of interest kept by the protocol
+}
+
+export interface ReserveLiquidity {
+  totalBorrow: number; // Token units
+  availableLiquidity: number;
+}
+
+export interface LiquidityChange {
+  supply?: number; // Token units added to the reserve
+  withdraw?: number;
+  borrow?: number;
+  repay?: number;
+}
+
+export interface ProjectedRates {
+  utilization: number;
+  borrowAPR: number;
+  supplyAPR: number;
+  borrowAPY: number;
+  supplyAPY: number;
+  availableLiquidity: number;
+}
+
+export const SECONDS_PER_YEAR = 31_536_000;
+
+/**
+ * Aave rates compound per second
+ */
+export function aprToApy(apr: number): number {
+  return (1 + apr / SECONDS_PER_YEAR) ** SECONDS_PER_YEAR - 1;
+}
+
+/**
+ * Borrowed share of the reserve: debt / (available + debt)
+ */
+export function utilizationOf(liquidity: ReserveLiquidity): number {
+  const total = liquidity.totalBorrow + liquidity.availableLiquidity;
+  return total > 0 ? liquidity.totalBorrow / total : 0;
+}
+
+/**
+ * Variable borrow APR at a utilization (two slopes around the optimal point)
+ */
+export function variableBorrowRate(model: InterestRateModel, utilization: number): number {
+  if (utilization <= model.optimalUtilization) {
+    return model.baseVariableBorrowRate + model.variableRateSlope1 * (utilization / model.optimalUtilization);
+  }
+
+  const excess = (utilization - model.optimalUtilization) / (1 - model.optimalUtilization);
+  return model.baseVariableBorrowRate + model.variableRateSlope1 + model.variableRateSlope2 * excess;
+}
+
+/**
+ * Supply APR paid out of borrow interest, net of the reserve factor
+ */
+export function supplyRate(model: InterestRateModel, utilization: number, borrowAPR: number = variableBorrowRate(model, utilization)): number {
+  return borrowAPR * utilization * (1 - model.reserveFactor);
+}
+
+/**
+ * Rates after a change in the reserve's liquidity
+ * Throws when the change would borrow or withdraw more than the reserve holds
+ */
+export function projectRates(
+  model: InterestRateModel,
+  liquidity: ReserveLiquidity,
+  change: LiquidityChange = {}
+): ProjectedRates {
+  const availableLiquidity = liquidity.availableLiquidity
+    + (change.supply ?? 0) + (change.repay ?? 0)
+    - (change.withdraw ?? 0) - (change.borrow ?? 0);
+  const totalBorrow = liquidity.totalBorrow + (change.borrow ?? 0) - (change.repay ?? 0);
+
+  if (availableLiquidity < 0) {
+    throw new Error(`Reserve has ${liquidity.availableLiquidity.toFixed(4)} available, change needs ${(-availableLiquidity + liquidity.availableLiquidity).toFixed(4)}`);
+  }
+
+  const utilization = utilizationOf({ totalBorrow: Math.max(0, totalBorrow), availableLiquidity });
+  const borrowAPR = variableBorrowRate(model, utilization);
+  const supplyAPR = supplyRate(model, utilization, borrowAPR);
+
+  return {
+    utilization,
+    borrowAPR,
+    supplyAPR,
+    borrowAPY: aprToApy(borrowAPR),
+    supplyAPY: aprToApy(supplyAPR),
+    availableLiquidity,
+  };
+}
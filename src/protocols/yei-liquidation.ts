@@ -0,0 +1,133 @@
+/**
+ * Liquidation simulator for Yei (Aave V3) positions
+ * Drops collateral prices against the debt, then replays one liquidation call: close factor,
+ * collateral seized with the liquidation bonus, and what the position keeps
+ */
+
+import { YeiAssetPosition } from '../contracts/yei-pool-reader.js';
+import { TokenAmount } from '../utils/token-amount.js';
+import { HealthAsset, healthTotals } from './yei-health-solver.js';
+
+export const DEFAULT_CLOSE_FACTOR = 0.5; // Share of a debt one liquidation may repay
+export const MAX_CLOSE_FACTOR = 1; // Whole debt, once the health factor is below the threshold below
+export const CLOSE_FACTOR_HF_THRESHOLD = 0.95;
+
+export type LiquidationAsset = HealthAsset & Pick<YeiAssetPosition, 'liquidationPenalty'>;
+
+export interface LiquidationOutcome {
+  priceDrop: number; // Collateral price fall relative to debt (0.2 = collateral worth 20% less in debt terms)
+  healthFactor: number; // After the drop, before liquidation
+  liquidatable: boolean;
+  closeFactor: number; // 0 when not liquidatable
+  debtSymbol: string | null; // Largest debt, the one a liquidator repays
+  collateralSymbol: string | null; // Largest collateral, the one seized
+  debtRepaid: TokenAmount | null;
+  collateralSeized: TokenAmount | null; // Includes the liquidation bonus
+  debtRepaidBase: number;
+  collateralSeizedBase: number;
+  penaltyBase: number; // Bonus taken by the liquidator, lost by the position
+  remainingCollateralBase: number;
+  remainingDebtBase: number;
+  healthFactorAfter: number;
+}
+
+/**
+ * Collateral price drop (relative to debt) at which the health factor reaches 1; 0 when already
+ * liquidatable, null without debt. Debt and collateral in one reserve only move apart through interest.
+ */
+export function liquidationPriceDrop(assets: HealthAsset[]): number | null {
+  return liquidationDropAt(healthTotals(assets).healthFactor);
+}
+
+/**
+ * Same drop from a health factor alone (collateral value scales the health factor linearly)
+ */
+export function liquidationDropAt(healthFactor: number): number | null {
+  if (!Number.isFinite(healthFactor)) {
+    return null;
+  }
+  return Math.max(0, 1 - 1 / healthFactor);
+}
+
+/**
+ * One liquidation call after collateral prices fall by `priceDrop` against the debt
+ * Mirrors the Pool: liquidatable below HF 1, close factor 50% (100% below 0.95), seized collateral
+ * = repaid debt × (1 + bonus), capped at the collateral balance (repaid debt shrinks to match)
+ */
+export function simulateLiquidation(assets: LiquidationAsset[], priceDrop: number): LiquidationOutcome {
+  if (priceDrop < 0 || priceDrop >= 1) {
+    throw new Error(`Price drop must be in [0, 1), got ${priceDrop}`);
+  }
+
+  const dropped = assets.map(asset => ({ ...asset, collateralPrice: asset.price * (1 - priceDrop) }));
+  const collateralBase = dropped
+    .filter(asset => asset.usedAsCollateral)
+    .reduce((total, asset) => total + asset.supplied.toNumber() * asset.collateralPrice, 0);
+  const weightedCollateralBase = dropped
+    .filter(asset => asset.usedAsCollateral)
+    .reduce((total, asset) => total + asset.supplied.toNumber() * asset.collateralPrice * asset.liquidationThreshold, 0);
+  const debtBase = dropped.reduce((total, asset) => total + asset.borrowed.toNumber() * asset.price, 0);
+  const healthFactor = debtBase > 0 ? weightedCollateralBase / debtBase : Infinity;
+
+  const outcome: LiquidationOutcome = {
+    priceDrop,
+    healthFactor,
+    liquidatable: false,
+    closeFactor: 0,
+    debtSymbol: null,
+    collateralSymbol: null,
+    debtRepaid: null,
+    collateralSeized: null,
+    debtRepaidBase: 0,
+    collateralSeizedBase: 0,
+    penaltyBase: 0,
+    remainingCollateralBase: collateralBase,
+    remainingDebtBase: debtBase,
+    healthFactorAfter: healthFactor,
+  };
+
+  const debt = largest(dropped.filter(asset => !asset.borrowed.isZero()), asset => asset.borrowed.toNumber() * asset.price);
+  const collateral = largest(
+    dropped.filter(asset => asset.usedAsCollateral && asset.liquidationThreshold > 0 && !asset.supplied.isZero()),
+    asset => asset.supplied.toNumber() * asset.collateralPrice
+  );
+  if (healthFactor >= 1 || !debt || !collateral) {
+    return outcome;
+  }
+
+  const closeFactor = healthFactor < CLOSE_FACTOR_HF_THRESHOLD ? MAX_CLOSE_FACTOR : DEFAULT_CLOSE_FACTOR;
+  const bonus = 1 + collateral.liquidationPenalty;
+
+  // Debt → collateral at the dropped price, bonus included; capped by what the position holds
+  let debtRepaid = debt.borrowed.mul(closeFactor);
+  let collateralSeized = debtRepaid.convert(debt.price * bonus / collateral.collateralPrice, collateral.supplied.token, 'up');
+  if (collateralSeized.gt(collateral.supplied)) {
+    collateralSeized = collateral.supplied;
+    debtRepaid = collateralSeized.convert(collateral.collateralPrice / (debt.price * bonus), debt.borrowed.token);
+  }
+
+  const debtRepaidBase = debtRepaid.toNumber() * debt.price;
+  const collateralSeizedBase = collateralSeized.toNumber() * collateral.collateralPrice;
+  const remainingDebtBase = debtBase - debtRepaidBase;
+  const remainingWeighted = weightedCollateralBase - collateralSeizedBase * collateral.liquidationThreshold;
+
+  return {
+    ...outcome,
+    liquidatable: true,
+    closeFactor,
+    debtSymbol: debt.symbol,
+    collateralSymbol: collateral.symbol,
+    debtRepaid,
+    collateralSeized,
+    debtRepaidBase,
+    collateralSeizedBase,
+    penaltyBase: collateralSeizedBase - debtRepaidBase,
+    remainingCollateralBase: collateralBase - collateralSeizedBase,
+    remainingDebtBase,
+    healthFactorAfter: remainingDebtBase > 0 ? remainingWeighted / remainingDebtBase : Infinity,
+  };
+}
+
+function largest<T>(items: T[], value: (item: T) => number): T | null {
+  return items.reduce<T | null>((best, item) => (best === null || value(item) > value(best) ? item : best), null);
+}
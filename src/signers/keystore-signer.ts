@@ -0,0 +1,22 @@
+import { deriveAccount } from '../utils/wallet.js';
+import { getKeystorePassphrase, unlockKeystore } from '../utils/keystore.js';
+import { PrivateKeySigner } from './private-key-signer.js';
+
+/**
+ * Signer unlocked from the encrypted keystore file
+ */
+export class KeystoreSigner extends PrivateKeySigner {
+  /**
+   * Decrypt the keystore and derive the signer for an HD account index
+   * Passphrase defaults to SEI_KEYSTORE_PASSPHRASE or an interactive prompt
+   */
+  static async unlock(
+    accountIndex: number = 0,
+    passphrase?: string,
+    filePath?: string
+  ): Promise<KeystoreSigner> {
+    const mnemonic = await unlockKeystore(passphrase ?? await getKeystorePassphrase(), filePath);
+    const account = await deriveAccount(mnemonic, accountIndex);
+    return await this.create('keystore', account.privateKey) as KeystoreSigner;
+  }
+}
@@ -0,0 +1,15 @@
+import { deriveAccount } from '../utils/wallet.js';
+import { PrivateKeySigner } from './private-key-signer.js';
+
+/**
+ * Signer for one HD account of a BIP39 mnemonic (m/44'/118'/0'/0/<index>)
+ */
+export class MnemonicSigner extends PrivateKeySigner {
+  /**
+   * Derive the signer for an HD account index
+   */
+  static async fromMnemonic(mnemonic: string, accountIndex: number = 0): Promise<MnemonicSigner> {
+    const account = await deriveAccount(mnemonic, accountIndex);
+    return await this.create('mnemonic', account.privateKey) as MnemonicSigner;
+  }
+}
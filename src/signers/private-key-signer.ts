@@ -0,0 +1,75 @@
+import { AccountData, DirectSecp256k1Wallet, DirectSignResponse } from '@cosmjs/proto-signing';
+import { Secp256k1 } from '@cosmjs/crypto';
+import { fromHex } from '@cosmjs/encoding';
+import type { SignDoc } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { deriveEvmAddress } from '../utils/address.js';
+import { DigestSignature, Signer, SignerAccount, SignerType } from './signer.js';
+
+/**
+ * Signer backed by a raw secp256k1 private key held in memory
+ */
+export class PrivateKeySigner implements Signer {
+  readonly type: SignerType;
+  private privkey: Uint8Array;
+  private wallet: DirectSecp256k1Wallet;
+  private account: SignerAccount;
+
+  protected constructor(type: SignerType, privkey: Uint8Array, wallet: DirectSecp256k1Wallet, account: SignerAccount) {
+    this.type = type;
+    this.privkey = privkey;
+    this.wallet = wallet;
+    this.account = account;
+  }
+
+  /**
+   * Create signer from a 32-byte private key (hex, with or without 0x prefix)
+   */
+  static async fromPrivateKey(privateKey: string | Uint8Array): Promise<PrivateKeySigner> {
+    return this.create('private-key', privateKey);
+  }
+
+  protected static async create(type: SignerType, privateKey: string | Uint8Array): Promise<PrivateKeySigner> {
+    const privkey = typeof privateKey === 'string'
+      ? fromHex(privateKey.replace(/^0x/, ''))
+      : privateKey;
+
+    if (privkey.length !== 32) {
+      throw new Error('Private key must be 32 bytes (64 hex characters)');
+    }
+
+    const wallet = await DirectSecp256k1Wallet.fromKey(privkey, 'sei');
+    const [walletAccount] = await wallet.getAccounts();
+
+    // `this` keeps subclass identity (MnemonicSigner, KeystoreSigner)
+    return new this(type, privkey, wallet, {
+      address: walletAccount.address,
+      evmAddress: deriveEvmAddress(walletAccount.pubkey),
+      pubkey: walletAccount.pubkey,
+    });
+  }
+
+  readonly getAccounts = async (): Promise<readonly AccountData[]> => {
+    return this.wallet.getAccounts();
+  };
+
+  readonly signDirect = async (signerAddress: string, signDoc: SignDoc): Promise<DirectSignResponse> => {
+    return this.wallet.signDirect(signerAddress, signDoc);
+  };
+
+  async getAccount(): Promise<SignerAccount> {
+    return this.account;
+  }
+
+  async signDigest(digest: Uint8Array): Promise<DigestSignature> {
+    if (digest.length !== 32) {
+      throw new Error('Digest must be 32 bytes');
+    }
+
+    const signature = await Secp256k1.createSignature(digest, this.privkey);
+    return {
+      r: signature.r(32),
+      s: signature.s(32),
+      recovery: signature.recovery,
+    };
+  }
+}
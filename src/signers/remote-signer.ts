@@ -0,0 +1,157 @@
+import { AccountData, DirectSignResponse, makeSignBytes } from '@cosmjs/proto-signing';
+import { StdSignature } from '@cosmjs/amino';
+import { ExtendedSecp256k1Signature, Secp256k1, Secp256k1Signature, sha256 } from '@cosmjs/crypto';
+import { fromBase64, fromHex, toHex } from '@cosmjs/encoding';
+import type { SignDoc } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { DigestSignature, Signer, SignerAccount, SignerType } from './signer.js';
+
+export interface RemoteSignerOptions {
+  url: string; // Base URL, e.g. http://127.0.0.1:8645
+  token?: string; // Bearer token
+  accountIndex?: number;
+  timeoutMs?: number;
+}
+
+interface RemoteAccountResponse {
+  address: string;
+  evmAddress: string;
+  pubkey: string; // hex, compressed
+}
+
+interface RemoteDirectResponse {
+  signature: StdSignature;
+}
+
+interface RemoteDigestResponse {
+  r: string;
+  s: string;
+  recovery: number;
+}
+
+/**
+ * Signer that delegates signing to an HTTP service (see `npm run serve-signer`)
+ *
+ * Protocol (JSON over POST):
+ *   /account      { accountIndex }                                 → { address, evmAddress, pubkey }
+ *   /sign/direct  { accountIndex, signerAddress, signDoc (hex/str) } → { signature: StdSignature }
+ *   /sign/digest  { accountIndex, digest (hex) }                     → { r, s, recovery }
+ *
+ * Every returned signature is verified locally against the account's public key.
+ */
+export class RemoteSigner implements Signer {
+  readonly type: SignerType = 'remote';
+  private url: string;
+  private token?: string;
+  private accountIndex: number;
+  private timeoutMs: number;
+  private account: SignerAccount | null = null;
+
+  constructor(options: RemoteSignerOptions) {
+    this.url = options.url.replace(/\/+$/, '');
+    this.token = options.token;
+    this.accountIndex = options.accountIndex ?? 0;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  /**
+   * Create signer and fetch its account (fails fast if the service is unreachable)
+   */
+  static async connect(options: RemoteSignerOptions): Promise<RemoteSigner> {
+    const signer = new RemoteSigner(options);
+    await signer.getAccount();
+    return signer;
+  }
+
+  readonly getAccounts = async (): Promise<readonly AccountData[]> => {
+    const account = await this.getAccount();
+    return [{ address: account.address, algo: 'secp256k1', pubkey: account.pubkey }];
+  };
+
+  readonly signDirect = async (signerAddress: string, signDoc: SignDoc): Promise<DirectSignResponse> => {
+    const account = await this.getAccount();
+    if (signerAddress !== account.address) {
+      throw new Error(`Remote signer controls ${account.address}, not ${signerAddress}`);
+    }
+
+    const response = await this.request<RemoteDirectResponse>('/sign/direct', {
+      accountIndex: this.accountIndex,
+      signerAddress,
+      signDoc: {
+        bodyBytes: toHex(signDoc.bodyBytes),
+        authInfoBytes: toHex(signDoc.authInfoBytes),
+        chainId: signDoc.chainId,
+        accountNumber: signDoc.accountNumber.toString(),
+      },
+    });
+
+    const valid = await Secp256k1.verifySignature(
+      Secp256k1Signature.fromFixedLength(fromBase64(response.signature.signature)),
+      sha256(makeSignBytes(signDoc)),
+      account.pubkey
+    );
+    if (!valid) {
+      throw new Error('Remote signer returned an invalid signature');
+    }
+
+    return { signed: signDoc, signature: response.signature };
+  };
+
+  async getAccount(): Promise<SignerAccount> {
+    if (!this.account) {
+      const response = await this.request<RemoteAccountResponse>('/account', {
+        accountIndex: this.accountIndex,
+      });
+      this.account = {
+        address: response.address,
+        evmAddress: response.evmAddress,
+        pubkey: fromHex(response.pubkey),
+      };
+    }
+
+    return this.account;
+  }
+
+  async signDigest(digest: Uint8Array): Promise<DigestSignature> {
+    if (digest.length !== 32) {
+      throw new Error('Digest must be 32 bytes');
+    }
+
+    const account = await this.getAccount();
+    const response = await this.request<RemoteDigestResponse>('/sign/digest', {
+      accountIndex: this.accountIndex,
+      digest: toHex(digest),
+    });
+
+    const r = fromHex(response.r);
+    const s = fromHex(response.s);
+    const recovered = Secp256k1.recoverPubkey(new ExtendedSecp256k1Signature(r, s, response.recovery), digest);
+    if (toHex(Secp256k1.compressPubkey(recovered)) !== toHex(account.pubkey)) {
+      throw new Error('Remote signer returned a signature for a different key');
+    }
+
+    return { r, s, recovery: response.recovery };
+  }
+
+  private async request<T>(path: string, body: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new Error(`Remote signer unreachable at ${this.url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Remote signer ${path} failed: ${response.status} ${await response.text()}`);
+    }
+
+    return await response.json() as T;
+  }
+}
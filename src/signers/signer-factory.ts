@@ -0,0 +1,88 @@
+/**
+ * Signing policy: decides which Signer implementation a command gets
+ */
+
+import { hasKeystore } from '../utils/keystore.js';
+import { KeystoreSigner } from './keystore-signer.js';
+import { MnemonicSigner } from './mnemonic-signer.js';
+import { PrivateKeySigner } from './private-key-signer.js';
+import { RemoteSigner } from './remote-signer.js';
+import { Signer, SignerType } from './signer.js';
+
+export interface LoadSignerOptions {
+  accountIndex?: number;
+  expectedAddress?: string; // Refuse a signer for a different address
+  type?: SignerType; // Overrides SEI_SIGNER
+}
+
+const SIGNER_TYPES: SignerType[] = ['mnemonic', 'private-key', 'keystore', 'remote'];
+
+/**
+ * Load the configured signer, or null when no signing credentials are configured
+ *
+ * SEI_SIGNER selects explicitly; otherwise the first available of:
+ * remote (SEI_REMOTE_SIGNER_URL) → keystore file → SEI_WALLET_PRIVATE_KEY → SEI_WALLET_MNEMONIC
+ */
+export async function loadSigner(options: LoadSignerOptions = {}): Promise<Signer | null> {
+  const accountIndex = options.accountIndex ?? 0;
+  const type = options.type || (process.env.SEI_SIGNER as SignerType | undefined) || detectSignerType();
+
+  if (!type) {
+    return null;
+  }
+  if (!SIGNER_TYPES.includes(type)) {
+    throw new Error(`Unknown SEI_SIGNER "${type}". Available: ${SIGNER_TYPES.join(', ')}`);
+  }
+
+  const signer = await createSigner(type, accountIndex);
+  const account = await signer.getAccount();
+
+  if (options.expectedAddress && account.address !== options.expectedAddress) {
+    throw new Error(`${type} signer for HD index ${accountIndex} is ${account.address}, expected ${options.expectedAddress}`);
+  }
+
+  return signer;
+}
+
+async function createSigner(type: SignerType, accountIndex: number): Promise<Signer> {
+  switch (type) {
+    case 'remote': {
+      const url = process.env.SEI_REMOTE_SIGNER_URL;
+      if (!url) {
+        throw new Error('SEI_REMOTE_SIGNER_URL environment variable is required for the remote signer');
+      }
+      return RemoteSigner.connect({ url, token: process.env.SEI_REMOTE_SIGNER_TOKEN, accountIndex });
+    }
+
+    case 'keystore':
+      return KeystoreSigner.unlock(accountIndex);
+
+    case 'private-key': {
+      const privateKey = process.env.SEI_WALLET_PRIVATE_KEY;
+      if (!privateKey) {
+        throw new Error('SEI_WALLET_PRIVATE_KEY environment variable is required for the private-key signer');
+      }
+      if (accountIndex !== 0) {
+        throw new Error('A raw private key has no HD accounts; use a mnemonic or keystore signer');
+      }
+      return PrivateKeySigner.fromPrivateKey(privateKey);
+    }
+
+    case 'mnemonic': {
+      const mnemonic = process.env.SEI_WALLET_MNEMONIC;
+      if (!mnemonic) {
+        throw new Error('SEI_WALLET_MNEMONIC environment variable is required for the mnemonic signer');
+      }
+      console.log('⚠️ Using plaintext SEI_WALLET_MNEMONIC - consider: npm run keystore -- import');
+      return MnemonicSigner.fromMnemonic(mnemonic, accountIndex);
+    }
+  }
+}
+
+function detectSignerType(): SignerType | undefined {
+  if (process.env.SEI_REMOTE_SIGNER_URL) return 'remote';
+  if (hasKeystore()) return 'keystore';
+  if (process.env.SEI_WALLET_PRIVATE_KEY) return 'private-key';
+  if (process.env.SEI_WALLET_MNEMONIC) return 'mnemonic';
+  return undefined;
+}
@@ -0,0 +1,160 @@
+/**
+ * HTTP service side of the remote signer protocol (see remote-signer.ts)
+ * Requests are bearer-authenticated unless the server is explicitly started without a token
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { fromHex, toHex } from '@cosmjs/encoding';
+import { Signer } from './signer.js';
+
+export interface SignerServerOptions {
+  getSigner: (accountIndex: number) => Promise<Signer>;
+  token: string | null; // Required bearer token; null only for an explicitly insecure server
+}
+
+interface DirectSignRequest {
+  accountIndex: number;
+  signerAddress: string;
+  signDoc: { bodyBytes: string; authInfoBytes: string; chainId: string; accountNumber: string };
+}
+
+interface DigestSignRequest {
+  accountIndex: number;
+  digest: string; // 32 bytes, hex
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const HEX = /^[0-9a-fA-F]*$/; // No 0x prefix, as RemoteSigner sends it
+
+/**
+ * Server for /account, /sign/direct and /sign/digest (not yet listening)
+ */
+export function createSignerServer(options: SignerServerOptions): Server {
+  return createServer(async (req, res) => {
+    try {
+      if (req.method !== 'POST') {
+        return sendJson(res, 405, { error: 'Method not allowed' });
+      }
+      if (options.token !== null && !isAuthorized(req.headers.authorization, options.token)) {
+        return sendJson(res, 401, { error: 'Unauthorized' });
+      }
+
+      const body = await readJson(req);
+
+      switch (req.url) {
+        case '/account': {
+          const account = await (await options.getSigner(accountIndexOf(body))).getAccount();
+          return sendJson(res, 200, {
+            address: account.address,
+            evmAddress: account.evmAddress,
+            pubkey: toHex(account.pubkey),
+          });
+        }
+
+        case '/sign/direct': {
+          const request = parseDirectSignRequest(body);
+          const signer = await options.getSigner(request.accountIndex);
+          const { signature } = await signer.signDirect(request.signerAddress, {
+            bodyBytes: fromHex(request.signDoc.bodyBytes),
+            authInfoBytes: fromHex(request.signDoc.authInfoBytes),
+            chainId: request.signDoc.chainId,
+            accountNumber: BigInt(request.signDoc.accountNumber),
+          });
+          console.log(`✍️  Signed direct tx for ${request.signerAddress} on ${request.signDoc.chainId}`);
+          return sendJson(res, 200, { signature });
+        }
+
+        case '/sign/digest': {
+          const request = parseDigestSignRequest(body);
+          const signature = await (await options.getSigner(request.accountIndex)).signDigest(fromHex(request.digest));
+          console.log(`✍️  Signed digest ${request.digest.slice(0, 16)}...`);
+          return sendJson(res, 200, {
+            r: toHex(signature.r),
+            s: toHex(signature.s),
+            recovery: signature.recovery,
+          });
+        }
+
+        default:
+          return sendJson(res, 404, { error: `Unknown endpoint ${req.url}` });
+      }
+    } catch (error) {
+      sendJson(res, 400, { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+}
+
+/**
+ * Account index of a request body; 0 when omitted
+ */
+function accountIndexOf(body: unknown): number {
+  const value = isRecord(body) ? body.accountIndex ?? 0 : 0;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error('accountIndex must be a non-negative integer');
+  }
+  return value;
+}
+
+function parseDirectSignRequest(body: unknown): DirectSignRequest {
+  if (!isRecord(body) || typeof body.signerAddress !== 'string' || !isRecord(body.signDoc)) {
+    throw new Error('Expected { signerAddress, signDoc }');
+  }
+  const { bodyBytes, authInfoBytes, chainId, accountNumber } = body.signDoc;
+  if (!isHex(bodyBytes) || !isHex(authInfoBytes) || typeof chainId !== 'string' ||
+      typeof accountNumber !== 'string' || !/^\d+$/.test(accountNumber)) {
+    throw new Error('signDoc needs hex bodyBytes/authInfoBytes, a chainId and a decimal accountNumber');
+  }
+  return {
+    accountIndex: accountIndexOf(body),
+    signerAddress: body.signerAddress,
+    signDoc: { bodyBytes, authInfoBytes, chainId, accountNumber },
+  };
+}
+
+function parseDigestSignRequest(body: unknown): DigestSignRequest {
+  const digest = isRecord(body) ? body.digest : undefined;
+  if (!isHex(digest) || digest.length !== 64) {
+    throw new Error('digest must be 32 bytes of hex');
+  }
+  return { accountIndex: accountIndexOf(body), digest };
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new Error('Request body is not valid JSON');
+  }
+}
+
+/**
+ * Bearer token check in constant time (only the length leaks)
+ */
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const actual = Buffer.from(header ?? '', 'utf8');
+  const expected = Buffer.from(`Bearer ${token}`, 'utf8');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHex(value: unknown): value is string {
+  return typeof value === 'string' && HEX.test(value) && value.length % 2 === 0;
+}
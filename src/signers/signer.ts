@@ -0,0 +1,38 @@
+/**
+ * Pluggable signing abstraction
+ * Every transaction-sending client receives a Signer instead of deriving keys itself,
+ * so where keys live (mnemonic, raw key, keystore, remote service) is decided in one place.
+ */
+
+import { OfflineDirectSigner } from '@cosmjs/proto-signing';
+
+export type SignerType = 'mnemonic' | 'private-key' | 'keystore' | 'remote';
+
+export interface SignerAccount {
+  address: string; // sei1... bech32 address
+  evmAddress: string; // Linked 0x address (same key)
+  pubkey: Uint8Array; // Compressed secp256k1 public key
+}
+
+export interface DigestSignature {
+  r: Uint8Array;
+  s: Uint8Array;
+  recovery: number;
+}
+
+/**
+ * Signer usable by cosmjs clients (OfflineDirectSigner) and for raw digests (EVM transactions)
+ */
+export interface Signer extends OfflineDirectSigner {
+  readonly type: SignerType;
+
+  /**
+   * The single account this signer controls
+   */
+  getAccount(): Promise<SignerAccount>;
+
+  /**
+   * Sign a 32-byte message hash with recovery id (used for EVM transactions)
+   */
+  signDigest(digest: Uint8Array): Promise<DigestSignature>;
+}
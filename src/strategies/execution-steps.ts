@@ -0,0 +1,51 @@
+/**
+ * Per-transaction step records shared by the unwind executor and the rewards compounder
+ */
+
+import { EVM_SEI, TokenAmount } from '../utils/token-amount.js';
+import { EvmTransactionReceipt, gasCostOf } from '../evm/evm-client.js';
+import { YeiTransactionResult } from '../contracts/yei-finance-real.js';
+
+export interface ExecutionStep<Action extends string> {
+  action: Action;
+  description: string;
+  transactionHashes: string[];
+  gasUsed: number;
+  gasCost: TokenAmount; // Native SEI (18 decimals); zero for CosmWasm steps, which report gas units only
+}
+
+/**
+ * Step from raw EVM receipts (DragonSwap calls, WSEI unwraps)
+ */
+export function receiptStep<Action extends string>(action: Action, description: string, receipts: EvmTransactionReceipt[]): ExecutionStep<Action> {
+  return {
+    action,
+    description,
+    transactionHashes: receipts.map(receipt => receipt.transactionHash),
+    gasUsed: receipts.reduce((total, receipt) => total + Number(receipt.gasUsed), 0),
+    gasCost: gasCostOf(receipts),
+  };
+}
+
+/**
+ * Step from a Yei client result
+ */
+export function yeiStep<Action extends string>(action: Action, description: string, result: YeiTransactionResult): ExecutionStep<Action> {
+  return {
+    action,
+    description,
+    transactionHashes: result.transactionHashes ?? [result.transactionHash],
+    gasUsed: result.gasUsed,
+    gasCost: result.gasCost ?? TokenAmount.zero(EVM_SEI),
+  };
+}
+
+/**
+ * Gas totals across steps, for the run report
+ */
+export function totalGas(steps: ExecutionStep<string>[]): { gasUsed: number; gasCost: TokenAmount } {
+  return {
+    gasUsed: steps.reduce((total, step) => total + step.gasUsed, 0),
+    gasCost: steps.reduce((total, step) => total.add(step.gasCost), TokenAmount.zero(EVM_SEI)),
+  };
+}
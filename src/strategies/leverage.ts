@@ -3,10 +3,13 @@
  * WARNING: Leveraged positions carry liquidation risk
  */
 
+import { SEI, TokenAmount } from '../utils/token-amount.js';
+
 export interface LeveragePosition {
   strategy: 'silo-borrow' | 'liquid-staking-loop' | 'lp-leverage';
   collateralAmount: number; // SEI amount
   borrowedAmount: number; // SEI borrowed
+  borrowed: TokenAmount; // Exact borrow in usei for transactions
   leverageRatio: number; // Target leverage (2.0 for 2x)
   liquidationThreshold: number; // Price at which liquidation occurs
   currentLTV: number; // Loan-to-Value ratio
@@ -18,6 +21,35 @@ export interface LeverageStrategy {
   liquidationBuffer: number; // Safety buffer (e.g., 0.1 = 10%)
 }
 
+export interface FlashLeverageParams {
+  ltv: number; // Reserve max LTV (0.75 = 75%)
+  liquidationThreshold: number;
+  flashLoanPremiumBps: bigint; // Pool FLASHLOAN_PREMIUM_TOTAL
+}
+
+export interface FlashLeveragePlan {
+  deposit: TokenAmount; // Own funds
+  flashAmount: TokenAmount; // Flash-borrowed and supplied on top of the deposit
+  premium: TokenAmount; // Flash loan fee, borrowed with the flash amount
+  collateral: TokenAmount; // deposit + flashAmount
+  debt: TokenAmount; // flashAmount + premium
+  leverageRatio: number; // collateral / deposit
+  ltv: number; // debt / collateral
+  healthFactor: number; // Collateral and debt are the same asset, so price-independent
+  maxLeverage: number; // Largest leverage the reserve LTV allows after the premium
+}
+
+export interface FlashUnwindPlan {
+  debt: TokenAmount; // Current debt, interest included
+  collateral: TokenAmount; // Current supplied balance
+  flashAmount: TokenAmount; // Debt plus a buffer for interest accrued before execution
+  premium: TokenAmount;
+  returned: TokenAmount; // Expected back: collateral - debt - premium
+}
+
+const BPS = 10_000n;
+const FLASH_UNWIND_BUFFER_BPS = 10n; // 0.1%, the Pool only takes what is owed
+
 /**
  * Calculate optimal leverage parameters for 2x SEI exposure
  */
@@ -36,14 +68,16 @@ export class SEILeverageCalculator {
     
     // Safe LTV for 2x leverage (with safety buffer)
     const maxSafeLTV = (1 - 1/targetLeverage) - safetyBuffer;
-    const borrowAmount = collateralSEI * maxSafeLTV;
-    const totalExposure = collateralSEI + borrowAmount;
-    const actualLeverage = totalExposure / collateralSEI;
+    const collateral = TokenAmount.from(collateralSEI, SEI);
+    const borrowed = collateral.mul(maxSafeLTV);
+    const borrowAmount = borrowed.toNumber();
+    const actualLeverage = collateral.add(borrowed).ratio(collateral);
     
     return {
       strategy: 'silo-borrow',
       collateralAmount: collateralSEI,
       borrowedAmount: borrowAmount,
+      borrowed,
       leverageRatio: actualLeverage,
       liquidationThreshold: 0, // To be calculated based on protocol
       currentLTV: maxSafeLTV
@@ -81,6 +115,7 @@ export class SEILeverageCalculator {
 
   /**
    * Liquid Staking Loop Strategy (Recursive)
+   * Every round is its own set of transactions; calculateFlashLeverage reaches the same exposure in one
    */
   static async createLiquidStakingLoop(seiAmount: number): Promise<{
     steps: string[];
@@ -122,6 +157,63 @@ export class SEILeverageCalculator {
     };
   }
 
+  /**
+   * One-transaction leverage through a flash loan on a single reserve
+   * Supplies deposit + flashAmount and borrows flashAmount + premium to repay the loan
+   */
+  static calculateFlashLeverage(
+    deposit: TokenAmount,
+    targetLeverage: number,
+    params: FlashLeverageParams
+  ): FlashLeveragePlan {
+    const premiumRate = Number(params.flashLoanPremiumBps) / Number(BPS);
+    // debt <= collateral × ltv with debt = (L - 1) × deposit × (1 + premium)
+    const maxLeverage = 1 + params.ltv / (1 + premiumRate - params.ltv);
+
+    if (targetLeverage <= 1) {
+      throw new Error(`Target leverage must be above 1x, got ${targetLeverage}x`);
+    }
+    if (targetLeverage > maxLeverage) {
+      throw new Error(`Target leverage ${targetLeverage}x exceeds the ${maxLeverage.toFixed(2)}x allowed by a ${(params.ltv * 100).toFixed(0)}% LTV`);
+    }
+
+    const flashAmount = deposit.mul(targetLeverage - 1);
+    const premium = flashAmount.mulDiv(params.flashLoanPremiumBps, BPS, 'up');
+    const collateral = deposit.add(flashAmount);
+    const debt = flashAmount.add(premium);
+
+    return {
+      deposit,
+      flashAmount,
+      premium,
+      collateral,
+      debt,
+      leverageRatio: collateral.ratio(deposit),
+      ltv: debt.ratio(collateral),
+      healthFactor: collateral.ratio(debt) * params.liquidationThreshold,
+      maxLeverage,
+    };
+  }
+
+  /**
+   * Flash loan that closes a single-reserve position: repays the debt, withdraws all collateral
+   */
+  static calculateFlashUnwind(
+    debt: TokenAmount,
+    collateral: TokenAmount,
+    flashLoanPremiumBps: bigint
+  ): FlashUnwindPlan {
+    const flashAmount = debt.mulDiv(BPS + FLASH_UNWIND_BUFFER_BPS, BPS, 'up');
+    const premium = flashAmount.mulDiv(flashLoanPremiumBps, BPS, 'up');
+    const returned = collateral.sub(debt).sub(premium);
+
+    if (returned.isNegative()) {
+      throw new Error(`Collateral ${collateral.format()} does not cover debt ${debt.format()} plus the flash loan premium`);
+    }
+
+    return { debt, collateral, flashAmount, premium, returned };
+  }
+
   /**
    * Calculate liquidation price for leveraged position
    */
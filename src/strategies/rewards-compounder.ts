@@ -0,0 +1,165 @@
+/**
+ * Yei incentive compounder
+ * Claims rewards controller emissions, swaps every reward token to WSEI on DragonSwap and
+ * supplies the WSEI back to Yei as collateral
+ */
+
+import { NetworkProfile, requireContract } from '../config/networks.js';
+import { Signer } from '../signers/signer.js';
+import { AmountInput, EVM_SEI, TokenAmount } from '../utils/token-amount.js';
+import { EvmClient } from '../evm/evm-client.js';
+import { erc20Address } from '../evm/erc20.js';
+import { YeiFinanceClient } from '../contracts/yei-finance-real.js';
+import { ExecutionStep, receiptStep, totalGas, yeiStep } from './execution-steps.js';
+import { DragonSwapV2, maxInputForImpact } from '../protocols/dragonswap-v2.js';
+
+export interface CompoundOptions {
+  slippageBps: number; // Minimum-out tolerance on reward swaps
+  maxPriceImpactBps: number; // Caps each swap against the pool's reserves
+  minSupply: AmountInput; // WSEI below this stays in the wallet until the next run
+}
+
+export type CompoundStep = ExecutionStep<'CLAIM' | 'SWAP' | 'SUPPLY'>;
+
+export interface CompoundReport {
+  claimed: TokenAmount[];
+  supplied: TokenAmount; // WSEI resupplied to Yei
+  steps: CompoundStep[];
+  skipped: string[]; // Rewards left in the wallet (no pool, pool depth, dust)
+  gasUsed: number;
+  gasCost: TokenAmount;
+}
+
+const DEFAULT_OPTIONS: CompoundOptions = {
+  slippageBps: 100,
+  maxPriceImpactBps: 300,
+  minSupply: '0.1',
+};
+
+/**
+ * Claim → swap to WSEI → resupply; only what the claim paid out is swapped and supplied
+ */
+export class RewardsCompounder {
+  private network: NetworkProfile;
+  private yeiClient: YeiFinanceClient;
+  private evm: EvmClient;
+  private dragonSwap: DragonSwapV2;
+  private signer: Signer | null = null;
+
+  constructor(network: NetworkProfile) {
+    this.network = network;
+    this.yeiClient = new YeiFinanceClient(network);
+    this.evm = EvmClient.forNetwork(network);
+    this.dragonSwap = new DragonSwapV2(this.evm, network);
+  }
+
+  async initialize(signer: Signer): Promise<void> {
+    await this.yeiClient.initialize(signer);
+    await this.evm.connect();
+    this.signer = signer;
+  }
+
+  /**
+   * Rewards accrued so far (read-only)
+   */
+  async getAccruedRewards(user: string): Promise<TokenAmount[]> {
+    return this.yeiClient.getAccruedRewards(user);
+  }
+
+  /**
+   * One claim-and-compound run
+   */
+  async compound(overrides: Partial<CompoundOptions> = {}): Promise<CompoundReport> {
+    this.requireSigner();
+    const options = { ...DEFAULT_OPTIONS, ...overrides };
+    const wsei = await this.yeiClient.resolveAsset(requireContract(this.network, 'yeiFinance', 'WSEI'));
+    const steps: CompoundStep[] = [];
+    const skipped: string[] = [];
+
+    // 1. Claim every reward to the wallet
+    const claim = await this.yeiClient.claimRewards();
+    const claimed = claim?.claimed ?? [];
+    if (claim) {
+      steps.push(yeiStep('CLAIM', `Claim ${claimed.map(reward => reward.format(6)).join(', ')}`, claim));
+    }
+
+    // 2. Rewards → WSEI (a WSEI reward needs no swap)
+    let gained = 0n;
+    for (const reward of claimed) {
+      if (erc20Address(reward.token) === wsei.address) {
+        gained += reward.raw;
+      } else {
+        gained += await this.swapToWSEI(reward, wsei.address, options, steps, skipped);
+      }
+    }
+
+    // 3. Resupply what the rewards turned into
+    const amount = TokenAmount.fromRaw(gained, wsei.token);
+    const minSupply = TokenAmount.from(options.minSupply, wsei.token);
+    let supplied = TokenAmount.zero(wsei.token);
+    if (!amount.isZero() && amount.lt(minSupply)) {
+      skipped.push(`${amount.format(6)} kept in the wallet (below the ${minSupply.format(6)} minimum supply)`);
+    } else if (!amount.isZero()) {
+      const result = await this.yeiClient.supply(wsei.address, amount);
+      supplied = result.amount ?? amount;
+      steps.push(yeiStep('SUPPLY', `Supply ${supplied.format(6)} to Yei`, result));
+    }
+
+    return {
+      claimed,
+      supplied,
+      steps,
+      skipped,
+      ...totalGas(steps),
+    };
+  }
+
+  /**
+   * Swap a claimed reward to WSEI, capped at what the pool absorbs within the impact limit
+   * Returns the WSEI received
+   */
+  private async swapToWSEI(
+    reward: TokenAmount,
+    wsei: string,
+    options: CompoundOptions,
+    steps: CompoundStep[],
+    skipped: string[]
+  ): Promise<bigint> {
+    const token = erc20Address(reward.token);
+    const pair = await this.dragonSwap.getPair(token, wsei);
+    if (!pair) {
+      skipped.push(`No DragonSwap pool for ${reward.token.symbol}/WSEI, ${reward.format(6)} not swapped`);
+      return 0n;
+    }
+
+    const cap = maxInputForImpact(pair.reserveA, BigInt(options.maxPriceImpactBps));
+    const amountIn = reward.raw < cap ? reward.raw : cap;
+    if (amountIn === 0n) {
+      skipped.push(`${reward.token.symbol}/WSEI pool is empty, ${reward.format(6)} not swapped`);
+      return 0n;
+    }
+
+    try {
+      const result = await this.dragonSwap.swapExactIn(this.requireSigner(), token, wsei, amountIn, BigInt(options.slippageBps));
+      const swapped = TokenAmount.fromRaw(amountIn, reward.token);
+      const received = TokenAmount.fromRaw(result.amountsOut[0], EVM_SEI);
+      steps.push(receiptStep('SWAP', `Swap ${swapped.format(6)} → ${received.format(6)} (WSEI)`, result.receipts));
+
+      const leftover = reward.sub(swapped);
+      if (!leftover.isZero()) {
+        skipped.push(`${leftover.format(6)} not swapped: pool depth caps the swap at ${options.maxPriceImpactBps / 100}% price impact`);
+      }
+      return result.amountsOut[0];
+    } catch (error) {
+      skipped.push(`Swapping ${reward.format(6)} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return 0n;
+    }
+  }
+
+  private requireSigner(): Signer {
+    if (!this.signer) {
+      throw new Error('Rewards compounder not initialized. Call initialize() first.');
+    }
+    return this.signer;
+  }
+}
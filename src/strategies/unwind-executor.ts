@@ -0,0 +1,317 @@
+/**
+ * Emergency unwind executor
+ * Exits a leverage strategy on-chain: remove DragonSwap liquidity, swap LST and pair tokens back
+ * to SEI (or redeem LST when the pool is too thin), repay Yei debt, withdraw collateral
+ */
+
+import { NetworkProfile, requireContract } from '../config/networks.js';
+import { Signer } from '../signers/signer.js';
+import { AmountInput, EVM_SEI, SEI, TokenAmount } from '../utils/token-amount.js';
+import { EvmClient } from '../evm/evm-client.js';
+import { getErc20Balance, unwrapNative } from '../evm/erc20.js';
+import { repayAllFunding, YeiFinanceClient, YeiPosition } from '../contracts/yei-finance-real.js';
+import { ExecutionStep, receiptStep, totalGas, yeiStep } from './execution-steps.js';
+import { YeiFinance } from '../protocols/yei-finance.js';
+import { solveWithdraw } from '../protocols/yei-health-solver.js';
+import { DragonSwapV2, withSlippage } from '../protocols/dragonswap-v2.js';
+import { DragonSwap } from '../protocols/dragonswap.js';
+import { planWithinImpact } from '../protocols/dragonswap-router.js';
+import { LeverageStrategy } from './yei-dragonswap-leverage.js';
+
+export type UnwindTarget = Pick<LeverageStrategy, 'type' | 'poolType'>;
+
+export interface UnwindOptions {
+  slippageBps: number; // Minimum-out tolerance on swaps and liquidity removal
+  maxPriceImpactBps: number; // Caps each swap against the pool's reserves
+  targetHealthFactor: number; // Floor for partial withdrawals while debt remains
+  gasReserve: AmountInput; // Native SEI kept back for gas when repaying
+}
+
+export type UnwindStep = ExecutionStep<'REMOVE_LIQUIDITY' | 'SWAP' | 'REDEEM' | 'UNWRAP' | 'REPAY' | 'WITHDRAW'>;
+
+export interface UnwindReport {
+  strategy: LeverageStrategy['type'];
+  steps: UnwindStep[];
+  skipped: string[]; // Work left undone (pool depth, balances, liquidity)
+  gasUsed: number;
+  gasCost: TokenAmount;
+  finalBalances: TokenAmount[];
+  position: YeiPosition;
+  closed: boolean; // No debt and no collateral left on Yei
+}
+
+const DEFAULT_OPTIONS: UnwindOptions = {
+  slippageBps: 100,
+  maxPriceImpactBps: 300,
+  targetHealthFactor: 1.5,
+  gasReserve: '1',
+};
+
+/**
+ * Runs the unwind for any strategy type; every step is sized from live balances and pool depth
+ */
+export class UnwindExecutor {
+  private network: NetworkProfile;
+  private yeiClient: YeiFinanceClient;
+  private yeiFinance: YeiFinance;
+  private evm: EvmClient;
+  private dragonSwap: DragonSwapV2;
+  private dex: DragonSwap;
+  private signer: Signer | null = null;
+
+  constructor(network: NetworkProfile) {
+    this.network = network;
+    this.yeiClient = new YeiFinanceClient(network);
+    this.yeiFinance = new YeiFinance(network);
+    this.evm = EvmClient.forNetwork(network);
+    this.dragonSwap = new DragonSwapV2(this.evm, network);
+    this.dex = new DragonSwap(network);
+  }
+
+  async initialize(signer: Signer): Promise<void> {
+    await this.yeiClient.initialize(signer);
+    await this.evm.connect();
+    this.signer = signer;
+  }
+
+  /**
+   * Unwind a strategy: LP → tokens → SEI → repay → withdraw
+   */
+  async execute(strategy: UnwindTarget, overrides: Partial<UnwindOptions> = {}): Promise<UnwindReport> {
+    const signer = this.requireSigner();
+    const options = { ...DEFAULT_OPTIONS, ...overrides };
+    const { evmAddress } = await signer.getAccount();
+    const wsei = requireContract(this.network, 'yeiFinance', 'WSEI');
+    const isei = requireContract(this.network, 'tokens', 'ISEI');
+    const steps: UnwindStep[] = [];
+    const skipped: string[] = [];
+
+    console.log(`🚨 Unwinding ${strategy.type}${strategy.poolType ? ` (${strategy.poolType})` : ''}...`);
+
+    // 1. DragonSwap liquidity (LP and hybrid strategies)
+    const pairToken = strategy.poolType ? this.pairTokenOf(strategy.poolType) : null;
+    if (pairToken) {
+      await this.removeLiquidity(pairToken, wsei, evmAddress, options, steps, skipped);
+    }
+
+    // 2. Back to WSEI: LST first (staking/hybrid, or the iSEI side of the LP), then the LP pair token
+    const tokens = [isei, ...(pairToken && pairToken !== isei ? [pairToken] : [])];
+    for (const token of tokens) {
+      const leftover = await this.swapToWSEI(token, wsei, evmAddress, options, steps, skipped);
+      if (token === isei && !leftover.isZero()) {
+        await this.redeemLST(leftover, steps, skipped);
+      }
+    }
+
+    // 3. Native SEI for the repay
+    const wrapped = await getErc20Balance(this.evm, wsei, evmAddress);
+    if (wrapped > 0n) {
+      const receipt = await unwrapNative(this.evm, signer, wsei, wrapped);
+      steps.push(receiptStep('UNWRAP', `Unwrap ${TokenAmount.fromRaw(wrapped, EVM_SEI).format(6)} from WSEI`, [receipt]));
+    }
+
+    // 4. Repay SEI debt (all of it when the wallet covers it)
+    await this.repay(evmAddress, options, steps, skipped);
+
+    // 5. Withdraw collateral (all without debt, otherwise down to the target health factor)
+    await this.withdraw(evmAddress, options, steps, skipped);
+
+    const position = await this.yeiClient.getPositionHealth(evmAddress);
+    const finalBalances = await this.getBalances(evmAddress, [wsei, isei, ...(pairToken && pairToken !== isei ? [pairToken] : [])]);
+
+    return {
+      strategy: strategy.type,
+      steps,
+      skipped,
+      ...totalGas(steps),
+      finalBalances,
+      position,
+      closed: position.debtBase === 0 && position.collateralBase === 0,
+    };
+  }
+
+  private async removeLiquidity(
+    pairToken: string,
+    wsei: string,
+    owner: string,
+    options: UnwindOptions,
+    steps: UnwindStep[],
+    skipped: string[]
+  ): Promise<void> {
+    const pair = await this.dragonSwap.getPair(pairToken, wsei);
+    if (!pair) {
+      skipped.push(`No DragonSwap pool for ${pairToken}/WSEI, no liquidity removed`);
+      return;
+    }
+
+    const liquidity = await getErc20Balance(this.evm, pair.address, owner);
+    if (liquidity === 0n) {
+      return;
+    }
+
+    const result = await this.dragonSwap.removeLiquidity(this.requireSigner(), pair, liquidity, BigInt(options.slippageBps));
+    steps.push(receiptStep('REMOVE_LIQUIDITY', `Remove ${liquidity} LP from ${pair.address}`, result.receipts));
+  }
+
+  /**
+   * Swap a token's balance to WSEI along the best V2 route (multi-hop and split when that pays),
+   * capped at what the pools absorb within the impact limit. Returns what is left unswapped
+   */
+  private async swapToWSEI(
+    token: string,
+    wsei: string,
+    owner: string,
+    options: UnwindOptions,
+    steps: UnwindStep[],
+    skipped: string[]
+  ): Promise<TokenAmount> {
+    const balance = await this.dragonSwap.getBalance(token, owner);
+    if (balance.isZero()) {
+      return balance;
+    }
+
+    // V2 routes only: each one executes as a single swapExactTokensForTokens along its path
+    const routes = await this.dex.getRoutes(token, wsei, { versions: ['V2'] });
+    if (routes.length === 0) {
+      skipped.push(`No DragonSwap route from ${balance.token.symbol} to WSEI, ${balance.format(6)} not swapped`);
+      return balance;
+    }
+
+    const plan = planWithinImpact(routes, balance.raw, options.maxPriceImpactBps / 100, { versions: ['V2'] });
+    if (!plan) {
+      skipped.push(`${balance.token.symbol} → WSEI pools are empty, ${balance.format(6)} not swapped`);
+      return balance;
+    }
+
+    for (const split of plan.splits) {
+      const minOut = withSlippage(split.amountOut, BigInt(options.slippageBps));
+      const result = await this.dragonSwap.swapPath(this.requireSigner(), split.path, split.amountIn, minOut);
+      const swapped = TokenAmount.fromRaw(split.amountIn, balance.token);
+      const received = TokenAmount.fromRaw(result.amountsOut[0], EVM_SEI);
+      const via = split.path.length > 2 ? ` via ${split.path.length - 2} hop(s)` : '';
+      steps.push(receiptStep('SWAP', `Swap ${swapped.format(6)} → ${received.format(6)} (WSEI)${via}`, result.receipts));
+    }
+
+    const leftover = balance.sub(TokenAmount.fromRaw(plan.amountIn, balance.token));
+    if (!leftover.isZero()) {
+      skipped.push(`${leftover.format(6)} not swapped: pool depth caps the swap at ${options.maxPriceImpactBps / 100}% price impact`);
+    }
+    return leftover;
+  }
+
+  /**
+   * LST the pool could not absorb is redeemed through Silo (arrives after unbonding)
+   */
+  private async redeemLST(amount: TokenAmount, steps: UnwindStep[], skipped: string[]): Promise<void> {
+    try {
+      const result = await this.yeiClient.redeemStakedSEI(amount.convert(1, SEI));
+      steps.push(yeiStep('REDEEM', `Redeem ${amount.format(6)} through Silo (unbonding)`, result));
+    } catch (error) {
+      skipped.push(`Redeeming ${amount.format(6)} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async repay(owner: string, options: UnwindOptions, steps: UnwindStep[], skipped: string[]): Promise<void> {
+    const position = await this.yeiClient.getPositionHealth(owner);
+    const sei = await this.yeiClient.resolveAsset('SEI');
+    const seiDebt = position.assets.find(asset => asset.asset.toLowerCase() === sei.address.toLowerCase())?.borrowed;
+
+    position.assets
+      .filter(asset => !asset.borrowed.isZero() && asset.asset.toLowerCase() !== sei.address.toLowerCase())
+      .forEach(asset => skipped.push(`${asset.borrowed.format(6)} debt is not repaid by the unwind`));
+
+    if (!seiDebt || seiDebt.isZero()) {
+      return;
+    }
+
+    const reserve = TokenAmount.from(options.gasReserve, SEI).convert(1, EVM_SEI);
+    const native = TokenAmount.fromRaw(await this.evm.getBalance(owner), EVM_SEI);
+    const spendable = native.gt(reserve) ? native.sub(reserve) : TokenAmount.zero(EVM_SEI);
+    const debt = TokenAmount.fromRaw(seiDebt.raw, EVM_SEI);
+
+    if (spendable.gte(repayAllFunding(debt))) {
+      const result = await this.yeiClient.repayAll('SEI');
+      if (result) {
+        steps.push(yeiStep('REPAY', `Repay all ${debt.format(6)} debt`, result));
+      }
+      return;
+    }
+
+    if (spendable.isZero()) {
+      skipped.push(`No spendable SEI to repay ${debt.format(6)} of debt`);
+      return;
+    }
+
+    const result = await this.yeiClient.repay('SEI', spendable.convert(1, SEI));
+    steps.push(yeiStep('REPAY', `Repay ${spendable.format(6)} of ${debt.format(6)} debt`, result));
+    skipped.push(`${debt.sub(spendable).format(6)} debt remains (wallet short)`);
+  }
+
+  private async withdraw(owner: string, options: UnwindOptions, steps: UnwindStep[], skipped: string[]): Promise<void> {
+    const [position, markets, sei] = await Promise.all([
+      this.yeiClient.getPositionHealth(owner),
+      this.yeiFinance.getAllMarkets(),
+      this.yeiClient.resolveAsset('SEI'),
+    ]);
+    const hasDebt = position.assets.some(asset => !asset.borrowed.isZero());
+    let current = position;
+    let withdrew = false;
+
+    for (const held of position.assets.filter(asset => !asset.supplied.isZero())) {
+      // Each withdrawal lowers the health factor: size the next one from the position as it is now
+      if (hasDebt && withdrew) {
+        current = await this.yeiClient.getPositionHealth(owner);
+        withdrew = false;
+      }
+      const asset = current.assets.find(candidate => candidate.asset === held.asset);
+      if (!asset || asset.supplied.isZero()) {
+        continue;
+      }
+
+      const market = markets.find(candidate => candidate.address.toLowerCase() === asset.asset.toLowerCase());
+      const allowed = hasDebt ? solveWithdraw(current.assets, asset.asset, options.targetHealthFactor).amount : asset.supplied;
+      const liquidity = market ? TokenAmount.parse(market.availableLiquidity, asset.supplied.token, 'down') : asset.supplied;
+      const amount = TokenAmount.min(allowed, liquidity);
+
+      if (amount.isZero()) {
+        skipped.push(`${asset.symbol} collateral kept: ${hasDebt ? `health factor target ${options.targetHealthFactor}` : 'no reserve liquidity'}`);
+        continue;
+      }
+
+      // Whole balance via the Pool's max sentinel so accrued interest is not left behind
+      const whole = amount.eq(asset.supplied) && !hasDebt;
+      const key = asset.asset.toLowerCase() === sei.address.toLowerCase() ? 'SEI' : asset.asset;
+      const result = await this.yeiClient.withdraw(key, whole ? 'max' : amount);
+      steps.push(yeiStep('WITHDRAW', `Withdraw ${whole ? `all ${asset.symbol}` : amount.format(6)}`, result));
+      withdrew = true;
+
+      if (amount.lt(asset.supplied)) {
+        skipped.push(`${asset.supplied.sub(amount).format(6)} left supplied (${amount.lt(allowed) ? 'reserve liquidity' : 'health factor target'})`);
+      }
+    }
+  }
+
+  private async getBalances(owner: string, tokens: string[]): Promise<TokenAmount[]> {
+    const native = TokenAmount.fromRaw(await this.evm.getBalance(owner), EVM_SEI);
+    const erc20 = await Promise.all(tokens.map(token => this.dragonSwap.getBalance(token, owner)));
+    return [native, ...erc20];
+  }
+
+  private pairTokenOf(poolType: NonNullable<LeverageStrategy['poolType']>): string {
+    switch (poolType) {
+      case 'SEI-USDC':
+        return requireContract(this.network, 'tokens', 'USDC');
+      case 'SEI-WETH':
+        return requireContract(this.network, 'tokens', 'WETH');
+      case 'iSEI-SEI':
+        return requireContract(this.network, 'tokens', 'ISEI');
+    }
+  }
+
+  private requireSigner(): Signer {
+    if (!this.signer) {
+      throw new Error('Unwind executor not initialized. Call initialize() first.');
+    }
+    return this.signer;
+  }
+}
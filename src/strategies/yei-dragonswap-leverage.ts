@@ -4,12 +4,20 @@
  * Strategy 2: Yei Finance Borrowing + DragonSwap LP
  */
 
-import { YeiFinance, YeiPosition } from '../protocols/yei-finance.js';
-import { DragonSwap } from '../protocols/dragonswap.js';
+import { LeverageMarketParams, YeiFinance, YeiMarketData, YeiPosition } from '../protocols/yei-finance.js';
+import { YeiEModeCategory } from '../contracts/yei-pool-reader.js';
+import { DragonSwap, routeLabel } from '../protocols/dragonswap.js';
+import { NetworkProfile } from '../config/networks.js';
+import { Signer } from '../signers/signer.js';
+import { UnwindExecutor, UnwindOptions, UnwindReport, UnwindTarget } from './unwind-executor.js';
+import { projectRates, ProjectedRates } from '../protocols/yei-interest-rate.js';
+import { liquidationDropAt } from '../protocols/yei-liquidation.js';
 
 export interface LeverageStrategy {
   name: string;
   type: 'YEI_STAKING' | 'YEI_LP' | 'YEI_HYBRID';
+  poolType?: 'SEI-USDC' | 'SEI-WETH' | 'iSEI-SEI'; // DragonSwap pool holding the LP leg
+  eModeCategory?: number; // Set when the strategy opts into the SEI-correlated e-mode category
   initialSEI: number;
   borrowedSEI: number;
   totalExposure: number;
@@ -27,51 +35,62 @@ export interface PositionMonitoring {
   actions: string[];
 }
 
+// Price drops to liquidation below which monitorLeveragePosition raises its alerts
+const HIGH_RISK_LIQUIDATION_DROP = 0.15;
+const ELEVATED_RISK_LIQUIDATION_DROP = 0.25;
+
 /**
  * Advanced leverage strategy combining Yei Finance lending with DragonSwap DEX
  */
 export class YeiDragonSwapLeverage {
   private yeiFinance: YeiFinance;
   private dragonSwap: DragonSwap;
+  private network: NetworkProfile;
   
-  constructor(rpcUrl: string) {
-    this.yeiFinance = new YeiFinance(rpcUrl);
-    this.dragonSwap = new DragonSwap(rpcUrl);
+  constructor(network: NetworkProfile) {
+    this.network = network;
+    this.yeiFinance = new YeiFinance(network);
+    this.dragonSwap = new DragonSwap(network);
   }
 
   /**
    * Strategy 1: Yei Finance Leveraged Staking (Conservative)
    */
-  async createYeiStakingStrategy(seiAmount: number): Promise<LeverageStrategy> {
-    const leverageParams = this.yeiFinance.calculateLeverageParams(seiAmount, 1.8, 0.25);
+  async createYeiStakingStrategy(seiAmount: number, eMode: boolean = false): Promise<LeverageStrategy> {
     const marketData = await this.yeiFinance.getSEIMarketData();
+    const { risk, category } = await this.riskParams(marketData, eMode);
+    const leverageParams = this.yeiFinance.calculateLeverageParams(seiAmount, risk, 1.8, 0.25);
+    this.assertBorrowable(marketData, leverageParams.safeBorrowAmount);
     
     const stakingAPY = 0.08; // 8% staking rewards
-    const netAPYCalc = this.yeiFinance.calculateNetAPY(
+    const model = await this.yeiFinance.getInterestRateModel(marketData);
+    const netAPYCalc = this.yeiFinance.projectNetAPY(
+      marketData,
+      model,
       seiAmount,
       leverageParams.safeBorrowAmount,
-      marketData.supplyAPY,
-      marketData.borrowAPY,
       stakingAPY
     );
     
     return {
       name: 'Yei Finance Leveraged Staking',
       type: 'YEI_STAKING',
+      eModeCategory: category?.id,
       initialSEI: seiAmount,
       borrowedSEI: leverageParams.safeBorrowAmount,
       totalExposure: seiAmount + leverageParams.safeBorrowAmount,
       expectedAPY: netAPYCalc.netAPY,
       riskLevel: leverageParams.healthFactor > 2.0 ? 'LOW' : 'MEDIUM',
       liquidationRisk: 1 - (leverageParams.healthFactor / 3),
-      steps: [
+      steps: this.withEModeStep(category, leverageParams, [
         `1. Deposit ${seiAmount} SEI as collateral on Yei Finance`,
         `2. Borrow ${leverageParams.safeBorrowAmount.toFixed(4)} SEI (${(leverageParams.resultingLTV * 100).toFixed(1)}% LTV)`,
         `3. Stake borrowed SEI through Silo liquid staking → Get iSEI`,
         `4. Earn staking rewards on ${(seiAmount + leverageParams.safeBorrowAmount).toFixed(4)} SEI total`,
         `5. Health Factor: ${leverageParams.healthFactor.toFixed(2)} (Safe above 1.5)`,
-        `6. Expected Net APY: ${(netAPYCalc.netAPY * 100).toFixed(2)}%`
-      ]
+        `6. Borrow APY after our borrow: ${(netAPYCalc.rates.borrowAPY * 100).toFixed(2)}% (utilization ${(netAPYCalc.rates.utilization * 100).toFixed(1)}%)`,
+        `7. Expected Net APY: ${(netAPYCalc.netAPY * 100).toFixed(2)}%`
+      ])
     };
   }
 
@@ -80,50 +99,61 @@ export class YeiDragonSwapLeverage {
    */
   async createYeiLPStrategy(
     seiAmount: number,
-    poolType: 'SEI-USDC' | 'SEI-WETH' | 'iSEI-SEI' = 'SEI-USDC'
+    poolType: 'SEI-USDC' | 'SEI-WETH' | 'iSEI-SEI' = 'SEI-USDC',
+    eMode: boolean = false
   ): Promise<LeverageStrategy> {
     
-    const leverageParams = this.yeiFinance.calculateLeverageParams(seiAmount, 2.0, 0.20);
+    const marketData = await this.yeiFinance.getSEIMarketData();
+    const { risk, category } = await this.riskParams(marketData, eMode);
+    const leverageParams = this.yeiFinance.calculateLeverageParams(seiAmount, risk, 2.0, 0.20);
+    this.assertBorrowable(marketData, leverageParams.safeBorrowAmount);
     const lpCalculation = await this.dragonSwap.calculateLPLeverage(
       seiAmount,
       leverageParams.safeBorrowAmount,
       poolType
     );
     
-    // Calculate combined yields
-    const marketData = await this.yeiFinance.getSEIMarketData();
-    const supplyCost = seiAmount * marketData.supplyAPY;
-    const borrowCost = leverageParams.safeBorrowAmount * marketData.borrowAPY;
+    // Calculate combined yields at the rates our own supply/borrow produce
+    const rates = await this.projectMarketRates(marketData, seiAmount, leverageParams.safeBorrowAmount);
+    const incentives = this.yeiFinance.projectIncentiveAPR(marketData, seiAmount, leverageParams.safeBorrowAmount);
+    const supplyCost = seiAmount * rates.supplyAPY;
+    const borrowCost = leverageParams.safeBorrowAmount * rates.borrowAPY;
+    const incentiveYield = seiAmount * incentives.supply + leverageParams.safeBorrowAmount * incentives.borrow;
     const lpYield = lpCalculation.totalSEI * lpCalculation.estimatedAPR;
-    const netYield = supplyCost + lpYield - borrowCost;
+    const netYield = supplyCost + incentiveYield + lpYield - borrowCost;
     const netAPY = netYield / seiAmount;
     
     return {
       name: `Yei Finance + DragonSwap ${poolType} LP`,
       type: 'YEI_LP',
+      poolType,
+      eModeCategory: category?.id,
       initialSEI: seiAmount,
       borrowedSEI: leverageParams.safeBorrowAmount,
       totalExposure: lpCalculation.totalSEI,
       expectedAPY: netAPY,
       riskLevel: poolType === 'iSEI-SEI' ? 'MEDIUM' : 'HIGH',
       liquidationRisk: 1 - (leverageParams.healthFactor / 2.5),
-      steps: [
+      steps: this.withEModeStep(category, leverageParams, [
         `1. Deposit ${seiAmount} SEI as collateral on Yei Finance`,
         `2. Borrow ${leverageParams.safeBorrowAmount.toFixed(4)} SEI`,
-        `3. Convert ${(lpCalculation.totalSEI / 2).toFixed(4)} SEI to pair token`,
-        `4. Add liquidity to DragonSwap ${poolType} pool`,
-        `5. Earn LP fees + rewards: ~${(lpCalculation.estimatedAPR * 100).toFixed(1)}% APR`,
+        `3. Convert ${(lpCalculation.totalSEI / 2).toFixed(4)} SEI to ${lpCalculation.swap.amountOut.format(4)} via ${routeLabel(lpCalculation.swap)} (${lpCalculation.swap.priceImpact.toFixed(2)}% impact)`,
+        `4. Add liquidity to DragonSwap ${poolType} ${lpCalculation.pool.version} pool (${(lpCalculation.pool.fee * 100).toFixed(2)}% fee, TVL $${lpCalculation.pool.tvl.toFixed(0)})`,
+        `5. Earn LP fees: ~${(lpCalculation.estimatedAPR * 100).toFixed(1)}% APR (last 24h)`,
         `6. Net APY: ${(netAPY * 100).toFixed(2)}%`,
         `7. Impermanent Loss Risk: ${lpCalculation.impermanentLossRisk}`
-      ]
+      ])
     };
   }
 
   /**
    * Strategy 3: Hybrid Strategy (Balanced Risk/Reward)
    */
-  async createHybridStrategy(seiAmount: number): Promise<LeverageStrategy> {
-    const leverageParams = this.yeiFinance.calculateLeverageParams(seiAmount, 1.9, 0.22);
+  async createHybridStrategy(seiAmount: number, eMode: boolean = false): Promise<LeverageStrategy> {
+    const marketData = await this.yeiFinance.getSEIMarketData();
+    const { risk, category } = await this.riskParams(marketData, eMode);
+    const leverageParams = this.yeiFinance.calculateLeverageParams(seiAmount, risk, 1.9, 0.22);
+    this.assertBorrowable(marketData, leverageParams.safeBorrowAmount);
     
     // Split borrowed SEI: 60% staking, 40% LP
     const stakingSEI = leverageParams.safeBorrowAmount * 0.6;
@@ -136,30 +166,34 @@ export class YeiDragonSwapLeverage {
     );
     
     // Calculate blended yields
+    const rates = await this.projectMarketRates(marketData, seiAmount, leverageParams.safeBorrowAmount);
+    const incentives = this.yeiFinance.projectIncentiveAPR(marketData, seiAmount, leverageParams.safeBorrowAmount);
     const stakingYield = (seiAmount * 0.7 + stakingSEI) * 0.08; // 8% on staking portion
     const lpYield = lpCalculation.totalSEI * lpCalculation.estimatedAPR;
-    const marketData = await this.yeiFinance.getSEIMarketData();
-    const borrowCost = leverageParams.safeBorrowAmount * marketData.borrowAPY;
-    const netYield = stakingYield + lpYield - borrowCost;
+    const incentiveYield = seiAmount * incentives.supply + leverageParams.safeBorrowAmount * incentives.borrow;
+    const borrowCost = leverageParams.safeBorrowAmount * rates.borrowAPY;
+    const netYield = stakingYield + lpYield + incentiveYield - borrowCost;
     const netAPY = netYield / seiAmount;
     
     return {
       name: 'Hybrid Yei + DragonSwap Strategy',
       type: 'YEI_HYBRID',
+      poolType: 'iSEI-SEI',
+      eModeCategory: category?.id,
       initialSEI: seiAmount,
       borrowedSEI: leverageParams.safeBorrowAmount,
       totalExposure: seiAmount + leverageParams.safeBorrowAmount,
       expectedAPY: netAPY,
       riskLevel: 'MEDIUM',
       liquidationRisk: 1 - (leverageParams.healthFactor / 2.2),
-      steps: [
+      steps: this.withEModeStep(category, leverageParams, [
         `1. Deposit ${seiAmount} SEI as collateral on Yei Finance`,
         `2. Borrow ${leverageParams.safeBorrowAmount.toFixed(4)} SEI`,
         `3. Stake ${(seiAmount * 0.7 + stakingSEI).toFixed(4)} SEI (70% + borrowed portion)`,
         `4. Use ${lpCalculation.totalSEI.toFixed(4)} SEI for iSEI-SEI LP on DragonSwap`,
         `5. Blended yield: ${(netAPY * 100).toFixed(2)}% APY`,
         `6. Balanced risk exposure across staking + LP`
-      ]
+      ])
     };
   }
 
@@ -171,15 +205,15 @@ export class YeiDragonSwapLeverage {
     currentPosition: YeiPosition
   ): Promise<PositionMonitoring> {
     
-    const monitoring = await this.yeiFinance.monitorPosition(currentPosition);
+    const healthFactor = currentPosition.healthFactor;
     const alerts: string[] = [];
     const actions: string[] = [];
     
     // Health factor alerts
-    if (monitoring.healthFactor < 1.3) {
+    if (healthFactor < 1.3) {
       alerts.push('🚨 LOW HEALTH FACTOR - Liquidation risk high');
       actions.push('Consider repaying debt or adding collateral');
-    } else if (monitoring.healthFactor < 1.8) {
+    } else if (healthFactor < 1.8) {
       alerts.push('⚠️ MODERATE HEALTH FACTOR - Monitor closely');
       actions.push('Prepare emergency funds for position management');
     }
@@ -191,17 +225,18 @@ export class YeiDragonSwapLeverage {
       actions.push('Review strategy efficiency');
     }
     
-    // Liquidation proximity
-    if (monitoring.liquidationRisk > 0.7) {
-      alerts.push('🔴 HIGH LIQUIDATION RISK');
+    // Liquidation proximity: collateral price drop (against the debt) that allows liquidation
+    const liquidationDrop = liquidationDropAt(healthFactor);
+    if (liquidationDrop !== null && liquidationDrop < HIGH_RISK_LIQUIDATION_DROP) {
+      alerts.push(`🔴 HIGH LIQUIDATION RISK - liquidatable after a ${(liquidationDrop * 100).toFixed(1)}% price drop`);
       actions.push('URGENT: Reduce leverage immediately');
-    } else if (monitoring.liquidationRisk > 0.4) {
-      alerts.push('🟡 Elevated liquidation risk');
+    } else if (liquidationDrop !== null && liquidationDrop < ELEVATED_RISK_LIQUIDATION_DROP) {
+      alerts.push(`🟡 Elevated liquidation risk - liquidatable after a ${(liquidationDrop * 100).toFixed(1)}% price drop`);
       actions.push('Consider partial position closure');
     }
     
     return {
-      healthFactor: monitoring.healthFactor,
+      healthFactor,
       ltv: currentPosition.ltv,
       pnl: this.calculatePnL(strategy, currentPosition),
       alerts,
@@ -210,49 +245,75 @@ export class YeiDragonSwapLeverage {
   }
 
   /**
-   * Emergency position management
+   * Emergency position management: unwind the strategy on-chain
+   * (LP removal, LST/pair swaps back to SEI, repay, withdraw) and report real gas and balances
    */
   async emergencyUnwind(
-    strategy: LeverageStrategy,
-    currentPosition: YeiPosition
-  ): Promise<{
-    steps: string[];
-    estimatedGasUsed: number;
-    minimumSEINeeded: number;
-    timeEstimate: string;
-  }> {
-    
-    const repayAmount = currentPosition.borrowedAmount;
-    const gasPerTransaction = 0.01; // SEI per transaction
-    
-    let steps: string[] = [];
-    let estimatedGasUsed = 0;
-    
-    if (strategy.type === 'YEI_STAKING') {
-      steps = [
-        '1. Unstake liquid staking tokens (iSEI → SEI)',
-        '2. Repay borrowed SEI on Yei Finance',
-        '3. Withdraw remaining collateral',
-        '4. Verify position closure'
-      ];
-      estimatedGasUsed = gasPerTransaction * 4;
-    } else if (strategy.type === 'YEI_LP') {
-      steps = [
-        '1. Remove liquidity from DragonSwap pool',
-        '2. Swap received tokens back to SEI if needed',
-        '3. Repay borrowed SEI on Yei Finance',
-        '4. Withdraw remaining collateral',
-        '5. Verify position closure'
-      ];
-      estimatedGasUsed = gasPerTransaction * 5;
+    strategy: UnwindTarget,
+    signer: Signer,
+    options: Partial<UnwindOptions> = {}
+  ): Promise<UnwindReport> {
+    const executor = new UnwindExecutor(this.network);
+    await executor.initialize(signer);
+    return executor.execute(strategy, options);
+  }
+
+  /**
+   * Market risk parameters, or the SEI-correlated e-mode category's when the strategy opts in
+   */
+  private async riskParams(
+    market: YeiMarketData,
+    eMode: boolean
+  ): Promise<{ risk: LeverageMarketParams; category: YeiEModeCategory | null }> {
+    if (!eMode) {
+      return { risk: market, category: null };
     }
-    
-    return {
-      steps,
-      estimatedGasUsed,
-      minimumSEINeeded: repayAmount + estimatedGasUsed,
-      timeEstimate: '2-5 minutes (depending on network congestion)'
-    };
+
+    const category = await this.yeiFinance.getEModeCategory(market);
+    if (!category) {
+      throw new Error(`Yei ${market.asset} market is not in an e-mode category`);
+    }
+    return { risk: this.yeiFinance.eModeParams(market, category), category };
+  }
+
+  /**
+   * Prepend enabling e-mode (renumbering the plan) and state what it changes
+   */
+  private withEModeStep(
+    category: YeiEModeCategory | null,
+    leverageParams: ReturnType<YeiFinance['calculateLeverageParams']>,
+    steps: string[]
+  ): string[] {
+    if (!category) {
+      return steps;
+    }
+
+    const renumbered = steps.map(step => step.replace(/^(\d+)\./, (_, n) => `${Number(n) + 1}.`));
+    return [
+      `1. Enable Yei e-mode "${category.label}" (LTV ${(category.ltv * 100).toFixed(0)}%, liquidation threshold ${(category.liquidationThreshold * 100).toFixed(0)}%, max ${leverageParams.maxLeverage.toFixed(2)}x)`,
+      ...renumbered,
+      `${renumbered.length + 2}. Liquidation at a collateral/debt price ratio of ${leverageParams.liquidationPrice.toFixed(4)} (SEI/iSEI depeg, not the SEI price)`,
+    ];
+  }
+
+  /**
+   * Refuse plans the market cannot fill (borrowing paused/frozen or not enough liquidity)
+   */
+  private assertBorrowable(market: YeiMarketData, borrowAmount: number): void {
+    if (!market.borrowingEnabled || market.frozen) {
+      throw new Error(`Borrowing ${market.asset} is currently disabled on Yei Finance`);
+    }
+    if (borrowAmount > market.availableLiquidity) {
+      throw new Error(`Yei ${market.asset} market has ${market.availableLiquidity.toFixed(4)} available, strategy needs ${borrowAmount.toFixed(4)}`);
+    }
+  }
+
+  /**
+   * Supply/borrow rates once our collateral and borrow land in the market
+   */
+  private async projectMarketRates(market: YeiMarketData, supplyAmount: number, borrowAmount: number): Promise<ProjectedRates> {
+    const model = await this.yeiFinance.getInterestRateModel(market);
+    return projectRates(model, market, { supply: supplyAmount, borrow: borrowAmount });
   }
 
   /**
@@ -0,0 +1,255 @@
+/**
+ * Sei address utilities
+ * Checksum-verified bech32 (sei1...) and EIP-55 (0x...) validation, plus conversion
+ * between a Sei address and its associated EVM address
+ */
+
+import { fromBech32, fromHex, toBech32, toHex } from '@cosmjs/encoding';
+import { keccak256, ripemd160, Secp256k1, sha256 } from '@cosmjs/crypto';
+import { isConnectionError } from './rpc-pool.js';
+
+export const SEI_BECH32_PREFIX = 'sei';
+
+export const DEFAULT_EVM_RPC_URL = 'https://evm-rpc.sei-apis.com';
+
+// Node answer for an account whose pubkey is not known on-chain ("failed to find EVM address for sei1...")
+const NOT_ASSOCIATED = /failed to find (evm|sei) address/i;
+
+export type AddressKind = 'sei' | 'evm';
+
+export interface ParsedAddress {
+  kind: AddressKind;
+  address: string; // Normalized (lowercase bech32 / EIP-55 checksummed hex)
+}
+
+export interface LinkedAddresses {
+  seiAddress: string;
+  evmAddress: string;
+  associated: boolean; // false = default cast, the pubkey is not yet known on-chain
+}
+
+/**
+ * Parse a Sei bech32 or EVM address, throwing a precise error when malformed
+ */
+export function parseAddress(input: string): ParsedAddress {
+  const value = input.trim();
+
+  if (!value) {
+    throw new Error('Address is empty');
+  }
+
+  if (/^0x/i.test(value)) {
+    return { kind: 'evm', address: parseEvmAddress(value) };
+  }
+
+  return { kind: 'sei', address: parseSeiAddress(value) };
+}
+
+/**
+ * Validate a Sei bech32 address (checksum, prefix and payload length)
+ */
+export function parseSeiAddress(input: string): string {
+  let decoded: { prefix: string; data: Uint8Array };
+  try {
+    decoded = fromBech32(input);
+  } catch (error) {
+    throw new Error(`Invalid bech32 address "${input}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (decoded.prefix !== SEI_BECH32_PREFIX) {
+    throw new Error(`Invalid Sei address "${input}": expected "${SEI_BECH32_PREFIX}" prefix, got "${decoded.prefix}"`);
+  }
+
+  // 20 bytes for accounts, 32 bytes for contracts
+  if (decoded.data.length !== 20 && decoded.data.length !== 32) {
+    throw new Error(`Invalid Sei address "${input}": payload must be 20 or 32 bytes, got ${decoded.data.length}`);
+  }
+
+  return input.toLowerCase();
+}
+
+/**
+ * Validate an EVM address; mixed-case input must carry a valid EIP-55 checksum
+ */
+export function parseEvmAddress(input: string): string {
+  if (!/^0x/i.test(input)) {
+    throw new Error(`Invalid EVM address "${input}": missing 0x prefix`);
+  }
+
+  const hex = input.slice(2);
+  if (hex.length !== 40) {
+    throw new Error(`Invalid EVM address "${input}": expected 40 hex characters, got ${hex.length}`);
+  }
+  if (!/^[0-9a-fA-F]{40}$/.test(hex)) {
+    throw new Error(`Invalid EVM address "${input}": contains non-hex characters`);
+  }
+
+  const checksummed = toChecksumAddress(hex);
+  const isSingleCase = hex === hex.toLowerCase() || hex === hex.toUpperCase();
+  if (!isSingleCase && input !== checksummed) {
+    throw new Error(`Invalid EVM address "${input}": EIP-55 checksum mismatch (expected ${checksummed})`);
+  }
+
+  return checksummed;
+}
+
+/**
+ * Check whether a string is a valid Sei bech32 address
+ */
+export function isValidSeiAddress(input: string): boolean {
+  try {
+    parseSeiAddress(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a string is a valid EVM address (EIP-55 enforced for mixed case)
+ */
+export function isValidEvmAddress(input: string): boolean {
+  try {
+    parseEvmAddress(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply EIP-55 mixed-case checksum to a hex address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, '');
+  const hash = toHex(keccak256(new TextEncoder().encode(lower)));
+
+  let checksummed = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+
+  return checksummed;
+}
+
+/**
+ * Derive the Sei EVM (0x) address linked to a secp256k1 public key
+ * Sei uses the same key for both sides: keccak256 of the uncompressed key, last 20 bytes
+ */
+export function deriveEvmAddress(pubkey: Uint8Array): string {
+  const uncompressed = pubkey.length === 33 ? Secp256k1.uncompressPubkey(pubkey) : pubkey;
+  const hash = keccak256(uncompressed.slice(1));
+  return toChecksumAddress(toHex(hash.slice(-20)));
+}
+
+/**
+ * Derive the Sei bech32 address of a secp256k1 public key (ripemd160(sha256(compressed)))
+ */
+export function deriveSeiAddress(pubkey: Uint8Array): string {
+  const compressed = pubkey.length === 65 ? Secp256k1.compressPubkey(pubkey) : pubkey;
+  return toBech32(SEI_BECH32_PREFIX, ripemd160(sha256(compressed)));
+}
+
+/**
+ * Both addresses for a public key (always associated: the key determines both)
+ */
+export function pubkeyToLinkedAddresses(pubkey: Uint8Array): LinkedAddresses {
+  return {
+    seiAddress: deriveSeiAddress(pubkey),
+    evmAddress: deriveEvmAddress(pubkey),
+    associated: true,
+  };
+}
+
+/**
+ * Default cast used by Sei for accounts whose pubkey is not yet known on-chain:
+ * the same 20 bytes in the other encoding
+ */
+export function castSeiToEvmAddress(seiAddress: string): string {
+  const { data } = fromBech32(parseSeiAddress(seiAddress));
+  if (data.length !== 20) {
+    throw new Error(`Cannot cast ${seiAddress} to an EVM address: contract addresses have no 20-byte form`);
+  }
+  return toChecksumAddress(toHex(data));
+}
+
+/**
+ * Default cast of an EVM address to its Sei bech32 form (see castSeiToEvmAddress)
+ */
+export function castEvmToSeiAddress(evmAddress: string): string {
+  return toBech32(SEI_BECH32_PREFIX, fromHex(parseEvmAddress(evmAddress).slice(2)));
+}
+
+/**
+ * Resolve the linked Sei/EVM address pair for either form
+ * Queries the association from Sei's EVM RPC (sei_getEVMAddress / sei_getSeiAddress). Transport and RPC
+ * errors are thrown; when the node reports the account as not associated, 'cast' returns the default cast
+ * (associated: false) and 'reject' throws, since the cast is not guaranteed to be the account's address
+ */
+export async function resolveLinkedAddresses(
+  input: string,
+  evmRpcUrl: string = process.env.SEI_EVM_RPC_URL || DEFAULT_EVM_RPC_URL,
+  unassociated: 'cast' | 'reject' = 'reject'
+): Promise<LinkedAddresses> {
+  const parsed = parseAddress(input);
+  const method = parsed.kind === 'sei' ? 'sei_getEVMAddress' : 'sei_getSeiAddress';
+
+  let body: { result?: unknown; error?: { message?: string } };
+  try {
+    const response = await fetch(evmRpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [parsed.address] }),
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    body = await response.json() as typeof body;
+  } catch (error) {
+    throw new Error(`${method} failed on ${evmRpcUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (body.error) {
+    const message = body.error.message ?? 'Unknown error';
+    if (!NOT_ASSOCIATED.test(message)) {
+      throw new Error(`${method} failed on ${evmRpcUrl}: ${message}`);
+    }
+    if (unassociated === 'reject') {
+      throw new Error(`${parsed.address} is not associated on-chain yet, its linked address is unknown`);
+    }
+    return parsed.kind === 'sei'
+      ? { seiAddress: parsed.address, evmAddress: castSeiToEvmAddress(parsed.address), associated: false }
+      : { seiAddress: castEvmToSeiAddress(parsed.address), evmAddress: parsed.address, associated: false };
+  }
+
+  if (typeof body.result !== 'string' || !body.result) {
+    throw new Error(`Malformed ${method} response from ${evmRpcUrl}`);
+  }
+
+  return parsed.kind === 'sei'
+    ? { seiAddress: parsed.address, evmAddress: parseEvmAddress(body.result), associated: true }
+    : { seiAddress: parseSeiAddress(body.result), evmAddress: parsed.address, associated: true };
+}
+
+/**
+ * resolveLinkedAddresses against each EVM endpoint in turn, moving on only when one is unreachable
+ */
+export async function resolveLinkedAddressesWithFailover(
+  input: string,
+  evmRpcUrls: string[],
+  unassociated: 'cast' | 'reject' = 'reject'
+): Promise<LinkedAddresses> {
+  let lastError: unknown = new Error('No EVM RPC endpoint configured');
+  for (const url of evmRpcUrls) {
+    try {
+      return await resolveLinkedAddresses(input, url, unassociated);
+    } catch (error) {
+      if (!isConnectionError(error)) {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
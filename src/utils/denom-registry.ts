@@ -0,0 +1,240 @@
+/**
+ * Denom metadata registry
+ * Resolves symbol and decimals for native, IBC, tokenfactory and pointer ERC20/CW20 denoms.
+ * Sources in order: local override file → built-ins → bank metadata → token contract → fallback
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Metadata } from 'cosmjs-types/cosmos/bank/v1beta1/bank';
+import { EvmClient } from '../evm/evm-client.js';
+import { DEFAULT_EVM_RPC_URL } from './address.js';
+
+export type DenomKind = 'native' | 'ibc' | 'tokenfactory' | 'erc20' | 'cw20' | 'unknown';
+
+export interface DenomInfo {
+  denom: string;
+  symbol: string;
+  decimals: number;
+  kind: DenomKind;
+  name?: string;
+  source: 'override' | 'builtin' | 'bank' | 'contract' | 'fallback';
+}
+
+export interface DenomOverride {
+  symbol: string;
+  decimals: number;
+  name?: string;
+}
+
+/**
+ * Chain queries the registry needs (implemented by SeiClient)
+ */
+export interface DenomMetadataSource {
+  getDenomMetadata(denom: string): Promise<Metadata | null>;
+  queryContractSmart(address: string, query: Record<string, unknown>): Promise<unknown>;
+}
+
+export const DEFAULT_DENOM_OVERRIDES_PATH = '.sei-defi/denoms.json';
+
+const BUILTIN_DENOMS: Record<string, DenomOverride> = {
+  usei: { symbol: 'SEI', decimals: 6, name: 'Sei' },
+};
+
+/**
+ * Classify a bank denom by its format
+ */
+export function classifyDenom(denom: string): DenomKind {
+  if (denom === 'usei') return 'native';
+  if (denom.startsWith('ibc/')) return 'ibc';
+  if (denom.startsWith('factory/')) return 'tokenfactory';
+  if (denom.startsWith('erc20/')) return 'erc20';
+  if (denom.startsWith('cw20/')) return 'cw20';
+  return 'unknown';
+}
+
+/**
+ * Cached denom → symbol/decimals resolution
+ */
+export class DenomRegistry {
+  private source: DenomMetadataSource;
+  private overrides: Record<string, DenomOverride>;
+  private evm: EvmClient;
+  private cache = new Map<string, DenomInfo>();
+
+  constructor(
+    source: DenomMetadataSource,
+    options: { overridesPath?: string; evmRpcUrl?: string } = {}
+  ) {
+    this.source = source;
+    this.overrides = loadOverrides(options.overridesPath || process.env.SEI_DENOM_OVERRIDES || DEFAULT_DENOM_OVERRIDES_PATH);
+    this.evm = new EvmClient(options.evmRpcUrl || process.env.SEI_EVM_RPC_URL || DEFAULT_EVM_RPC_URL, { requestTimeoutMs: 10_000 });
+  }
+
+  /**
+   * Resolve metadata for a denom (cached per registry)
+   */
+  async resolve(denom: string): Promise<DenomInfo> {
+    const cached = this.cache.get(denom);
+    if (cached) {
+      return cached;
+    }
+
+    const info = await this.lookup(denom);
+    this.cache.set(denom, info);
+    return info;
+  }
+
+  /**
+   * Resolve many denoms in parallel
+   */
+  async resolveAll(denoms: string[]): Promise<DenomInfo[]> {
+    return Promise.all(denoms.map(denom => this.resolve(denom)));
+  }
+
+  private async lookup(denom: string): Promise<DenomInfo> {
+    const kind = classifyDenom(denom);
+
+    const override = this.overrides[denom];
+    if (override) {
+      return { denom, kind, ...override, source: 'override' };
+    }
+
+    const builtin = BUILTIN_DENOMS[denom];
+    if (builtin) {
+      return { denom, kind, ...builtin, source: 'builtin' };
+    }
+
+    const fromBank = await this.fromBankMetadata(denom, kind);
+    if (fromBank) {
+      return fromBank;
+    }
+
+    const fromContract = kind === 'cw20'
+      ? await this.fromCw20(denom)
+      : kind === 'erc20'
+        ? await this.fromErc20(denom)
+        : null;
+    if (fromContract) {
+      return fromContract;
+    }
+
+    // Unknown decimals: show raw amounts rather than guess a scale
+    return { denom, kind, symbol: fallbackSymbol(denom, kind), decimals: 0, source: 'fallback' };
+  }
+
+  private async fromBankMetadata(denom: string, kind: DenomKind): Promise<DenomInfo | null> {
+    try {
+      const metadata = await this.source.getDenomMetadata(denom);
+      if (!metadata || metadata.denomUnits.length === 0) {
+        return null;
+      }
+
+      const displayUnit = metadata.denomUnits.find(unit => unit.denom === metadata.display)
+        ?? metadata.denomUnits.reduce((max, unit) => (unit.exponent > max.exponent ? unit : max));
+
+      return {
+        denom,
+        kind,
+        symbol: metadata.symbol || displayUnit.denom.toUpperCase(),
+        decimals: displayUnit.exponent,
+        name: metadata.name || undefined,
+        source: 'bank',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async fromCw20(denom: string): Promise<DenomInfo | null> {
+    try {
+      const info = parseCw20TokenInfo(await this.source.queryContractSmart(denom.slice('cw20/'.length), { token_info: {} }));
+      return info && { denom, kind: 'cw20', symbol: info.symbol, decimals: info.decimals, name: info.name, source: 'contract' };
+    } catch {
+      return null;
+    }
+  }
+
+  private async fromErc20(denom: string): Promise<DenomInfo | null> {
+    const contract = denom.slice('erc20/'.length);
+
+    try {
+      const [decimalsHex, symbolHex] = await Promise.all([
+        this.ethCall(contract, '0x313ce567'), // decimals()
+        this.ethCall(contract, '0x95d89b41'), // symbol()
+      ]);
+
+      return {
+        denom,
+        kind: 'erc20',
+        symbol: decodeAbiString(symbolHex),
+        decimals: Number(BigInt(decimalsHex)),
+        source: 'contract',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async ethCall(to: string, data: string): Promise<string> {
+    const result = await this.evm.call({ to, data });
+
+    if (result === '0x') {
+      throw new Error('Empty eth_call result');
+    }
+    return result;
+  }
+}
+
+function loadOverrides(filePath: string): Record<string, DenomOverride> {
+  const path = resolve(filePath);
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as Record<string, DenomOverride>;
+  } catch (error) {
+    throw new Error(`Failed to read denom overrides ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function fallbackSymbol(denom: string, kind: DenomKind): string {
+  switch (kind) {
+    case 'ibc':
+      return `IBC/${denom.slice(4, 10)}`;
+    case 'tokenfactory':
+      return denom.split('/').pop() || denom;
+    default:
+      return denom.length > 16 ? `${denom.slice(0, 13)}...` : denom;
+  }
+}
+
+function decodeAbiString(hex: string): string {
+  const data = hex.replace(/^0x/, '');
+
+  // Some older tokens return bytes32 instead of a dynamic string
+  if (data.length === 64) {
+    return Buffer.from(data, 'hex').toString('utf8').replace(/\0+$/, '');
+  }
+
+  const length = parseInt(data.slice(64, 128), 16);
+  return Buffer.from(data.slice(128, 128 + length * 2), 'hex').toString('utf8');
+}
+
+
+/**
+ * CW20 token_info response ({ name, symbol, decimals, total_supply }); null when malformed
+ */
+function parseCw20TokenInfo(response: unknown): { symbol: string; decimals: number; name?: string } | null {
+  if (typeof response !== 'object' || response === null) {
+    return null;
+  }
+
+  const { symbol, decimals, name } = response as Record<string, unknown>;
+  if (typeof symbol !== 'string' || typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0) {
+    return null;
+  }
+
+  return { symbol, decimals, name: typeof name === 'string' ? name : undefined };
+}
@@ -0,0 +1,307 @@
+/**
+ * Encrypted keystore for the wallet mnemonic
+ * KDF: scrypt (default) or PBKDF2-SHA256, cipher: AES-256-GCM
+ * Replaces plaintext SEI_WALLET_MNEMONIC on shared hosts
+ */
+
+import { createCipheriv, createDecipheriv, pbkdf2, randomBytes, scrypt } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { validateMnemonic } from 'bip39';
+import { deriveAccount } from './wallet.js';
+import { prompt } from './prompt.js';
+
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+
+export interface ScryptParams {
+  n: number;
+  r: number;
+  p: number;
+  dklen: number;
+  salt: string;
+}
+
+export interface Pbkdf2Params {
+  iterations: number;
+  digest: 'sha256';
+  dklen: number;
+  salt: string;
+}
+
+export interface KeystoreFile {
+  version: 1;
+  address: string;
+  evmAddress: string;
+  kdf: KeystoreKdf;
+  kdfparams: ScryptParams | Pbkdf2Params;
+  cipher: 'aes-256-gcm';
+  cipherparams: {
+    iv: string;
+    tag: string;
+  };
+  ciphertext: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const DEFAULT_KEYSTORE_PATH = '.sei-defi/keystore.json';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const SCRYPT_DEFAULTS = { n: 2 ** 17, r: 8, p: 1, dklen: 32 };
+const PBKDF2_DEFAULTS = { iterations: 600_000, digest: 'sha256' as const, dklen: 32 };
+
+/**
+ * Resolve the keystore path (SEI_KEYSTORE_PATH overrides the default)
+ */
+export function getKeystorePath(filePath?: string): string {
+  return resolve(filePath || process.env.SEI_KEYSTORE_PATH || DEFAULT_KEYSTORE_PATH);
+}
+
+/**
+ * Check whether a keystore file exists
+ */
+export function hasKeystore(filePath?: string): boolean {
+  return existsSync(getKeystorePath(filePath));
+}
+
+/**
+ * Read keystore file (public fields are available without the passphrase)
+ */
+export function readKeystore(filePath?: string): KeystoreFile {
+  const path = getKeystorePath(filePath);
+
+  if (!existsSync(path)) {
+    throw new Error(`Keystore not found at ${path}. Run: npm run keystore -- import`);
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    throw new Error(`Keystore at ${path} is not valid JSON`);
+  }
+  if (!isRecord(content) || content.version !== 1 || content.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported keystore format in ${path}`);
+  }
+
+  return parseKeystore(content, path);
+}
+
+/**
+ * Write keystore file atomically with owner-only permissions
+ */
+export function writeKeystore(keystore: KeystoreFile, filePath?: string): void {
+  const path = getKeystorePath(filePath);
+  const tmpPath = `${path}.tmp`;
+
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(tmpPath, JSON.stringify(keystore, null, 2) + '\n', { mode: 0o600 });
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Encrypt a mnemonic into a keystore structure
+ */
+export async function encryptKeystore(
+  mnemonic: string,
+  passphrase: string,
+  kdf: KeystoreKdf = 'scrypt'
+): Promise<KeystoreFile> {
+  const normalized = mnemonic.trim().split(/\s+/).join(' ');
+  if (!validateMnemonic(normalized)) {
+    throw new Error('Invalid BIP39 mnemonic');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = randomBytes(32).toString('hex');
+  const kdfparams = kdf === 'scrypt'
+    ? { ...SCRYPT_DEFAULTS, salt }
+    : { ...PBKDF2_DEFAULTS, salt };
+
+  const key = await deriveKey(passphrase, kdf, kdfparams);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(normalized, 'utf8'), cipher.final()]);
+
+  const account = await deriveAccount(normalized, 0);
+  const now = new Date().toISOString();
+
+  return {
+    version: 1,
+    address: account.address,
+    evmAddress: account.evmAddress,
+    kdf,
+    kdfparams,
+    cipher: 'aes-256-gcm',
+    cipherparams: {
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+    },
+    ciphertext: ciphertext.toString('hex'),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Decrypt the mnemonic from a keystore structure
+ */
+export async function decryptKeystore(keystore: KeystoreFile, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, keystore.kdf, keystore.kdfparams);
+
+  let mnemonic: string;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.cipherparams.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(keystore.cipherparams.tag, 'hex'));
+    mnemonic = Buffer.concat([
+      decipher.update(Buffer.from(keystore.ciphertext, 'hex')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new Error('Incorrect passphrase or corrupted keystore');
+  }
+
+  // Guard against a swapped file: the public address must match the decrypted key
+  const account = await deriveAccount(mnemonic, 0);
+  if (account.address !== keystore.address) {
+    throw new Error(`Keystore address mismatch (expected ${keystore.address}, got ${account.address})`);
+  }
+
+  return mnemonic;
+}
+
+/**
+ * Import a mnemonic into an encrypted keystore file
+ */
+export async function importKeystore(
+  mnemonic: string,
+  passphrase: string,
+  options: { kdf?: KeystoreKdf; overwrite?: boolean; filePath?: string } = {}
+): Promise<KeystoreFile> {
+  if (hasKeystore(options.filePath) && !options.overwrite) {
+    throw new Error(`Keystore already exists at ${getKeystorePath(options.filePath)} (use --force to replace)`);
+  }
+
+  const keystore = await encryptKeystore(mnemonic, passphrase, options.kdf);
+  writeKeystore(keystore, options.filePath);
+
+  return keystore;
+}
+
+/**
+ * Unlock the keystore and return the mnemonic
+ */
+export async function unlockKeystore(passphrase: string, filePath?: string): Promise<string> {
+  return decryptKeystore(readKeystore(filePath), passphrase);
+}
+
+/**
+ * Re-encrypt the keystore under a new passphrase (fresh salt and IV)
+ */
+export async function changeKeystorePassphrase(
+  oldPassphrase: string,
+  newPassphrase: string,
+  filePath?: string
+): Promise<KeystoreFile> {
+  const current = readKeystore(filePath);
+  const mnemonic = await decryptKeystore(current, oldPassphrase);
+  const keystore = await encryptKeystore(mnemonic, newPassphrase, current.kdf);
+
+  writeKeystore({ ...keystore, createdAt: current.createdAt }, filePath);
+
+  return keystore;
+}
+
+/**
+ * Get the keystore passphrase (SEI_KEYSTORE_PASSPHRASE for unattended runs, otherwise prompt)
+ */
+export async function getKeystorePassphrase(question: string = 'Keystore passphrase: '): Promise<string> {
+  return process.env.SEI_KEYSTORE_PASSPHRASE || prompt(question, true);
+}
+
+/**
+ * Field-by-field check of a version 1 keystore, so a damaged file fails here rather than in the KDF or cipher
+ */
+function parseKeystore(content: Record<string, unknown>, path: string): KeystoreFile {
+  const invalid = (field: string) => new Error(`Invalid keystore in ${path}: bad ${field}`);
+  const { address, evmAddress, kdf, kdfparams, cipherparams, ciphertext, createdAt, updatedAt } = content;
+
+  for (const [field, value] of Object.entries({ address, evmAddress, createdAt, updatedAt })) {
+    if (typeof value !== 'string' || !value) {
+      throw invalid(field);
+    }
+  }
+  if (!isHex(ciphertext)) {
+    throw invalid('ciphertext');
+  }
+  if (!isRecord(cipherparams) || !isHex(cipherparams.iv) || !isHex(cipherparams.tag)) {
+    throw invalid('cipherparams');
+  }
+  if (!isRecord(kdfparams) || !isHex(kdfparams.salt) || !isPositiveInteger(kdfparams.dklen)) {
+    throw invalid('kdfparams');
+  }
+
+  let params: ScryptParams | Pbkdf2Params;
+  if (kdf === 'scrypt') {
+    const { n, r, p } = kdfparams;
+    if (!isPositiveInteger(n) || !isPositiveInteger(r) || !isPositiveInteger(p)) {
+      throw invalid('kdfparams');
+    }
+    params = { n, r, p, dklen: kdfparams.dklen, salt: kdfparams.salt };
+  } else if (kdf === 'pbkdf2') {
+    if (!isPositiveInteger(kdfparams.iterations) || kdfparams.digest !== 'sha256') {
+      throw invalid('kdfparams');
+    }
+    params = { iterations: kdfparams.iterations, digest: 'sha256', dklen: kdfparams.dklen, salt: kdfparams.salt };
+  } else {
+    throw invalid('kdf');
+  }
+
+  return {
+    version: 1,
+    address: address as string,
+    evmAddress: evmAddress as string,
+    kdf,
+    kdfparams: params,
+    cipher: 'aes-256-gcm',
+    cipherparams: { iv: cipherparams.iv, tag: cipherparams.tag },
+    ciphertext,
+    createdAt: createdAt as string,
+    updatedAt: updatedAt as string,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHex(value: unknown): value is string {
+  return typeof value === 'string' && /^([0-9a-f]{2})+$/i.test(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function deriveKey(passphrase: string, kdf: KeystoreKdf, params: ScryptParams | Pbkdf2Params): Promise<Buffer> {
+  const salt = Buffer.from(params.salt, 'hex');
+
+  return new Promise((resolvePromise, reject) => {
+    if (kdf === 'scrypt') {
+      const { n, r, p, dklen } = params as ScryptParams;
+      scrypt(passphrase, salt, dklen, { N: n, r, p, maxmem: 256 * n * r }, (error, key) =>
+        error ? reject(error) : resolvePromise(key)
+      );
+    } else if (kdf === 'pbkdf2') {
+      const { iterations, digest, dklen } = params as Pbkdf2Params;
+      pbkdf2(passphrase, salt, iterations, dklen, digest, (error, key) =>
+        error ? reject(error) : resolvePromise(key)
+      );
+    } else {
+      reject(new Error(`Unsupported keystore KDF: ${kdf}`));
+    }
+  });
+}
@@ -0,0 +1,77 @@
+import { createInterface, Interface } from 'readline';
+import { Writable } from 'stream';
+
+// One shared reader so consecutive prompts don't lose buffered (piped) lines
+let reader: Interface | null = null;
+let muted = false;
+let closed = false;
+const bufferedLines: string[] = [];
+const waiting: Array<{ resolve: (line: string) => void; reject: (error: Error) => void }> = [];
+
+function getReader(): Interface {
+  if (!reader) {
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        if (!muted) {
+          process.stdout.write(chunk);
+        }
+        callback();
+      },
+    });
+
+    reader = createInterface({
+      input: process.stdin,
+      output,
+      terminal: process.stdin.isTTY === true,
+    });
+
+    reader.on('line', line => {
+      const next = waiting.shift();
+      if (next) {
+        next.resolve(line);
+      } else {
+        bufferedLines.push(line);
+      }
+    });
+
+    reader.on('close', () => {
+      closed = true;
+      waiting.splice(0).forEach(next => next.reject(new Error('Prompt cancelled (no input)')));
+    });
+  }
+
+  return reader;
+}
+
+/**
+ * Ask a question on the terminal (input is not echoed when hidden)
+ */
+export async function prompt(question: string, hidden: boolean = false): Promise<string> {
+  const rl = getReader();
+
+  process.stdout.write(question);
+  muted = hidden;
+
+  try {
+    const buffered = bufferedLines.shift();
+    if (buffered !== undefined) {
+      return buffered.trim();
+    }
+    if (closed) {
+      throw new Error('Prompt cancelled (no input)');
+    }
+
+    rl.resume();
+    const line = await new Promise<string>((resolve, reject) => waiting.push({ resolve, reject }));
+    return line.trim();
+  } finally {
+    muted = false;
+    if (hidden) {
+      process.stdout.write('\n');
+    }
+    // Let the process exit while nobody is waiting for input
+    if (waiting.length === 0) {
+      rl.pause();
+    }
+  }
+}
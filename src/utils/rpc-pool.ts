@@ -0,0 +1,259 @@
+/**
+ * Multi-endpoint RPC pool with health probing and failover
+ * Ranks RPC endpoints (Tendermint by default, EVM via a custom probe) by block-height lag and latency, and retries
+ * failed calls on the next endpoint with exponential backoff
+ */
+
+export const DEFAULT_RPC_ENDPOINTS = [
+  'https://sei-rpc.polkachu.com',
+  'https://rpc.sei-apis.com',
+  'https://sei-rpc.brocha.in',
+  'https://rpc.sei.io',
+];
+
+export interface EndpointStatus {
+  url: string;
+  healthy: boolean;
+  latencyMs: number | null;
+  height: number | null;
+  lag: number | null; // Blocks behind the highest endpoint
+  lastError?: string;
+  checkedAt: Date | null;
+}
+
+export interface RpcFailoverOptions {
+  maxRetries: number; // Attempts after the first failure
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxBlockLag: number; // Endpoints further behind are only used as a last resort
+  probeTimeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: RpcFailoverOptions = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxBlockLag: 5,
+  probeTimeoutMs: 5000,
+};
+
+/**
+ * Fetch an endpoint's latest block height; throws when the endpoint is unusable
+ */
+export type HeightProbe = (url: string, timeoutMs: number) => Promise<number>;
+
+/**
+ * Tendermint RPC probe: /status height, rejecting nodes that are still catching up
+ */
+export const tendermintHeightProbe: HeightProbe = async (url, timeoutMs) => {
+  const response = await fetch(`${url}/status`, {
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const body = await response.json() as {
+    result?: { sync_info?: { latest_block_height?: string; catching_up?: boolean } };
+  };
+  const syncInfo = body.result?.sync_info;
+  if (!syncInfo?.latest_block_height) {
+    throw new Error('Malformed /status response');
+  }
+  if (syncInfo.catching_up) {
+    throw new Error('Node is catching up');
+  }
+
+  return parseInt(syncInfo.latest_block_height, 10);
+};
+
+/**
+ * Whether an error means the endpoint itself failed (network, timeout, HTTP 5xx/429) rather than the node
+ * answering the request with an error (revert, bad params, query error), which every endpoint would repeat
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return true;
+  }
+  const cause = error instanceof Error && error.cause instanceof Error ? ` ${error.cause.message}` : '';
+  const message = (error instanceof Error ? error.message : String(error)) + cause;
+  return /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|timed? ?out|HTTP (5\d\d|429)|Bad status on response: (5\d\d|429)|Malformed (JSON-RPC|\/status) response/i.test(message);
+}
+
+/**
+ * Parse a comma-separated endpoint list (e.g. SEI_RPC_URL="https://a,https://b")
+ */
+export function parseRpcEndpoints(value?: string | string[]): string[] {
+  if (!value || value.length === 0) {
+    return [...DEFAULT_RPC_ENDPOINTS];
+  }
+
+  const list = Array.isArray(value) ? value : value.split(',');
+  const urls = list.map(url => url.trim().replace(/\/+$/, '')).filter(Boolean);
+
+  return urls.length > 0 ? [...new Set(urls)] : [...DEFAULT_RPC_ENDPOINTS];
+}
+
+/**
+ * Pool of RPC endpoints shared by a client
+ */
+export class RpcEndpointPool {
+  private statuses: EndpointStatus[];
+  private activeUrl: string | null = null;
+  private options: RpcFailoverOptions;
+  private heightProbe: HeightProbe;
+
+  constructor(
+    endpoints: string | string[],
+    options: Partial<RpcFailoverOptions> = {},
+    heightProbe: HeightProbe = tendermintHeightProbe
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.heightProbe = heightProbe;
+    this.statuses = parseRpcEndpoints(endpoints).map(url => ({
+      url,
+      healthy: true,
+      latencyMs: null,
+      height: null,
+      lag: null,
+      checkedAt: null,
+    }));
+  }
+
+  /**
+   * Endpoint currently in use (null before the first successful call)
+   */
+  getActiveEndpoint(): string | null {
+    return this.activeUrl;
+  }
+
+  /**
+   * Latest probe results for every endpoint
+   */
+  getStatus(): EndpointStatus[] {
+    return this.statuses.map(status => ({ ...status }));
+  }
+
+  /**
+   * Probe all endpoints for latency and latest block height
+   */
+  async probe(): Promise<EndpointStatus[]> {
+    await Promise.all(this.statuses.map(status => this.probeEndpoint(status)));
+
+    const maxHeight = Math.max(0, ...this.statuses.map(status => status.height ?? 0));
+    this.statuses.forEach(status => {
+      status.lag = status.height !== null ? maxHeight - status.height : null;
+    });
+
+    return this.getStatus();
+  }
+
+  /**
+   * Endpoints ordered by preference: healthy and in sync, then by latency
+   */
+  rankedEndpoints(): string[] {
+    const score = (status: EndpointStatus): number => {
+      if (!status.healthy) return 2;
+      if (status.lag !== null && status.lag > this.options.maxBlockLag) return 1;
+      return 0;
+    };
+
+    return [...this.statuses]
+      .sort((a, b) =>
+        score(a) - score(b) ||
+        (a.latencyMs ?? Number.MAX_SAFE_INTEGER) - (b.latencyMs ?? Number.MAX_SAFE_INTEGER)
+      )
+      .map(status => status.url);
+  }
+
+  /**
+   * Run an operation against the best endpoint, failing over on connection errors
+   * The callback receives the endpoint URL and should throw on failure; other errors are rethrown at once
+   */
+  async withFailover<T>(operation: (url: string) => Promise<T>, description: string = 'RPC call'): Promise<T> {
+    const errors: string[] = [];
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const delay = Math.min(this.options.baseDelayMs * 2 ** (attempt - 1), this.options.maxDelayMs);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      // Stay on the active endpoint while it works, otherwise take the next best one
+      const ranked = this.rankedEndpoints();
+      const url = this.activeUrl && this.isHealthy(this.activeUrl) ? this.activeUrl : ranked[0];
+
+      try {
+        const result = await operation(url);
+        if (this.activeUrl !== url) {
+          console.log(`🔀 Using RPC endpoint ${url}`);
+        }
+        this.activeUrl = url;
+        this.markHealthy(url);
+        return result;
+      } catch (error) {
+        if (!isConnectionError(error)) {
+          throw error; // The node answered: another endpoint would give the same answer
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${url}: ${message}`);
+        this.markFailed(url, message);
+        console.log(`⚠️ ${description} failed on ${url} (attempt ${attempt + 1}/${this.options.maxRetries + 1}): ${message}`);
+
+        // Every endpoint failed once: re-probe so recovered endpoints become eligible again
+        if (this.statuses.every(status => !status.healthy)) {
+          await this.probe();
+        }
+      }
+    }
+
+    throw new Error(`${description} failed on all RPC endpoints:\n  ${errors.join('\n  ')}`);
+  }
+
+  /**
+   * Mark an endpoint as failed so the next call fails over
+   */
+  markFailed(url: string, error: string): void {
+    const status = this.statuses.find(entry => entry.url === url);
+    if (status) {
+      status.healthy = false;
+      status.lastError = error;
+    }
+    if (this.activeUrl === url) {
+      this.activeUrl = null;
+    }
+  }
+
+  private markHealthy(url: string): void {
+    const status = this.statuses.find(entry => entry.url === url);
+    if (status) {
+      status.healthy = true;
+      status.lastError = undefined;
+    }
+  }
+
+  private isHealthy(url: string): boolean {
+    return this.statuses.find(entry => entry.url === url)?.healthy ?? false;
+  }
+
+  private async probeEndpoint(status: EndpointStatus): Promise<void> {
+    const started = Date.now();
+
+    try {
+      const height = await this.heightProbe(status.url, this.options.probeTimeoutMs);
+
+      status.healthy = true;
+      status.latencyMs = Date.now() - started;
+      status.height = height;
+      status.lastError = undefined;
+    } catch (error) {
+      status.healthy = false;
+      status.latencyMs = null;
+      status.height = null;
+      status.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    status.checkedAt = new Date();
+  }
+}
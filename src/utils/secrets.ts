@@ -3,6 +3,8 @@
  * These functions work with GitHub Actions secrets and environment variables
  */
 
+import { isValidSeiAddress, parseSeiAddress } from './address.js';
+
 export interface WalletCredentials {
   address: string;
   privateKey?: string;
@@ -38,7 +40,7 @@ export function getWalletAddress(): string {
     throw new Error('SEI_WALLET_ADDRESS environment variable is required');
   }
 
-  return address;
+  return parseSeiAddress(address);
 }
 
 /**
@@ -52,8 +54,8 @@ export function hasWalletCredentials(): boolean {
  * Validate wallet credentials format
  */
 export function validateWalletCredentials(credentials: WalletCredentials): boolean {
-  // Check address format (should start with 'sei1')
-  if (!credentials.address.startsWith('sei1')) {
+  // Check address format (checksum-verified sei1 bech32)
+  if (!isValidSeiAddress(credentials.address)) {
     return false;
   }
 
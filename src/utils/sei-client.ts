@@ -1,54 +1,115 @@
-import { StargateClient } from '@cosmjs/stargate';
+import { BankExtension, QueryClient, setupBankExtension, StargateClient } from '@cosmjs/stargate';
+import { setupWasmExtension, WasmExtension } from '@cosmjs/cosmwasm-stargate';
+import { connectComet } from '@cosmjs/tendermint-rpc';
 import { Coin } from '@cosmjs/amino';
+import type { Metadata } from 'cosmjs-types/cosmos/bank/v1beta1/bank';
+import { EndpointStatus, isConnectionError, RpcEndpointPool, RpcFailoverOptions } from './rpc-pool.js';
+import { DenomInfo, DenomKind, DenomMetadataSource, DenomRegistry } from './denom-registry.js';
+import { SEI, TokenAmount } from './token-amount.js';
+
+export interface TokenBalance {
+  denom: string;
+  symbol: string;
+  decimals: number;
+  kind: DenomKind;
+  rawAmount: string; // Base units as returned by the bank module
+  amount: string; // Human amount, exact decimal string
+  value: TokenAmount;
+  source: DenomInfo['source'];
+}
 
 export interface BalanceInfo {
   address: string;
-  balances: Coin[];
+  balances: readonly Coin[];
+  tokens: TokenBalance[];
+  sei: TokenAmount;
   totalSEI: string;
 }
 
+type ChainQueryClient = QueryClient & BankExtension & WasmExtension;
+
 /**
  * SEI blockchain client for querying balances and network information
+ * Accepts several RPC endpoints and fails over between them
  */
-export class SeiClient {
+export class SeiClient implements DenomMetadataSource {
   private client: StargateClient | null = null;
-  private rpcUrl: string;
+  private queryClient: ChainQueryClient | null = null;
+  private clientUrl: string | null = null;
+  private pool: RpcEndpointPool;
+  private denoms: DenomRegistry;
 
-  constructor(rpcUrl: string = 'https://sei-rpc.polkachu.com') {
-    this.rpcUrl = rpcUrl;
+  constructor(rpcUrls?: string | string[], options: Partial<RpcFailoverOptions> = {}, evmRpcUrl?: string) {
+    this.pool = new RpcEndpointPool(rpcUrls ?? [], options);
+    this.denoms = new DenomRegistry(this, { evmRpcUrl });
   }
 
   /**
-   * Connect to SEI network
+   * Connect to SEI network (probes endpoints and picks the best one)
    */
   async connect(): Promise<void> {
     try {
-      this.client = await StargateClient.connect(this.rpcUrl);
-      console.log(`Connected to SEI network at ${this.rpcUrl}`);
+      await this.pool.probe();
+      await this.withClient(async () => undefined, 'Connect');
+      console.log(`Connected to SEI network at ${this.clientUrl}`);
     } catch (error) {
       throw new Error(`Failed to connect to SEI network: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get all balances for an address
+   * Endpoint currently serving requests
    */
-  async getBalances(address: string): Promise<BalanceInfo> {
-    if (!this.client) {
-      await this.connect();
-    }
+  getActiveEndpoint(): string | null {
+    return this.pool.getActiveEndpoint();
+  }
 
+  /**
+   * Latency / block-lag status of every configured endpoint
+   */
+  getEndpointStatus(): EndpointStatus[] {
+    return this.pool.getStatus();
+  }
+
+  /**
+   * Re-probe all endpoints
+   */
+  async probeEndpoints(): Promise<EndpointStatus[]> {
+    return this.pool.probe();
+  }
+
+  /**
+   * Get all balances for an address, with symbol and decimals resolved per denom
+   */
+  async getBalances(address: string): Promise<BalanceInfo> {
     try {
-      const balances = await this.client!.getAllBalances(address);
-      
+      const balances = await this.withClient(client => client.getAllBalances(address), 'Get balances');
+      const infos = await this.denoms.resolveAll(balances.map(balance => balance.denom));
+
+      const tokens = balances.map((balance, i) => {
+        const value = TokenAmount.fromRaw(balance.amount, infos[i]);
+        return {
+          denom: balance.denom,
+          symbol: infos[i].symbol,
+          decimals: infos[i].decimals,
+          kind: infos[i].kind,
+          rawAmount: balance.amount,
+          amount: value.toString(),
+          value,
+          source: infos[i].source,
+        };
+      });
+
       // Find SEI balance (native token)
-      const seiBalance = balances.find(balance => balance.denom === 'usei');
-      const totalSEI = seiBalance ? (parseInt(seiBalance.amount) / 1_000_000).toString() : '0';
+      const seiToken = tokens.find(token => token.denom === SEI.denom);
+      const sei = seiToken ? TokenAmount.fromRaw(seiToken.rawAmount, SEI) : TokenAmount.zero(SEI);
 
       return {
         address,
         balances,
-        totalSEI,
+        tokens,
+        sei,
+        totalSEI: sei.toString(),
       };
     } catch (error) {
       throw new Error(`Failed to get balances: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -58,31 +119,54 @@ export class SeiClient {
   /**
    * Get SEI balance only
    */
-  async getSeiBalance(address: string): Promise<string> {
+  async getSeiBalance(address: string): Promise<TokenAmount> {
     const balanceInfo = await this.getBalances(address);
-    return balanceInfo.totalSEI;
+    return balanceInfo.sei;
+  }
+
+  /**
+   * Denom metadata registry used for balance display
+   */
+  getDenomRegistry(): DenomRegistry {
+    return this.denoms;
+  }
+
+  /**
+   * Bank module metadata for a denom (null when the chain has none registered)
+   */
+  async getDenomMetadata(denom: string): Promise<Metadata | null> {
+    return this.withClient(async (_client, queryClient) => {
+      try {
+        return await queryClient.bank.denomMetadata(denom);
+      } catch (error) {
+        // Missing metadata is an answer, not an endpoint failure
+        if (error instanceof Error && /not found/i.test(error.message)) {
+          return null;
+        }
+        throw error;
+      }
+    }, 'Get denom metadata');
+  }
+
+  /**
+   * CosmWasm smart query (used for CW20 token_info); the response is unvalidated JSON
+   */
+  async queryContractSmart(address: string, query: Record<string, unknown>): Promise<unknown> {
+    return this.withClient((_client, queryClient) => queryClient.wasm.queryContractSmart(address, query), 'Contract query');
   }
 
   /**
    * Get network chain ID
    */
   async getChainId(): Promise<string> {
-    if (!this.client) {
-      await this.connect();
-    }
-    
-    return await this.client!.getChainId();
+    return this.withClient(client => client.getChainId(), 'Get chain ID');
   }
 
   /**
    * Get latest block height
    */
   async getHeight(): Promise<number> {
-    if (!this.client) {
-      await this.connect();
-    }
-    
-    return await this.client!.getHeight();
+    return this.withClient(client => client.getHeight(), 'Get height');
   }
 
   /**
@@ -90,9 +174,44 @@ export class SeiClient {
    */
   async disconnect(): Promise<void> {
     if (this.client) {
-      this.client.disconnect();
-      this.client = null;
+      this.dropConnection();
       console.log('Disconnected from SEI network');
     }
   }
+
+  /**
+   * Run a query on a client connected to the pool's chosen endpoint, reconnecting on failover
+   */
+  private async withClient<T>(
+    operation: (client: StargateClient, queryClient: ChainQueryClient) => Promise<T>,
+    description: string
+  ): Promise<T> {
+    return this.pool.withFailover(async url => {
+      if (!this.client || !this.queryClient || this.clientUrl !== url) {
+        this.dropConnection();
+        // One Comet connection shared by the Stargate client and the bank/wasm query extensions
+        const comet = await connectComet(url);
+        this.client = await StargateClient.create(comet);
+        this.queryClient = QueryClient.withExtensions(comet, setupBankExtension, setupWasmExtension);
+        this.clientUrl = url;
+      }
+      
+      try {
+        return await operation(this.client, this.queryClient);
+      } catch (error) {
+        // Drop the possibly broken connection before the pool fails over
+        if (isConnectionError(error)) {
+          this.dropConnection();
+        }
+        throw error;
+      }
+    }, description);
+  }
+
+  private dropConnection(): void {
+    this.client?.disconnect(); // Also closes the shared Comet connection
+    this.client = null;
+    this.queryClient = null;
+    this.clientUrl = null;
+  }
 }
\ No newline at end of file
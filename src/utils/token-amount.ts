@@ -0,0 +1,305 @@
+/**
+ * Exact token amounts
+ * Bigint base units with denom-aware parsing/formatting, so 18-decimal EVM tokens and
+ * large balances never pass through floating point on their way into a transaction
+ */
+
+import { Coin } from '@cosmjs/amino';
+
+export interface Token {
+  denom: string; // Bank denom or EVM token address
+  symbol: string;
+  decimals: number;
+}
+
+export type Rounding = 'down' | 'up';
+
+/**
+ * Anything an amount-taking method accepts: human strings are parsed exactly,
+ * numbers are truncated to the token's precision
+ */
+export type AmountInput = TokenAmount | number | string;
+
+export const SEI: Token = { denom: 'usei', symbol: 'SEI', decimals: 6 };
+
+// Native SEI as the EVM sees it (balances, value and gas fees in 18 decimals)
+export const EVM_SEI: Token = { denom: 'asei', symbol: 'SEI', decimals: 18 };
+
+/**
+ * Format base units with the given decimals (exact, trailing zeros trimmed)
+ */
+export function formatUnits(raw: bigint | string, decimals: number): string {
+  const value = BigInt(raw);
+  if (decimals === 0) {
+    return value.toString();
+  }
+
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Parse a human decimal into base units
+ * 'exact' rejects input with more fractional digits than the token supports
+ */
+export function parseUnits(value: string | number, decimals: number, rounding: Rounding | 'exact' = 'exact'): bigint {
+  const { digits, scale } = toDecimal(value);
+
+  if (scale <= decimals) {
+    return digits * 10n ** BigInt(decimals - scale);
+  }
+
+  if (rounding === 'exact') {
+    throw new Error(`Amount ${value} has more than ${decimals} decimal places`);
+  }
+  return divideRounded(digits, 10n ** BigInt(scale - decimals), rounding);
+}
+
+/**
+ * Immutable amount of a specific token
+ */
+export class TokenAmount {
+  readonly raw: bigint;
+  readonly token: Token;
+
+  private constructor(raw: bigint, token: Token) {
+    this.raw = raw;
+    this.token = token;
+  }
+
+  /**
+   * Wrap base units (e.g. a bank balance or uint256 from a contract)
+   */
+  static fromRaw(raw: bigint | string | number, token: Token): TokenAmount {
+    if (typeof raw === 'number' && !Number.isSafeInteger(raw)) {
+      throw new Error(`Raw amount ${raw} is not a safe integer; pass a string or bigint`);
+    }
+    return new TokenAmount(BigInt(raw), token);
+  }
+
+  /**
+   * Parse a human amount ("1.5" SEI → 1500000 usei); negative input is rejected
+   */
+  static parse(value: string | number, token: Token, rounding: Rounding | 'exact' = 'exact'): TokenAmount {
+    // Checked on the input so a tiny negative cannot round up to zero
+    if (Number(value) < 0) {
+      throw new Error(`Amount ${value} ${token.symbol} is negative`);
+    }
+    return new TokenAmount(parseUnits(value, token.decimals, rounding), token);
+  }
+
+  /**
+   * Normalize method input: strings must be exact, numbers are truncated like the old Math.floor
+   */
+  static from(value: AmountInput, token: Token): TokenAmount {
+    if (value instanceof TokenAmount) {
+      value.assertSameToken(token);
+      return value;
+    }
+    return TokenAmount.parse(value, token, typeof value === 'number' ? 'down' : 'exact');
+  }
+
+  static zero(token: Token): TokenAmount {
+    return new TokenAmount(0n, token);
+  }
+
+  static min(a: TokenAmount, b: TokenAmount): TokenAmount {
+    return a.lte(b) ? a : b;
+  }
+
+  static max(a: TokenAmount, b: TokenAmount): TokenAmount {
+    return a.gte(b) ? a : b;
+  }
+
+  add(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other.token);
+    return new TokenAmount(this.raw + other.raw, this.token);
+  }
+
+  sub(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other.token);
+    return new TokenAmount(this.raw - other.raw, this.token);
+  }
+
+  /**
+   * Multiply by a decimal factor (e.g. an LTV of 0.75), rounding down by default
+   */
+  mul(factor: number | string, rounding: Rounding = 'down'): TokenAmount {
+    const { digits, scale } = toDecimal(factor);
+    return new TokenAmount(divideRounded(this.raw * digits, 10n ** BigInt(scale), rounding), this.token);
+  }
+
+  /**
+   * Divide by a decimal divisor, rounding down by default
+   */
+  div(divisor: number | string, rounding: Rounding = 'down'): TokenAmount {
+    const { digits, scale } = toDecimal(divisor);
+    if (digits === 0n) {
+      throw new Error('Division by zero');
+    }
+    return new TokenAmount(divideRounded(this.raw * 10n ** BigInt(scale), digits, rounding), this.token);
+  }
+
+  /**
+   * this × numerator / denominator in integer space (for on-chain ratios like bps or ray)
+   */
+  mulDiv(numerator: bigint, denominator: bigint, rounding: Rounding = 'down'): TokenAmount {
+    if (denominator === 0n) {
+      throw new Error('Division by zero');
+    }
+    return new TokenAmount(divideRounded(this.raw * numerator, denominator, rounding), this.token);
+  }
+
+  /**
+   * Value in another token at a human price (units of `to` per unit of this token)
+   */
+  convert(price: number | string, to: Token, rounding: Rounding = 'down'): TokenAmount {
+    const { digits, scale } = toDecimal(price);
+    const exponent = to.decimals - this.token.decimals - scale;
+    const numerator = this.raw * digits * (exponent > 0 ? 10n ** BigInt(exponent) : 1n);
+    const denominator = exponent < 0 ? 10n ** BigInt(-exponent) : 1n;
+
+    return new TokenAmount(divideRounded(numerator, denominator, rounding), to);
+  }
+
+  /**
+   * this / other as a float (display and risk ratios only, never for transaction amounts)
+   */
+  ratio(other: TokenAmount): number {
+    this.assertSameToken(other.token);
+    if (other.raw === 0n) {
+      return this.raw === 0n ? 0 : Infinity;
+    }
+
+    // Keep 18 significant decimals in integer space before converting
+    const scaled = (this.raw * 10n ** 18n) / other.raw;
+    return Number(scaled) / 1e18;
+  }
+
+  cmp(other: TokenAmount): -1 | 0 | 1 {
+    this.assertSameToken(other.token);
+    return this.raw < other.raw ? -1 : this.raw > other.raw ? 1 : 0;
+  }
+
+  eq(other: TokenAmount): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: TokenAmount): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: TokenAmount): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  gt(other: TokenAmount): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: TokenAmount): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.raw < 0n;
+  }
+
+  /**
+   * Lossy float value for display math (APY, charts)
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Exact human amount ("1.5")
+   */
+  toString(): string {
+    return formatUnits(this.raw, this.token.decimals);
+  }
+
+  /**
+   * Human amount with symbol, optionally truncated to a number of decimals ("1.5 SEI")
+   */
+  format(maxDecimals?: number): string {
+    let text = this.toString();
+    if (maxDecimals !== undefined && text.includes('.')) {
+      const [whole, fraction] = text.split('.');
+      const trimmed = fraction.slice(0, maxDecimals).replace(/0+$/, '');
+      text = trimmed ? `${whole}.${trimmed}` : whole;
+    }
+    return `${text} ${this.token.symbol}`;
+  }
+
+  /**
+   * Cosmos coin in base units
+   */
+  toCoin(): Coin {
+    if (this.raw < 0n) {
+      throw new Error(`Cannot send a negative amount (${this.format()})`);
+    }
+    return { denom: this.token.denom, amount: this.raw.toString() };
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private assertSameToken(token: Token): void {
+    if (token.denom !== this.token.denom || token.decimals !== this.token.decimals) {
+      throw new Error(`Token mismatch: ${this.token.symbol} (${this.token.denom}) vs ${token.symbol} (${token.denom})`);
+    }
+  }
+}
+
+/**
+ * Split a decimal (number or string, scientific notation allowed) into integer digits and scale
+ */
+function toDecimal(value: number | string): { digits: bigint; scale: number } {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  // String(number) is the shortest round-trip form, so 0.1 stays "0.1" rather than 0.1000000000000000055
+  const text = String(value).trim();
+  const match = /^(-?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: "${value}"`);
+  }
+
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  let digits = BigInt(`${sign}${whole}${fraction}` || '0');
+  let scale = fraction.length - parseInt(exponent, 10);
+
+  if (scale < 0) {
+    digits *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+
+  return { digits, scale };
+}
+
+function divideRounded(numerator: bigint, denominator: bigint, rounding: Rounding): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  // bigint division truncates toward zero; adjust toward -∞ / +∞ for down / up
+  const negative = (numerator < 0n) !== (denominator < 0n);
+  if (rounding === 'down') {
+    return negative ? quotient - 1n : quotient;
+  }
+  return negative ? quotient : quotient + 1n;
+}
@@ -0,0 +1,175 @@
+/**
+ * Multi-account HD wallet registry
+ * Derives labelled accounts from one mnemonic by HD index for risk isolation.
+ * Only public data (label → index → address) is persisted; keys are never written.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { deriveAccount, DerivedAccount } from './wallet.js';
+import { getWalletAddress } from './secrets.js';
+
+export interface RegisteredAccount {
+  label: string;
+  index: number;
+  address: string;
+  evmAddress: string;
+  hdPath: string;
+  createdAt: string;
+}
+
+export interface ResolvedAccount {
+  label?: string;
+  index: number;
+  address: string;
+}
+
+interface RegistryFile {
+  version: 1;
+  accounts: RegisteredAccount[];
+}
+
+export const DEFAULT_REGISTRY_PATH = '.sei-defi/wallets.json';
+
+const LABEL_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+/**
+ * Local label → index → address mapping for accounts derived from one mnemonic
+ */
+export class WalletRegistry {
+  private filePath: string;
+  private accounts: RegisteredAccount[] = [];
+
+  constructor(filePath: string = process.env.SEI_WALLET_REGISTRY || DEFAULT_REGISTRY_PATH) {
+    this.filePath = resolve(filePath);
+    this.load();
+  }
+
+  /**
+   * Path of the registry file on disk
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * All registered accounts, ordered by HD index
+   */
+  list(): RegisteredAccount[] {
+    return [...this.accounts].sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Look up an account by label
+   */
+  get(label: string): RegisteredAccount | undefined {
+    return this.accounts.find(account => account.label === label);
+  }
+
+  /**
+   * Derive and register a labelled account (next free index unless one is given)
+   */
+  async addAccount(mnemonic: string, label: string, index?: number): Promise<RegisteredAccount> {
+    if (!LABEL_PATTERN.test(label)) {
+      throw new Error(`Invalid account label "${label}" (use letters, digits, "-" or "_")`);
+    }
+    if (this.get(label)) {
+      throw new Error(`Account label "${label}" is already registered`);
+    }
+
+    const accountIndex = index ?? this.nextIndex();
+    const existing = this.accounts.find(account => account.index === accountIndex);
+    if (existing) {
+      throw new Error(`HD index ${accountIndex} is already registered as "${existing.label}"`);
+    }
+
+    const derived = await deriveAccount(mnemonic, accountIndex);
+    const account: RegisteredAccount = {
+      label,
+      index: derived.index,
+      address: derived.address,
+      evmAddress: derived.evmAddress,
+      hdPath: derived.hdPath,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.accounts.push(account);
+    this.save();
+
+    return account;
+  }
+
+  /**
+   * Remove an account from the registry (the key itself is unaffected)
+   */
+  remove(label: string): boolean {
+    const before = this.accounts.length;
+    this.accounts = this.accounts.filter(account => account.label !== label);
+
+    if (this.accounts.length === before) {
+      return false;
+    }
+
+    this.save();
+    return true;
+  }
+
+  /**
+   * Re-derive a registered account and check the mnemonic still produces the stored address
+   */
+  async unlock(mnemonic: string, label: string): Promise<DerivedAccount> {
+    const account = this.get(label);
+    if (!account) {
+      throw new Error(`Unknown wallet account "${label}"`);
+    }
+
+    const derived = await deriveAccount(mnemonic, account.index);
+    if (derived.address !== account.address) {
+      throw new Error(`Mnemonic does not match registered account "${label}" (${account.address})`);
+    }
+
+    return derived;
+  }
+
+  private nextIndex(): number {
+    return this.accounts.reduce((max, account) => Math.max(max, account.index + 1), 0);
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as RegistryFile;
+      this.accounts = Array.isArray(data.accounts) ? data.accounts : [];
+    } catch (error) {
+      throw new Error(`Failed to read wallet registry ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private save(): void {
+    const data: RegistryFile = { version: 1, accounts: this.list() };
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n');
+  }
+}
+
+/**
+ * Resolve the account a command should use
+ * Order: explicit label → SEI_WALLET_ACCOUNT → SEI_WALLET_ADDRESS (HD index 0)
+ */
+export function resolveAccount(label?: string): ResolvedAccount {
+  const accountLabel = label || process.env.SEI_WALLET_ACCOUNT;
+
+  if (accountLabel) {
+    const registry = new WalletRegistry();
+    const account = registry.get(accountLabel);
+    if (!account) {
+      throw new Error(`Unknown wallet account "${accountLabel}". Run: npm run accounts -- list`);
+    }
+    return { label: account.label, index: account.index, address: account.address };
+  }
+
+  return { index: 0, address: getWalletAddress() };
+}
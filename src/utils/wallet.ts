@@ -1,10 +1,25 @@
 import { generateMnemonic, mnemonicToSeedSync } from 'bip39';
-import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
+import { DirectSecp256k1HdWallet, makeCosmoshubPath } from '@cosmjs/proto-signing';
+import { pathToString, Secp256k1, Slip10, Slip10Curve } from '@cosmjs/crypto';
+import { toHex } from '@cosmjs/encoding';
+import { deriveEvmAddress } from './address.js';
 
 export interface WalletInfo {
   address: string;
+  evmAddress: string;
   mnemonic: string;
   privateKey: string;
+  publicKey: string;
+  hdPath: string;
+}
+
+export interface DerivedAccount {
+  index: number;
+  address: string;
+  evmAddress: string;
+  privateKey: string;
+  publicKey: string;
+  hdPath: string;
 }
 
 /**
@@ -15,22 +30,16 @@ export async function createWallet(): Promise<WalletInfo> {
     // Generate 24-word mnemonic
     const mnemonic = generateMnemonic(256);
     
-    // Create wallet from mnemonic with SEI prefix
-    const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
-      prefix: 'sei',
-    });
-    
-    // Get the first account
-    const [account] = await wallet.getAccounts();
-    
-    // Get private key (for display purposes only - handle securely in production)
-    const seed = mnemonicToSeedSync(mnemonic);
-    const privateKey = seed.toString('hex').slice(0, 64);
+    // Derive the first account
+    const account = await deriveAccount(mnemonic, 0);
     
     return {
       address: account.address,
+      evmAddress: account.evmAddress,
       mnemonic,
-      privateKey,
+      privateKey: account.privateKey,
+      publicKey: account.publicKey,
+      hdPath: account.hdPath,
     };
   } catch (error) {
     throw new Error(`Failed to create wallet: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -38,12 +47,46 @@ export async function createWallet(): Promise<WalletInfo> {
 }
 
 /**
- * Restore wallet from mnemonic
+ * Derive the account at a given HD index (m/44'/118'/0'/0/<index>)
+ */
+export async function deriveAccount(mnemonic: string, index: number = 0): Promise<DerivedAccount> {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid account index: ${index}`);
+  }
+  
+  // Create wallet from mnemonic with SEI prefix
+  const wallet = await restoreWallet(mnemonic, index);
+  const [account] = await wallet.getAccounts();
+  
+  // Derive the secp256k1 key behind that account (handle securely in production)
+  const hdPath = makeCosmoshubPath(index);
+  const seed = mnemonicToSeedSync(mnemonic);
+  const { privkey } = Slip10.derivePath(Slip10Curve.Secp256k1, seed, hdPath);
+  const { pubkey } = await Secp256k1.makeKeypair(privkey);
+  
+  // Sanity check: the derived key must be the one behind the sei1 address
+  if (toHex(Secp256k1.compressPubkey(pubkey)) !== toHex(account.pubkey)) {
+    throw new Error('Derived private key does not match wallet account');
+  }
+  
+  return {
+    index,
+    address: account.address,
+    evmAddress: deriveEvmAddress(pubkey),
+    privateKey: toHex(privkey),
+    publicKey: toHex(account.pubkey),
+    hdPath: pathToString(hdPath),
+  };
+}
+
+/**
+ * Restore wallet from mnemonic (account 0 unless another HD index is given)
  */
-export async function restoreWallet(mnemonic: string): Promise<DirectSecp256k1HdWallet> {
+export async function restoreWallet(mnemonic: string, accountIndex: number = 0): Promise<DirectSecp256k1HdWallet> {
   try {
     const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
       prefix: 'sei',
+      hdPaths: [makeCosmoshubPath(accountIndex)],
     });
     
     return wallet;
@@ -55,8 +98,8 @@ export async function restoreWallet(mnemonic: string): Promise<DirectSecp256k1Hd
 /**
  * Get address from mnemonic
  */
-export async function getAddressFromMnemonic(mnemonic: string): Promise<string> {
-  const wallet = await restoreWallet(mnemonic);
+export async function getAddressFromMnemonic(mnemonic: string, accountIndex: number = 0): Promise<string> {
+  const wallet = await restoreWallet(mnemonic, accountIndex);
   const [account] = await wallet.getAccounts();
   return account.address;
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  decodeEventLog,
+  decodeFunctionData,
+  decodeFunctionResult,
+  decodeRevertReason,
+  encodeEventTopics,
+  encodeFunctionData,
+  encodeParams,
+  eventTopic,
+  functionSelector,
+} from '../src/evm/abi.js';
+
+const words = (...hex: string[]) => hex.join('');
+
+// Examples from the Solidity ABI specification
+describe('ABI encoding (Solidity spec vectors)', () => {
+  it('encodes static arguments', () => {
+    assert.equal(
+      encodeFunctionData('function baz(uint32 x, bool y) returns (bool)', [69n, true]),
+      '0xcdcd77c0' + words(
+        '0000000000000000000000000000000000000000000000000000000000000045',
+        '0000000000000000000000000000000000000000000000000000000000000001',
+      ),
+    );
+  });
+
+  it('encodes bytes, bool and a dynamic array', () => {
+    assert.equal(
+      encodeFunctionData('function sam(bytes, bool, uint256[])', ['0x64617665', true, [1n, 2n, 3n]]),
+      '0xa5643bf2' + words(
+        '0000000000000000000000000000000000000000000000000000000000000060',
+        '0000000000000000000000000000000000000000000000000000000000000001',
+        '00000000000000000000000000000000000000000000000000000000000000a0',
+        '0000000000000000000000000000000000000000000000000000000000000004',
+        '6461766500000000000000000000000000000000000000000000000000000000',
+        '0000000000000000000000000000000000000000000000000000000000000003',
+        '0000000000000000000000000000000000000000000000000000000000000001',
+        '0000000000000000000000000000000000000000000000000000000000000002',
+        '0000000000000000000000000000000000000000000000000000000000000003',
+      ),
+    );
+  });
+
+  it('encodes mixed static and dynamic arguments and decodes them back', () => {
+    const fragment = 'function f(uint256 a, uint32[] b, bytes10 c, bytes d)';
+    const data = encodeFunctionData(fragment, [0x123n, [0x456n, 0x789n], '0x31323334353637383930', '0x48656c6c6f2c20776f726c6421']);
+    assert.equal(data, '0x8be65246' + words(
+      '0000000000000000000000000000000000000000000000000000000000000123',
+      '0000000000000000000000000000000000000000000000000000000000000080',
+      '3132333435363738393000000000000000000000000000000000000000000000',
+      '00000000000000000000000000000000000000000000000000000000000000e0',
+      '0000000000000000000000000000000000000000000000000000000000000002',
+      '0000000000000000000000000000000000000000000000000000000000000456',
+      '0000000000000000000000000000000000000000000000000000000000000789',
+      '000000000000000000000000000000000000000000000000000000000000000d',
+      '48656c6c6f2c20776f726c642100000000000000000000000000000000000000',
+    ));
+
+    const decoded = decodeFunctionData(fragment, data);
+    assert.equal(decoded.a, 0x123n);
+    assert.deepEqual(decoded.b, [0x456n, 0x789n]);
+  });
+
+  it('round-trips tuples given as objects', () => {
+    const fragment = 'function get() view returns ((address token, uint24 fee, bytes path) route, string label)';
+    const token = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+    const encoded = encodeParams(
+      [
+        { type: 'tuple', components: [{ type: 'address', name: 'token' }, { type: 'uint24', name: 'fee' }, { type: 'bytes', name: 'path' }] },
+        { type: 'string' },
+      ],
+      [{ token, fee: 3000n, path: '0xabcdef' }, 'dragon'],
+    );
+
+    const [route, label] = decodeFunctionResult(fragment, '0x' + Buffer.from(encoded).toString('hex'));
+    assert.equal((route as { token: string }).token, token);
+    assert.equal((route as { fee: bigint }).fee, 3000n);
+    assert.equal(label, 'dragon');
+  });
+});
+
+describe('selectors, events and revert reasons', () => {
+  const TRANSFER = 'event Transfer(address indexed from, address indexed to, uint256 value)';
+
+  it('computes ERC20 selectors and topics', () => {
+    assert.equal(functionSelector('function transfer(address to, uint256 amount) returns (bool)'), '0xa9059cbb');
+    assert.equal(functionSelector('function approve(address spender, uint256 amount) returns (bool)'), '0x095ea7b3');
+    assert.equal(eventTopic(TRANSFER), '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef');
+  });
+
+  it('filters and decodes Transfer logs', () => {
+    const to = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+    const topics = encodeEventTopics(TRANSFER, [null, to]);
+    assert.deepEqual(topics, [
+      eventTopic(TRANSFER),
+      null,
+      '0x0000000000000000000000009d8a62f656a8d1615c1294fd71e9cfb3e4855a4f',
+    ]);
+
+    const log = decodeEventLog(TRANSFER, {
+      topics: [
+        eventTopic(TRANSFER),
+        '0x000000000000000000000000000000000000000000000000000000000000dead',
+        topics[2] as string,
+      ],
+      data: '0x00000000000000000000000000000000000000000000000000000000000003e8',
+    });
+    assert.equal(log.from, '0x000000000000000000000000000000000000dEaD');
+    assert.equal(log.to, to);
+    assert.equal(log.value, 1000n);
+  });
+
+  it('decodes Error(string) and Panic(uint256)', () => {
+    assert.equal(decodeRevertReason('0x08c379a0' + words(
+      '0000000000000000000000000000000000000000000000000000000000000020',
+      '0000000000000000000000000000000000000000000000000000000000000002',
+      '3335000000000000000000000000000000000000000000000000000000000000',
+    )), '35');
+    assert.equal(decodeRevertReason('0x4e487b71' + '0000000000000000000000000000000000000000000000000000000000000011'), 'Panic(0x11)');
+    assert.equal(decodeRevertReason('0x'), null);
+  });
+});
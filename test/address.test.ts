@@ -0,0 +1,79 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import { castSeiToEvmAddress, pubkeyToLinkedAddresses, resolveLinkedAddresses, resolveLinkedAddressesWithFailover } from '../src/utils/address.js';
+import { MnemonicSigner } from '../src/signers/mnemonic-signer.js';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+type Reply = { status: number; body: unknown };
+
+describe('resolveLinkedAddresses', () => {
+  let server: Server;
+  let url: string;
+  let reply: Reply;
+
+  before(async () => {
+    server = createServer((_req, res) => {
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('returns the on-chain association', async () => {
+    const signer = await MnemonicSigner.fromMnemonic(MNEMONIC);
+    const linked = pubkeyToLinkedAddresses((await signer.getAccount()).pubkey);
+    reply = { status: 200, body: { jsonrpc: '2.0', id: 1, result: linked.evmAddress.toLowerCase() } };
+
+    assert.deepEqual(await resolveLinkedAddresses(linked.seiAddress, url), linked);
+  });
+
+  it('casts an unassociated account only when the caller asks for it', async () => {
+    const signer = await MnemonicSigner.fromMnemonic(MNEMONIC);
+    const { address } = await signer.getAccount();
+    reply = {
+      status: 200,
+      body: { jsonrpc: '2.0', id: 1, error: { code: -32000, message: `failed to find EVM address for ${address}` } },
+    };
+
+    await assert.rejects(resolveLinkedAddresses(address, url), /not associated/);
+    assert.deepEqual(await resolveLinkedAddresses(address, url, 'cast'), {
+      seiAddress: address,
+      evmAddress: castSeiToEvmAddress(address),
+      associated: false,
+    });
+  });
+
+  it('throws on transport and RPC errors instead of casting', async () => {
+    const { address } = await (await MnemonicSigner.fromMnemonic(MNEMONIC)).getAccount();
+
+    reply = { status: 503, body: {} };
+    await assert.rejects(resolveLinkedAddresses(address, url, 'cast'), /HTTP 503/);
+
+    reply = { status: 200, body: { jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'method not found' } } };
+    await assert.rejects(resolveLinkedAddresses(address, url, 'cast'), /method not found/);
+
+    await assert.rejects(resolveLinkedAddresses(address, 'http://127.0.0.1:1', 'cast'), /sei_getEVMAddress failed/);
+  });
+
+  it('moves to the next endpoint only when one is unreachable', async () => {
+    const signer = await MnemonicSigner.fromMnemonic(MNEMONIC);
+    const linked = pubkeyToLinkedAddresses((await signer.getAccount()).pubkey);
+    const unreachable = 'http://127.0.0.1:1';
+
+    reply = { status: 200, body: { jsonrpc: '2.0', id: 1, result: linked.evmAddress } };
+    assert.deepEqual(await resolveLinkedAddressesWithFailover(linked.seiAddress, [unreachable, url]), linked);
+
+    reply = { status: 200, body: { jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'method not found' } } };
+    await assert.rejects(resolveLinkedAddressesWithFailover(linked.seiAddress, [url, unreachable]), /method not found/);
+    await assert.rejects(resolveLinkedAddressesWithFailover(linked.seiAddress, [unreachable]), /sei_getEVMAddress failed/);
+  });
+});
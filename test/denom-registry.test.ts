@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DenomMetadataSource, DenomRegistry } from '../src/utils/denom-registry.js';
+
+function registryAnswering(tokenInfo: unknown): DenomRegistry {
+  const source: DenomMetadataSource = {
+    getDenomMetadata: async () => null,
+    queryContractSmart: async () => tokenInfo,
+  };
+  return new DenomRegistry(source, { overridesPath: '/nonexistent/denoms.json' });
+}
+
+describe('DenomRegistry CW20 lookup', () => {
+  it('uses a well-formed token_info response', async () => {
+    const registry = registryAnswering({ name: 'Astro', symbol: 'ASTRO', decimals: 6, total_supply: '1000' });
+    assert.deepEqual(await registry.resolve('cw20/sei1contract'), {
+      denom: 'cw20/sei1contract',
+      kind: 'cw20',
+      symbol: 'ASTRO',
+      decimals: 6,
+      name: 'Astro',
+      source: 'contract',
+    });
+  });
+
+  it('falls back to raw amounts when token_info is malformed', async () => {
+    for (const response of [null, 'ASTRO', { symbol: 'ASTRO', decimals: '6' }, { symbol: 'ASTRO', decimals: -1 }]) {
+      const info = await registryAnswering(response).resolve('cw20/sei1contract');
+      assert.equal(info.source, 'fallback');
+      assert.equal(info.decimals, 0);
+    }
+  });
+});
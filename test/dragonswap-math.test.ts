@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAmountOut } from '../src/protocols/dragonswap-v2.js';
+import {
+  computeSwapStep,
+  getAmount1Delta,
+  getSqrtRatioAtTick,
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  Q96,
+  quoteExactInput,
+  V3Pool,
+} from '../src/protocols/dragonswap-v3.js';
+
+const E18 = 10n ** 18n;
+
+describe('V2 getAmountOut', () => {
+  it('matches the UniswapV2Pair getInputPrice vectors', () => {
+    // [swapAmount, reserveIn, reserveOut, expected output], amounts in whole tokens
+    const vectors: [bigint, bigint, bigint, bigint][] = [
+      [1n, 5n, 10n, 1662497915624478906n],
+      [1n, 10n, 5n, 453305446940074565n],
+      [2n, 5n, 10n, 2851015155847869602n],
+      [2n, 10n, 5n, 831248957812239453n],
+      [1n, 10n, 10n, 906610893880149131n],
+      [1n, 100n, 100n, 987158034397061298n],
+      [1n, 1000n, 1000n, 996006981039903216n],
+    ];
+    for (const [amountIn, reserveIn, reserveOut, expected] of vectors) {
+      assert.equal(getAmountOut(amountIn * E18, reserveIn * E18, reserveOut * E18), expected);
+    }
+  });
+
+  it('rounds down and returns 0 for empty inputs', () => {
+    assert.equal(getAmountOut(2n, 100n, 100n), 1n);
+    assert.equal(getAmountOut(0n, 100n, 100n), 0n);
+    assert.equal(getAmountOut(1n, 0n, 100n), 0n);
+  });
+});
+
+describe('V3 getSqrtRatioAtTick', () => {
+  it('matches TickMath at the bounds and around tick 0', () => {
+    assert.equal(getSqrtRatioAtTick(0), Q96);
+    assert.equal(getSqrtRatioAtTick(MIN_TICK), MIN_SQRT_RATIO);
+    assert.equal(getSqrtRatioAtTick(MIN_TICK + 1), 4295343490n);
+    assert.equal(getSqrtRatioAtTick(MAX_TICK), MAX_SQRT_RATIO);
+    assert.equal(getSqrtRatioAtTick(MAX_TICK - 1), 1461373636630004318706518188784493106690254656249n);
+    assert.equal(getSqrtRatioAtTick(50), 79426470787362580746886972461n);
+  });
+
+  it('rejects ticks outside the range', () => {
+    assert.throws(() => getSqrtRatioAtTick(MIN_TICK - 1), /out of range/);
+    assert.throws(() => getSqrtRatioAtTick(MAX_TICK + 1), /out of range/);
+    assert.throws(() => getSqrtRatioAtTick(0.5), /out of range/);
+  });
+});
+
+describe('V3 computeSwapStep', () => {
+  // SwapMath vectors: price 1, liquidity 2e18, 1e18 in, fee 600 pips, one for zero
+  it('caps an exact input at the price target', () => {
+    const target = 79623317895830914510639640423n; // sqrt(101/100)
+    const step = computeSwapStep(Q96, target, 2n * E18, E18, 600);
+    assert.equal(step.amountIn, 9975124224178055n);
+    assert.equal(step.feeAmount, 5988667735148n);
+    assert.equal(step.amountOut, 9925619580021728n);
+    assert.equal(step.sqrtPriceNext, target);
+  });
+
+  it('spends the whole input short of the target', () => {
+    const target = 250541448375047931186413801569n; // sqrt(1000/100)
+    const step = computeSwapStep(Q96, target, 2n * E18, E18, 600);
+    assert.equal(step.amountIn, 999400000000000000n);
+    assert.equal(step.feeAmount, 600000000000000n);
+    assert.equal(step.amountOut, 666399946655997866n);
+    assert.ok(step.sqrtPriceNext < target);
+  });
+
+  it('uses part of the input to reach a target price of 1', () => {
+    const step = computeSwapStep(2n, 1n, 1n, 3915081100057732413702495386755767n, 1);
+    assert.equal(step.amountIn, 39614081257132168796771975168n);
+    assert.equal(step.feeAmount, 39614120871253040049813n);
+    assert.equal(step.amountOut, 0n);
+    assert.equal(step.sqrtPriceNext, 1n);
+  });
+});
+
+describe('V3 quoteExactInput', () => {
+  const pool: V3Pool = {
+    address: '0x0000000000000000000000000000000000000001',
+    tokenA: '0x0000000000000000000000000000000000000002',
+    tokenB: '0x0000000000000000000000000000000000000003',
+    zeroForOne: false,
+    fee: 3000,
+    tickSpacing: 60,
+    sqrtPriceX96: Q96,
+    tick: 0,
+    liquidity: 2n * E18,
+  };
+
+  it('equals one swap step while the input stays inside the range', () => {
+    const quote = quoteExactInput({ pool, zeroForOne: false, ticks: [{ tick: 600, liquidityNet: -pool.liquidity }], boundaryTick: 1200 }, E18 / 1000n);
+    const step = computeSwapStep(Q96, getSqrtRatioAtTick(600), pool.liquidity, E18 / 1000n, pool.fee);
+
+    assert.equal(quote.amountIn, E18 / 1000n);
+    assert.equal(quote.amountOut, step.amountOut);
+    assert.equal(quote.feeAmount, step.feeAmount);
+    assert.equal(quote.ticksCrossed, 0);
+    assert.equal(quote.exhausted, false);
+  });
+
+  it('stops consuming input once the crossed range leaves no liquidity', () => {
+    const quote = quoteExactInput({ pool, zeroForOne: false, ticks: [{ tick: 600, liquidityNet: -pool.liquidity }], boundaryTick: 1200 }, E18);
+    const toRangeEnd = getAmount1Delta(Q96, getSqrtRatioAtTick(600), pool.liquidity, true);
+
+    assert.equal(quote.ticksCrossed, 1);
+    assert.equal(quote.exhausted, true);
+    assert.equal(quote.amountIn, quote.feeAmount + toRangeEnd);
+    assert.equal(quote.sqrtPriceAfter, getSqrtRatioAtTick(1200));
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNetwork } from '../src/config/networks.js';
+import { EvmClient } from '../src/evm/evm-client.js';
+import { DragonSwapPool } from '../src/protocols/dragonswap-pools.js';
+import { getAmountOut } from '../src/protocols/dragonswap-v2.js';
+import { Q96 } from '../src/protocols/dragonswap-v3.js';
+import { CandidateRoute, DragonSwapRouter, planRoute, quoteRoute } from '../src/protocols/dragonswap-router.js';
+
+const [A, B, C, D] = ['1', '2', '3', '4'].map(digit => `0x${digit.repeat(40)}`);
+const E18 = 10n ** 18n;
+
+// V2 pairs by token pair, reserves in token order of the key
+const RESERVES = new Map<string, [bigint, bigint]>([
+  [`${A}-${B}`, [1_000n * E18, 1_000n * E18]],
+  [`${B}-${C}`, [1_000n * E18, 1_000n * E18]],
+  [`${A}-${C}`, [1_000n * E18, 1_000n * E18]],
+  [`${B}-${D}`, [1_000n * E18, 1_000n * E18]],
+  [`${C}-${D}`, [1_000n * E18, 1_000n * E18]],
+]);
+
+function v2Pool(tokenA: string, tokenB: string): DragonSwapPool {
+  return {
+    address: `pair:${tokenA}-${tokenB}`,
+    version: 'V2',
+    token0: tokenA,
+    token1: tokenB,
+    token0Address: tokenA,
+    token1Address: tokenB,
+    fee: 0.003,
+    tvl: 0,
+    price: 1,
+    fees24h: 0,
+    apr: 0,
+  };
+}
+
+const POOLS = [...RESERVES.keys()].map(key => v2Pool(...(key.split('-') as [string, string])));
+
+/**
+ * Router whose V2 pair reads come from RESERVES; `missing` pairs fail to load
+ */
+function stubRouter(missing: string[] = []): DragonSwapRouter {
+  const network = getNetwork('local');
+  const router = new DragonSwapRouter(EvmClient.forNetwork(network), network);
+  const getPair = async (tokenIn: string, tokenOut: string) => {
+    const key = RESERVES.has(`${tokenIn}-${tokenOut}`) ? `${tokenIn}-${tokenOut}` : `${tokenOut}-${tokenIn}`;
+    if (missing.includes(key)) {
+      throw new Error('fetch failed');
+    }
+    const [reserve0, reserve1] = RESERVES.get(key)!;
+    return key.startsWith(tokenIn) ? { reserveA: reserve0, reserveB: reserve1 } : { reserveA: reserve1, reserveB: reserve0 };
+  };
+  return Object.assign(router, { v2: { getPair } });
+}
+
+const pathOf = (route: CandidateRoute) => route.path.join(' → ');
+
+describe('DragonSwapRouter.loadRoutes', () => {
+  it('finds every simple path within maxHops', async () => {
+    const routes = await stubRouter().loadRoutes(POOLS, A, D, { maxHops: 3 });
+    assert.deepEqual(routes.map(pathOf).sort(), [
+      `${A} → ${B} → ${C} → ${D}`,
+      `${A} → ${B} → ${D}`,
+      `${A} → ${C} → ${B} → ${D}`,
+      `${A} → ${C} → ${D}`,
+    ]);
+
+    const short = await stubRouter().loadRoutes(POOLS, A, D, { maxHops: 2 });
+    assert.deepEqual(short.map(pathOf).sort(), [`${A} → ${B} → ${D}`, `${A} → ${C} → ${D}`]);
+    assert.deepEqual(await stubRouter().loadRoutes(POOLS, A, D, { maxHops: 1 }), []);
+  });
+
+  it('never revisits a token or routes a token to itself', async () => {
+    const routes = await stubRouter().loadRoutes(POOLS, A, C, { maxHops: 3 });
+    routes.forEach(route => assert.equal(new Set(route.path).size, route.path.length));
+    assert.deepEqual(await stubRouter().loadRoutes(POOLS, A, A), []);
+  });
+
+  it('drops routes through a pool whose state fails to load', async () => {
+    const routes = await stubRouter([`${B}-${D}`]).loadRoutes(POOLS, A, D, { maxHops: 3 });
+    assert.deepEqual(routes.map(pathOf).sort(), [`${A} → ${B} → ${C} → ${D}`, `${A} → ${C} → ${D}`]);
+  });
+
+  it('only uses the requested pool versions', async () => {
+    assert.deepEqual(await stubRouter().loadRoutes(POOLS, A, D, { versions: ['V3'] }), []);
+  });
+
+  it('leaves out routes chaining V2 and V3 pools when mixedVersions is off', async () => {
+    const v3: DragonSwapPool = { ...v2Pool(A, B), address: 'v3:A-B', version: 'V3', fee: 0.003 };
+    const pools = [v3, v2Pool(B, C), v2Pool(A, C)];
+    const router = stubRouter();
+    Object.assign(router, {
+      v3: {
+        getPool: async () => ({ liquidity: 1n }),
+        getSwapState: async () => ({ pool: { sqrtPriceX96: Q96 }, zeroForOne: true }), // Only read for the mid price
+      },
+    });
+
+    const all = await router.loadRoutes(pools, A, C);
+    assert.deepEqual(all.map(route => route.hops.map(hop => hop.version).join('+')).sort(), ['V2', 'V3+V2']);
+    const single = await router.loadRoutes(pools, A, C, { mixedVersions: false });
+    assert.deepEqual(single.map(pathOf), [`${A} → ${C}`]);
+  });
+});
+
+describe('planRoute', () => {
+  it('quotes a route hop by hop', async () => {
+    const [route] = await stubRouter().loadRoutes(POOLS, A, D, { maxHops: 2 });
+    const amountIn = 10n * E18;
+    const middle = getAmountOut(amountIn, 1_000n * E18, 1_000n * E18);
+    const quote = quoteRoute(route, amountIn);
+    assert.deepEqual(quote?.hopAmounts, [middle, getAmountOut(middle, 1_000n * E18, 1_000n * E18)]);
+  });
+
+  it('keeps a small order on the best single route', async () => {
+    const routes = await stubRouter().loadRoutes(POOLS, A, C, { maxHops: 2 });
+    const plan = planRoute(routes, E18 / 100n, { maxHops: 2 });
+
+    assert.equal(plan?.splits.length, 1);
+    assert.deepEqual(plan?.splits[0].path, [A, C]); // One fee instead of two
+  });
+
+  it('splits a large order over pool-disjoint routes when it pays', async () => {
+    const routes = await stubRouter().loadRoutes(POOLS, A, C, { maxHops: 2 });
+    const amountIn = 300n * E18;
+    const plan = planRoute(routes, amountIn, { maxHops: 2 });
+    const single = quoteRoute(routes.find(route => route.path.length === 2)!, amountIn)!;
+
+    assert.ok(plan);
+    assert.equal(plan.splits.length, 2);
+    assert.equal(plan.splits.reduce((total, split) => total + split.amountIn, 0n), amountIn);
+    assert.equal(plan.splits.reduce((total, split) => total + split.amountOut, 0n), plan.amountOut);
+    assert.ok(plan.amountOut > single.amountOut);
+
+    const pools = plan.splits.flatMap(split => split.hops.map(hop => hop.pool));
+    assert.equal(new Set(pools).size, pools.length);
+  });
+
+  it('returns null without an input or a route', async () => {
+    const routes = await stubRouter().loadRoutes(POOLS, A, C);
+    assert.equal(planRoute(routes, 0n), null);
+    assert.equal(planRoute([], E18), null);
+  });
+});
@@ -0,0 +1,45 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import { EvmClient } from '../src/evm/evm-client.js';
+
+describe('EvmClient.getFeeData', () => {
+  let server: Server;
+  let url: string;
+  let results: Record<string, unknown>;
+
+  before(async () => {
+    mock.method(console, 'log', () => {}); // Keeps the code's progress lines off the runner's stdout channel
+    server = createServer(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      const { id, method } = JSON.parse(body) as { id: number; method: string };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result: results[method] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('adds the tip to twice the base fee', async () => {
+    results = { eth_getBlockByNumber: { baseFeePerGas: '0x64' }, eth_maxPriorityFeePerGas: '0xa' };
+    assert.deepEqual(await new EvmClient(url).getFeeData(), { baseFeePerGas: 100n, maxFeePerGas: 210n, maxPriorityFeePerGas: 10n });
+  });
+
+  it('caps the tip at the gas price on nodes without a base fee', async () => {
+    results = { eth_getBlockByNumber: {}, eth_maxPriorityFeePerGas: '0x3e8', eth_gasPrice: '0x64' };
+    assert.deepEqual(await new EvmClient(url).getFeeData(), { baseFeePerGas: 100n, maxFeePerGas: 100n, maxPriorityFeePerGas: 100n });
+
+    results = { eth_getBlockByNumber: {}, eth_maxPriorityFeePerGas: '0xa', eth_gasPrice: '0x64' };
+    assert.equal((await new EvmClient(url).getFeeData()).maxPriorityFeePerGas, 10n);
+  });
+});
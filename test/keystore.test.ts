@@ -0,0 +1,79 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  changeKeystorePassphrase,
+  decryptKeystore,
+  encryptKeystore,
+  importKeystore,
+  readKeystore,
+  unlockKeystore,
+} from '../src/utils/keystore.js';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const OTHER_MNEMONIC = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+const ADDRESS = 'sei19rl4cm2hmr8afy4kldpxz3fka4jguq0a3vute5';
+const PASSPHRASE = 'correct horse battery';
+
+// PBKDF2 at its default cost takes a fraction of the default scrypt time
+describe('keystore', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sei-keystore-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips the normalized mnemonic and records both addresses', async () => {
+    const keystore = await encryptKeystore(`  ${MNEMONIC.replace(/ /g, '  ')} `, PASSPHRASE, 'pbkdf2');
+    assert.equal(keystore.address, ADDRESS);
+    assert.match(keystore.evmAddress, /^0x[0-9a-fA-F]{40}$/);
+    assert.ok(!JSON.stringify(keystore).includes('abandon'));
+
+    assert.equal(await decryptKeystore(keystore, PASSPHRASE), MNEMONIC);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const keystore = await encryptKeystore(MNEMONIC, PASSPHRASE, 'pbkdf2');
+    await assert.rejects(decryptKeystore(keystore, 'wrong passphrase'), /Incorrect passphrase/);
+  });
+
+  it('refuses a mnemonic that does not derive the recorded address', async () => {
+    const keystore = await encryptKeystore(MNEMONIC, PASSPHRASE, 'pbkdf2');
+    const other = await encryptKeystore(OTHER_MNEMONIC, PASSPHRASE, 'pbkdf2');
+    await assert.rejects(decryptKeystore({ ...keystore, address: other.address }, PASSPHRASE), /address mismatch/);
+  });
+
+  it('re-encrypts under a new passphrase and keeps the creation time', async () => {
+    const filePath = join(dir, 'change.json');
+    const imported = await importKeystore(MNEMONIC, PASSPHRASE, { kdf: 'pbkdf2', filePath });
+
+    await changeKeystorePassphrase(PASSPHRASE, 'a new passphrase', filePath);
+    await assert.rejects(unlockKeystore(PASSPHRASE, filePath), /Incorrect passphrase/);
+    assert.equal(await unlockKeystore('a new passphrase', filePath), MNEMONIC);
+    assert.equal(readKeystore(filePath).createdAt, imported.createdAt);
+  });
+
+  it('rejects keystore files with missing or mistyped fields', async () => {
+    const filePath = join(dir, 'shape.json');
+    await importKeystore(MNEMONIC, PASSPHRASE, { kdf: 'pbkdf2', filePath, overwrite: true });
+    const valid = JSON.parse(readFileSync(filePath, 'utf8')) as Record<string, unknown>;
+
+    const write = (content: unknown) => writeFileSync(filePath, JSON.stringify(content));
+    write({ ...valid, ciphertext: undefined });
+    assert.throws(() => readKeystore(filePath), /bad ciphertext/);
+    write({ ...valid, kdfparams: { ...(valid.kdfparams as object), iterations: '600000' } });
+    assert.throws(() => readKeystore(filePath), /bad kdfparams/);
+    write({ ...valid, cipherparams: { iv: 'not hex' } });
+    assert.throws(() => readKeystore(filePath), /bad cipherparams/);
+    write({ ...valid, version: 2 });
+    assert.throws(() => readKeystore(filePath), /Unsupported keystore format/);
+    writeFileSync(filePath, '{');
+    assert.throws(() => readKeystore(filePath), /not valid JSON/);
+  });
+});
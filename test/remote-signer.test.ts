@@ -0,0 +1,77 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { sha256 } from '@cosmjs/crypto';
+import { toHex } from '@cosmjs/encoding';
+import { MnemonicSigner } from '../src/signers/mnemonic-signer.js';
+import { RemoteSigner } from '../src/signers/remote-signer.js';
+import { createSignerServer } from '../src/signers/signer-server.js';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const TOKEN = 'test-token';
+
+describe('remote signer against a local signer server', () => {
+  let server: Server;
+  let url: string;
+  let local: MnemonicSigner;
+
+  before(async () => {
+    mock.method(console, 'log', () => {}); // Keeps the code's progress lines off the runner's stdout channel
+    local = await MnemonicSigner.fromMnemonic(MNEMONIC, 0);
+    server = createSignerServer({
+      getSigner: async (accountIndex) => MnemonicSigner.fromMnemonic(MNEMONIC, accountIndex),
+      token: TOKEN,
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('returns the account of the requested index', async () => {
+    const remote = await RemoteSigner.connect({ url, token: TOKEN });
+    const [account, expected] = await Promise.all([remote.getAccount(), local.getAccount()]);
+    assert.equal(account.address, expected.address);
+    assert.equal(account.evmAddress, expected.evmAddress);
+    assert.equal(toHex(account.pubkey), toHex(expected.pubkey));
+
+    const other = await new RemoteSigner({ url, token: TOKEN, accountIndex: 1 }).getAccount();
+    assert.notEqual(other.address, expected.address);
+  });
+
+  it('signs digests with the account key', async () => {
+    const remote = new RemoteSigner({ url, token: TOKEN });
+    const digest = sha256(new TextEncoder().encode('remote signer test'));
+    const signature = await remote.signDigest(digest);
+    const expected = await local.signDigest(digest);
+    assert.equal(toHex(signature.r), toHex(expected.r));
+    assert.equal(toHex(signature.s), toHex(expected.s));
+    assert.equal(signature.recovery, expected.recovery);
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    await assert.rejects(RemoteSigner.connect({ url }), /\/account failed: 401/);
+    await assert.rejects(RemoteSigner.connect({ url, token: 'wrong' }), /\/account failed: 401/);
+    await assert.rejects(RemoteSigner.connect({ url, token: 'test-tokex' }), /\/account failed: 401/);
+  });
+
+  it('rejects malformed request bodies', async () => {
+    const post = (path: string, body: string) => fetch(`${url}${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}` },
+      body,
+    });
+
+    assert.equal((await post('/account', 'not json')).status, 400);
+    assert.equal((await post('/account', JSON.stringify({ accountIndex: -1 }))).status, 400);
+    assert.equal((await post('/sign/digest', JSON.stringify({ digest: 'abcd' }))).status, 400);
+    assert.equal((await post('/sign/digest', JSON.stringify({ digest: 'zz'.repeat(32) }))).status, 400);
+    assert.equal((await post('/sign/direct', JSON.stringify({ signerAddress: 'sei1x', signDoc: {} }))).status, 400);
+    assert.equal((await post('/unknown', '{}')).status, 404);
+  });
+});
@@ -0,0 +1,71 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import { getNetwork, NetworkProfile } from '../src/config/networks.js';
+import { RewardsCompounder } from '../src/strategies/rewards-compounder.js';
+import { MnemonicSigner } from '../src/signers/mnemonic-signer.js';
+import { pubkeyToLinkedAddresses } from '../src/utils/address.js';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const LENDING_POOL = `0x${'1'.repeat(40)}`;
+const REWARDS_CONTROLLER = `0x${'2'.repeat(40)}`;
+// (address[], uint256[]) or address[] with every array empty
+const EMPTY_ARRAYS = '0x' + [0x40, 0x60, 0, 0].map(word => word.toString(16).padStart(64, '0')).join('');
+
+type RpcRequest = { id: number; method: string; params: unknown[] };
+
+describe('RewardsCompounder.getAccruedRewards', () => {
+  let server: Server;
+  let network: NetworkProfile;
+  let evmAddress: string;
+  const calls: { to: string; data: string }[] = [];
+
+  before(async () => {
+    mock.method(console, 'log', () => {}); // Keeps the code's progress lines off the runner's stdout channel
+    const signer = await MnemonicSigner.fromMnemonic(MNEMONIC);
+    evmAddress = pubkeyToLinkedAddresses((await signer.getAccount()).pubkey).evmAddress;
+
+    // EVM RPC with the account associated and no reserves or rewards on-chain
+    server = createServer(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      const request = JSON.parse(body) as RpcRequest;
+      let result: string;
+      if (request.method === 'sei_getEVMAddress') {
+        result = evmAddress.toLowerCase();
+      } else {
+        calls.push(request.params[0] as { to: string; data: string });
+        result = EMPTY_ARRAYS;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const local = getNetwork('local');
+    network = {
+      ...local,
+      evmRpcUrls: [`http://127.0.0.1:${(server.address() as AddressInfo).port}`],
+      contracts: { ...local.contracts, yeiFinance: { ...local.contracts.yeiFinance, LENDING_POOL, REWARDS_CONTROLLER } },
+    };
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('reads the rewards of a sei1 account from its associated EVM address', async () => {
+    const { address } = await (await MnemonicSigner.fromMnemonic(MNEMONIC)).getAccount();
+
+    assert.deepEqual(await new RewardsCompounder(network).getAccruedRewards(address), []);
+
+    const rewardsCall = calls.find(call => call.to.toLowerCase() === REWARDS_CONTROLLER);
+    assert.ok(rewardsCall, 'getAllUserRewards was called');
+    assert.ok(rewardsCall.data.toLowerCase().includes(evmAddress.slice(2).toLowerCase()));
+  });
+});
@@ -0,0 +1,62 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { isConnectionError, RpcEndpointPool } from '../src/utils/rpc-pool.js';
+
+const ENDPOINTS = ['https://a.example', 'https://b.example'];
+const probe = async () => 100;
+
+describe('RpcEndpointPool.withFailover', () => {
+  before(() => mock.method(console, 'log', () => {})); // Keeps the pool's progress lines off the runner's stdout channel
+  after(() => mock.restoreAll());
+
+  it('fails over to the next endpoint on connection errors', async () => {
+    const pool = new RpcEndpointPool(ENDPOINTS, { baseDelayMs: 1 }, probe);
+    const tried: string[] = [];
+
+    const result = await pool.withFailover(async url => {
+      tried.push(url);
+      if (url === ENDPOINTS[0]) {
+        throw new TypeError('fetch failed');
+      }
+      return 'ok';
+    });
+
+    assert.equal(result, 'ok');
+    assert.deepEqual(tried, ENDPOINTS);
+    assert.equal(pool.getActiveEndpoint(), ENDPOINTS[1]);
+    assert.equal(pool.getStatus().find(status => status.url === ENDPOINTS[0])?.healthy, false);
+  });
+
+  it('rethrows application errors without retrying or marking the endpoint', async () => {
+    const pool = new RpcEndpointPool(ENDPOINTS, { baseDelayMs: 1 }, probe);
+    let calls = 0;
+
+    await assert.rejects(
+      pool.withFailover(async () => {
+        calls++;
+        throw new Error('Query failed with (6): unknown variant `token_info`');
+      }),
+      /unknown variant/
+    );
+
+    assert.equal(calls, 1);
+    assert.ok(pool.getStatus().every(status => status.healthy));
+  });
+});
+
+describe('isConnectionError', () => {
+  it('classifies transport failures', () => {
+    assert.ok(isConnectionError(new TypeError('fetch failed')));
+    assert.ok(isConnectionError(new Error('HTTP 502 from https://a.example')));
+    assert.ok(isConnectionError(new Error('HTTP 429 from https://a.example')));
+    assert.ok(isConnectionError(new Error('Bad status on response: 503')));
+    assert.ok(isConnectionError(Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' })));
+    assert.ok(isConnectionError(new Error('request failed', { cause: new Error('connect ECONNREFUSED 127.0.0.1:26657') })));
+  });
+
+  it('leaves node answers alone', () => {
+    assert.ok(!isConnectionError(new Error('execution reverted')));
+    assert.ok(!isConnectionError(new Error('HTTP 400 from https://a.example')));
+    assert.ok(!isConnectionError(new Error('Query failed with (18): invalid request')));
+  });
+});
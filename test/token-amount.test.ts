@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EVM_SEI, parseUnits, SEI, TokenAmount } from '../src/utils/token-amount.js';
+
+describe('parseUnits', () => {
+  it('rejects excess precision when exact and rounds it otherwise', () => {
+    assert.equal(parseUnits('1.234567', 6), 1234567n);
+    assert.throws(() => parseUnits('1.2345675', 6), /more than 6 decimal places/);
+    assert.equal(parseUnits('1.2345675', 6, 'down'), 1234567n);
+    assert.equal(parseUnits('1.2345675', 6, 'up'), 1234568n);
+  });
+
+  it('reads numbers that print in exponent form', () => {
+    assert.equal(String(1e-7), '1e-7');
+    assert.throws(() => parseUnits(1e-7, 6), /more than 6 decimal places/);
+    assert.equal(parseUnits(1e-7, 6, 'down'), 0n);
+    assert.equal(parseUnits(1e-7, 6, 'up'), 1n);
+    assert.equal(parseUnits(1e-7, 18), 10n ** 11n);
+
+    assert.equal(String(1e21), '1e+21');
+    assert.equal(parseUnits(1e21, 6), 10n ** 27n);
+    assert.equal(parseUnits('2.5E3', 0), 2500n);
+  });
+
+  it('rejects input that is not a decimal', () => {
+    for (const value of ['', '.', '1.2.3', '0x10', 'abc', NaN, Infinity]) {
+      assert.throws(() => parseUnits(value, 6), /Invalid amount/);
+    }
+  });
+});
+
+describe('TokenAmount', () => {
+  it('rejects negative amounts from parse and from', () => {
+    assert.throws(() => TokenAmount.from('-1', SEI), /is negative/);
+    assert.throws(() => TokenAmount.from(-1, SEI), /is negative/);
+    assert.throws(() => TokenAmount.parse('-1e-30', SEI, 'up'), /is negative/); // Would round up to zero
+    assert.equal(TokenAmount.from('-0', SEI).raw, 0n);
+    assert.equal(TokenAmount.from(1.9999999, SEI).raw, 1999999n); // Numbers truncate
+  });
+
+  it('rounds mul and mulDiv in the requested direction', () => {
+    const amount = TokenAmount.parse('1.000001', SEI);
+    assert.equal(amount.mul('0.5').raw, 500000n);
+    assert.equal(amount.mul('0.5', 'up').raw, 500001n);
+    assert.equal(amount.mul(0.75).raw, 750000n);
+    assert.equal(amount.mulDiv(1n, 3n).raw, 333333n);
+    assert.equal(amount.mulDiv(1n, 3n, 'up').raw, 333334n);
+    assert.equal(amount.mulDiv(10_050n, 10_000n, 'up').raw, 1005002n);
+    assert.throws(() => amount.mulDiv(1n, 0n), /Division by zero/);
+  });
+
+  it('converts across decimals and rounds when precision is lost', () => {
+    // 6 → 18 decimals is exact
+    assert.equal(TokenAmount.parse('1.000001', SEI).convert('1.5', EVM_SEI).raw, 1_500_001_500_000_000_000n);
+
+    // 18 → 6 decimals drops the extra digits
+    const dust = TokenAmount.parse('0.0000000000000015', EVM_SEI);
+    assert.equal(dust.convert(1, SEI).raw, 0n);
+    assert.equal(dust.convert(1, SEI, 'up').raw, 1n);
+
+    const amount = TokenAmount.parse('1.5', EVM_SEI);
+    assert.equal(amount.convert('0.333333', SEI).raw, 499999n); // 0.4999995
+    assert.equal(amount.convert('0.333333', SEI, 'up').raw, 500000n);
+    assert.equal(amount.convert(1, SEI).convert(1, EVM_SEI).raw, amount.raw);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExtendedSecp256k1Signature, keccak256, Secp256k1 } from '@cosmjs/crypto';
+import { toHex } from '@cosmjs/encoding';
+import { PrivateKeySigner } from '../src/signers/private-key-signer.js';
+import {
+  Eip1559Transaction,
+  hashEip1559Transaction,
+  serializeEip1559Transaction,
+  signEip1559Transaction,
+} from '../src/evm/transaction.js';
+import { deriveEvmAddress } from '../src/utils/address.js';
+
+// Private key and address from the EIP-155 example
+const PRIVATE_KEY = '0x4646464646464646464646464646464646464646464646464646464646464646';
+const ADDRESS = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+const SECP256K1_HALF_N = 0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0n;
+
+const EMPTY_TX: Eip1559Transaction = {
+  chainId: 1,
+  nonce: 0,
+  maxPriorityFeePerGas: 0n,
+  maxFeePerGas: 0n,
+  gasLimit: 0n,
+  to: null,
+  value: 0n,
+  data: '0x',
+};
+
+const TRANSFER_TX: Eip1559Transaction = {
+  chainId: 1329,
+  nonce: 7,
+  maxPriorityFeePerGas: 0n,
+  maxFeePerGas: 1_000_000_000n,
+  gasLimit: 21_000n,
+  to: ADDRESS,
+  value: 10n ** 18n,
+  data: '0x',
+};
+
+describe('EIP-1559 serialization (RLP)', () => {
+  it('encodes zero values as empty strings', () => {
+    assert.equal(toHex(serializeEip1559Transaction(EMPTY_TX)), '02c901' + '80'.repeat(7) + 'c0');
+  });
+
+  it('encodes integers big-endian without leading zeros', () => {
+    assert.equal(
+      toHex(serializeEip1559Transaction(TRANSFER_TX)),
+      '02ed' + '820531' + '07' + '80' + '843b9aca00' + '825208' +
+        '949d8a62f656a8d1615c1294fd71e9cfb3e4855a4f' + '880de0b6b3a7640000' + '80' + 'c0',
+    );
+  });
+
+  it('uses long-form lengths above 55 bytes', () => {
+    const tx = { ...EMPTY_TX, data: '0x' + 'aa'.repeat(56) };
+    assert.equal(
+      toHex(serializeEip1559Transaction(tx)),
+      '02f842' + '01' + '80'.repeat(6) + 'b838' + 'aa'.repeat(56) + 'c0',
+    );
+  });
+
+  it('encodes access lists', () => {
+    const key = '0x' + '00'.repeat(31) + '01';
+    const tx = { ...EMPTY_TX, accessList: [{ address: ADDRESS, storageKeys: [key] }] };
+    assert.equal(
+      toHex(serializeEip1559Transaction(tx)),
+      '02f842' + '01' + '80'.repeat(7) +
+        'f838' + 'f7' + '949d8a62f656a8d1615c1294fd71e9cfb3e4855a4f' + 'e1' + 'a0' + key.slice(2),
+    );
+  });
+});
+
+describe('EIP-1559 signing', () => {
+  it('derives the EIP-155 example address', async () => {
+    const signer = await PrivateKeySigner.fromPrivateKey(PRIVATE_KEY);
+    assert.equal((await signer.getAccount()).evmAddress, ADDRESS);
+  });
+
+  it('signs a transaction the sender can be recovered from', async () => {
+    const signer = await PrivateKeySigner.fromPrivateKey(PRIVATE_KEY);
+    const digest = hashEip1559Transaction(TRANSFER_TX);
+    const signature = await signer.signDigest(digest);
+    const { rawTransaction, hash } = await signEip1559Transaction(TRANSFER_TX, signer);
+
+    const unsigned = toHex(serializeEip1559Transaction(TRANSFER_TX));
+    assert.equal(
+      rawTransaction,
+      '0x02f870' + unsigned.slice(4) + (signature.recovery === 0 ? '80' : '01') +
+        'a0' + toHex(signature.r) + 'a0' + toHex(signature.s),
+    );
+    assert.equal(hash, '0x' + toHex(keccak256(Buffer.from(rawTransaction.slice(2), 'hex'))));
+
+    const pubkey = Secp256k1.recoverPubkey(new ExtendedSecp256k1Signature(signature.r, signature.s, signature.recovery), digest);
+    assert.equal(deriveEvmAddress(pubkey), ADDRESS);
+    assert.ok(BigInt('0x' + toHex(signature.s)) <= SECP256K1_HALF_N, 'signature must use low s (EIP-2)');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HealthAsset, healthTotals, planHealthActions, solveRepay, solveSupply, solveWithdraw } from '../src/protocols/yei-health-solver.js';
+import { liquidationDropAt, liquidationPriceDrop, simulateLiquidation } from '../src/protocols/yei-liquidation.js';
+import { YeiFinance } from '../src/protocols/yei-finance.js';
+import { getNetwork } from '../src/config/networks.js';
+import { EVM_SEI, Token, TokenAmount } from '../src/utils/token-amount.js';
+
+const USDC: Token = { denom: 'erc20/0x0000000000000000000000000000000000000002', symbol: 'USDC', decimals: 6 };
+const WETH: Token = { denom: 'erc20/0x0000000000000000000000000000000000000003', symbol: 'WETH', decimals: 18 };
+
+function asset(token: Token, price: number, threshold: number, supplied: number, borrowed: number): HealthAsset & { liquidationPenalty: number } {
+  return {
+    asset: token.denom.replace('erc20/', '') || token.symbol,
+    symbol: token.symbol,
+    supplied: TokenAmount.parse(supplied, token),
+    borrowed: TokenAmount.parse(borrowed, token),
+    usedAsCollateral: supplied > 0,
+    price,
+    liquidationThreshold: threshold,
+    liquidationPenalty: 0.05,
+  };
+}
+
+// 1000 SEI at $0.50 with an 80% threshold against 200 USDC: HF = 1000 × 0.5 × 0.8 / 200 = 2
+const SEI_COLLATERAL = asset({ ...EVM_SEI, denom: 'erc20/0x0000000000000000000000000000000000000001' }, 0.5, 0.8, 1000, 0);
+const USDC_DEBT = asset(USDC, 1, 0.78, 0, 200);
+const POSITION = [SEI_COLLATERAL, USDC_DEBT];
+
+describe('health factor solver', () => {
+  it('computes the Pool health factor', () => {
+    assert.deepEqual(healthTotals(POSITION), { weightedCollateralBase: 400, debtBase: 200, healthFactor: 2 });
+    assert.equal(healthTotals([SEI_COLLATERAL]).healthFactor, Infinity);
+  });
+
+  it('sizes the repay for a target health factor', () => {
+    // 200 - 400 / 2.5 = 40 USDC
+    const repay = solveRepay(POSITION, 'USDC', 2.5);
+    assert.equal(repay.amount.toString(), '40');
+    assert.equal(repay.healthFactor, 2.5);
+    assert.ok(repay.reachesTarget);
+  });
+
+  it('caps the repay at the debt owed in that asset', () => {
+    const position = [SEI_COLLATERAL, asset(USDC, 1, 0.78, 0, 20), asset(WETH, 2000, 0.8, 0, 0.09)];
+    // Debt 20 + 180 = 200; HF 4 needs debt 100, USDC alone can only remove 20
+    const repay = solveRepay(position, 'USDC', 4);
+    assert.equal(repay.amount.toString(), '20');
+    assert.equal(repay.healthFactor, 400 / 180);
+    assert.equal(repay.reachesTarget, false);
+  });
+
+  it('sizes the collateral top-up and the safe withdrawal', () => {
+    // (2.5 × 200 - 400) / (0.5 × 0.8) = 250 SEI
+    assert.equal(solveSupply(POSITION, 'SEI', 2.5).amount.toString(), '250');
+    // (400 - 1.5 × 200) / (0.5 × 0.8) = 250 SEI
+    const withdraw = solveWithdraw(POSITION, 'SEI', 1.5);
+    assert.equal(withdraw.amount.toString(), '250');
+    assert.equal(withdraw.healthFactor, 1.5);
+  });
+
+  it('plans repays and top-ups below target, withdrawals above it', () => {
+    assert.deepEqual(planHealthActions(POSITION, 2.5).map(action => action.action), ['REPAY', 'SUPPLY']);
+    assert.deepEqual(planHealthActions(POSITION, 1.5).map(action => action.action), ['WITHDRAW']);
+  });
+
+  it('rejects targets at or below 1', () => {
+    assert.throws(() => solveRepay(POSITION, 'USDC', 1), /above 1/);
+  });
+
+  it('sizes the emergency repay from the on-chain thresholds', async () => {
+    const result = await new YeiFinance(getNetwork('local')).emergencyRepay(POSITION, 'USDC', 2.5);
+    assert.equal(result.repay.amount.toString(), '40');
+    assert.equal(result.newHealthFactor, 2.5);
+    assert.equal(result.status, 'SAFE');
+  });
+});
+
+describe('liquidation simulator', () => {
+  it('finds the collateral price drop that reaches HF 1', () => {
+    assert.equal(liquidationPriceDrop(POSITION), 0.5);
+    assert.equal(liquidationPriceDrop([SEI_COLLATERAL]), null);
+    assert.equal(liquidationDropAt(2), 0.5);
+    assert.equal(liquidationDropAt(0.8), 0);
+  });
+
+  it('replays one liquidation with the close factor and bonus', () => {
+    // 60% drop: SEI at $0.20, HF = 160 / 200 = 0.8 < 0.95, so the whole debt may be repaid,
+    // but the 1000 SEI are worth only $200: all of it is seized for 200 / 1.05 USDC of debt
+    const outcome = simulateLiquidation([SEI_COLLATERAL, USDC_DEBT], 0.6);
+    assert.ok(outcome.liquidatable);
+    assert.equal(outcome.closeFactor, 1);
+    assert.ok(Math.abs(outcome.healthFactor - 0.8) < 1e-9);
+    assert.equal(outcome.collateralSeized?.toString(), '1000');
+    assert.equal(outcome.debtRepaid?.toString(), '190.47619');
+
+    const healthy = simulateLiquidation([SEI_COLLATERAL, USDC_DEBT], 0.3);
+    assert.equal(healthy.liquidatable, false);
+    assert.equal(healthy.debtRepaid, null);
+  });
+});